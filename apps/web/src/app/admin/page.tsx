@@ -5,6 +5,7 @@ import { isSuperAdmin } from '@/lib/rbac'
 import { prisma } from '@rolhack/database'
 import { AdminProjectActions } from './admin-project-actions'
 import { UsersList } from './users-list'
+import { RunMaintenance } from './run-maintenance'
 
 export default async function AdminPage() {
   const session = await auth()
@@ -42,6 +43,13 @@ export default async function AdminPage() {
     },
   })
 
+  // Projects for the run maintenance filter
+  const allProjects = await prisma.project.findMany({
+    where: { deletedAt: null },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true },
+  })
+
   // Get all users
   const users = await prisma.user.findMany({
     where: { deletedAt: null },
@@ -94,6 +102,11 @@ export default async function AdminPage() {
           </div>
         </div>
 
+        {/* Bulk run maintenance */}
+        <div className="mb-8">
+          <RunMaintenance projects={allProjects} />
+        </div>
+
         {/* Users list */}
         <div className="mb-8">
           <UsersList
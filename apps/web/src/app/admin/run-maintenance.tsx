@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { BulkRunAction } from '@/lib/engine'
+
+interface Props {
+  projects: { id: string; name: string }[]
+}
+
+const ACTIONS: { value: BulkRunAction; label: string; hint: string }[] = [
+  { value: 'ARCHIVE', label: 'Archivar', hint: 'Runs activas sin actividad' },
+  { value: 'RESTORE', label: 'Restaurar', hint: 'Runs archivadas vuelven a activas' },
+  { value: 'PURGE', label: 'Purgar', hint: 'Borra definitivamente runs archivadas o eliminadas' },
+]
+
+// Bulk archive / restore / purge of runs older than N days
+export function RunMaintenance({ projects }: Props) {
+  const router = useRouter()
+  const [action, setAction] = useState<BulkRunAction>('ARCHIVE')
+  const [days, setDays] = useState(30)
+  const [projectId, setProjectId] = useState('')
+  const [confirming, setConfirming] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const selected = ACTIONS.find((a) => a.value === action)!
+
+  async function handleRun() {
+    // Purging cannot be undone - ask twice
+    if (action === 'PURGE' && !confirming) {
+      setConfirming(true)
+      return
+    }
+
+    setLoading(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/admin/runs/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, olderThanDays: days, projectId: projectId || undefined }),
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Error')
+      }
+
+      setMessage({ type: 'success', text: data.message })
+      router.refresh()
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Error desconocido' })
+    } finally {
+      setLoading(false)
+      setConfirming(false)
+    }
+  }
+
+  const inputClass =
+    'bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-primary'
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold text-white mb-4">Mantenimiento de runs</h2>
+      <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+          <select
+            value={action}
+            onChange={(e) => {
+              setAction(e.target.value as BulkRunAction)
+              setConfirming(false)
+            }}
+            className={inputClass}
+          >
+            {ACTIONS.map((a) => (
+              <option key={a.value} value={a.value}>{a.label}</option>
+            ))}
+          </select>
+          <span>runs sin actividad en</span>
+          <input
+            type="number"
+            min={0}
+            max={3650}
+            value={days}
+            onChange={(e) => setDays(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className={`w-20 ${inputClass}`}
+          />
+          <span>días de</span>
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+            <option value="">Todos los proyectos</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRun}
+            disabled={loading}
+            className={`px-3 py-1.5 text-xs font-bold rounded transition-colors disabled:opacity-50 ${
+              action === 'PURGE'
+                ? 'bg-red-600 hover:bg-red-700 text-white'
+                : 'bg-cyber-accent/10 border border-cyber-accent/30 hover:bg-cyber-accent/20 text-cyber-accent'
+            }`}
+          >
+            {loading ? '...' : confirming ? 'SI, PURGAR' : 'Aplicar'}
+          </button>
+          {confirming && (
+            <button
+              onClick={() => setConfirming(false)}
+              className="px-2 py-1 text-xs text-gray-400 hover:text-white transition-colors"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+        <p className="text-gray-500 text-xs">
+          {selected.hint}.{action === 'PURGE' && ' Esta accion no se puede deshacer.'}
+        </p>
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-cyber-primary' : 'text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
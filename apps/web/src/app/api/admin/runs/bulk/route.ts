@@ -0,0 +1,54 @@
+// =============================================================================
+// POST /api/admin/runs/bulk - Archive, restore or purge old runs (SUPERADMIN only)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import { bulkManageRuns, BulkRunActionInputSchema } from '@/lib/engine'
+
+const ACTION_LABELS = {
+  ARCHIVE: 'archivadas',
+  RESTORE: 'restauradas',
+  PURGE: 'purgadas',
+} as const
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Only SUPERADMIN can run bulk maintenance
+    if (!isSuperAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Solo SUPERADMIN puede gestionar runs en bloque' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = BulkRunActionInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const count = await bulkManageRuns(parsed.data)
+
+    return NextResponse.json({
+      message: `${count} runs ${ACTION_LABELS[parsed.data.action]}`,
+      count,
+    })
+  } catch (error) {
+    console.error('[API] POST /api/admin/runs/bulk error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+// =============================================================================
+// GET /api/projects/:projectId/definitions/:definitionId/diff
+// =============================================================================
+// Structural diff from another version to this one.
+// Query: ?from=<definitionId> (defaults to the previous version)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@rolhack/database'
+import { auth } from '@/lib/auth'
+import { canEditProject } from '@/lib/rbac'
+import { diffProjectData } from '@/lib/engine'
+import type { ProjectData } from '@/lib/engine'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; definitionId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { projectId, definitionId } = await params
+    const user = session.user
+
+    // RBAC: Must be OWNER or SUPERADMIN to view definition data
+    const canEdit = await canEditProject(user, projectId)
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: 'No tienes permiso para ver las definiciones de este proyecto' },
+        { status: 403 }
+      )
+    }
+
+    const select = { id: true, projectId: true, version: true, data: true }
+    const definition = await prisma.projectDefinition.findUnique({
+      where: { id: definitionId },
+      select,
+    })
+
+    if (!definition || definition.projectId !== projectId) {
+      return NextResponse.json(
+        { error: 'Definición no encontrada' },
+        { status: 404 }
+      )
+    }
+
+    // Base version: explicit, or the one right before
+    const fromId = request.nextUrl.searchParams.get('from')
+    const base = fromId
+      ? await prisma.projectDefinition.findUnique({ where: { id: fromId }, select })
+      : await prisma.projectDefinition.findFirst({
+          where: { projectId, version: { lt: definition.version } },
+          orderBy: { version: 'desc' },
+          select,
+        })
+
+    if (!base || base.projectId !== projectId) {
+      return NextResponse.json(
+        { error: fromId ? 'Versión base no encontrada' : 'No hay una versión anterior' },
+        { status: 404 }
+      )
+    }
+
+    let diff
+    try {
+      diff = diffProjectData(
+        JSON.parse(base.data) as ProjectData,
+        JSON.parse(definition.data) as ProjectData
+      )
+    } catch {
+      return NextResponse.json(
+        { error: 'Datos de la definición corruptos' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      from: { id: base.id, version: base.version },
+      to: { id: definition.id, version: definition.version },
+      diff,
+    })
+  } catch (error) {
+    console.error(
+      '[API] GET /api/projects/[projectId]/definitions/[definitionId]/diff error:',
+      error
+    )
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,12 +2,17 @@
 // GET/PATCH /api/projects/:projectId/definitions/:definitionId
 // =============================================================================
 // GET: Get a specific definition version with data
-// PATCH: Activate a specific version
+// PATCH: Activate a specific version (optionally migrating active runs)
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@rolhack/database'
 import { auth } from '@/lib/auth'
 import { isSuperAdmin, canEditProject } from '@/lib/rbac'
+import {
+  previewRunMigrations,
+  activateDefinitionWithMigration,
+  EngineError,
+} from '@/lib/engine'
 
 // =============================================================================
 // GET - Get specific version with data
@@ -105,6 +110,9 @@ export async function GET(
 // =============================================================================
 // PATCH - Activate a version
 // =============================================================================
+// Body: { isActive: true, dryRun?: boolean, migrateRuns?: boolean }
+// - dryRun: report what migrating the active runs would change, activate nothing
+// - migrateRuns: upgrade the active runs on other versions, then activate
 
 export async function PATCH(
   request: NextRequest,
@@ -173,6 +181,27 @@ export async function PATCH(
       })
     }
 
+    // Dry run: per-run migration report, nothing is written
+    if (body.dryRun === true) {
+      const runs = await previewRunMigrations(projectId, definitionId)
+      return NextResponse.json({ dryRun: true, version: definition.version, runs })
+    }
+
+    // Upgrade the active runs together with the activation
+    if (body.migrateRuns === true) {
+      const runs = await activateDefinitionWithMigration(projectId, definitionId)
+
+      console.log(
+        `[API] Activated definition v${definition.version} for project ${projectId} by ${user.email} (${runs.length} runs migrated)`
+      )
+
+      return NextResponse.json({
+        message: `Versión ${definition.version} activada — ${runs.length} runs migradas`,
+        version: definition.version,
+        runs,
+      })
+    }
+
     // Check for active runs on ANOTHER version (warn if switching)
     const activeRunsOnOtherVersions = await prisma.run.count({
       where: {
@@ -189,7 +218,7 @@ export async function PATCH(
     if (activeRunsOnOtherVersions > 0 && !isSuperAdmin(user)) {
       return NextResponse.json(
         {
-          error: 'Hay runs activas en otras versiones. Contacta a un admin para cambiar.',
+          error: 'Hay runs activas en otras versiones. Migralas o contacta a un admin para cambiar.',
           activeRunsCount: activeRunsOnOtherVersions,
         },
         { status: 409 }
@@ -224,6 +253,13 @@ export async function PATCH(
       '[API] PATCH /api/projects/[projectId]/definitions/[definitionId] error:',
       error
     )
+
+    if (error instanceof EngineError) {
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,135 @@
+// =============================================================================
+// GET/PUT/DELETE /api/projects/:projectId/definitions/draft
+// =============================================================================
+// Editor autosave: the current user's unsaved work on the definition. Drafts
+// are not versions - they are never played and may not pass validation yet.
+// GET: The draft, or null
+// PUT: Save the draft. Body: { data, baseDefinitionId? }
+// DELETE: Discard the draft
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@rolhack/database'
+import { auth } from '@/lib/auth'
+import { canEditProject } from '@/lib/rbac'
+import { DefinitionDraftInputSchema } from '@/lib/engine'
+
+type Params = { params: Promise<{ projectId: string }> }
+
+// Auth and RBAC shared by every method: OWNER or SUPERADMIN (editor tool)
+async function authorize(projectId: string) {
+  const session = await auth()
+  if (!session?.user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const canEdit = await canEditProject(session.user, projectId)
+  if (!canEdit) {
+    return {
+      error: NextResponse.json(
+        { error: 'No tienes permiso para editar este proyecto' },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { user: session.user }
+}
+
+// =============================================================================
+// GET - Current user's draft
+// =============================================================================
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params
+    const { user, error } = await authorize(projectId)
+    if (error) return error
+
+    const draft = await prisma.definitionDraft.findUnique({
+      where: { projectId_userId: { projectId, userId: user.id } },
+      select: { data: true, baseDefinitionId: true, updatedAt: true },
+    })
+
+    if (!draft) {
+      return NextResponse.json({ draft: null })
+    }
+
+    return NextResponse.json({
+      draft: {
+        data: JSON.parse(draft.data),
+        baseDefinitionId: draft.baseDefinitionId,
+        updatedAt: draft.updatedAt.toISOString(),
+      },
+    })
+  } catch (error) {
+    console.error('[API] GET /api/projects/[projectId]/definitions/draft error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// =============================================================================
+// PUT - Save draft
+// =============================================================================
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params
+    const { user, error } = await authorize(projectId)
+    if (error) return error
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = DefinitionDraftInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const data = JSON.stringify(parsed.data.data)
+    const baseDefinitionId = parsed.data.baseDefinitionId ?? null
+
+    const draft = await prisma.definitionDraft.upsert({
+      where: { projectId_userId: { projectId, userId: user.id } },
+      create: { projectId, userId: user.id, data, baseDefinitionId },
+      update: { data, baseDefinitionId },
+      select: { updatedAt: true },
+    })
+
+    return NextResponse.json({ updatedAt: draft.updatedAt.toISOString() })
+  } catch (error) {
+    console.error('[API] PUT /api/projects/[projectId]/definitions/draft error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// =============================================================================
+// DELETE - Discard draft
+// =============================================================================
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params
+    const { user, error } = await authorize(projectId)
+    if (error) return error
+
+    await prisma.definitionDraft.deleteMany({
+      where: { projectId, userId: user.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] DELETE /api/projects/[projectId]/definitions/draft error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,5 @@
 // =============================================================================
-// GET /api/projects/:projectId/my-runs - List user's runs for this project
+// GET /api/projects/:projectId/my-runs - List user's runs (owned or team) for this project
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server'
@@ -32,11 +32,11 @@ export async function GET(
       }
     }
 
-    // Get runs for this project owned by current user
+    // Get runs for this project owned by, or shared with, the current user
     const runs = await prisma.run.findMany({
       where: {
         projectId,
-        ownerUserId: user.id,
+        OR: [{ ownerUserId: user.id }, { participants: { some: { userId: user.id } } }],
         deletedAt: null,
       },
       orderBy: { updatedAt: 'desc' },
@@ -0,0 +1,75 @@
+// =============================================================================
+// POST /api/projects/:projectId/simulate - Difficulty report of a definition
+// =============================================================================
+// Body: { data, iterations?, dice?, strategy? } - data may be unsaved editor
+// data; it must pass full validation. The simulation yields to the event loop
+// as it goes and large definitions get fewer iterations (see simulateProject).
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { canEditProject } from '@/lib/rbac'
+import { validateProjectDataFull } from '@/lib/engine/validation'
+import { simulateProject, parseDiceExpression, SimulationInputSchema } from '@/lib/engine'
+import type { ProjectData } from '@/lib/engine'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { projectId } = await params
+
+    // RBAC: Must be OWNER or SUPERADMIN (editor tool)
+    const canEdit = await canEditProject(session.user, projectId)
+    if (!canEdit) {
+      return NextResponse.json(
+        { error: 'No tienes permiso para editar este proyecto' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = SimulationInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const validation = validateProjectDataFull(parsed.data.data)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Corrige los errores de validación antes de simular', errors: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.dice && !parseDiceExpression(parsed.data.dice).success) {
+      return NextResponse.json(
+        { error: `Expresión de dados inválida: ${parsed.data.dice}` },
+        { status: 400 }
+      )
+    }
+
+    const report = await simulateProject(parsed.data.data as ProjectData, {
+      iterations: parsed.data.iterations,
+      dice: parsed.data.dice,
+      strategy: parsed.data.strategy,
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('[API] POST /api/projects/[projectId]/simulate error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
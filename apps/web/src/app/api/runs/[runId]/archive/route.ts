@@ -0,0 +1,71 @@
+// =============================================================================
+// API /api/runs/:runId/archive
+// POST - Archive a run
+// DELETE - Unarchive a run (back to the active list)
+// Requires: run owner, OWNER role or SUPERADMIN
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import { archiveRun, unarchiveRun, canManageRun, EngineError } from '@/lib/engine'
+
+async function setArchived(
+  method: 'POST' | 'DELETE',
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Auth check
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+    const isAdmin = isSuperAdmin(user)
+
+    // Permission check
+    const canManage = await canManageRun(user.id, runId, isAdmin)
+    if (!canManage) {
+      return NextResponse.json(
+        { error: 'Solo el dueño de la run, OWNER o SUPERADMIN pueden archivarla' },
+        { status: 403 }
+      )
+    }
+
+    if (method === 'POST') {
+      await archiveRun(runId)
+    } else {
+      await unarchiveRun(runId)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error(`[API] ${method} /api/runs/[runId]/archive error:`, error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  return setArchived('POST', context)
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  return setArchived('DELETE', context)
+}
@@ -0,0 +1,143 @@
+// =============================================================================
+// /api/runs/:runId/character - Decker profile of the current player
+// GET: get the character | PUT: create or update it | DELETE: remove it
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import {
+  canAccessRun,
+  getRunCharacter,
+  saveRunCharacter,
+  deleteRunCharacter,
+  CharacterProfileSchema,
+  EngineError,
+} from '@/lib/engine'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canAccess = await canAccessRun(user.id, runId, isSuperAdmin(user))
+    if (!canAccess) {
+      return NextResponse.json(
+        { error: 'No tienes acceso a esta run' },
+        { status: 403 }
+      )
+    }
+
+    const character = await getRunCharacter(runId, user.id)
+
+    return NextResponse.json({ character })
+  } catch (error) {
+    console.error('[API] GET /api/runs/[runId]/character error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canAccess = await canAccessRun(user.id, runId, isSuperAdmin(user))
+    if (!canAccess) {
+      return NextResponse.json(
+        { error: 'No tienes acceso a esta run' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = CharacterProfileSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const character = await saveRunCharacter(runId, user.id, parsed.data)
+
+    return NextResponse.json({ character })
+  } catch (error) {
+    console.error('[API] PUT /api/runs/[runId]/character error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canAccess = await canAccessRun(user.id, runId, isSuperAdmin(user))
+    if (!canAccess) {
+      return NextResponse.json(
+        { error: 'No tienes acceso a esta run' },
+        { status: 403 }
+      )
+    }
+
+    await deleteRunCharacter(runId, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] DELETE /api/runs/[runId]/character error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
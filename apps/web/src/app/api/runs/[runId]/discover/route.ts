@@ -5,7 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { isSuperAdmin } from '@/lib/rbac'
-import { discoverLinksService, canAccessRun, EngineError } from '@/lib/engine'
+import { discoverLinksService, canPlayRun, EngineError } from '@/lib/engine'
 
 export async function POST(
   _request: NextRequest,
@@ -22,25 +22,26 @@ export async function POST(
     const user = session.user
     const isAdmin = isSuperAdmin(user)
 
-    // Permission check
-    const canAccess = await canAccessRun(user.id, runId, isAdmin)
-    if (!canAccess) {
+    // Permission check (team runs: participants only)
+    const canPlay = await canPlayRun(user.id, runId, isAdmin)
+    if (!canPlay) {
       return NextResponse.json(
-        { error: 'No tienes acceso a esta run' },
+        { error: 'No puedes jugar en esta run' },
         { status: 403 }
       )
     }
 
     // Discover links
-    const result = await discoverLinksService(runId)
+    const result = await discoverLinksService(runId, { userId: user.id, name: user.name })
 
     return NextResponse.json(result)
   } catch (error) {
     console.error('[API] POST /api/runs/[runId]/discover error:', error)
 
     if (error instanceof EngineError) {
-      const status = error.code === 'NOT_FOUND' ? 404 : 400
-      return NextResponse.json({ error: error.message }, { status })
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
     }
 
     return NextResponse.json(
@@ -0,0 +1,157 @@
+// =============================================================================
+// GET /api/runs/:runId/events - Live run updates (Server-Sent Events)
+// =============================================================================
+// Streams a `snapshot` event on connect, then an `update` event after every
+// committed state write (new timeline events, warnings, position changes).
+// Spectators without a session authenticate with ?token=<spectator token>:
+// they get the redacted state, and the token is checked again before every
+// update and heartbeat, so revoked or expired links lose their open streams.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import {
+  verifySpectatorToken,
+  redactRunStateForSpectators,
+  redactRunUpdateForSpectators,
+} from '@/lib/spectator'
+import {
+  canAccessRun,
+  getRunInfo,
+  subscribeToRun,
+  EngineError,
+} from '@/lib/engine'
+
+export const dynamic = 'force-dynamic'
+
+// Keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25000
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const { runId } = await params
+    const spectatorToken = request.nextUrl.searchParams.get('token')
+
+    if (spectatorToken) {
+      // Read-only spectator link - must grant access to this exact run
+      const grant = await verifySpectatorToken(spectatorToken)
+      if (!grant || grant.runId !== runId) {
+        return NextResponse.json(
+          { error: 'Enlace de espectador inválido o caducado' },
+          { status: 403 }
+        )
+      }
+    } else {
+      const session = await auth()
+      if (!session?.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      const user = session.user
+      const isAdmin = isSuperAdmin(user)
+
+      const canAccess = await canAccessRun(user.id, runId, isAdmin)
+      if (!canAccess) {
+        return NextResponse.json(
+          { error: 'No tienes acceso a esta run' },
+          { status: 403 }
+        )
+      }
+    }
+
+    // Fails early (404/400) if the run is missing or deleted
+    const initial = await getRunInfo(runId)
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+
+        const write = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(chunk))
+          } catch {
+            cleanup()
+          }
+        }
+
+        const send = (event: string, data: unknown) => {
+          write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        }
+
+        // Spectator streams: re-check the token before writing anything.
+        // Writes are chained so updates keep their order across the checks.
+        let pending = Promise.resolve()
+        const deliver = (emit: () => void) => {
+          pending = pending.then(async () => {
+            if (closed) return
+            if (spectatorToken) {
+              const grant = await verifySpectatorToken(spectatorToken).catch(() => null)
+              if (!grant || grant.runId !== runId) {
+                cleanup()
+                return
+              }
+            }
+            emit()
+          })
+        }
+
+        // Subscribe before sending the snapshot so no write is missed;
+        // clients discard anything older than the revision they hold
+        const unsubscribe = subscribeToRun(runId, (update) =>
+          deliver(() => send('update', spectatorToken ? redactRunUpdateForSpectators(update) : update))
+        )
+        send('snapshot', {
+          runId,
+          revision: initial.revision,
+          state: spectatorToken ? redactRunStateForSpectators(initial.state) : initial.state,
+        })
+
+        const heartbeat = setInterval(() => deliver(() => write(': ping\n\n')), HEARTBEAT_INTERVAL_MS)
+
+        cleanup = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client
+          }
+        }
+
+        request.signal.addEventListener('abort', () => cleanup())
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('[API] GET /api/runs/[runId]/events error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
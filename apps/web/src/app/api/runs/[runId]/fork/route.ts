@@ -0,0 +1,67 @@
+// =============================================================================
+// POST /api/runs/:runId/fork - Branch a new run from a timeline event
+// Requires: run access and permission to create runs in the project
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import {
+  forkRun,
+  canForkRun,
+  EngineError,
+  ForkRunInputSchema,
+} from '@/lib/engine'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Auth check
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+    const isAdmin = isSuperAdmin(user)
+
+    // Permission check
+    const canFork = await canForkRun(user.id, runId, isAdmin)
+    if (!canFork) {
+      return NextResponse.json(
+        { error: 'No tienes permiso para crear runs en este proyecto' },
+        { status: 403 }
+      )
+    }
+
+    // Parse body
+    const body = await request.json().catch(() => ({}))
+    const parsed = ForkRunInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await forkRun(runId, user.id, parsed.data.eventId)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('[API] POST /api/runs/[runId]/fork error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,7 +7,7 @@ import { auth } from '@/lib/auth'
 import { isSuperAdmin } from '@/lib/rbac'
 import {
   attemptHackService,
-  canAccessRun,
+  canPlayRun,
   EngineError,
   AttemptHackInputSchema,
 } from '@/lib/engine'
@@ -27,11 +27,11 @@ export async function POST(
     const user = session.user
     const isAdmin = isSuperAdmin(user)
 
-    // Permission check
-    const canAccess = await canAccessRun(user.id, runId, isAdmin)
-    if (!canAccess) {
+    // Permission check (team runs: participants only)
+    const canPlay = await canPlayRun(user.id, runId, isAdmin)
+    if (!canPlay) {
       return NextResponse.json(
-        { error: 'No tienes acceso a esta run' },
+        { error: 'No puedes jugar en esta run' },
         { status: 403 }
       )
     }
@@ -47,11 +47,11 @@ export async function POST(
       )
     }
 
-    // Attempt hack with two-phase system
+    // Attempt hack with two-phase system (server rolls in SERVER dice mode)
     const result = await attemptHackService(
       runId,
-      parsed.data.inputValue,
-      parsed.data.failDieRoll
+      { userId: user.id, name: user.name },
+      parsed.data
     )
 
     return NextResponse.json(result)
@@ -59,8 +59,9 @@ export async function POST(
     console.error('[API] POST /api/runs/[runId]/hack error:', error)
 
     if (error instanceof EngineError) {
-      const status = error.code === 'NOT_FOUND' ? 404 : 400
-      return NextResponse.json({ error: error.message }, { status })
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
     }
 
     return NextResponse.json(
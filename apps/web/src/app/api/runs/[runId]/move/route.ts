@@ -7,7 +7,7 @@ import { auth } from '@/lib/auth'
 import { isSuperAdmin } from '@/lib/rbac'
 import {
   moveToNodeService,
-  canAccessRun,
+  canPlayRun,
   EngineError,
   MoveToNodeInputSchema,
 } from '@/lib/engine'
@@ -27,11 +27,11 @@ export async function POST(
     const user = session.user
     const isAdmin = isSuperAdmin(user)
 
-    // Permission check
-    const canAccess = await canAccessRun(user.id, runId, isAdmin)
-    if (!canAccess) {
+    // Permission check (team runs: participants only)
+    const canPlay = await canPlayRun(user.id, runId, isAdmin)
+    if (!canPlay) {
       return NextResponse.json(
-        { error: 'No tienes acceso a esta run' },
+        { error: 'No puedes jugar en esta run' },
         { status: 403 }
       )
     }
@@ -48,15 +48,20 @@ export async function POST(
     }
 
     // Move
-    const result = await moveToNodeService(runId, parsed.data.targetNodeId)
+    const result = await moveToNodeService(
+      runId,
+      { userId: user.id, name: user.name },
+      parsed.data.targetNodeId
+    )
 
     return NextResponse.json(result)
   } catch (error) {
     console.error('[API] POST /api/runs/[runId]/move error:', error)
 
     if (error instanceof EngineError) {
-      const status = error.code === 'NOT_FOUND' ? 404 : 400
-      return NextResponse.json({ error: error.message }, { status })
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
     }
 
     return NextResponse.json(
@@ -0,0 +1,48 @@
+// =============================================================================
+// DELETE /api/runs/:runId/participants/:userId - Leave or remove from a team run
+// Requires: the participant themself, or run owner / project OWNER / SUPERADMIN
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import { canManageRun, removeRunParticipant, EngineError } from '@/lib/engine'
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string; userId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId, userId } = await params
+    const user = session.user
+
+    const allowed = userId === user.id || await canManageRun(user.id, runId, isSuperAdmin(user))
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'No tienes permisos para quitar miembros de esta run' },
+        { status: 403 }
+      )
+    }
+
+    await removeRunParticipant(runId, userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] DELETE /api/runs/[runId]/participants/[userId] error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
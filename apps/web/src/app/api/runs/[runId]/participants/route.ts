@@ -0,0 +1,121 @@
+// =============================================================================
+// /api/runs/:runId/participants - Team members of a run
+// GET: list the team | POST: join the run (or add a member as run manager)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import {
+  addRunParticipant,
+  canAccessRun,
+  canManageRun,
+  listRunParticipants,
+  EngineError,
+} from '@/lib/engine'
+
+const AddParticipantSchema = z.object({
+  // Defaults to the current user (join)
+  userId: z.string().optional(),
+})
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canAccess = await canAccessRun(user.id, runId, isSuperAdmin(user))
+    if (!canAccess) {
+      return NextResponse.json(
+        { error: 'No tienes acceso a esta run' },
+        { status: 403 }
+      )
+    }
+
+    const participants = await listRunParticipants(runId)
+
+    return NextResponse.json({ participants })
+  } catch (error) {
+    console.error('[API] GET /api/runs/[runId]/participants error:', error)
+
+    if (error instanceof EngineError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+    const isAdmin = isSuperAdmin(user)
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = AddParticipantSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const targetUserId = parsed.data.userId ?? user.id
+
+    // Joining yourself needs run access; adding someone else needs run management
+    const allowed = targetUserId === user.id
+      ? await canAccessRun(user.id, runId, isAdmin)
+      : await canManageRun(user.id, runId, isAdmin)
+
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'No tienes permisos para añadir miembros a esta run' },
+        { status: 403 }
+      )
+    }
+
+    await addRunParticipant(runId, targetUserId)
+    const participants = await listRunParticipants(runId)
+
+    return NextResponse.json({ participants }, { status: 201 })
+  } catch (error) {
+    console.error('[API] POST /api/runs/[runId]/participants error:', error)
+
+    if (error instanceof EngineError) {
+      const status =
+        error.code === 'NOT_FOUND' ? 404
+        : error.code === 'PERMISSION_DENIED' ? 403
+        : error.code === 'STATE_CONFLICT' || error.code === 'ALREADY_PARTICIPANT' ? 409
+        : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// POST /api/runs/:runId/rollback - Roll a run back to a timeline checkpoint
+// Requires: OWNER role or SUPERADMIN
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import {
+  rollbackRunService,
+  canControlRun,
+  EngineError,
+  RollbackInputSchema,
+} from '@/lib/engine'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    // Auth check
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+    const isAdmin = isSuperAdmin(user)
+
+    // Permission check - only the GM (project OWNER) or SUPERADMIN
+    const canControl = await canControlRun(user.id, runId, isAdmin)
+    if (!canControl) {
+      return NextResponse.json(
+        { error: 'Solo OWNER o SUPERADMIN pueden controlar la run' },
+        { status: 403 }
+      )
+    }
+
+    // Parse body
+    const body = await request.json().catch(() => ({}))
+    const parsed = RollbackInputSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await rollbackRunService(runId, parsed.data.eventId)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[API] POST /api/runs/[runId]/rollback error:', error)
+
+    if (error instanceof EngineError) {
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
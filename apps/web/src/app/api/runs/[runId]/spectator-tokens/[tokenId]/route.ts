@@ -0,0 +1,46 @@
+// =============================================================================
+// DELETE /api/runs/:runId/spectator-tokens/:tokenId - Revoke a spectator link
+// Requires: run owner, OWNER role or SUPERADMIN
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import { canManageRun } from '@/lib/engine'
+import { revokeSpectatorToken } from '@/lib/spectator'
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string; tokenId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId, tokenId } = await params
+    const user = session.user
+
+    const canManage = await canManageRun(user.id, runId, isSuperAdmin(user))
+    if (!canManage) {
+      return NextResponse.json(
+        { error: 'Solo el dueño de la run, OWNER o SUPERADMIN pueden gestionar enlaces de espectador' },
+        { status: 403 }
+      )
+    }
+
+    const revoked = await revokeSpectatorToken(runId, tokenId)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Enlace no encontrado' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API] DELETE /api/runs/[runId]/spectator-tokens/[tokenId] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
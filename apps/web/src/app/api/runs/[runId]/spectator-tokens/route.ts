@@ -0,0 +1,97 @@
+// =============================================================================
+// /api/runs/:runId/spectator-tokens - Read-only spectator links
+// GET: list active links | POST: create a new link
+// Requires: run owner, OWNER role or SUPERADMIN
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { isSuperAdmin } from '@/lib/rbac'
+import { canManageRun } from '@/lib/engine'
+import {
+  createSpectatorToken,
+  listSpectatorTokens,
+  SPECTATOR_TOKEN_MAX_HOURS,
+} from '@/lib/spectator'
+
+const CreateSpectatorTokenSchema = z.object({
+  label: z.string().trim().max(60).optional(),
+  expiresInHours: z.number().int().min(1).max(SPECTATOR_TOKEN_MAX_HOURS),
+})
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canManage = await canManageRun(user.id, runId, isSuperAdmin(user))
+    if (!canManage) {
+      return NextResponse.json(
+        { error: 'Solo el dueño de la run, OWNER o SUPERADMIN pueden gestionar enlaces de espectador' },
+        { status: 403 }
+      )
+    }
+
+    const tokens = await listSpectatorTokens(runId)
+
+    return NextResponse.json({ tokens })
+  } catch (error) {
+    console.error('[API] GET /api/runs/[runId]/spectator-tokens error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const session = await auth()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { runId } = await params
+    const user = session.user
+
+    const canManage = await canManageRun(user.id, runId, isSuperAdmin(user))
+    if (!canManage) {
+      return NextResponse.json(
+        { error: 'Solo el dueño de la run, OWNER o SUPERADMIN pueden gestionar enlaces de espectador' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = CreateSpectatorTokenSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const token = await createSpectatorToken(runId, user.id, parsed.data)
+
+    return NextResponse.json({ token }, { status: 201 })
+  } catch (error) {
+    console.error('[API] POST /api/runs/[runId]/spectator-tokens error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
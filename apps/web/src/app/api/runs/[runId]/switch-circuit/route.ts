@@ -5,7 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { isSuperAdmin } from '@/lib/rbac'
-import { switchCircuitService, canAccessRun } from '@/lib/engine'
+import { switchCircuitService, canPlayRun, EngineError } from '@/lib/engine'
 
 export async function POST(
   request: NextRequest,
@@ -22,10 +22,10 @@ export async function POST(
     const isAdmin = isSuperAdmin(user)
 
     // Check access
-    const hasAccess = await canAccessRun(user.id, runId, isAdmin)
-    if (!hasAccess) {
+    const canPlay = await canPlayRun(user.id, runId, isAdmin)
+    if (!canPlay) {
       return NextResponse.json(
-        { error: 'No tienes acceso a esta run' },
+        { error: 'No puedes jugar en esta run' },
         { status: 403 }
       )
     }
@@ -40,17 +40,20 @@ export async function POST(
       )
     }
 
-    const result = await switchCircuitService(runId, targetCircuitId)
+    const result = await switchCircuitService(
+      runId,
+      { userId: user.id, name: user.name },
+      targetCircuitId
+    )
 
     return NextResponse.json(result)
   } catch (error) {
     console.error('[API] POST /api/runs/[runId]/switch-circuit error:', error)
 
-    if (error instanceof Error && error.message.includes('not found')) {
-      return NextResponse.json(
-        { error: 'Run no encontrada' },
-        { status: 404 }
-      )
+    if (error instanceof EngineError) {
+      const status =
+        error.code === 'NOT_FOUND' ? 404 : error.code === 'STATE_CONFLICT' ? 409 : 400
+      return NextResponse.json({ error: error.message, code: error.code }, { status })
     }
 
     return NextResponse.json(
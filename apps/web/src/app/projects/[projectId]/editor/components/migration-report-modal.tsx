@@ -0,0 +1,92 @@
+'use client'
+
+import type { RunMigrationPreview } from '@/lib/engine'
+
+interface Props {
+  version: number
+  runs: RunMigrationPreview[]
+  isLoading: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+// Dry-run report: what activating a version changes in each active run
+export function MigrationReportModal({ version, runs, isLoading, onConfirm, onCancel }: Props) {
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-cyber-darker border border-gray-700 rounded-lg p-6 max-w-2xl w-full mx-4">
+        <h3 className="text-white font-semibold mb-1">Activar v{version}</h3>
+        <p className="text-gray-400 text-sm mb-4">
+          {runs.length} run{runs.length > 1 ? 's' : ''} activa{runs.length > 1 ? 's' : ''} en otras
+          versiones se migrará{runs.length > 1 ? 'n' : ''}. Se conserva el progreso de los nodos y
+          enlaces que siguen existiendo.
+        </p>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto mb-4">
+          {runs.map(({ runId, runName, fromVersion, report }) => (
+            <div key={runId} className="p-3 rounded-lg border border-gray-800 bg-cyber-dark/50 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-white font-medium truncate">{runName || `Run ${runId.slice(0, 8)}`}</span>
+                <span className="text-xs text-gray-500 font-mono">v{fromVersion} → v{version}</span>
+              </div>
+              <ul className="text-xs text-gray-400 space-y-1">
+                <li>
+                  Nodos: {report.keptNodes} conservados
+                  {report.addedNodes.length > 0 && (
+                    <span className="text-green-400"> · +{report.addedNodes.length} nuevos</span>
+                  )}
+                  {report.removedNodes.length > 0 && (
+                    <span className="text-red-400">
+                      {' '}· −{report.removedNodes.length} eliminados ({report.removedNodes.map((n) => n.name).join(', ')})
+                    </span>
+                  )}
+                </li>
+                <li>
+                  Enlaces: {report.keptLinks} conservados
+                  {report.addedLinks.length > 0 && (
+                    <span className="text-green-400"> · +{report.addedLinks.length} nuevos</span>
+                  )}
+                  {report.removedLinks.length > 0 && (
+                    <span className="text-red-400"> · −{report.removedLinks.length} eliminados</span>
+                  )}
+                </li>
+                {report.removedCircuits.length > 0 && (
+                  <li className="text-red-400">
+                    Circuitos eliminados: {report.removedCircuits.map((c) => c.name).join(', ')}
+                  </li>
+                )}
+                {report.movedPlayers.length > 0 && (
+                  <li className="text-yellow-400">
+                    {report.movedPlayers.length} jugador{report.movedPlayers.length > 1 ? 'es' : ''} en
+                    nodos eliminados volverá{report.movedPlayers.length > 1 ? 'n' : ''} a un nodo de entrada
+                  </li>
+                )}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-gray-500 text-xs mb-4">
+          Los puntos de restauración anteriores a la migración dejan de estar disponibles.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isLoading}
+            className="px-4 py-2 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isLoading}
+            className="px-4 py-2 bg-cyber-primary text-cyber-darker hover:bg-cyber-primary/90 rounded font-medium transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Migrando...' : 'Migrar y activar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
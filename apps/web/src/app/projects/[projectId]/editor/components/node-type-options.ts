@@ -0,0 +1,10 @@
+import type { NodeType } from '@/lib/engine'
+
+// Node types offered by the table and visual editors (STANDARD is stored as absent)
+export const NODE_TYPE_OPTIONS: { value: NodeType; label: string }[] = [
+  { value: 'STANDARD', label: 'Estándar' },
+  { value: 'FIREWALL', label: 'Cortafuegos' },
+  { value: 'DATASTORE', label: 'Almacén de datos' },
+  { value: 'CONTROL', label: 'Nodo de control' },
+  { value: 'HONEYPOT', label: 'Honeypot' },
+]
@@ -5,7 +5,12 @@ interface Props {
   isValid: boolean
   isSaving: boolean
   message: { type: 'success' | 'error'; text: string } | null
+  undoLabel: string | null // Command undo would revert (null: nothing to undo)
+  redoLabel: string | null
+  draftSavedAt: string | null // Last autosave of the unsaved changes
   onSave: () => void
+  onUndo: () => void
+  onRedo: () => void
   onDismissMessage: () => void
 }
 
@@ -14,11 +19,39 @@ export function SaveControls({
   isValid,
   isSaving,
   message,
+  undoLabel,
+  redoLabel,
+  draftSavedAt,
   onSave,
+  onUndo,
+  onRedo,
   onDismissMessage,
 }: Props) {
+  const historyButtonClass =
+    'px-2 py-1 text-gray-400 hover:text-white rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed'
+
   return (
     <div className="flex items-center gap-3">
+      {/* Undo / redo */}
+      <div className="flex items-center">
+        <button
+          onClick={onUndo}
+          disabled={!undoLabel}
+          className={historyButtonClass}
+          title={undoLabel ? `Deshacer: ${undoLabel} (Ctrl+Z)` : 'Nada que deshacer'}
+        >
+          &#8630;
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!redoLabel}
+          className={historyButtonClass}
+          title={redoLabel ? `Rehacer: ${redoLabel} (Ctrl+Shift+Z)` : 'Nada que rehacer'}
+        >
+          &#8631;
+        </button>
+      </div>
+
       {/* Status indicators */}
       <div className="flex items-center gap-2 text-sm">
         {isDirty && (
@@ -26,6 +59,11 @@ export function SaveControls({
             Sin guardar
           </span>
         )}
+        {draftSavedAt && (
+          <span className="text-xs text-gray-500" title="Borrador guardado automáticamente; no es una versión">
+            Borrador {new Date(draftSavedAt).toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}
+          </span>
+        )}
         {!isValid && (
           <span className="px-2 py-0.5 bg-red-900/30 text-red-400 rounded text-xs">
             Errores
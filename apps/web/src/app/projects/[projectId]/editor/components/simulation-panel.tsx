@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import type { ProjectData, SimulationReport, SimulationStrategy } from '@/lib/engine'
+
+interface Props {
+  projectId: string
+  data: ProjectData
+  isValid: boolean
+}
+
+const STRATEGY_OPTIONS: { value: SimulationStrategy; label: string }[] = [
+  { value: 'DIRECT', label: 'Directo al nodo final' },
+  { value: 'EXPLORE', label: 'Explorar todo' },
+]
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`
+
+// Monte-Carlo difficulty report of the data being edited
+export function SimulationPanel({ projectId, data, isValid }: Props) {
+  const [strategy, setStrategy] = useState<SimulationStrategy>('DIRECT')
+  const [dice, setDice] = useState(data.meta.defaultDice ?? '1d20')
+  const [iterations, setIterations] = useState(1000)
+  const [report, setReport] = useState<SimulationReport | null>(null)
+  // Data the report was computed from, to flag it once the world changes
+  const [simulatedData, setSimulatedData] = useState<ProjectData | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runSimulation = async () => {
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/simulate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data, iterations, dice, strategy }),
+      })
+
+      const result = await res.json()
+
+      if (!res.ok) {
+        throw new Error(result.error || 'Error al simular')
+      }
+
+      setReport(result)
+      setSimulatedData(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const inputClass = 'bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs'
+
+  return (
+    <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-cyber-secondary font-medium mr-auto">Simulación de dificultad</p>
+        <select
+          value={strategy}
+          onChange={(e) => setStrategy(e.target.value as SimulationStrategy)}
+          className={inputClass}
+        >
+          {STRATEGY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={dice}
+          onChange={(e) => setDice(e.target.value)}
+          maxLength={60}
+          className={`w-20 font-mono ${inputClass}`}
+          title="Tirada de hackeo"
+        />
+        <input
+          type="number"
+          min={1}
+          max={5000}
+          value={iterations}
+          onChange={(e) => setIterations(Math.min(5000, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+          className={`w-20 ${inputClass}`}
+          title="Partidas por circuito"
+        />
+        <button
+          onClick={runSimulation}
+          disabled={!isValid || isRunning}
+          className="px-3 py-1 text-xs rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title={isValid ? undefined : 'Corrige los errores de validación antes de simular'}
+        >
+          {isRunning ? 'Simulando...' : 'Simular'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {report && (
+        <div className="space-y-3">
+          {simulatedData !== data && (
+            <p className="text-xs text-yellow-400/80">La definición ha cambiado desde la última simulación.</p>
+          )}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-normal py-1">Circuito</th>
+                <th className="font-normal py-1 text-right">Completado</th>
+                <th className="font-normal py-1 text-right">Bloqueo</th>
+                <th className="font-normal py-1 text-right">Game over</th>
+                <th className="font-normal py-1 text-right">Atascado</th>
+                <th className="font-normal py-1 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.circuits.map((circuit) => (
+                <tr key={circuit.circuitId} className="border-t border-gray-800 text-gray-300">
+                  <td className="py-1">{circuit.circuitName}</td>
+                  <td className="py-1 text-right text-green-400">{percent(circuit.completionRate)}</td>
+                  <td className="py-1 text-right text-yellow-400">{percent(circuit.lockdownRate)}</td>
+                  <td className="py-1 text-right text-red-400">{percent(circuit.gameOverRate)}</td>
+                  <td className="py-1 text-right text-gray-400">{percent(circuit.stuckRate)}</td>
+                  <td className="py-1 text-right text-gray-400">
+                    {circuit.averageActions !== null ? circuit.averageActions.toFixed(1) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {report.dangerousNodes.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 uppercase mb-1">Nodos más peligrosos</p>
+              <ul className="space-y-1">
+                {report.dangerousNodes.map((node) => (
+                  <li key={node.nodeId} className="text-xs text-gray-300">
+                    {node.nodeName}
+                    <span className="text-gray-500">
+                      {' '}· fallo {percent(node.failureRate)} · bloqueo {percent(node.lockdownRate)}
+                      {node.gameOverRate > 0 && ` · game over ${percent(node.gameOverRate)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.iterationsLimited && (
+            <p className="text-xs text-yellow-400/80">
+              Definición demasiado grande: la simulación se ha limitado a {report.iterations} partidas por circuito.
+            </p>
+          )}
+
+          <p className="text-[10px] text-gray-500">
+            {report.iterations} partidas por circuito con {report.dice}. Cada circuito se juega por separado y los
+            límites de tiempo no se agotan.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition, FailMode, LinkStyle } from '@/lib/engine'
+import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition, FailMode, LinkStyle, NodeType } from '@/lib/engine'
+import { NODE_TYPE_OPTIONS } from '../node-type-options'
 
 interface Props {
   data: ProjectData
@@ -44,6 +45,7 @@ export function TableEditor({
     rangeFailMode: FailMode
     rangeErrorMessage: string
     visibleByDefault: boolean
+    type?: NodeType
   }>({
     name: '',
     description: '',
@@ -171,6 +173,7 @@ export function TableEditor({
                 <thead>
                   <tr className="border-b border-gray-800 text-left text-gray-400">
                     <th className="py-2 px-2">Nombre</th>
+                    <th className="py-2 px-2">Tipo</th>
                     <th className="py-2 px-2">Level</th>
                     <th className="py-2 px-2">CD</th>
                     <th className="py-2 px-2 text-purple-400" title="Dado de fallo (D3-D20)">Dado</th>
@@ -192,6 +195,23 @@ export function TableEditor({
                           className="w-full bg-transparent border-b border-transparent hover:border-gray-600 focus:border-cyber-primary focus:outline-none px-1 py-0.5"
                         />
                       </td>
+                      <td className="py-2 px-2">
+                        <select
+                          value={node.type ?? 'STANDARD'}
+                          onChange={(e) => {
+                            const type = e.target.value as NodeType
+                            onUpdateNode(selectedCircuitId, node.id, {
+                              type: type === 'STANDARD' ? undefined : type,
+                              controls: type === 'CONTROL' ? node.controls : undefined,
+                            })
+                          }}
+                          className="bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-xs"
+                        >
+                          {NODE_TYPE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
                       <td className="py-2 px-2">
                         <input
                           type="number"
@@ -286,6 +306,20 @@ export function TableEditor({
                         className="w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
                       />
                     </td>
+                    <td className="py-2 px-2">
+                      <select
+                        value={newNode.type ?? 'STANDARD'}
+                        onChange={(e) => {
+                          const type = e.target.value as NodeType
+                          setNewNode({ ...newNode, type: type === 'STANDARD' ? undefined : type })
+                        }}
+                        className="bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-xs"
+                      >
+                        {NODE_TYPE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
                     <td className="py-2 px-2">
                       <input
                         type="number"
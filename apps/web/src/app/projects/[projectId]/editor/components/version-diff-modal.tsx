@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DefinitionDiff, EntityDiff, FieldChange } from '@/lib/engine'
+import type { VersionInfo } from '../editor-container'
+
+interface Props {
+  projectId: string
+  version: VersionInfo
+  versions: VersionInfo[]
+  isLoading: boolean
+  onRestore: (versionId: string) => void
+  onClose: () => void
+}
+
+const STATUS_STYLE = {
+  ADDED: { label: 'NUEVO', color: 'text-green-400' },
+  REMOVED: { label: 'ELIMINADO', color: 'text-red-400' },
+  CHANGED: { label: 'MODIFICADO', color: 'text-yellow-400' },
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="pl-3 space-y-0.5">
+      {changes.map((change) => (
+        <li key={change.field} className="font-mono text-[11px] text-gray-400">
+          <span className="text-gray-300">{change.field}</span>:{' '}
+          <span className="text-red-400/80 line-through">{formatValue(change.from)}</span>
+          {' → '}
+          <span className="text-green-400/80">{formatValue(change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function EntityChanges({ title, diff }: { title: string; diff: EntityDiff }) {
+  if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-gray-500 uppercase">{title}</p>
+      {diff.added.map((entry) => (
+        <p key={entry.id} className="text-xs text-green-400">+ {entry.name}</p>
+      ))}
+      {diff.removed.map((entry) => (
+        <p key={entry.id} className="text-xs text-red-400">− {entry.name}</p>
+      ))}
+      {diff.changed.map((entry) => (
+        <div key={entry.id}>
+          <p className="text-xs text-yellow-400">~ {entry.name}</p>
+          <FieldChanges changes={entry.changes} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Changes between two versions of the definition, with "restore as draft"
+export function VersionDiffModal({ projectId, version, versions, isLoading, onRestore, onClose }: Props) {
+  // Compare against the version right before by default (the next one for v1)
+  const previous =
+    versions.find((v) => v.version < version.version) ?? versions.find((v) => v.id !== version.id)
+  const [fromId, setFromId] = useState<string | null>(previous?.id ?? null)
+  const [diff, setDiff] = useState<DefinitionDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!fromId) return
+    let cancelled = false
+    setDiff(null)
+    setError(null)
+
+    fetch(`/api/projects/${projectId}/definitions/${version.id}/diff?from=${fromId}`)
+      .then(async (res) => {
+        const result = await res.json()
+        if (!res.ok) throw new Error(result.error || 'Error al comparar versiones')
+        if (!cancelled) setDiff(result.diff)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Error desconocido')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, version.id, fromId])
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-cyber-darker border border-gray-700 rounded-lg p-6 max-w-2xl w-full mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-white font-semibold">Cambios en v{version.version}</h3>
+          {versions.length > 1 && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              desde
+              <select
+                value={fromId ?? ''}
+                onChange={(e) => setFromId(e.target.value)}
+                className="bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs"
+              >
+                {versions
+                  .filter((v) => v.id !== version.id)
+                  .map((v) => (
+                    <option key={v.id} value={v.id}>v{v.version}</option>
+                  ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto mb-4">
+          {!fromId && <p className="text-sm text-gray-500">No hay otra versión con la que comparar.</p>}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {fromId && !diff && !error && <p className="text-sm text-gray-500">Comparando...</p>}
+          {diff?.identical && <p className="text-sm text-gray-500">Sin cambios estructurales.</p>}
+
+          {diff && diff.meta.length > 0 && (
+            <div className="p-3 rounded-lg border border-gray-800 bg-cyber-dark/50">
+              <p className="text-sm text-white mb-1">Metadatos</p>
+              <FieldChanges changes={diff.meta} />
+            </div>
+          )}
+
+          {diff?.circuits.map((circuit) => (
+            <div key={circuit.id} className="p-3 rounded-lg border border-gray-800 bg-cyber-dark/50 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white">{circuit.name}</span>
+                <span className={`text-xs font-mono ${STATUS_STYLE[circuit.status].color}`}>
+                  {STATUS_STYLE[circuit.status].label}
+                </span>
+              </div>
+              {circuit.changes.length > 0 && <FieldChanges changes={circuit.changes} />}
+              <EntityChanges title="Nodos" diff={circuit.nodes} />
+              <EntityChanges title="Enlaces" diff={circuit.links} />
+            </div>
+          ))}
+
+          {diff && (
+            <EntityChanges title="Portales" diff={diff.portals} />
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+          >
+            Cerrar
+          </button>
+          <button
+            onClick={() => onRestore(version.id)}
+            disabled={isLoading}
+            className="px-4 py-2 bg-gray-700 text-gray-200 hover:bg-gray-600 rounded font-medium transition-colors disabled:opacity-50"
+            title="Carga esta versión en el editor; al guardar se crea una versión nueva"
+          >
+            Restaurar como borrador
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
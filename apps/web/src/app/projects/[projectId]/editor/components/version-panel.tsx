@@ -6,6 +6,7 @@ interface Props {
   versions: VersionInfo[]
   activeVersionId: string | null
   onActivateVersion: (versionId: string) => void
+  onCompareVersion: (versionId: string) => void
   isLoading: boolean
 }
 
@@ -13,6 +14,7 @@ export function VersionPanel({
   versions,
   activeVersionId,
   onActivateVersion,
+  onCompareVersion,
   isLoading,
 }: Props) {
   return (
@@ -67,20 +69,34 @@ export function VersionPanel({
                 )}
               </div>
 
-              {!version.isActive && (
-                <button
-                  onClick={() => onActivateVersion(version.id)}
-                  disabled={isLoading}
-                  className="
-                    mt-2 w-full py-1.5 text-xs rounded
-                    bg-gray-700 text-gray-300 hover:bg-gray-600
-                    disabled:opacity-50 disabled:cursor-not-allowed
-                    transition-colors
-                  "
-                >
-                  Activar
-                </button>
-              )}
+              <div className="mt-2 flex gap-2">
+                {versions.length > 1 && (
+                  <button
+                    onClick={() => onCompareVersion(version.id)}
+                    className="
+                      flex-1 py-1.5 text-xs rounded
+                      border border-gray-700 text-gray-400 hover:text-white hover:border-gray-600
+                      transition-colors
+                    "
+                  >
+                    Cambios
+                  </button>
+                )}
+                {!version.isActive && (
+                  <button
+                    onClick={() => onActivateVersion(version.id)}
+                    disabled={isLoading}
+                    className="
+                      flex-1 py-1.5 text-xs rounded
+                      bg-gray-700 text-gray-300 hover:bg-gray-600
+                      disabled:opacity-50 disabled:cursor-not-allowed
+                      transition-colors
+                    "
+                  >
+                    Activar
+                  </button>
+                )}
+              </div>
             </div>
           ))}
         </div>
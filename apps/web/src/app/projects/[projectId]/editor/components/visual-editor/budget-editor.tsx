@@ -0,0 +1,108 @@
+'use client'
+
+import type { BudgetConfig, BudgetOutcome, CircuitDefinition } from '@/lib/engine'
+
+interface Props {
+  title: string
+  budget: BudgetConfig | undefined
+  // Circuits the player can be forced into (SWITCH_CIRCUIT)
+  switchTargets: CircuitDefinition[]
+  onChange: (budget: BudgetConfig | undefined) => void
+}
+
+const OUTCOME_OPTIONS: { value: BudgetOutcome; label: string }[] = [
+  { value: 'LOCKDOWN', label: 'Bloqueo' },
+  { value: 'GAME_OVER', label: 'Game over' },
+  { value: 'SWITCH_CIRCUIT', label: 'Cambio forzado de circuito' },
+]
+
+const DEFAULT_BUDGET: BudgetConfig = { actions: 10, onExpire: 'LOCKDOWN' }
+
+// Action budget / time limit and what happens when it runs out
+export function BudgetEditor({ title, budget, switchTargets, onChange }: Props) {
+  const parseLimit = (value: string) => {
+    const parsed = parseInt(value, 10)
+    return parsed > 0 ? parsed : undefined
+  }
+
+  return (
+    <div className="col-span-2 pt-3 border-t border-gray-800">
+      <label className="flex items-center gap-2 text-xs text-gray-400 mb-2">
+        <input
+          type="checkbox"
+          checked={!!budget}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_BUDGET : undefined)}
+        />
+        {title}
+      </label>
+
+      {budget && (
+        <div className="flex flex-wrap items-end gap-2 text-xs">
+          <div>
+            <label className="block text-gray-500 mb-1">Acciones</label>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={budget.actions ?? ''}
+              onChange={(e) => onChange({ ...budget, actions: parseLimit(e.target.value) })}
+              placeholder="—"
+              className="w-20 bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">Segundos</label>
+            <input
+              type="number"
+              min={10}
+              max={86400}
+              value={budget.seconds ?? ''}
+              onChange={(e) => onChange({ ...budget, seconds: parseLimit(e.target.value) })}
+              placeholder="—"
+              className="w-24 bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-500 mb-1">Al agotarse</label>
+            <select
+              value={budget.onExpire}
+              onChange={(e) => {
+                const onExpire = e.target.value as BudgetOutcome
+                onChange({
+                  ...budget,
+                  onExpire,
+                  switchToCircuitId: onExpire === 'SWITCH_CIRCUIT' ? budget.switchToCircuitId ?? switchTargets[0]?.id : undefined,
+                })
+              }}
+              className="bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+            >
+              {OUTCOME_OPTIONS.map((option) => (
+                <option
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.value === 'SWITCH_CIRCUIT' && switchTargets.length === 0}
+                >
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {budget.onExpire === 'SWITCH_CIRCUIT' && (
+            <div>
+              <label className="block text-gray-500 mb-1">Destino</label>
+              <select
+                value={budget.switchToCircuitId ?? ''}
+                onChange={(e) => onChange({ ...budget, switchToCircuitId: e.target.value })}
+                className="bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+              >
+                {switchTargets.map((circuit) => (
+                  <option key={circuit.id} value={circuit.id}>{circuit.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,478 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import type { CircuitDefinition, CircuitLayout, LinkDefinition, LinkStyle, NodeDefinition } from '@/lib/engine'
+import { layoutCircuit, computeLayout, countCrossings, DEFAULT_CIRCUIT_LAYOUT } from '@/lib/engine/layout'
+import { getLinkStrokeDash } from '@/app/runs/[runId]/network-map-modal'
+import { NODE_TYPE_ICONS } from '@/app/runs/[runId]/circuit-map'
+
+interface Props {
+  circuit: CircuitDefinition
+  onUpdateNode: (nodeId: string, updates: Partial<NodeDefinition>) => void
+  onAddLink: (link: LinkDefinition) => void
+  onUpdateLink: (linkId: string, updates: Partial<LinkDefinition>) => void
+  onDeleteLink: (linkId: string) => void
+  onUpdateLayout: (layout: CircuitLayout) => void
+  // Double click: open the node in the form view
+  onEditNode: (nodeId: string) => void
+}
+
+type Point = { x: number; y: number }
+
+// Pointer gesture in progress
+type Interaction =
+  | { type: 'move'; start: Point; origins: Record<string, Point> }
+  | { type: 'link'; fromId: string; pointer: Point }
+  | { type: 'marquee'; start: Point; pointer: Point; additive: boolean }
+
+// Editor palette (tailwind cyber colors)
+const COLORS = {
+  primary: '#00ff9f',
+  secondary: '#00b8ff',
+  accent: '#ff00ff',
+  text: '#d1d5db',
+  background: '#050508',
+}
+
+const GRID = 5
+const NODE_RADIUS = 3.5
+
+const LINK_STYLE_OPTIONS: { value: LinkStyle; label: string }[] = [
+  { value: 'solid', label: 'Sólido' },
+  { value: 'dashed', label: 'Discontinuo' },
+  { value: 'dotted', label: 'Punteado' },
+]
+
+const LAYOUT_OPTIONS: { value: CircuitLayout; label: string }[] = [
+  { value: 'LEVELS', label: 'Por nivel' },
+  { value: 'LAYERED', label: 'Por capas' },
+  { value: 'FORCE', label: 'Por fuerzas' },
+  { value: 'RADIAL', label: 'Radial' },
+]
+
+// Drag-and-drop map of a circuit, drawn like the in-run network map
+export function GraphCanvas({
+  circuit,
+  onUpdateNode,
+  onAddLink,
+  onUpdateLink,
+  onDeleteLink,
+  onUpdateLayout,
+  onEditNode,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [mode, setMode] = useState<'select' | 'link'>('select')
+  const [snap, setSnap] = useState(true)
+  const [selected, setSelected] = useState<string[]>([])
+  const [interaction, setInteraction] = useState<Interaction | null>(null)
+  // Positions while dragging - written to the definition on release
+  const [dragPositions, setDragPositions] = useState<Record<string, Point> | null>(null)
+  const [menu, setMenu] = useState<{ linkId: string; x: number; y: number } | null>(null)
+
+  const generateLinkId = () => `link-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+
+  const layout = useMemo(() => layoutCircuit(circuit), [circuit])
+  const crossings = useMemo(() => countCrossings(circuit, layout), [circuit, layout])
+  const positionOf = (nodeId: string): Point => dragPositions?.[nodeId] ?? layout[nodeId] ?? { x: 50, y: 50 }
+
+  // Nodes placed by hand (mapX/mapY) - the automatic layout skips them
+  const pinned = circuit.nodes.filter((node) => node.mapX !== undefined && node.mapY !== undefined)
+
+  const toSvgPoint = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const ctm = svgRef.current?.getScreenCTM()
+    if (!ctm) return { x: 0, y: 0 }
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse())
+    return { x: point.x, y: point.y }
+  }
+
+  // Map coordinates are 0-100; snapped to the grid or to one decimal
+  const place = (value: number) => {
+    const clamped = Math.min(100, Math.max(0, value))
+    return snap ? Math.round(clamped / GRID) * GRID : Math.round(clamped * 10) / 10
+  }
+
+  const nodeAt = (point: Point) =>
+    circuit.nodes.find((node) => {
+      const position = positionOf(node.id)
+      return Math.hypot(position.x - point.x, position.y - point.y) <= NODE_RADIUS + 0.5
+    })
+
+  const capture = (e: React.PointerEvent) => svgRef.current?.setPointerCapture(e.pointerId)
+
+  // =============================================================================
+  // POINTER GESTURES
+  // =============================================================================
+
+  const handleNodePointerDown = (e: React.PointerEvent, nodeId: string) => {
+    if (e.button !== 0) return
+    e.stopPropagation()
+    setMenu(null)
+    capture(e)
+    const point = toSvgPoint(e)
+
+    if (mode === 'link') {
+      setInteraction({ type: 'link', fromId: nodeId, pointer: point })
+      return
+    }
+
+    // Shift+click toggles the node in the selection without dragging
+    if (e.shiftKey) {
+      setSelected((prev) => (prev.includes(nodeId) ? prev.filter((id) => id !== nodeId) : [...prev, nodeId]))
+      return
+    }
+
+    const selection = selected.includes(nodeId) ? selected : [nodeId]
+    setSelected(selection)
+    setInteraction({
+      type: 'move',
+      start: point,
+      origins: Object.fromEntries(selection.map((id) => [id, positionOf(id)])),
+    })
+  }
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || mode !== 'select') return
+    setMenu(null)
+    capture(e)
+    const point = toSvgPoint(e)
+    setInteraction({ type: 'marquee', start: point, pointer: point, additive: e.shiftKey })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!interaction) return
+    const point = toSvgPoint(e)
+
+    if (interaction.type === 'move') {
+      const dx = point.x - interaction.start.x
+      const dy = point.y - interaction.start.y
+      setDragPositions(
+        Object.fromEntries(
+          Object.entries(interaction.origins).map(([id, origin]) => [id, { x: place(origin.x + dx), y: place(origin.y + dy) }])
+        )
+      )
+    } else {
+      setInteraction({ ...interaction, pointer: point })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!interaction) return
+    const point = toSvgPoint(e)
+
+    if (interaction.type === 'move' && dragPositions) {
+      for (const [id, position] of Object.entries(dragPositions)) {
+        onUpdateNode(id, { mapX: position.x, mapY: position.y })
+      }
+    }
+
+    if (interaction.type === 'link') {
+      const target = nodeAt(point)
+      const fromId = interaction.fromId
+      const exists = target && circuit.links.some(
+        (l) => (l.from === fromId && l.to === target.id) || (l.from === target.id && l.to === fromId)
+      )
+      if (target && target.id !== fromId && !exists) {
+        onAddLink({ id: generateLinkId(), from: fromId, to: target.id, style: 'solid', hidden: false, bidirectional: true })
+      }
+    }
+
+    if (interaction.type === 'marquee') {
+      const [minX, maxX] = [Math.min(interaction.start.x, point.x), Math.max(interaction.start.x, point.x)]
+      const [minY, maxY] = [Math.min(interaction.start.y, point.y), Math.max(interaction.start.y, point.y)]
+      const inside = circuit.nodes
+        .filter((node) => {
+          const { x, y } = positionOf(node.id)
+          return x >= minX && x <= maxX && y >= minY && y <= maxY
+        })
+        .map((node) => node.id)
+      setSelected((prev) => (interaction.additive ? Array.from(new Set([...prev, ...inside])) : inside))
+    }
+
+    setInteraction(null)
+    setDragPositions(null)
+  }
+
+  // Handled on the canvas: pointer capture retargets clicks to the svg
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const node = nodeAt(toSvgPoint(e))
+    if (node) onEditNode(node.id)
+  }
+
+  // Write the automatic positions into mapX/mapY, so they survive layout changes
+  const handleBakeLayout = () => {
+    const auto = computeLayout(circuit, circuit.layout ?? DEFAULT_CIRCUIT_LAYOUT)
+    for (const node of circuit.nodes) {
+      if (node.mapX !== undefined && node.mapY !== undefined) continue
+      onUpdateNode(node.id, { mapX: auto[node.id].x, mapY: auto[node.id].y })
+    }
+  }
+
+  // Hand the selected nodes (all of them when none is selected) back to the automatic layout
+  const handleReleasePositions = () => {
+    const targets = selected.length > 0 ? pinned.filter((node) => selected.includes(node.id)) : pinned
+    if (targets.length === 0) return
+    if (selected.length === 0 && !confirm(`Quitar la posición manual de ${targets.length} nodos?`)) return
+    for (const node of targets) {
+      onUpdateNode(node.id, { mapX: undefined, mapY: undefined })
+    }
+  }
+
+  const handleLinkContextMenu = (e: React.MouseEvent, linkId: string) => {
+    e.preventDefault()
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return
+    setMenu({ linkId, x: e.clientX - rect.left, y: e.clientY - rect.top })
+  }
+
+  // =============================================================================
+  // RENDER
+  // =============================================================================
+
+  const menuLink = menu ? circuit.links.find((l) => l.id === menu.linkId) : null
+
+  // Link endpoints on the node borders, so one-way arrowheads stay visible
+  const linkEnds = (link: LinkDefinition) => {
+    const from = positionOf(link.from)
+    const to = positionOf(link.to)
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1
+    const ux = (to.x - from.x) / length
+    const uy = (to.y - from.y) / length
+    return {
+      x1: from.x + ux * NODE_RADIUS,
+      y1: from.y + uy * NODE_RADIUS,
+      x2: to.x - ux * NODE_RADIUS,
+      y2: to.y - uy * NODE_RADIUS,
+    }
+  }
+
+  const toolClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded transition-colors ${
+      active ? 'bg-cyber-primary/20 text-cyber-primary' : 'text-gray-400 hover:text-white'
+    }`
+
+  return (
+    <div className="space-y-2">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2">
+        <button onClick={() => setMode('select')} className={toolClass(mode === 'select')}>
+          Seleccionar / mover
+        </button>
+        <button onClick={() => setMode('link')} className={toolClass(mode === 'link')}>
+          Dibujar enlaces
+        </button>
+        <label className="ml-auto flex items-center gap-1 text-xs text-gray-400">
+          <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} />
+          Ajustar a la cuadrícula
+        </label>
+        {selected.length > 1 && <span className="text-xs text-cyber-accent">{selected.length} seleccionados</span>}
+      </div>
+
+      {/* Automatic layout */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="flex items-center gap-1 text-gray-400">
+          Disposición automática
+          <select
+            value={circuit.layout ?? DEFAULT_CIRCUIT_LAYOUT}
+            onChange={(e) => onUpdateLayout(e.target.value as CircuitLayout)}
+            className="bg-cyber-dark border border-gray-600 rounded px-1 py-1"
+          >
+            {LAYOUT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleBakeLayout}
+          disabled={pinned.length === circuit.nodes.length}
+          className="px-2 py-1 rounded text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Guarda la disposición automática en mapX/mapY de los nodos sin posición manual"
+        >
+          Fijar posiciones
+        </button>
+        <button
+          onClick={handleReleasePositions}
+          disabled={pinned.length === 0}
+          className="px-2 py-1 rounded text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Los nodos sin mapX/mapY se colocan con la disposición automática"
+        >
+          {selected.length > 0 ? 'Liberar seleccionados' : 'Liberar todos'}
+        </button>
+        <span className="ml-auto text-gray-500">
+          {pinned.length}/{circuit.nodes.length} fijados · {crossings} {crossings === 1 ? 'cruce' : 'cruces'}
+        </span>
+      </div>
+
+      <div ref={containerRef} className="relative rounded-lg border border-gray-800 bg-cyber-darker" style={{ height: '60vh', minHeight: '400px' }}>
+        <svg
+          ref={svgRef}
+          viewBox="0 0 100 100"
+          className="w-full h-full select-none touch-none"
+          preserveAspectRatio="xMidYMid meet"
+          onPointerDown={handleBackgroundPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
+        >
+          <defs>
+            <pattern id="editor-grid" width={GRID} height={GRID} patternUnits="userSpaceOnUse">
+              <path d={`M ${GRID} 0 L 0 0 0 ${GRID}`} fill="none" stroke={COLORS.primary + '15'} strokeWidth="0.2" />
+            </pattern>
+            <marker id="editor-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="4" markerHeight="4" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.primary} />
+            </marker>
+          </defs>
+          <rect width="100" height="100" fill="url(#editor-grid)" />
+
+          {/* Links */}
+          {circuit.links.map((link) => {
+            const ends = linkEnds(link)
+            const color = link.hidden ? COLORS.secondary : COLORS.primary + 'bb'
+            return (
+              <g key={link.id} onContextMenu={(e) => handleLinkContextMenu(e, link.id)}>
+                {/* Wide invisible stroke: easier to right-click */}
+                <line {...ends} stroke="transparent" strokeWidth="2" />
+                <line
+                  {...ends}
+                  stroke={menu?.linkId === link.id ? COLORS.accent : color}
+                  strokeWidth="0.4"
+                  strokeDasharray={getLinkStrokeDash(link.style)}
+                  markerEnd={link.bidirectional === false ? 'url(#editor-arrow)' : undefined}
+                />
+              </g>
+            )
+          })}
+
+          {/* Link being drawn */}
+          {interaction?.type === 'link' && (
+            <line
+              x1={positionOf(interaction.fromId).x}
+              y1={positionOf(interaction.fromId).y}
+              x2={interaction.pointer.x}
+              y2={interaction.pointer.y}
+              stroke={COLORS.accent}
+              strokeWidth="0.4"
+              strokeDasharray="1,1"
+            />
+          )}
+
+          {/* Nodes */}
+          {circuit.nodes.map((node) => {
+            const { x, y } = positionOf(node.id)
+            const isSelected = selected.includes(node.id)
+            const color = isSelected ? COLORS.accent : node.visibleByDefault ? COLORS.primary : COLORS.secondary
+            const type = node.type ?? 'STANDARD'
+
+            return (
+              <g
+                key={node.id}
+                onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+                style={{ cursor: mode === 'link' ? 'crosshair' : 'move' }}
+              >
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={NODE_RADIUS}
+                  fill={COLORS.background}
+                  stroke={color}
+                  strokeWidth={isSelected ? 0.6 : 0.4}
+                  strokeDasharray={node.visibleByDefault ? undefined : '1,0.6'}
+                />
+                <text x={x} y={y} textAnchor="middle" dominantBaseline="central" fill={color} fontSize="2.5" fontWeight="bold" fontFamily="monospace">
+                  {node.level}
+                </text>
+                <text x={x} y={y + 6} textAnchor="middle" fill={COLORS.text} fontSize="1.8" fontFamily="monospace">
+                  {node.name.length > 18 ? node.name.substring(0, 18) + '..' : node.name}
+                </text>
+                {type !== 'STANDARD' && (
+                  <text x={x + NODE_RADIUS + 0.5} y={y + NODE_RADIUS + 0.5} textAnchor="middle" dominantBaseline="central" fill={COLORS.secondary} fontSize="2" fontFamily="monospace">
+                    <title>{NODE_TYPE_ICONS[type].label}</title>
+                    {NODE_TYPE_ICONS[type].icon}
+                  </text>
+                )}
+                {node.isFinal && (
+                  <circle cx={x} cy={y} r={NODE_RADIUS + 2} fill="none" stroke={COLORS.primary} strokeWidth="0.3" strokeDasharray="1,1" opacity="0.7" />
+                )}
+              </g>
+            )
+          })}
+
+          {/* Selection rectangle */}
+          {interaction?.type === 'marquee' && (
+            <rect
+              x={Math.min(interaction.start.x, interaction.pointer.x)}
+              y={Math.min(interaction.start.y, interaction.pointer.y)}
+              width={Math.abs(interaction.pointer.x - interaction.start.x)}
+              height={Math.abs(interaction.pointer.y - interaction.start.y)}
+              fill={COLORS.accent + '15'}
+              stroke={COLORS.accent}
+              strokeWidth="0.2"
+            />
+          )}
+        </svg>
+
+        {/* Link context menu */}
+        {menu && menuLink && (
+          <div
+            className="absolute z-10 w-48 p-2 space-y-1 rounded border border-gray-700 bg-cyber-dark text-xs shadow-lg"
+            style={{ left: menu.x, top: menu.y }}
+          >
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={menuLink.hidden}
+                onChange={(e) => onUpdateLink(menuLink.id, { hidden: e.target.checked })}
+              />
+              Oculto
+            </label>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={menuLink.bidirectional !== false}
+                onChange={(e) => onUpdateLink(menuLink.id, { bidirectional: e.target.checked })}
+              />
+              Bidireccional
+            </label>
+            <select
+              value={menuLink.style}
+              onChange={(e) => onUpdateLink(menuLink.id, { style: e.target.value as LinkStyle })}
+              className="w-full bg-cyber-darker border border-gray-600 rounded px-1 py-1"
+            >
+              {LINK_STYLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {menuLink.bidirectional === false && (
+              <button
+                onClick={() => onUpdateLink(menuLink.id, { from: menuLink.to, to: menuLink.from })}
+                className="block w-full text-left text-gray-300 hover:text-white"
+              >
+                Invertir sentido
+              </button>
+            )}
+            <div className="flex justify-between pt-1 border-t border-gray-700">
+              <button
+                onClick={() => {
+                  onDeleteLink(menuLink.id)
+                  setMenu(null)
+                }}
+                className="text-red-400 hover:text-red-300"
+              >
+                Eliminar
+              </button>
+              <button onClick={() => setMenu(null)} className="text-gray-400 hover:text-white">
+                Cerrar
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Arrastra los nodos para colocarlos · Mayús+clic o arrastra sobre el fondo para seleccionar varios ·
+        En modo enlace, arrastra de un nodo a otro · Clic derecho en un enlace para editarlo · Doble clic en un
+        nodo para abrir su ficha
+      </p>
+    </div>
+  )
+}
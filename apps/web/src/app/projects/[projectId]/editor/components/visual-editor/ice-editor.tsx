@@ -0,0 +1,183 @@
+'use client'
+
+import type { CircuitDefinition, IceDefinition, IceTrigger, IceContactEffect } from '@/lib/engine'
+
+interface Props {
+  circuit: CircuitDefinition
+  onChange: (ice: IceDefinition[]) => void
+}
+
+const TRIGGER_OPTIONS: { value: IceTrigger; label: string }[] = [
+  { value: 'ON_TRACE', label: 'Con TRACE' },
+  { value: 'ON_ALERT', label: 'Con ALERT' },
+  { value: 'EVERY_N_ACTIONS', label: 'Cada N acciones' },
+]
+
+const CONTACT_OPTIONS: { value: IceContactEffect; label: string }[] = [
+  { value: 'LOCKDOWN', label: 'Bloquear circuito' },
+  { value: 'EJECT', label: 'Expulsar a la entrada' },
+  { value: 'RAISE_SEVERITY', label: 'Subir severidad' },
+]
+
+// ICE guardians of a circuit: start node, patrol route, triggers and contact effect
+export function IceEditor({ circuit, onChange }: Props) {
+  const iceList = circuit.ice ?? []
+
+  const generateIceId = () => `ice-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+
+  const updateIce = (iceId: string, updates: Partial<IceDefinition>) => {
+    onChange(iceList.map((ice) => (ice.id === iceId ? { ...ice, ...updates } : ice)))
+  }
+
+  const addIce = () => {
+    const startNode = circuit.nodes[0]
+    if (!startNode) return
+    onChange([
+      ...iceList,
+      {
+        id: generateIceId(),
+        name: 'ICE',
+        startNodeId: startNode.id,
+        patrolRoute: [],
+        triggers: ['ON_TRACE'],
+        onContact: 'LOCKDOWN',
+      },
+    ])
+  }
+
+  const toggleTrigger = (ice: IceDefinition, trigger: IceTrigger) => {
+    const triggers = ice.triggers.includes(trigger)
+      ? ice.triggers.filter((t) => t !== trigger)
+      : [...ice.triggers, trigger]
+    updateIce(ice.id, {
+      triggers,
+      everyNActions: triggers.includes('EVERY_N_ACTIONS') ? ice.everyNActions ?? 3 : undefined,
+    })
+  }
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-800">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-400">ICE ({iceList.length})</h4>
+        <button
+          onClick={addIce}
+          className="text-xs px-2 py-1 bg-red-900/30 text-red-400 rounded hover:bg-red-900/50"
+        >
+          + ICE
+        </button>
+      </div>
+
+      {iceList.length === 0 ? (
+        <p className="text-xs text-gray-600">Sin ICE patrullando este circuito.</p>
+      ) : (
+        <div className="space-y-3">
+          {iceList.map((ice) => (
+            <div key={ice.id} className="p-3 rounded-lg border border-red-900/50 bg-red-900/10 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={ice.name}
+                  onChange={(e) => updateIce(ice.id, { name: e.target.value })}
+                  placeholder="Nombre"
+                  className="flex-1 bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+                />
+                <select
+                  value={ice.onContact}
+                  onChange={(e) => updateIce(ice.id, { onContact: e.target.value as IceContactEffect })}
+                  className="bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-xs"
+                  title="Efecto al alcanzar al jugador"
+                >
+                  {CONTACT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    if (confirm(`Eliminar ICE "${ice.name}"?`)) {
+                      onChange(iceList.filter((i) => i.id !== ice.id))
+                    }
+                  }}
+                  className="px-2 text-xs text-red-400 hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+
+              {/* Patrol route: start node, then each step */}
+              <div className="flex flex-wrap items-center gap-1 text-xs">
+                <span className="text-gray-500">Ruta:</span>
+                <select
+                  value={ice.startNodeId}
+                  onChange={(e) => updateIce(ice.id, { startNodeId: e.target.value })}
+                  className="bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                >
+                  {circuit.nodes.map((node) => (
+                    <option key={node.id} value={node.id}>{node.name}</option>
+                  ))}
+                </select>
+                {ice.patrolRoute.map((nodeId, index) => (
+                  <span key={index} className="flex items-center gap-1">
+                    <span className="text-gray-500">→</span>
+                    <select
+                      value={nodeId}
+                      onChange={(e) => updateIce(ice.id, {
+                        patrolRoute: ice.patrolRoute.map((id, i) => (i === index ? e.target.value : id)),
+                      })}
+                      className="bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                    >
+                      {circuit.nodes.map((node) => (
+                        <option key={node.id} value={node.id}>{node.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => updateIce(ice.id, {
+                        patrolRoute: ice.patrolRoute.filter((_, i) => i !== index),
+                      })}
+                      className="text-gray-500 hover:text-red-400"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                <button
+                  onClick={() => updateIce(ice.id, {
+                    patrolRoute: [...ice.patrolRoute, ice.patrolRoute[ice.patrolRoute.length - 1] ?? ice.startNodeId],
+                  })}
+                  className="px-1 text-cyber-secondary hover:text-cyber-secondary/80"
+                >
+                  + paso
+                </button>
+              </div>
+
+              {/* Triggers */}
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="text-gray-500">Se mueve:</span>
+                {TRIGGER_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-1 text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={ice.triggers.includes(option.value)}
+                      onChange={() => toggleTrigger(ice, option.value)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+                {ice.triggers.includes('EVERY_N_ACTIONS') && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={ice.everyNActions ?? 3}
+                    onChange={(e) => updateIce(ice.id, { everyNActions: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-14 bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                    title="N"
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
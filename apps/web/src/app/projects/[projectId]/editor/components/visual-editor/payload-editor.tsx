@@ -0,0 +1,94 @@
+'use client'
+
+import type { NodePayload, PayloadType } from '@/lib/engine'
+
+interface Props {
+  payloads: NodePayload[]
+  onChange: (payloads: NodePayload[] | undefined) => void
+}
+
+const TYPE_OPTIONS: { value: PayloadType; label: string }[] = [
+  { value: 'TEXT', label: 'Texto' },
+  { value: 'MARKDOWN', label: 'Markdown' },
+  { value: 'PASSWORD', label: 'Contraseña' },
+  { value: 'IMAGE', label: 'Imagen (URL)' },
+  { value: 'KEY', label: 'Llave' },
+]
+
+const MAX_PAYLOADS = 20
+
+// Loot of a node: delivered to the run inventory when the node is hacked
+export function PayloadEditor({ payloads, onChange }: Props) {
+  const generatePayloadId = () => `payload-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+
+  const updatePayload = (id: string, updates: Partial<NodePayload>) => {
+    onChange(payloads.map((payload) => (payload.id === id ? { ...payload, ...updates } : payload)))
+  }
+
+  const removePayload = (id: string) => {
+    const remaining = payloads.filter((payload) => payload.id !== id)
+    onChange(remaining.length > 0 ? remaining : undefined)
+  }
+
+  return (
+    <div className="pt-2 border-t border-gray-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-green-400">Payloads ({payloads.length})</label>
+        {payloads.length < MAX_PAYLOADS && (
+          <button
+            onClick={() => onChange([...payloads, { id: generatePayloadId(), name: 'Archivo', type: 'TEXT', content: '' }])}
+            className="text-xs px-1 text-green-400 hover:text-green-300"
+          >
+            + payload
+          </button>
+        )}
+      </div>
+      {payloads.map((payload) => (
+        <div key={payload.id} className="space-y-1 p-2 rounded border border-green-900/40 bg-green-900/10">
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={payload.name}
+              onChange={(e) => updatePayload(payload.id, { name: e.target.value })}
+              maxLength={80}
+              placeholder="Nombre"
+              className="flex-1 min-w-0 bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs"
+            />
+            <select
+              value={payload.type}
+              onChange={(e) => updatePayload(payload.id, { type: e.target.value as PayloadType })}
+              className="bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs"
+            >
+              {TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => removePayload(payload.id)}
+              className="px-1 text-xs text-red-400 hover:text-red-300"
+            >
+              ×
+            </button>
+          </div>
+          {payload.type === 'TEXT' || payload.type === 'MARKDOWN' ? (
+            <textarea
+              value={payload.content}
+              onChange={(e) => updatePayload(payload.id, { content: e.target.value })}
+              rows={3}
+              placeholder="Contenido"
+              className="w-full bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs font-mono resize-y"
+            />
+          ) : (
+            <input
+              type="text"
+              value={payload.content}
+              onChange={(e) => updatePayload(payload.id, { content: e.target.value })}
+              placeholder={payload.type === 'IMAGE' ? 'https://...' : 'Valor'}
+              className="w-full bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs font-mono"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
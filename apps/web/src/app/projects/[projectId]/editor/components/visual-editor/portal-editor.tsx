@@ -0,0 +1,140 @@
+'use client'
+
+import type { PortalDefinition, ProjectData } from '@/lib/engine'
+import { RequirementEditor } from './requirement-editor'
+
+interface Props {
+  data: ProjectData
+  onChange: (portals: PortalDefinition[] | undefined) => void
+}
+
+const MAX_PORTALS = 100
+
+// Links between circuits; with circuit gating they are the only way into a circuit
+export function PortalEditor({ data, onChange }: Props) {
+  const portals = data.portals ?? []
+  const generatePortalId = () => `portal-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+
+  const updatePortal = (id: string, updates: Partial<PortalDefinition>) => {
+    onChange(portals.map((portal) => (portal.id === id ? { ...portal, ...updates } : portal)))
+  }
+
+  const removePortal = (id: string) => {
+    const remaining = portals.filter((portal) => portal.id !== id)
+    onChange(remaining.length > 0 ? remaining : undefined)
+  }
+
+  const addPortal = () => {
+    const [from, to] = data.circuits
+    if (!from || !to) return
+    onChange([
+      ...portals,
+      {
+        id: generatePortalId(),
+        fromCircuitId: from.id,
+        fromNodeId: from.nodes[0]?.id ?? '',
+        toCircuitId: to.id,
+        toNodeId: to.nodes[0]?.id ?? '',
+        hidden: false,
+        bidirectional: true,
+      },
+    ])
+  }
+
+  // Changing the circuit of an end resets its node to the first one
+  const endSelect = (portal: PortalDefinition, side: 'from' | 'to') => {
+    const circuitId = side === 'from' ? portal.fromCircuitId : portal.toCircuitId
+    const nodeId = side === 'from' ? portal.fromNodeId : portal.toNodeId
+    const circuit = data.circuits.find((c) => c.id === circuitId)
+
+    return (
+      <div className="flex gap-1 flex-1 min-w-0">
+        <select
+          value={circuitId}
+          onChange={(e) => {
+            const firstNodeId = data.circuits.find((c) => c.id === e.target.value)?.nodes[0]?.id ?? ''
+            updatePortal(portal.id, side === 'from'
+              ? { fromCircuitId: e.target.value, fromNodeId: firstNodeId }
+              : { toCircuitId: e.target.value, toNodeId: firstNodeId })
+          }}
+          className="flex-1 min-w-0 bg-cyber-darker border border-gray-700 rounded px-1 py-1 text-xs"
+        >
+          {data.circuits.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <select
+          value={nodeId}
+          onChange={(e) => updatePortal(portal.id, side === 'from' ? { fromNodeId: e.target.value } : { toNodeId: e.target.value })}
+          className="flex-1 min-w-0 bg-cyber-darker border border-gray-700 rounded px-1 py-1 text-xs"
+        >
+          {circuit?.nodes.map((n) => (
+            <option key={n.id} value={n.id}>{n.name}</option>
+          ))}
+        </select>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Portales ({portals.length})</h3>
+        {data.circuits.length > 1 && portals.length < MAX_PORTALS && (
+          <button
+            onClick={addPortal}
+            className="px-3 py-1.5 text-sm bg-cyber-secondary/20 text-cyber-secondary border border-cyber-secondary/30 rounded hover:bg-cyber-secondary/30 transition-colors"
+          >
+            + Agregar
+          </button>
+        )}
+      </div>
+
+      {data.circuits.length < 2 ? (
+        <p className="text-sm text-gray-500">Los portales conectan nodos de dos circuitos distintos.</p>
+      ) : (
+        <div className="space-y-3">
+          {portals.map((portal) => (
+            <div key={portal.id} className="p-3 rounded border border-cyber-secondary/20 bg-cyber-darker/50 space-y-2">
+              <div className="flex items-center gap-2">
+                {endSelect(portal, 'from')}
+                <span className="text-gray-500 text-xs">{portal.bidirectional !== false ? '↔' : '→'}</span>
+                {endSelect(portal, 'to')}
+                <button
+                  onClick={() => removePortal(portal.id)}
+                  className="px-1 text-xs text-red-400 hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+              <div className="flex gap-4 text-xs text-gray-400">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={portal.hidden}
+                    onChange={(e) => updatePortal(portal.id, { hidden: e.target.checked })}
+                  />
+                  Oculto
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={portal.bidirectional !== false}
+                    onChange={(e) => updatePortal(portal.id, { bidirectional: e.target.checked })}
+                  />
+                  Bidireccional
+                </label>
+              </div>
+              <RequirementEditor
+                title="Requisitos de acceso"
+                requires={portal.requires ?? []}
+                data={data}
+                onChange={(requires) => updatePortal(portal.id, { requires })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
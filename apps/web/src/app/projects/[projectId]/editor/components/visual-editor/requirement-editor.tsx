@@ -0,0 +1,88 @@
+'use client'
+
+import type { AccessRequirement, ProjectData } from '@/lib/engine'
+
+interface Props {
+  title: string
+  requires: AccessRequirement[]
+  // Whole project: keys and dependencies may come from any circuit
+  data: ProjectData
+  onChange: (requires: AccessRequirement[] | undefined) => void
+}
+
+const MAX_REQUIREMENTS = 10
+
+// Keys / hacked nodes needed before the player can go through
+export function RequirementEditor({ title, requires, data, onChange }: Props) {
+  const keys = data.circuits.flatMap((circuit) =>
+    circuit.nodes.flatMap((node) =>
+      (node.payloads ?? []).map((payload) => ({ id: payload.id, label: `${payload.name} (${node.name})` }))
+    )
+  )
+  const nodes = data.circuits.flatMap((circuit) =>
+    circuit.nodes.map((node) => ({ id: node.id, label: `${node.name} [${circuit.name}]` }))
+  )
+
+  const update = (index: number, requirement: AccessRequirement) => {
+    onChange(requires.map((r, i) => (i === index ? requirement : r)))
+  }
+
+  const remove = (index: number) => {
+    const remaining = requires.filter((_, i) => i !== index)
+    onChange(remaining.length > 0 ? remaining : undefined)
+  }
+
+  const add = () => {
+    const requirement: AccessRequirement = keys.length > 0
+      ? { type: 'KEY', payloadId: keys[0].id }
+      : { type: 'NODE_HACKED', nodeId: nodes[0]?.id ?? '' }
+    onChange([...requires, requirement])
+  }
+
+  return (
+    <div className="pt-2 border-t border-gray-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-amber-400">{title} ({requires.length})</label>
+        {requires.length < MAX_REQUIREMENTS && nodes.length > 0 && (
+          <button onClick={add} className="text-xs px-1 text-amber-400 hover:text-amber-300">
+            + requisito
+          </button>
+        )}
+      </div>
+      {requires.map((requirement, index) => (
+        <div key={index} className="flex gap-1">
+          <select
+            value={requirement.type}
+            onChange={(e) => update(
+              index,
+              e.target.value === 'KEY'
+                ? { type: 'KEY', payloadId: keys[0]?.id ?? '' }
+                : { type: 'NODE_HACKED', nodeId: nodes[0]?.id ?? '' }
+            )}
+            className="bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs"
+          >
+            <option value="KEY" disabled={keys.length === 0}>Llave</option>
+            <option value="NODE_HACKED">Nodo hackeado</option>
+          </select>
+          <select
+            value={requirement.type === 'KEY' ? requirement.payloadId : requirement.nodeId}
+            onChange={(e) => update(
+              index,
+              requirement.type === 'KEY'
+                ? { type: 'KEY', payloadId: e.target.value }
+                : { type: 'NODE_HACKED', nodeId: e.target.value }
+            )}
+            className="flex-1 min-w-0 bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs"
+          >
+            {(requirement.type === 'KEY' ? keys : nodes).map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <button onClick={() => remove(index)} className="px-1 text-xs text-red-400 hover:text-red-300">
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import type { TraceConfig, TraceThreshold, TraceEscalation } from '@/lib/engine'
+
+interface Props {
+  trace: TraceConfig | undefined
+  onChange: (trace: TraceConfig | undefined) => void
+}
+
+const ESCALATION_OPTIONS: { value: TraceEscalation; label: string }[] = [
+  { value: 'RAISE_CD', label: 'Subir CD de los nodos' },
+  { value: 'REVEAL_TO_ICE', label: 'Revelar posición al ICE' },
+  { value: 'LOCKDOWN', label: 'Bloquear circuito actual' },
+]
+
+const DEFAULT_TRACE: TraceConfig = {
+  traceAmount: 1,
+  alertAmount: 2,
+  criticalAmount: 4,
+  thresholds: [
+    { value: 5, escalation: 'RAISE_CD', cdIncrease: 2 },
+    { value: 10, escalation: 'REVEAL_TO_ICE' },
+    { value: 15, escalation: 'LOCKDOWN' },
+  ],
+}
+
+const AMOUNT_FIELDS: { field: 'traceAmount' | 'alertAmount' | 'criticalAmount'; label: string }[] = [
+  { field: 'traceAmount', label: 'Por TRACE' },
+  { field: 'alertAmount', label: 'Por ALERT' },
+  { field: 'criticalAmount', label: 'Por crítico' },
+]
+
+// Run-level trace meter: amount per warning and escalation thresholds
+export function TraceEditor({ trace, onChange }: Props) {
+  const updateThreshold = (index: number, updates: Partial<TraceThreshold>) => {
+    if (!trace) return
+    onChange({
+      ...trace,
+      thresholds: trace.thresholds.map((threshold, i) => (i === index ? { ...threshold, ...updates } : threshold)),
+    })
+  }
+
+  return (
+    <div className="col-span-2 pt-3 border-t border-gray-800">
+      <label className="flex items-center gap-2 text-xs text-gray-400 mb-2">
+        <input
+          type="checkbox"
+          checked={!!trace}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_TRACE : undefined)}
+        />
+        Medidor de rastreo
+      </label>
+
+      {trace && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            {AMOUNT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs text-gray-500 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={trace[field]}
+                  onChange={(e) => onChange({ ...trace, [field]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {trace.thresholds.map((threshold, index) => (
+              <div key={index} className="flex items-center gap-2 text-xs">
+                <span className="text-gray-500">Al llegar a</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={threshold.value}
+                  onChange={(e) => updateThreshold(index, { value: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="w-16 bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                />
+                <select
+                  value={threshold.escalation}
+                  onChange={(e) => {
+                    const escalation = e.target.value as TraceEscalation
+                    updateThreshold(index, {
+                      escalation,
+                      cdIncrease: escalation === 'RAISE_CD' ? threshold.cdIncrease ?? 2 : undefined,
+                    })
+                  }}
+                  className="flex-1 bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                >
+                  {ESCALATION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {threshold.escalation === 'RAISE_CD' && (
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={threshold.cdIncrease ?? 2}
+                    onChange={(e) => updateThreshold(index, { cdIncrease: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-14 bg-cyber-darker border border-gray-700 rounded px-1 py-0.5"
+                    title="CD +"
+                  />
+                )}
+                <button
+                  onClick={() => onChange({ ...trace, thresholds: trace.thresholds.filter((_, i) => i !== index) })}
+                  className="px-1 text-red-400 hover:text-red-300"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            {trace.thresholds.length < 10 && (
+              <button
+                onClick={() => onChange({
+                  ...trace,
+                  thresholds: [
+                    ...trace.thresholds,
+                    {
+                      value: Math.max(0, ...trace.thresholds.map((t) => t.value)) + 5,
+                      escalation: 'RAISE_CD',
+                      cdIncrease: 2,
+                    },
+                  ],
+                })}
+                className="text-xs px-1 text-cyber-secondary hover:text-cyber-secondary/80"
+              >
+                + umbral
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
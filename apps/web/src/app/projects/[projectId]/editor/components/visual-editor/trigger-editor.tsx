@@ -0,0 +1,253 @@
+'use client'
+
+import type { ProjectData, TriggerAction, TriggerDefinition, TriggerEvent, WarningSeverity } from '@/lib/engine'
+
+interface Props {
+  triggers: TriggerDefinition[]
+  // Whole project: actions may target any circuit
+  data: ProjectData
+  // Links are never hacked: only ON_ENTER / ON_DISCOVER
+  isLink?: boolean
+  onChange: (triggers: TriggerDefinition[] | undefined) => void
+}
+
+const EVENT_OPTIONS: { value: TriggerEvent; label: string; nodeOnly?: boolean }[] = [
+  { value: 'ON_HACK', label: 'Al hackear', nodeOnly: true },
+  { value: 'ON_FAIL', label: 'Al fallar', nodeOnly: true },
+  { value: 'ON_ENTER', label: 'Al entrar' },
+  { value: 'ON_DISCOVER', label: 'Al descubrir' },
+]
+
+const ACTION_OPTIONS: { value: TriggerAction['type']; label: string }[] = [
+  { value: 'MESSAGE', label: 'Mensaje narrativo' },
+  { value: 'REVEAL_NODE', label: 'Revelar nodo' },
+  { value: 'REVEAL_LINK', label: 'Revelar enlace' },
+  { value: 'DISABLE_NODE', label: 'Inutilizar nodo' },
+  { value: 'DISABLE_LINK', label: 'Inutilizar enlace' },
+  { value: 'CHANGE_CD', label: 'Cambiar CD' },
+  { value: 'ADD_WARNING', label: 'Añadir aviso' },
+  { value: 'COMPLETE_CIRCUIT', label: 'Completar circuito' },
+]
+
+const SEVERITY_OPTIONS: WarningSeverity[] = ['INFO', 'TRACE', 'ALERT', 'LOCKDOWN', 'BLACK_ICE']
+
+const MAX_TRIGGERS = 20
+const MAX_ACTIONS = 20
+
+// Scripted "on event -> do actions" reactions of a node or link
+export function TriggerEditor({ triggers, data, isLink, onChange }: Props) {
+  const generateTriggerId = () => `trigger-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+
+  const nodes = data.circuits.flatMap((circuit) =>
+    circuit.nodes.map((node) => ({ id: node.id, label: `${node.name} [${circuit.name}]` }))
+  )
+  const links = [
+    ...data.circuits.flatMap((circuit) =>
+      circuit.links.map((link) => {
+        const from = circuit.nodes.find((n) => n.id === link.from)?.name ?? link.from
+        const to = circuit.nodes.find((n) => n.id === link.to)?.name ?? link.to
+        return { id: link.id, label: `${from} ↔ ${to} [${circuit.name}]` }
+      })
+    ),
+    ...(data.portals ?? []).map((portal) => ({ id: portal.id, label: `Portal ${portal.id}` })),
+  ]
+
+  // Default action of each type, targeting the first candidate
+  const defaultAction = (type: TriggerAction['type']): TriggerAction => {
+    switch (type) {
+      case 'REVEAL_NODE':
+      case 'DISABLE_NODE':
+        return { type, nodeId: nodes[0]?.id ?? '' }
+      case 'REVEAL_LINK':
+      case 'DISABLE_LINK':
+        return { type, linkId: links[0]?.id ?? '' }
+      case 'CHANGE_CD':
+        return { type, nodeId: nodes[0]?.id ?? '', amount: 2 }
+      case 'ADD_WARNING':
+        return { type, severity: 'ALERT', message: 'INTRUSION DETECTED' }
+      case 'COMPLETE_CIRCUIT':
+        return { type, circuitId: data.circuits[0]?.id ?? '' }
+      case 'MESSAGE':
+        return { type, text: 'Mensaje' }
+    }
+  }
+
+  const updateTrigger = (id: string, updates: Partial<TriggerDefinition>) => {
+    onChange(triggers.map((trigger) => (trigger.id === id ? { ...trigger, ...updates } : trigger)))
+  }
+
+  const removeTrigger = (id: string) => {
+    const remaining = triggers.filter((trigger) => trigger.id !== id)
+    onChange(remaining.length > 0 ? remaining : undefined)
+  }
+
+  const updateAction = (trigger: TriggerDefinition, index: number, action: TriggerAction) => {
+    updateTrigger(trigger.id, { actions: trigger.actions.map((a, i) => (i === index ? action : a)) })
+  }
+
+  const selectClass = 'bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs'
+
+  const renderActionFields = (trigger: TriggerDefinition, action: TriggerAction, index: number) => {
+    switch (action.type) {
+      case 'REVEAL_NODE':
+      case 'DISABLE_NODE':
+      case 'CHANGE_CD':
+        return (
+          <>
+            <select
+              value={action.nodeId}
+              onChange={(e) => updateAction(trigger, index, { ...action, nodeId: e.target.value })}
+              className={`flex-1 min-w-0 ${selectClass}`}
+            >
+              {nodes.map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            {action.type === 'CHANGE_CD' && (
+              <input
+                type="number"
+                min={-20}
+                max={20}
+                value={action.amount}
+                onChange={(e) => updateAction(trigger, index, { ...action, amount: parseInt(e.target.value, 10) || 0 })}
+                className="w-14 bg-cyber-dark border border-gray-600 rounded px-1 py-1 text-xs"
+                title="CD +/-"
+              />
+            )}
+          </>
+        )
+      case 'REVEAL_LINK':
+      case 'DISABLE_LINK':
+        return (
+          <select
+            value={action.linkId}
+            onChange={(e) => updateAction(trigger, index, { ...action, linkId: e.target.value })}
+            className={`flex-1 min-w-0 ${selectClass}`}
+          >
+            {links.map((option) => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        )
+      case 'ADD_WARNING':
+        return (
+          <>
+            <select
+              value={action.severity}
+              onChange={(e) => updateAction(trigger, index, { ...action, severity: e.target.value as WarningSeverity })}
+              className={selectClass}
+            >
+              {SEVERITY_OPTIONS.map((severity) => (
+                <option key={severity} value={severity}>{severity}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={action.message}
+              onChange={(e) => updateAction(trigger, index, { ...action, message: e.target.value })}
+              maxLength={200}
+              className="flex-1 min-w-0 bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs"
+            />
+          </>
+        )
+      case 'COMPLETE_CIRCUIT':
+        return (
+          <select
+            value={action.circuitId}
+            onChange={(e) => updateAction(trigger, index, { ...action, circuitId: e.target.value })}
+            className={`flex-1 min-w-0 ${selectClass}`}
+          >
+            {data.circuits.map((circuit) => (
+              <option key={circuit.id} value={circuit.id}>{circuit.name}</option>
+            ))}
+          </select>
+        )
+      case 'MESSAGE':
+        return (
+          <textarea
+            value={action.text}
+            onChange={(e) => updateAction(trigger, index, { ...action, text: e.target.value })}
+            rows={2}
+            maxLength={2000}
+            placeholder="Texto para los jugadores"
+            className="flex-1 min-w-0 bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs resize-y"
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="pt-2 border-t border-gray-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-violet-400">Disparadores ({triggers.length})</label>
+        {triggers.length < MAX_TRIGGERS && (
+          <button
+            onClick={() => onChange([
+              ...triggers,
+              { id: generateTriggerId(), on: isLink ? 'ON_ENTER' : 'ON_HACK', actions: [defaultAction('MESSAGE')] },
+            ])}
+            className="text-xs px-1 text-violet-400 hover:text-violet-300"
+          >
+            + disparador
+          </button>
+        )}
+      </div>
+      {triggers.map((trigger) => (
+        <div key={trigger.id} className="space-y-1 p-2 rounded border border-violet-900/40 bg-violet-900/10">
+          <div className="flex items-center gap-1">
+            <select
+              value={trigger.on}
+              onChange={(e) => updateTrigger(trigger.id, { on: e.target.value as TriggerEvent })}
+              className={`flex-1 ${selectClass}`}
+            >
+              {EVENT_OPTIONS.filter((option) => !isLink || !option.nodeOnly).map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-[10px] text-gray-400">
+              <input
+                type="checkbox"
+                checked={trigger.repeatable === true}
+                onChange={(e) => updateTrigger(trigger.id, { repeatable: e.target.checked || undefined })}
+              />
+              Repetible
+            </label>
+            <button onClick={() => removeTrigger(trigger.id)} className="px-1 text-xs text-red-400 hover:text-red-300">
+              ×
+            </button>
+          </div>
+          {trigger.actions.map((action, index) => (
+            <div key={index} className="flex gap-1 pl-2">
+              <select
+                value={action.type}
+                onChange={(e) => updateAction(trigger, index, defaultAction(e.target.value as TriggerAction['type']))}
+                className={selectClass}
+              >
+                {ACTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {renderActionFields(trigger, action, index)}
+              {trigger.actions.length > 1 && (
+                <button
+                  onClick={() => updateTrigger(trigger.id, { actions: trigger.actions.filter((_, i) => i !== index) })}
+                  className="px-1 text-xs text-red-400 hover:text-red-300"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {trigger.actions.length < MAX_ACTIONS && (
+            <button
+              onClick={() => updateTrigger(trigger.id, { actions: [...trigger.actions, defaultAction('MESSAGE')] })}
+              className="ml-2 text-[10px] text-violet-400 hover:text-violet-300"
+            >
+              + acción
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,7 +1,16 @@
 'use client'
 
 import { useState } from 'react'
-import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition, ProjectMeta } from '@/lib/engine'
+import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition, ProjectMeta, DiceMode, PortalDefinition, NodeType } from '@/lib/engine'
+import { NODE_TYPE_OPTIONS } from '../node-type-options'
+import { IceEditor } from './ice-editor'
+import { TraceEditor } from './trace-editor'
+import { BudgetEditor } from './budget-editor'
+import { PayloadEditor } from './payload-editor'
+import { RequirementEditor } from './requirement-editor'
+import { PortalEditor } from './portal-editor'
+import { TriggerEditor } from './trigger-editor'
+import { GraphCanvas } from './graph-canvas'
 
 interface Props {
   data: ProjectData
@@ -17,6 +26,7 @@ interface Props {
   onUpdateLink: (circuitId: string, linkId: string, updates: Partial<LinkDefinition>) => void
   onDeleteLink: (circuitId: string, linkId: string) => void
   onUpdateMeta: (updates: Partial<ProjectMeta>) => void
+  onUpdatePortals: (portals: PortalDefinition[] | undefined) => void
 }
 
 export function VisualEditor({
@@ -33,12 +43,16 @@ export function VisualEditor({
   onUpdateLink,
   onDeleteLink,
   onUpdateMeta,
+  onUpdatePortals,
 }: Props) {
   const [showMetaEditor, setShowMetaEditor] = useState(false)
   const [showAddCircuit, setShowAddCircuit] = useState(false)
   const [showAddNode, setShowAddNode] = useState(false)
   const [showAddLink, setShowAddLink] = useState(false)
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null)
+  const [editingLinkId, setEditingLinkId] = useState<string | null>(null)
+  // Nodes and links as forms or as a drag-and-drop map
+  const [view, setView] = useState<'form' | 'canvas'>('form')
 
   // Fail die options (D3 to D20)
   const failDieOptions = Array.from({ length: 18 }, (_, i) => i + 3) // [3, 4, 5, ..., 20]
@@ -145,11 +159,62 @@ export function VisualEditor({
                 rows={2}
               />
             </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Modo de dados</label>
+              <select
+                value={data.meta.diceMode || 'MANUAL'}
+                onChange={(e) => onUpdateMeta({ diceMode: e.target.value as DiceMode })}
+                className="w-full bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-sm"
+              >
+                <option value="MANUAL">Manual (tiran los jugadores)</option>
+                <option value="SERVER">Servidor (tirada automática)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Dados por defecto</label>
+              <input
+                type="text"
+                value={data.meta.defaultDice || ''}
+                onChange={(e) => onUpdateMeta({ defaultDice: e.target.value || undefined })}
+                placeholder="1d20"
+                maxLength={60}
+                disabled={data.meta.diceMode !== 'SERVER'}
+                className="w-full bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-sm disabled:opacity-50"
+              />
+            </div>
+            <TraceEditor
+              trace={data.meta.trace}
+              onChange={(trace) => onUpdateMeta({ trace })}
+            />
+            <BudgetEditor
+              title="Límite de la run"
+              budget={data.meta.budget}
+              switchTargets={data.circuits}
+              onChange={(budget) => onUpdateMeta({ budget })}
+            />
+            <div className="col-span-2 pt-3 border-t border-gray-800">
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={data.meta.circuitGating === true}
+                  onChange={(e) => onUpdateMeta({ circuitGating: e.target.checked || undefined })}
+                />
+                Circuitos bloqueados: solo se accede a otros circuitos por portales
+              </label>
+            </div>
           </div>
         ) : (
           <div className="text-sm text-gray-400">
             <span className="text-gray-300">v{data.meta.version}</span>
             {data.meta.author && <span> por {data.meta.author}</span>}
+            {data.meta.diceMode === 'SERVER' && (
+              <span> · dados en servidor ({data.meta.defaultDice || '1d20'})</span>
+            )}
+            {data.meta.trace && (
+              <span> · rastreo ({data.meta.trace.thresholds.length} umbrales)</span>
+            )}
+            {data.meta.budget && <span> · con límite</span>}
+            {data.meta.circuitGating && <span> · circuitos por portales</span>}
             {data.meta.description && <p className="mt-1 text-gray-500">{data.meta.description}</p>}
           </div>
         )}
@@ -239,6 +304,12 @@ export function VisualEditor({
               <p className="text-xs text-gray-500 font-mono">{currentCircuit.id}</p>
             </div>
             <div className="flex gap-2">
+              <button
+                onClick={() => setView(view === 'form' ? 'canvas' : 'form')}
+                className="px-3 py-1.5 text-xs bg-gray-800 text-gray-300 rounded hover:bg-gray-700"
+              >
+                {view === 'form' ? 'Ver lienzo' : 'Ver fichas'}
+              </button>
               <button
                 onClick={() => setShowAddNode(true)}
                 className="px-3 py-1.5 text-xs bg-cyber-primary/20 text-cyber-primary rounded hover:bg-cyber-primary/30"
@@ -419,8 +490,22 @@ export function VisualEditor({
             </div>
           )}
 
-          {/* Nodes by level */}
-          {currentCircuit.nodes.length === 0 ? (
+          {/* Nodes by level (or the canvas) */}
+          {view === 'canvas' ? (
+            <GraphCanvas
+              key={currentCircuit.id}
+              circuit={currentCircuit}
+              onUpdateNode={(nodeId, updates) => onUpdateNode(currentCircuit.id, nodeId, updates)}
+              onAddLink={(link) => onAddLink(currentCircuit.id, link)}
+              onUpdateLink={(linkId, updates) => onUpdateLink(currentCircuit.id, linkId, updates)}
+              onDeleteLink={(linkId) => onDeleteLink(currentCircuit.id, linkId)}
+              onUpdateLayout={(layout) => onUpdateCircuit(currentCircuit.id, { layout })}
+              onEditNode={(nodeId) => {
+                setView('form')
+                setEditingNodeId(nodeId)
+              }}
+            />
+          ) : currentCircuit.nodes.length === 0 ? (
             <p className="text-gray-500 text-sm py-8 text-center">
               No hay nodos. Agrega uno para empezar.
             </p>
@@ -450,6 +535,56 @@ export function VisualEditor({
                               onChange={(e) => onUpdateNode(selectedCircuitId!, node.id, { name: e.target.value })}
                               className="w-full bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-sm"
                             />
+                            <select
+                              value={node.type ?? 'STANDARD'}
+                              onChange={(e) => {
+                                const type = e.target.value as NodeType
+                                onUpdateNode(selectedCircuitId!, node.id, {
+                                  type: type === 'STANDARD' ? undefined : type,
+                                  controls: type === 'CONTROL' ? node.controls : undefined,
+                                })
+                              }}
+                              className="w-full bg-cyber-dark border border-gray-600 rounded px-2 py-1 text-xs"
+                            >
+                              {NODE_TYPE_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                            {node.type === 'CONTROL' && (
+                              <div>
+                                <label className="text-xs text-cyan-400 block mb-1">Objetivo de control</label>
+                                <select
+                                  value={node.controls
+                                    ? node.controls.type === 'NODE' ? `NODE:${node.controls.nodeId}` : `CIRCUIT:${node.controls.circuitId}`
+                                    : ''}
+                                  onChange={(e) => {
+                                    const [kind, id] = e.target.value.split(/:(.*)/)
+                                    onUpdateNode(selectedCircuitId!, node.id, {
+                                      controls: !id
+                                        ? undefined
+                                        : kind === 'NODE' ? { type: 'NODE', nodeId: id } : { type: 'CIRCUIT', circuitId: id },
+                                    })
+                                  }}
+                                  className="w-full bg-cyber-dark border border-cyan-900 rounded px-2 py-1 text-xs"
+                                >
+                                  <option value="">(sin objetivo)</option>
+                                  <optgroup label="Nodo (queda inaccesible)">
+                                    {data.circuits.flatMap((circuit) =>
+                                      circuit.nodes
+                                        .filter((n) => n.id !== node.id)
+                                        .map((n) => (
+                                          <option key={n.id} value={`NODE:${n.id}`}>{n.name} [{circuit.name}]</option>
+                                        ))
+                                    )}
+                                  </optgroup>
+                                  <optgroup label="Circuito (ICE fuera de línea)">
+                                    {data.circuits.map((circuit) => (
+                                      <option key={circuit.id} value={`CIRCUIT:${circuit.id}`}>{circuit.name}</option>
+                                    ))}
+                                  </optgroup>
+                                </select>
+                              </div>
+                            )}
                             <div className="flex gap-2">
                               <input
                                 type="number"
@@ -582,6 +717,21 @@ export function VisualEditor({
                                 />
                               </div>
                             </div>
+                            <PayloadEditor
+                              payloads={node.payloads ?? []}
+                              onChange={(payloads) => onUpdateNode(selectedCircuitId!, node.id, { payloads })}
+                            />
+                            <RequirementEditor
+                              title="Requisitos de acceso"
+                              requires={node.requires ?? []}
+                              data={data}
+                              onChange={(requires) => onUpdateNode(selectedCircuitId!, node.id, { requires })}
+                            />
+                            <TriggerEditor
+                              triggers={node.triggers ?? []}
+                              data={data}
+                              onChange={(triggers) => onUpdateNode(selectedCircuitId!, node.id, { triggers })}
+                            />
                             <div className="flex gap-2 pt-2 border-t border-gray-700">
                               <button
                                 onClick={() => setEditingNodeId(null)}
@@ -640,12 +790,26 @@ export function VisualEditor({
                             <div className="text-xs text-gray-500 space-y-0.5">
                               <p className="font-mono">{node.id}</p>
                               <p>CD: {node.cd} | <span className="text-purple-400">D{node.failDie || 4}</span></p>
+                              {node.type && node.type !== 'STANDARD' && (
+                                <p className="text-cyan-400">
+                                  {NODE_TYPE_OPTIONS.find((option) => option.value === node.type)?.label}
+                                </p>
+                              )}
                               {!node.visibleByDefault && (
                                 <p className="text-cyber-accent">Oculto</p>
                               )}
                               {node.isFinal && (
                                 <p className="text-green-400 font-bold">FINAL</p>
                               )}
+                              {node.payloads && node.payloads.length > 0 && (
+                                <p className="text-green-400">{node.payloads.length} payload(s)</p>
+                              )}
+                              {node.requires && node.requires.length > 0 && (
+                                <p className="text-amber-400">{node.requires.length} requisito(s)</p>
+                              )}
+                              {node.triggers && node.triggers.length > 0 && (
+                                <p className="text-violet-400">{node.triggers.length} disparador(es)</p>
+                              )}
                             </div>
                           </div>
                         )}
@@ -658,7 +822,7 @@ export function VisualEditor({
           )}
 
           {/* Links section */}
-          {currentCircuit.links.length > 0 && (
+          {view === 'form' && currentCircuit.links.length > 0 && (
             <div className="mt-6 pt-4 border-t border-gray-800">
               <h4 className="text-sm font-medium text-gray-400 mb-3">
                 Enlaces ({currentCircuit.links.length})
@@ -683,6 +847,20 @@ export function VisualEditor({
                         </span>
                         <span>{toNode?.name || link.to}</span>
                         {link.hidden && <span className="text-cyber-accent">(oculto)</span>}
+                        <button
+                          onClick={() => setEditingLinkId(editingLinkId === link.id ? null : link.id)}
+                          className={link.requires?.length ? 'text-amber-400 hover:text-amber-300' : 'text-gray-500 hover:text-gray-300'}
+                          title="Requisitos de acceso"
+                        >
+                          ⚿{link.requires?.length ? ` ${link.requires.length}` : ''}
+                        </button>
+                        <button
+                          onClick={() => setEditingLinkId(editingLinkId === link.id ? null : link.id)}
+                          className={link.triggers?.length ? 'text-violet-400 hover:text-violet-300' : 'text-gray-500 hover:text-gray-300'}
+                          title="Disparadores"
+                        >
+                          ✦{link.triggers?.length ? ` ${link.triggers.length}` : ''}
+                        </button>
                         <button
                           onClick={() => onDeleteLink(selectedCircuitId!, link.id)}
                           className="ml-2 text-red-400 hover:text-red-300"
@@ -690,14 +868,49 @@ export function VisualEditor({
                           ×
                         </button>
                       </div>
+                      {editingLinkId === link.id && (
+                        <div className="mt-2 min-w-[16rem]">
+                          <RequirementEditor
+                            title="Requisitos de acceso"
+                            requires={link.requires ?? []}
+                            data={data}
+                            onChange={(requires) => onUpdateLink(selectedCircuitId!, link.id, { requires })}
+                          />
+                          <TriggerEditor
+                            triggers={link.triggers ?? []}
+                            data={data}
+                            isLink
+                            onChange={(triggers) => onUpdateLink(selectedCircuitId!, link.id, { triggers })}
+                          />
+                        </div>
+                      )}
                     </div>
                   )
                 })}
               </div>
             </div>
           )}
+
+          {/* ICE section */}
+          <IceEditor
+            circuit={currentCircuit}
+            onChange={(ice) => onUpdateCircuit(selectedCircuitId!, { ice })}
+          />
+
+          {/* Time limit of the circuit */}
+          <div className="mt-6 grid grid-cols-2">
+            <BudgetEditor
+              title="Límite del circuito"
+              budget={currentCircuit.budget}
+              switchTargets={data.circuits.filter((c) => c.id !== currentCircuit.id)}
+              onChange={(budget) => onUpdateCircuit(selectedCircuitId!, { budget })}
+            />
+          </div>
         </div>
       )}
+
+      {/* Portals between circuits */}
+      <PortalEditor data={data} onChange={onUpdatePortals} />
     </div>
   )
 }
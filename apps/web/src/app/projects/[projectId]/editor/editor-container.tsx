@@ -4,16 +4,20 @@
 // Editor Container - Main client component for the adventure editor
 // =============================================================================
 
-import { useState, useCallback, useEffect } from 'react'
-import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition } from '@/lib/engine'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import type { ProjectData, CircuitDefinition, NodeDefinition, LinkDefinition, PortalDefinition, RunMigrationPreview } from '@/lib/engine'
 import { validateProjectDataFull } from '@/lib/engine/validation'
-import type { ValidationResult } from '@/lib/engine/validation'
+import type { ValidationResult, ValidationSeverity } from '@/lib/engine/validation'
 import { TabNavigation } from './components/tab-navigation'
 import { VisualEditor } from './components/visual-editor/visual-editor'
 import { TableEditor } from './components/table-editor/table-editor'
 import { JsonEditor } from './components/json-editor/json-editor'
 import { VersionPanel } from './components/version-panel'
 import { SaveControls } from './components/save-controls'
+import { MigrationReportModal } from './components/migration-report-modal'
+import { VersionDiffModal } from './components/version-diff-modal'
+import { SimulationPanel } from './components/simulation-panel'
+import { useEditorHistory } from './use-editor-history'
 
 // =============================================================================
 // TYPES
@@ -30,12 +34,37 @@ export interface VersionInfo {
   runsCount: number
 }
 
+// Autosaved work in progress of the current user (not a version)
+export interface DraftInfo {
+  data: ProjectData
+  baseDefinitionId: string | null
+  updatedAt: string
+}
+
 interface Props {
   projectId: string
   projectName: string
   initialData: ProjectData
   versions: VersionInfo[]
   activeVersionId: string | null
+  initialDraft: DraftInfo | null
+}
+
+const AUTOSAVE_INTERVAL_MS = 30_000
+
+const formatDraftDate = (date: string) =>
+  new Date(date).toLocaleString('es-ES', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+// =============================================================================
+// VALIDATION WARNINGS
+// =============================================================================
+
+// Graph warnings, most severe first
+const SEVERITY_ORDER: ValidationSeverity[] = ['CRITICAL', 'WARNING', 'INFO']
+const SEVERITY_STYLE: Record<ValidationSeverity, { label: string; color: string }> = {
+  CRITICAL: { label: 'CRÍTICO', color: 'text-orange-400' },
+  WARNING: { label: 'AVISO', color: 'text-yellow-400' },
+  INFO: { label: 'INFO', color: 'text-gray-400' },
 }
 
 // =============================================================================
@@ -48,9 +77,10 @@ export function EditorContainer({
   initialData,
   versions: initialVersions,
   activeVersionId: initialActiveVersionId,
+  initialDraft,
 }: Props) {
-  // Data state
-  const [data, setData] = useState<ProjectData>(initialData)
+  // Data state (every edit is an undoable command)
+  const { data, execute, undo, redo, reset, undoLabel, redoLabel } = useEditorHistory(initialData)
   const [originalData, setOriginalData] = useState<ProjectData>(initialData)
 
   // UI state
@@ -60,7 +90,7 @@ export function EditorContainer({
   )
 
   // Validation state
-  const [validation, setValidation] = useState<ValidationResult>({ valid: true, errors: [] })
+  const [validation, setValidation] = useState<ValidationResult>({ valid: true, errors: [], warnings: [] })
 
   // Save state
   const [isSaving, setIsSaving] = useState(false)
@@ -69,10 +99,31 @@ export function EditorContainer({
   // Version state
   const [versions, setVersions] = useState<VersionInfo[]>(initialVersions)
   const [activeVersionId, setActiveVersionId] = useState<string | null>(initialActiveVersionId)
+  // Activation waiting for the run migration report to be confirmed
+  const [pendingMigration, setPendingMigration] = useState<{
+    versionId: string
+    version: number
+    runs: RunMigrationPreview[]
+  } | null>(null)
+  // Version whose changes are being reviewed
+  const [diffVersionId, setDiffVersionId] = useState<string | null>(null)
+
+  // Draft state: a draft left by an earlier session is offered until recovered,
+  // discarded or overwritten by the next autosave
+  const [recoverableDraft, setRecoverableDraft] = useState<DraftInfo | null>(
+    initialDraft && JSON.stringify(initialDraft.data) !== JSON.stringify(initialData) ? initialDraft : null
+  )
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
 
   // Derived state
   const isDirty = JSON.stringify(data) !== JSON.stringify(originalData)
 
+  // Latest values for the autosave timer, and the data the server draft holds
+  const latestRef = useRef({ data, isDirty, activeVersionId })
+  latestRef.current = { data, isDirty, activeVersionId }
+  const draftDataRef = useRef<ProjectData | null>(null)
+  const autosavingRef = useRef(false)
+
   // =============================================================================
   // VALIDATION EFFECT
   // =============================================================================
@@ -86,16 +137,112 @@ export function EditorContainer({
     return () => clearTimeout(timer)
   }, [data])
 
+  // Undo/redo may remove the selected circuit
+  useEffect(() => {
+    if (selectedCircuitId && !data.circuits.some((c) => c.id === selectedCircuitId)) {
+      setSelectedCircuitId(data.circuits[0]?.id || null)
+    }
+  }, [data, selectedCircuitId])
+
+  // =============================================================================
+  // UNDO / REDO SHORTCUTS
+  // =============================================================================
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      // Text fields keep the browser's own undo
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // =============================================================================
+  // DRAFT AUTOSAVE
+  // =============================================================================
+  // Unsaved changes are sent to the server every AUTOSAVE_INTERVAL_MS as the
+  // user's draft, so a closed tab or a crashed browser loses little work.
+
+  useEffect(() => {
+    const timer = setInterval(async () => {
+      const { data: current, isDirty: dirty, activeVersionId: baseDefinitionId } = latestRef.current
+      if (!dirty || current === draftDataRef.current || autosavingRef.current) return
+
+      autosavingRef.current = true
+      try {
+        const res = await fetch(`/api/projects/${projectId}/definitions/draft`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ data: current, baseDefinitionId }),
+        })
+        if (res.ok) {
+          const result = await res.json()
+          draftDataRef.current = current
+          setDraftSavedAt(result.updatedAt)
+          setRecoverableDraft(null)
+        }
+      } catch {
+        // Offline: retried on the next tick
+      } finally {
+        autosavingRef.current = false
+      }
+    }, AUTOSAVE_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [projectId])
+
+  // Warn before leaving with changes the draft does not hold yet
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!latestRef.current.isDirty || latestRef.current.data === draftDataRef.current) return
+      e.preventDefault()
+      e.returnValue = ''
+    }
+
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [])
+
+  const discardDraft = useCallback(async () => {
+    draftDataRef.current = null
+    setDraftSavedAt(null)
+    setRecoverableDraft(null)
+    await fetch(`/api/projects/${projectId}/definitions/draft`, { method: 'DELETE' }).catch(() => null)
+  }, [projectId])
+
+  const handleRecoverDraft = useCallback(() => {
+    if (!recoverableDraft) return
+    execute({ label: 'Recuperar borrador', apply: () => recoverableDraft.data })
+    setRecoverableDraft(null)
+    setSaveMessage({ type: 'success', text: 'Borrador recuperado. Guarda para crear una versión nueva' })
+  }, [execute, recoverableDraft])
+
   // =============================================================================
   // META ACTIONS
   // =============================================================================
 
   const updateMeta = useCallback((updates: Partial<ProjectData['meta']>) => {
-    setData((prev) => ({
-      ...prev,
-      meta: { ...prev.meta, ...updates },
-    }))
-  }, [])
+    execute({
+      label: 'Editar metadatos',
+      mergeKey: `meta:${Object.keys(updates).join(',')}`,
+      apply: (prev) => ({
+        ...prev,
+        meta: { ...prev.meta, ...updates },
+      }),
+    })
+  }, [execute])
 
   // =============================================================================
   // CIRCUIT ACTIONS
@@ -107,129 +254,170 @@ export function EditorContainer({
       nodes: [],
       links: [],
     }
-    setData((prev) => ({
-      ...prev,
-      circuits: [...prev.circuits, newCircuit],
-    }))
+    execute({
+      label: 'Añadir circuito',
+      apply: (prev) => ({
+        ...prev,
+        circuits: [...prev.circuits, newCircuit],
+      }),
+    })
     setSelectedCircuitId(circuit.id)
-  }, [])
+  }, [execute])
 
   const updateCircuit = useCallback((circuitId: string, updates: Partial<CircuitDefinition>) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId ? { ...c, ...updates } : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Editar circuito',
+      mergeKey: `circuit:${circuitId}:${Object.keys(updates).join(',')}`,
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId ? { ...c, ...updates } : c
+        ),
+      }),
+    })
+  }, [execute])
 
   const deleteCircuit = useCallback((circuitId: string) => {
-    setData((prev) => {
-      const newCircuits = prev.circuits.filter((c) => c.id !== circuitId)
-      // Update selected circuit if necessary
-      if (selectedCircuitId === circuitId) {
-        setSelectedCircuitId(newCircuits[0]?.id || null)
-      }
-      return { ...prev, circuits: newCircuits }
+    execute({
+      label: 'Eliminar circuito',
+      apply: (prev) => {
+        const newCircuits = prev.circuits.filter((c) => c.id !== circuitId)
+        // Portals leading into or out of the circuit go with it
+        const portals = prev.portals?.filter((p) => p.fromCircuitId !== circuitId && p.toCircuitId !== circuitId)
+        return { ...prev, circuits: newCircuits, portals }
+      },
     })
-  }, [selectedCircuitId])
+  }, [execute])
 
   // =============================================================================
   // NODE ACTIONS
   // =============================================================================
 
   const addNode = useCallback((circuitId: string, node: NodeDefinition) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId ? { ...c, nodes: [...c.nodes, node] } : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Añadir nodo',
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId ? { ...c, nodes: [...c.nodes, node] } : c
+        ),
+      }),
+    })
+  }, [execute])
 
   const updateNode = useCallback((circuitId: string, nodeId: string, updates: Partial<NodeDefinition>) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId
-          ? {
-              ...c,
-              nodes: c.nodes.map((n) =>
-                n.id === nodeId ? { ...n, ...updates } : n
-              ),
-            }
-          : c
-      ),
-    }))
-  }, [])
+    const fields = Object.keys(updates).sort().join(',')
+    // Map positions of several nodes (drag, bake layout) undo as one step
+    const isMove = fields === 'mapX,mapY'
+    execute({
+      label: isMove ? 'Mover nodos' : 'Editar nodo',
+      mergeKey: isMove ? `positions:${circuitId}` : `node:${circuitId}:${nodeId}:${fields}`,
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId
+            ? {
+                ...c,
+                nodes: c.nodes.map((n) =>
+                  n.id === nodeId ? { ...n, ...updates } : n
+                ),
+              }
+            : c
+        ),
+      }),
+    })
+  }, [execute])
 
   const deleteNode = useCallback((circuitId: string, nodeId: string) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId
-          ? {
-              ...c,
-              nodes: c.nodes.filter((n) => n.id !== nodeId),
-              // Also remove links that reference this node
-              links: c.links.filter((l) => l.from !== nodeId && l.to !== nodeId),
-            }
-          : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Eliminar nodo',
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId
+            ? {
+                ...c,
+                nodes: c.nodes.filter((n) => n.id !== nodeId),
+                // Also remove links that reference this node
+                links: c.links.filter((l) => l.from !== nodeId && l.to !== nodeId),
+                // ...and ICE starting there, or route steps through it
+                ice: c.ice
+                  ?.filter((ice) => ice.startNodeId !== nodeId)
+                  .map((ice) => ({ ...ice, patrolRoute: ice.patrolRoute.filter((id) => id !== nodeId) })),
+              }
+            : c
+        ),
+        // ...and portals ending there
+        portals: prev.portals?.filter((p) => p.fromNodeId !== nodeId && p.toNodeId !== nodeId),
+      }),
+    })
+  }, [execute])
 
   // =============================================================================
   // LINK ACTIONS
   // =============================================================================
 
   const addLink = useCallback((circuitId: string, link: LinkDefinition) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId ? { ...c, links: [...c.links, link] } : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Añadir enlace',
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId ? { ...c, links: [...c.links, link] } : c
+        ),
+      }),
+    })
+  }, [execute])
 
   const updateLink = useCallback((circuitId: string, linkId: string, updates: Partial<LinkDefinition>) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId
-          ? {
-              ...c,
-              links: c.links.map((l) =>
-                l.id === linkId ? { ...l, ...updates } : l
-              ),
-            }
-          : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Editar enlace',
+      mergeKey: `link:${circuitId}:${linkId}:${Object.keys(updates).sort().join(',')}`,
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId
+            ? {
+                ...c,
+                links: c.links.map((l) =>
+                  l.id === linkId ? { ...l, ...updates } : l
+                ),
+              }
+            : c
+        ),
+      }),
+    })
+  }, [execute])
 
   const deleteLink = useCallback((circuitId: string, linkId: string) => {
-    setData((prev) => ({
-      ...prev,
-      circuits: prev.circuits.map((c) =>
-        c.id === circuitId
-          ? { ...c, links: c.links.filter((l) => l.id !== linkId) }
-          : c
-      ),
-    }))
-  }, [])
+    execute({
+      label: 'Eliminar enlace',
+      apply: (prev) => ({
+        ...prev,
+        circuits: prev.circuits.map((c) =>
+          c.id === circuitId
+            ? { ...c, links: c.links.filter((l) => l.id !== linkId) }
+            : c
+        ),
+      }),
+    })
+  }, [execute])
+
+  // =============================================================================
+  // PORTAL ACTIONS
+  // =============================================================================
+
+  const updatePortals = useCallback((portals: PortalDefinition[] | undefined) => {
+    execute({ label: 'Editar portales', mergeKey: 'portals', apply: (prev) => ({ ...prev, portals }) })
+  }, [execute])
 
   // =============================================================================
   // JSON DIRECT EDIT
   // =============================================================================
 
   const setDataFromJson = useCallback((newData: ProjectData) => {
-    setData(newData)
-    // Update selected circuit if current one no longer exists
-    if (selectedCircuitId && !newData.circuits.find((c) => c.id === selectedCircuitId)) {
-      setSelectedCircuitId(newData.circuits[0]?.id || null)
-    }
-  }, [selectedCircuitId])
+    execute({ label: 'Editar JSON', mergeKey: 'json', apply: () => newData })
+  }, [execute])
 
   // =============================================================================
   // SAVE ACTION
@@ -274,6 +462,8 @@ export function EditorContainer({
       setActiveVersionId(result.id)
       setOriginalData(data)
       setSaveMessage({ type: 'success', text: `Version ${result.version} guardada` })
+      // The work is now a version: the draft is no longer needed
+      discardDraft()
     } catch (err) {
       setSaveMessage({
         type: 'error',
@@ -282,23 +472,46 @@ export function EditorContainer({
     } finally {
       setIsSaving(false)
     }
-  }, [data, projectId, validation.valid])
+  }, [data, discardDraft, projectId, validation.valid])
 
   // =============================================================================
   // ACTIVATE VERSION
   // =============================================================================
 
-  const handleActivateVersion = useCallback(async (versionId: string) => {
+  const handleActivateVersion = useCallback(async (versionId: string, migrateRuns = false) => {
     setIsSaving(true)
     setSaveMessage(null)
 
     try {
+      // Dry run first: active runs on other versions are shown before migrating
+      if (!migrateRuns) {
+        const previewRes = await fetch(
+          `/api/projects/${projectId}/definitions/${versionId}`,
+          {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ isActive: true, dryRun: true }),
+          }
+        )
+
+        const preview = await previewRes.json()
+
+        if (!previewRes.ok) {
+          throw new Error(preview.error || 'Error al activar versión')
+        }
+
+        if (preview.runs?.length > 0) {
+          setPendingMigration({ versionId, version: preview.version, runs: preview.runs })
+          return
+        }
+      }
+
       const res = await fetch(
         `/api/projects/${projectId}/definitions/${versionId}`,
         {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ isActive: true }),
+          body: JSON.stringify({ isActive: true, migrateRuns }),
         }
       )
 
@@ -308,6 +521,8 @@ export function EditorContainer({
         throw new Error(result.error || 'Error al activar versión')
       }
 
+      setPendingMigration(null)
+
       // Update versions list
       setVersions((prev) =>
         prev.map((v) => ({
@@ -324,7 +539,7 @@ export function EditorContainer({
       const dataResult = await dataRes.json()
 
       if (dataRes.ok && dataResult.data) {
-        setData(dataResult.data)
+        reset(dataResult.data)
         setOriginalData(dataResult.data)
         setSelectedCircuitId(dataResult.data.circuits[0]?.id || null)
       }
@@ -338,7 +553,44 @@ export function EditorContainer({
     } finally {
       setIsSaving(false)
     }
-  }, [projectId])
+  }, [projectId, reset])
+
+  // =============================================================================
+  // RESTORE VERSION AS DRAFT
+  // =============================================================================
+  // Loads an old version into the editor as unsaved changes: saving it creates a
+  // new version on top of the history instead of rewriting it.
+
+  const handleRestoreVersion = useCallback(async (versionId: string) => {
+    if (isDirty && !confirm('Hay cambios sin guardar que se perderán. ¿Continuar?')) return
+
+    setIsSaving(true)
+    setSaveMessage(null)
+
+    try {
+      const res = await fetch(`/api/projects/${projectId}/definitions/${versionId}`)
+      const result = await res.json()
+
+      if (!res.ok || !result.data) {
+        throw new Error(result.error || 'Error al cargar la versión')
+      }
+
+      execute({ label: `Restaurar v${result.version}`, apply: () => result.data })
+      setSelectedCircuitId(result.data.circuits[0]?.id || null)
+      setDiffVersionId(null)
+      setSaveMessage({
+        type: 'success',
+        text: `v${result.version} cargada como borrador. Guarda para crear una versión nueva`,
+      })
+    } catch (err) {
+      setSaveMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Error desconocido',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }, [execute, isDirty, projectId])
 
   // =============================================================================
   // RENDER
@@ -346,6 +598,10 @@ export function EditorContainer({
 
   // Get current circuit
   const currentCircuit = data.circuits.find((c) => c.id === selectedCircuitId) || null
+  const warnings = [...validation.warnings].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  )
+  const diffVersion = versions.find((v) => v.id === diffVersionId) || null
 
   return (
     <div className="space-y-6">
@@ -361,11 +617,42 @@ export function EditorContainer({
           isValid={validation.valid}
           isSaving={isSaving}
           message={saveMessage}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          draftSavedAt={isDirty ? draftSavedAt : null}
           onSave={handleSave}
+          onUndo={undo}
+          onRedo={redo}
           onDismissMessage={() => setSaveMessage(null)}
         />
       </div>
 
+      {/* Draft left by an earlier session */}
+      {recoverableDraft && (
+        <div className="bg-cyber-secondary/10 border border-cyber-secondary/30 rounded-lg p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-300">
+            Tienes un borrador sin guardar del {formatDraftDate(recoverableDraft.updatedAt)}
+            {recoverableDraft.baseDefinitionId !== activeVersionId && ', hecho sobre otra versión'}.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={handleRecoverDraft}
+              className="px-3 py-1.5 text-xs bg-cyber-secondary/20 text-cyber-secondary rounded hover:bg-cyber-secondary/30"
+            >
+              Recuperar
+            </button>
+            <button
+              onClick={() => {
+                if (confirm('Descartar el borrador? No se puede deshacer.')) discardDraft()
+              }}
+              className="px-3 py-1.5 text-xs text-gray-400 hover:text-gray-300"
+            >
+              Descartar
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Validation errors summary */}
       {!validation.valid && validation.errors.length > 0 && (
         <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-4">
@@ -389,6 +676,28 @@ export function EditorContainer({
         </div>
       )}
 
+      {/* Graph analysis warnings (do not block saving) */}
+      {warnings.length > 0 && (
+        <div className="bg-yellow-900/10 border border-yellow-700/30 rounded-lg p-4">
+          <p className="text-yellow-400 font-medium mb-2">
+            {warnings.length} aviso{warnings.length > 1 ? 's' : ''} de jugabilidad
+          </p>
+          <ul className="text-sm space-y-1 max-h-32 overflow-y-auto">
+            {warnings.map((warning, i) => (
+              <li key={i} className="text-gray-300">
+                <span className={`font-mono text-xs mr-2 ${SEVERITY_STYLE[warning.severity].color}`}>
+                  {SEVERITY_STYLE[warning.severity].label}
+                </span>
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Difficulty simulation */}
+      <SimulationPanel projectId={projectId} data={data} isValid={validation.valid} />
+
       {/* Main content */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Editor area (3/4) */}
@@ -408,6 +717,7 @@ export function EditorContainer({
               onUpdateLink={updateLink}
               onDeleteLink={deleteLink}
               onUpdateMeta={updateMeta}
+              onUpdatePortals={updatePortals}
             />
           )}
 
@@ -441,10 +751,34 @@ export function EditorContainer({
             versions={versions}
             activeVersionId={activeVersionId}
             onActivateVersion={handleActivateVersion}
+            onCompareVersion={setDiffVersionId}
             isLoading={isSaving}
           />
         </div>
       </div>
+
+      {/* Run migration dry-run report */}
+      {pendingMigration && (
+        <MigrationReportModal
+          version={pendingMigration.version}
+          runs={pendingMigration.runs}
+          isLoading={isSaving}
+          onConfirm={() => handleActivateVersion(pendingMigration.versionId, true)}
+          onCancel={() => setPendingMigration(null)}
+        />
+      )}
+
+      {/* Changes of a version against another */}
+      {diffVersion && (
+        <VersionDiffModal
+          projectId={projectId}
+          version={diffVersion}
+          versions={versions}
+          isLoading={isSaving}
+          onRestore={handleRestoreVersion}
+          onClose={() => setDiffVersionId(null)}
+        />
+      )}
     </div>
   )
 }
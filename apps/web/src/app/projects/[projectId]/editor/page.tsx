@@ -9,6 +9,7 @@ import { prisma } from '@rolhack/database'
 import { auth } from '@/lib/auth'
 import { canEditProject, isSuperAdmin } from '@/lib/rbac'
 import { EditorContainer } from './editor-container'
+import type { DraftInfo } from './editor-container'
 import type { ProjectData } from '@/lib/engine'
 
 interface Props {
@@ -80,6 +81,24 @@ export default async function EditorPage({ params }: Props) {
     }
   }
 
+  // Autosaved draft of this editor, if any
+  const draft = await prisma.definitionDraft.findUnique({
+    where: { projectId_userId: { projectId, userId: user.id } },
+  })
+  let initialDraft: DraftInfo | null = null
+
+  if (draft) {
+    try {
+      initialDraft = {
+        data: JSON.parse(draft.data) as ProjectData,
+        baseDefinitionId: draft.baseDefinitionId,
+        updatedAt: draft.updatedAt.toISOString(),
+      }
+    } catch {
+      initialDraft = null
+    }
+  }
+
   // Format versions for the editor
   const versions = project.definitions.map((d) => ({
     id: d.id,
@@ -128,6 +147,7 @@ export default async function EditorPage({ params }: Props) {
           initialData={initialData}
           versions={versions}
           activeVersionId={activeDefinition?.id || null}
+          initialDraft={initialDraft}
         />
       </main>
     </div>
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type { ProjectData } from '@/lib/engine'
+
+// =============================================================================
+// useEditorHistory - Undo/redo over the definition being edited
+// =============================================================================
+// Every edit goes through a command; the history keeps the data as it was
+// before each one. Data is never mutated, so snapshots share their structure.
+// Shared by the visual, table and JSON tabs: they all edit through the
+// container's actions.
+
+/**
+ * An edit of the definition
+ * mergeKey: consecutive commands with the same key close in time are undone
+ * together (typing in a field undoes the whole field, not one letter)
+ */
+export interface EditorCommand {
+  label: string
+  apply: (data: ProjectData) => ProjectData
+  mergeKey?: string
+}
+
+interface HistoryEntry {
+  label: string
+  data: ProjectData // Before the command (past) or after it (future)
+  mergeKey?: string
+  at: number
+}
+
+interface HistoryState {
+  data: ProjectData
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+const MAX_HISTORY = 100
+const MERGE_WINDOW_MS = 1000
+
+export function useEditorHistory(initialData: ProjectData) {
+  const [state, setState] = useState<HistoryState>({ data: initialData, past: [], future: [] })
+
+  const execute = useCallback((command: EditorCommand) => {
+    const now = Date.now()
+    setState((prev) => {
+      const data = command.apply(prev.data)
+      if (data === prev.data) return prev
+
+      const last = prev.past[prev.past.length - 1]
+      if (command.mergeKey && last?.mergeKey === command.mergeKey && now - last.at < MERGE_WINDOW_MS) {
+        return { data, past: [...prev.past.slice(0, -1), { ...last, at: now }], future: [] }
+      }
+
+      const entry: HistoryEntry = { label: command.label, data: prev.data, mergeKey: command.mergeKey, at: now }
+      return { data, past: [...prev.past, entry].slice(-MAX_HISTORY), future: [] }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setState((prev) => {
+      const entry = prev.past[prev.past.length - 1]
+      if (!entry) return prev
+      return {
+        data: entry.data,
+        past: prev.past.slice(0, -1),
+        future: [...prev.future, { label: entry.label, data: prev.data, at: 0 }],
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setState((prev) => {
+      const entry = prev.future[prev.future.length - 1]
+      if (!entry) return prev
+      return {
+        data: entry.data,
+        past: [...prev.past, { label: entry.label, data: prev.data, at: 0 }],
+        future: prev.future.slice(0, -1),
+      }
+    })
+  }, [])
+
+  // Load data that is not an edit (e.g. another version activated): forget the history
+  const reset = useCallback((data: ProjectData) => {
+    setState({ data, past: [], future: [] })
+  }, [])
+
+  return {
+    data: state.data,
+    execute,
+    undo,
+    redo,
+    reset,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[state.future.length - 1]?.label ?? null,
+  }
+}
@@ -7,23 +7,27 @@ import { CreateRunButton } from './create-run-button'
 import { EditProjectForm } from './edit-project-form'
 import { RunListItem } from './run-list-item'
 import { RunSortControls } from './run-sort-controls'
+import { RunFilterControls, type RunFilter } from './run-filter-controls'
 
 type SortField = 'date' | 'name' | 'user'
 type SortOrder = 'asc' | 'desc'
 
 interface Props {
   params: Promise<{ projectId: string }>
-  searchParams: Promise<{ sort?: string; order?: string }>
+  searchParams: Promise<{ sort?: string; order?: string; filter?: string }>
 }
 
 export default async function ProjectDetailPage({ params, searchParams }: Props) {
   const session = await auth()
   const { projectId } = await params
-  const { sort, order } = await searchParams
+  const { sort, order, filter } = await searchParams
 
   // Parse sorting params
   const sortField: SortField = ['date', 'name', 'user'].includes(sort || '') ? (sort as SortField) : 'date'
   const sortOrder: SortOrder = order === 'asc' ? 'asc' : 'desc'
+  const runFilter: RunFilter = ['active', 'archived', 'completed', 'all'].includes(filter || '')
+    ? (filter as RunFilter)
+    : 'active'
 
   // If not authenticated, redirect to login with return URL
   if (!session?.user) {
@@ -75,13 +79,34 @@ export default async function ProjectDetailPage({ params, searchParams }: Props)
   }
 
   // Get runs for this project
-  // SUPERADMIN sees all runs, others see only their own
+  // SUPERADMIN sees all runs, others see their own and the team runs they joined
+  const visibleRuns = {
+    projectId,
+    ...(isAdmin
+      ? {}
+      : { OR: [{ ownerUserId: user.id }, { participants: { some: { userId: user.id } } }] }),
+    deletedAt: null,
+  }
+  const filterWhere = {
+    active: { status: 'ACTIVE' },
+    archived: { status: 'ARCHIVED' },
+    completed: { ending: 'COMPLETED' },
+    all: {},
+  }
+
+  const [activeCount, archivedCount, completedCount, lastActiveRun] = await Promise.all([
+    prisma.run.count({ where: { ...visibleRuns, ...filterWhere.active } }),
+    prisma.run.count({ where: { ...visibleRuns, ...filterWhere.archived } }),
+    prisma.run.count({ where: { ...visibleRuns, ...filterWhere.completed } }),
+    prisma.run.findFirst({
+      where: { ...visibleRuns, ...filterWhere.active },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    }),
+  ])
+
   const runs = await prisma.run.findMany({
-    where: {
-      projectId,
-      ...(isAdmin ? {} : { ownerUserId: user.id }),
-      deletedAt: null,
-    },
+    where: { ...visibleRuns, ...filterWhere[runFilter] },
     orderBy: getOrderBy(),
     select: {
       id: true,
@@ -89,6 +114,7 @@ export default async function ProjectDetailPage({ params, searchParams }: Props)
       status: true,
       createdAt: true,
       updatedAt: true,
+      ending: true,
       ownerUserId: true,
       owner: {
         select: {
@@ -97,13 +123,19 @@ export default async function ProjectDetailPage({ params, searchParams }: Props)
           email: true,
         },
       },
+      // Fork lineage
+      parentRun: {
+        select: { id: true, name: true, deletedAt: true },
+      },
+      _count: {
+        select: { forks: { where: { deletedAt: null } } },
+      },
     },
   })
 
   const userRole = isAdmin ? 'SUPERADMIN' : project.members[0]?.role || null
   const canPlay = project.enabled || isAdmin
   const hasDefinition = project.definitions.length > 0
-  const lastActiveRun = runs.find((r) => r.status === 'ACTIVE')
   const canManage = userRole === 'SUPERADMIN' || userRole === 'OWNER'
 
   return (
@@ -207,11 +239,23 @@ export default async function ProjectDetailPage({ params, searchParams }: Props)
               <RunSortControls showUserSort={isAdmin} />
             )}
           </div>
+          <div className="mb-4">
+            <RunFilterControls
+              counts={{
+                active: activeCount,
+                archived: archivedCount,
+                completed: completedCount,
+                all: activeCount + archivedCount,
+              }}
+            />
+          </div>
 
           {runs.length === 0 ? (
             <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-8 text-center">
               <p className="text-gray-400">
-                {isAdmin ? 'No hay runs en este proyecto' : 'No tienes runs en este proyecto'}
+                {runFilter !== 'all' && activeCount + archivedCount > 0
+                  ? 'No hay runs con este filtro'
+                  : isAdmin ? 'No hay runs en este proyecto' : 'No tienes runs en este proyecto'}
               </p>
               <p className="text-gray-600 text-sm mt-1">
                 Crea una nueva run para comenzar a jugar
@@ -228,10 +272,17 @@ export default async function ProjectDetailPage({ params, searchParams }: Props)
                     status: run.status,
                     createdAt: run.createdAt.toISOString(),
                     updatedAt: run.updatedAt.toISOString(),
+                    ending: run.ending,
+                    parentRun: run.parentRun && !run.parentRun.deletedAt
+                      ? { id: run.parentRun.id, name: run.parentRun.name }
+                      : null,
+                    forkCount: run._count.forks,
                   }}
                   projectName={project.name}
                   canManage={canManage}
-                  ownerName={isAdmin && run.ownerUserId !== user.id ? (run.owner.name || run.owner.email) : undefined}
+                  canManageSpectators={canManage || run.ownerUserId === user.id}
+                  canArchive={canManage || run.ownerUserId === user.id}
+                  ownerName={run.ownerUserId !== user.id ? (run.owner.name || run.owner.email) : undefined}
                 />
               ))}
             </div>
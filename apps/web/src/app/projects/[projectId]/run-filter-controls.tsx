@@ -0,0 +1,52 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+
+export type RunFilter = 'active' | 'archived' | 'completed' | 'all'
+
+interface Props {
+  counts: Record<RunFilter, number>
+}
+
+const FILTERS: { value: RunFilter; label: string }[] = [
+  { value: 'active', label: 'Activas' },
+  { value: 'archived', label: 'Archivadas' },
+  { value: 'completed', label: 'Completadas' },
+  { value: 'all', label: 'Todas' },
+]
+
+export function RunFilterControls({ counts }: Props) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const currentFilter = (searchParams.get('filter') as RunFilter) || 'active'
+
+  const handleFilterChange = (filter: RunFilter) => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.set('filter', filter)
+    router.push(`?${params.toString()}`)
+  }
+
+  const getButtonClass = (filter: RunFilter) => {
+    const base = 'px-3 py-1.5 text-xs rounded transition-colors flex items-center gap-1'
+    if (currentFilter === filter) {
+      return `${base} bg-cyber-primary/20 text-cyber-primary border border-cyber-primary/30`
+    }
+    return `${base} bg-gray-800/50 text-gray-400 hover:text-gray-300 border border-gray-700 hover:border-gray-600`
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-gray-500 text-xs">Mostrar:</span>
+      {FILTERS.map((filter) => (
+        <button
+          key={filter.value}
+          onClick={() => handleFilterChange(filter.value)}
+          className={getButtonClass(filter.value)}
+        >
+          {filter.label} <span className="opacity-60">({counts[filter.value]})</span>
+        </button>
+      ))}
+    </div>
+  )
+}
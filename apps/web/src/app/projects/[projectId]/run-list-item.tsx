@@ -11,16 +11,25 @@ interface Run {
   status: string
   createdAt: string
   updatedAt: string
+  // Set once the run ended: COMPLETED | GAME_OVER
+  ending?: string | null
+  // Fork lineage
+  parentRun?: { id: string; name: string | null } | null
+  forkCount?: number
 }
 
 interface Props {
   run: Run
   projectName: string
   canManage?: boolean
+  // Run owner or SUPERADMIN - can mint spectator links
+  canManageSpectators?: boolean
+  // Run owner, project OWNER or SUPERADMIN - can archive the run
+  canArchive?: boolean
   ownerName?: string
 }
 
-export function RunListItem({ run, projectName, canManage = false, ownerName }: Props) {
+export function RunListItem({ run, projectName, canManage = false, canManageSpectators = false, canArchive = false, ownerName }: Props) {
   const router = useRouter()
   const [isEditing, setIsEditing] = useState(false)
   const [editName, setEditName] = useState(run.name || '')
@@ -49,6 +58,22 @@ export function RunListItem({ run, projectName, canManage = false, ownerName }:
     }
   }
 
+  const handleToggleArchive = async () => {
+    setIsLoading(true)
+    try {
+      const res = await fetch(`/api/runs/${run.id}/archive`, {
+        method: run.status === 'ARCHIVED' ? 'DELETE' : 'POST',
+      })
+      if (res.ok) {
+        router.refresh()
+      }
+    } catch (error) {
+      console.error('Error archiving run:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleDelete = async () => {
     setIsLoading(true)
     try {
@@ -118,6 +143,15 @@ export function RunListItem({ run, projectName, canManage = false, ownerName }:
             }`}>
               {run.status}
             </span>
+            {run.ending && (
+              <span className={`text-xs px-2 py-0.5 rounded ${
+                run.ending === 'COMPLETED'
+                  ? 'bg-green-500/20 text-green-400'
+                  : 'bg-red-500/20 text-red-400'
+              }`}>
+                {run.ending === 'COMPLETED' ? 'COMPLETADA' : 'GAME OVER'}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-3 text-gray-500 text-xs">
             {ownerName && (
@@ -125,6 +159,20 @@ export function RunListItem({ run, projectName, canManage = false, ownerName }:
                 {ownerName}
               </span>
             )}
+            {run.parentRun && (
+              <Link
+                href={`/runs/${run.parentRun.id}`}
+                className="text-cyber-accent/80 hover:text-cyber-accent truncate"
+                title="Run de origen"
+              >
+                ⑂ rama de {run.parentRun.name || `Run ${run.parentRun.id.slice(0, 8)}`}
+              </Link>
+            )}
+            {!!run.forkCount && (
+              <span>
+                {run.forkCount} {run.forkCount === 1 ? 'rama' : 'ramas'}
+              </span>
+            )}
             <span>
               Actualizado: {new Date(run.updatedAt).toLocaleDateString('es-ES', {
                 day: 'numeric',
@@ -137,6 +185,20 @@ export function RunListItem({ run, projectName, canManage = false, ownerName }:
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {/* Archive / unarchive */}
+          {canArchive && !isEditing && (
+            <button
+              onClick={handleToggleArchive}
+              disabled={isLoading}
+              className="p-2 text-gray-500 hover:text-cyber-accent hover:bg-cyber-accent/10 rounded transition-colors disabled:opacity-50"
+              title={run.status === 'ARCHIVED' ? 'Desarchivar' : 'Archivar'}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M4 3a2 2 0 100 4h12a2 2 0 100-4H4z" />
+                <path fillRule="evenodd" d="M3 8h14v7a2 2 0 01-2 2H5a2 2 0 01-2-2V8zm5 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" clipRule="evenodd" />
+              </svg>
+            </button>
+          )}
           {/* Management actions for OWNER/SUPERADMIN */}
           {canManage && !isEditing && (
             <>
@@ -160,12 +222,23 @@ export function RunListItem({ run, projectName, canManage = false, ownerName }:
               </button>
             </>
           )}
+          {/* GM console for OWNER/SUPERADMIN */}
+          {canManage && (
+            <Link
+              href={`/runs/${run.id}/gm`}
+              className="px-3 py-2 border border-orange-500/30 hover:bg-orange-500/10 text-orange-400 rounded-lg text-sm font-mono transition-colors"
+              title="Consola GM"
+            >
+              GM
+            </Link>
+          )}
           {/* Share actions (compact) */}
           <SharePanel
             runId={run.id}
             runName={run.name}
             projectName={projectName}
             variant="COMPACT"
+            canManageSpectators={canManageSpectators}
           />
           {/* Play button */}
           <Link
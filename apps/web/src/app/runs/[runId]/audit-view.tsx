@@ -287,6 +287,27 @@ export function AuditView({
                     ))}
                   </div>
                 </div>
+
+                {/* GM interventions - kept apart from player actions */}
+                {auditData.gmInterventions.length > 0 && (
+                  <div className="bg-cyber-darker border border-orange-500/30 rounded-lg p-4">
+                    <h3 className="text-sm font-mono font-medium text-orange-400 mb-4">
+                      INTERVENCIONES GM ({auditData.gmInterventions.length})
+                    </h3>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {auditData.gmInterventions.map((event) => (
+                        <div
+                          key={event.id}
+                          className="p-2 rounded bg-orange-500/5 flex items-center gap-3"
+                        >
+                          <span className="text-xs text-gray-500 font-mono w-16">{formatTime(event.timestamp)}</span>
+                          <span className="text-xs text-orange-400 font-mono w-40 truncate">{event.details?.gmAction ?? event.type}</span>
+                          <span className="text-sm text-gray-300 flex-1 truncate">{event.description}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -399,7 +420,11 @@ export function AuditView({
                           <div className="h-8 w-px bg-gray-700" />
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-1">
-                              <span className="text-xs font-mono px-2 py-0.5 bg-cyber-primary/20 text-cyber-primary rounded">
+                              <span className={`text-xs font-mono px-2 py-0.5 rounded ${
+                                event.type === 'GM_OVERRIDE' || event.type === 'ROLLBACK'
+                                  ? 'bg-orange-500/20 text-orange-400'
+                                  : 'bg-cyber-primary/20 text-cyber-primary'
+                              }`}>
                                 {event.type}
                               </span>
                               {circuit && (
@@ -407,6 +432,11 @@ export function AuditView({
                                   en {circuit.name}
                                 </span>
                               )}
+                              {event.actorName && (
+                                <span className="text-xs text-cyber-secondary">
+                                  por {event.actorName}
+                                </span>
+                              )}
                             </div>
                             <p className="text-sm text-gray-300">{event.description}</p>
                           </div>
@@ -559,8 +589,22 @@ export function AuditView({
                 )}
                 <p>&gt; CIRCUITS: {auditData.completedCircuits}/{auditData.totalCircuits} COMPLETED</p>
                 <p>&gt; EVENTS: {auditData.timeline.length} RECORDED</p>
+                {auditData.gmInterventions.length > 0 && (
+                  <p style={{ color: '#ffaa55' }}>&gt; GM_OVERRIDES: {auditData.gmInterventions.length}</p>
+                )}
               </div>
 
+              {auditData.gmInterventions.length > 0 && (
+                <div style={{ borderTop: `1px solid ${primaryColor}22`, paddingTop: '1rem' }}>
+                  <p style={{ color: `${textColor}66` }} className="mb-2">&gt; GM_INTERVENTIONS:</p>
+                  {auditData.gmInterventions.map((event) => (
+                    <p key={event.id} style={{ color: '#ffaa55' }}>
+                      {'  '}[{formatTime(event.timestamp)}] {event.details?.gmAction ?? event.type}: {event.description}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               <div style={{ borderTop: `1px solid ${primaryColor}22`, paddingTop: '1rem' }}>
                 <p style={{ color: `${textColor}66` }} className="mb-2">&gt; CIRCUIT_STATUS:</p>
                 {auditData.circuits.map((circuit) => (
@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import type { CharacterProfile, CharacterProgram } from '@/lib/engine'
+
+// =============================================================================
+// CharacterModal Component - Decker profile of the current player
+// =============================================================================
+// Edits the character used in this run. Its stats are applied by the server
+// to every hack: attributes and programs to phase 1, fail die help to phase 2.
+// Critical rerolls need server dice (the server rolls the fail die again).
+
+interface CharacterModalProps {
+  runId: string
+  character: CharacterProfile | null
+  serverDice: boolean // Project in SERVER dice mode
+  onSaved: (character: CharacterProfile | null) => void
+  onClose: () => void
+}
+
+const EMPTY_CHARACTER: CharacterProfile = {
+  name: '',
+  interface: 0,
+  deckBonus: 0,
+  programs: [],
+  failDieBonus: 0,
+  failDieRerolls: 0,
+}
+
+const MAX_PROGRAMS = 10
+
+export function CharacterModal({ runId, character, serverDice, onSaved, onClose }: CharacterModalProps) {
+  const [draft, setDraft] = useState<CharacterProfile>(character ?? EMPTY_CHARACTER)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const rollBonus = draft.interface + draft.deckBonus +
+    draft.programs.reduce((sum, program) => sum + program.bonus, 0)
+
+  const updateNumber = (field: 'interface' | 'deckBonus' | 'failDieBonus' | 'failDieRerolls', value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: parseInt(value, 10) || 0 }))
+  }
+
+  const updateProgram = (index: number, updates: Partial<CharacterProgram>) => {
+    setDraft((prev) => ({
+      ...prev,
+      programs: prev.programs.map((program, i) => (i === index ? { ...program, ...updates } : program)),
+    }))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/character`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...draft,
+          programs: draft.programs.filter((program) => program.name.trim()),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Error al guardar el personaje')
+      }
+      onSaved(data.character)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm('¿Eliminar el personaje? Las tiradas dejarán de tener modificadores.')) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/character`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Error al eliminar el personaje')
+      }
+      onSaved(null)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-primary'
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-cyber-dark border border-cyber-primary/30 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-mono font-bold text-cyber-primary">PERFIL DE DECKER</h3>
+            <p className="text-gray-500 text-xs">
+              Bonificador de tirada: {rollBonus >= 0 ? `+${rollBonus}` : rollBonus}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-white transition-colors cursor-pointer"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="col-span-2">
+            <label className="block text-xs text-gray-400 mb-1">Nombre</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              maxLength={60}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Interfaz</label>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={draft.interface}
+              onChange={(e) => updateNumber('interface', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Bonus de ciberdeck</label>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={draft.deckBonus}
+              onChange={(e) => updateNumber('deckBonus', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Bonus al dado de fallo</label>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={draft.failDieBonus}
+              onChange={(e) => updateNumber('failDieBonus', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {serverDice && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Repeticiones de crítico</label>
+              <input
+                type="number"
+                min={0}
+                max={3}
+                value={draft.failDieRerolls}
+                onChange={(e) => updateNumber('failDieRerolls', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Programs */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs text-gray-400">Programas</label>
+            {draft.programs.length < MAX_PROGRAMS && (
+              <button
+                type="button"
+                onClick={() => setDraft((prev) => ({ ...prev, programs: [...prev.programs, { name: '', bonus: 1 }] }))}
+                className="text-xs font-mono text-cyber-primary hover:text-cyber-primary/80"
+              >
+                + Añadir
+              </button>
+            )}
+          </div>
+          {draft.programs.length === 0 ? (
+            <p className="text-gray-600 text-xs">Sin programas cargados.</p>
+          ) : (
+            <div className="space-y-2">
+              {draft.programs.map((program, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={program.name}
+                    onChange={(e) => updateProgram(index, { name: e.target.value })}
+                    maxLength={40}
+                    placeholder="Rompehielos"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    min={-10}
+                    max={10}
+                    value={program.bonus}
+                    onChange={(e) => updateProgram(index, { bonus: parseInt(e.target.value, 10) || 0 })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDraft((prev) => ({ ...prev, programs: prev.programs.filter((_, i) => i !== index) }))}
+                    className="px-2 text-gray-500 hover:text-red-400 transition-colors"
+                    title="Quitar programa"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-red-400 text-xs mb-3">{error}</p>}
+
+        <div className="flex items-center justify-between gap-2">
+          {character ? (
+            <button
+              onClick={handleDelete}
+              disabled={saving}
+              className="px-3 py-1.5 bg-red-600/20 border border-red-600/40 hover:bg-red-600/30 text-red-400 rounded text-sm font-mono transition-colors disabled:opacity-50"
+            >
+              Eliminar
+            </button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={saving || !draft.name.trim()}
+            className="px-4 py-1.5 bg-cyber-primary/20 border border-cyber-primary/30 hover:bg-cyber-primary/30 text-cyber-primary rounded text-sm font-mono transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Guardando...' : 'Guardar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
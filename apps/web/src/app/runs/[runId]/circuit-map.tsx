@@ -1,12 +1,22 @@
 'use client'
 
 import { useMemo } from 'react'
-import type { CircuitDefinition, RunState } from '@/lib/engine'
+import type { CircuitDefinition, NodeType, RunState } from '@/lib/engine'
 import type { SemanticColors, ThemeTerminology } from '@/lib/theme'
 import { DEFAULT_SEMANTIC_COLORS, DEFAULT_TERMINOLOGY } from '@/lib/theme'
+import { getIcePositions } from '@/lib/engine/engine'
 
 export type MapStyle = 'graph' | 'breadcrumb' | 'none'
 
+// Glyph and name of each node type on the maps (STANDARD nodes show none)
+export const NODE_TYPE_ICONS: Record<NodeType, { icon: string; label: string }> = {
+  STANDARD: { icon: '', label: '' },
+  FIREWALL: { icon: '▦', label: 'FIREWALL' },
+  DATASTORE: { icon: '▤', label: 'DATASTORE' },
+  CONTROL: { icon: '⌬', label: 'CONTROL' },
+  HONEYPOT: { icon: '◈', label: 'HONEYPOT' },
+}
+
 interface CircuitMapProps {
   circuit: CircuitDefinition
   state: RunState
@@ -30,7 +40,9 @@ interface NodeDisplay {
   isBlocked: boolean
   isDiscovered: boolean
   isCurrent: boolean
+  type: NodeType
   children: string[] // IDs of connected nodes at higher levels
+  ice: string[] // Names of the ICE on this node
 }
 
 export function CircuitMap({
@@ -61,6 +73,13 @@ export function CircuitMap({
   const nodeDisplays = useMemo(() => {
     const displays: NodeDisplay[] = []
 
+    // ICE are only shown on discovered nodes
+    const iceByNode: Record<string, string[]> = {}
+    for (const { ice, nodeId } of getIcePositions(state, circuit)) {
+      if (!iceByNode[nodeId]) iceByNode[nodeId] = []
+      iceByNode[nodeId].push(ice.name)
+    }
+
     // Build adjacency map from discovered links
     const adjacency: Record<string, string[]> = {}
     for (const link of circuit.links) {
@@ -99,7 +118,9 @@ export function CircuitMap({
         isBlocked: nodeState.bloqueado,
         isDiscovered: nodeState.descubierto,
         isCurrent: node.id === currentNodeId,
+        type: node.type ?? 'STANDARD',
         children,
+        ice: iceByNode[node.id] || [],
       })
     }
 
@@ -208,6 +229,20 @@ export function CircuitMap({
                   {node.name.toUpperCase()}
                 </span>
 
+                {/* Node type marker */}
+                {node.type !== 'STANDARD' && (
+                  <span style={{ color: secondaryColor }} title={NODE_TYPE_ICONS[node.type].label}>
+                    {NODE_TYPE_ICONS[node.type].icon}
+                  </span>
+                )}
+
+                {/* ICE marker */}
+                {node.ice.length > 0 && (
+                  <span style={{ color: semanticColors.blockedNode }} title={`ICE: ${node.ice.join(', ')}`}>
+                    ▲
+                  </span>
+                )}
+
                 {/* Current indicator */}
                 {node.isCurrent && (
                   <span style={{ color: semanticColors.currentNode }} className="animate-pulse">←</span>
@@ -251,6 +286,17 @@ export function CircuitMap({
               <span style={{ color: semanticColors.blockedNode }}>{stats.blocked}</span>
             </div>
           )}
+          {nodeDisplays.some((node) => node.ice.length > 0) && (
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-1">
+                <span style={{ color: semanticColors.blockedNode }}>▲</span>
+                <span style={{ color: `${textColor}88` }}>ICE</span>
+              </span>
+              <span style={{ color: semanticColors.blockedNode }}>
+                {nodeDisplays.reduce((sum, node) => sum + node.ice.length, 0)}
+              </span>
+            </div>
+          )}
           {stats.undiscovered > 0 && (
             <div className="flex items-center justify-between">
               <span className="flex items-center gap-1">
@@ -317,6 +363,20 @@ export function CircuitMap({
                 >
                   {node.isBlocked ? 'LOCK' : node.isHacked ? 'OK' : 'SEC'}
                 </span>
+
+                {/* Node type marker */}
+                {node.type !== 'STANDARD' && (
+                  <span style={{ color: secondaryColor }} title={NODE_TYPE_ICONS[node.type].label}>
+                    {NODE_TYPE_ICONS[node.type].icon}
+                  </span>
+                )}
+
+                {/* ICE marker */}
+                {node.ice.length > 0 && (
+                  <span style={{ color: semanticColors.blockedNode }} title={`ICE: ${node.ice.join(', ')}`}>
+                    ▲
+                  </span>
+                )}
               </div>
 
               {/* Arrow connector */}
@@ -1,12 +1,22 @@
 'use client'
 
 import { useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import type { ProjectData, RunState, Warning, NodeDefinition, CircuitDefinition, StateSnapshot } from '@/lib/engine'
+import type { ProjectData, RunState, RunUpdateEvent, Warning, NodeDefinition, CircuitDefinition, StateSnapshot, CharacterProfile } from '@/lib/engine'
 import { ImmersiveView } from './immersive-view'
 import { Timeline, ReplayIndicator } from './timeline'
 import { AuditView } from './audit-view'
 import { SharePanel } from '@/components/share-panel'
+import { useRunEvents } from './use-run-events'
+import { TeamPanel, type TeamMember } from './team-panel'
+import { getPlayerView, formatHackModifiers, getCharacterRollBonus, getTraceStatus, getAccessDenial, getAvailableMoves, isCircuitUnlocked, findNode } from '@/lib/engine/engine'
+import { formatDiceRoll } from '@/lib/engine/dice'
+import { useDiceConfig } from './use-dice-config'
+import { postRunAction, type ConflictHandling } from './run-actions'
+import { CharacterModal } from './character-modal'
+import { InventoryPanel } from './inventory-panel'
+import { NODE_TYPE_ICONS } from './circuit-map'
 
 interface VisualTemplate {
   renderer: 'TECH' | 'IMMERSIVE'
@@ -29,6 +39,16 @@ interface VisualTemplate {
   }
 }
 
+// Move targets from the current node; locked maps node ID -> unmet requirement
+// portals lists targets in other circuits (also present in the other lists)
+interface AvailableMoveIds {
+  fastTravel: string[]
+  advance: string[]
+  all: string[]
+  locked: Record<string, string>
+  portals: { nodeId: string; label: string }[]
+}
+
 interface Props {
   runId: string
   projectId: string
@@ -41,6 +61,17 @@ interface Props {
   // Permission flags for audit/export features
   canExport?: boolean
   isSuperAdmin?: boolean
+  // GM console access (project OWNER or SUPERADMIN)
+  canControl?: boolean
+  // Spectator link management (run owner, project OWNER or SUPERADMIN)
+  canManageSpectators?: boolean
+  // Branch new runs from timeline events
+  canFork?: boolean
+  // Team runs: the viewing player and the run team (owner first)
+  currentUserId: string
+  teamMembers: TeamMember[]
+  // Decker profile of the viewing player (null if none)
+  initialCharacter: CharacterProfile | null
 }
 
 export function GameScreen({
@@ -54,11 +85,19 @@ export function GameScreen({
   createdAt,
   canExport = false,
   isSuperAdmin = false,
+  canControl = false,
+  canManageSpectators = false,
+  canFork = false,
+  currentUserId,
+  teamMembers,
+  initialCharacter,
 }: Props) {
   // =============================================================================
   // ALL HOOKS MUST BE AT THE TOP - React rules of hooks
   // =============================================================================
-  const [state, setState] = useState<RunState>(initialState)
+  const [sharedState, setState] = useState<RunState>(initialState)
+  // Team runs: each player sees the network from their own position
+  const state = getPlayerView(sharedState, currentUserId)
   const [viewModeOverride, setViewModeOverride] = useState<'TECH' | 'IMMERSIVE' | null>(null)
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
@@ -69,6 +108,19 @@ export function GameScreen({
   const [replayIndex, setReplayIndex] = useState<number | null>(null)
   const [replaySnapshot, setReplaySnapshot] = useState<StateSnapshot | null>(null)
   const [showAuditView, setShowAuditView] = useState(false)
+  const [liveUpdate, setLiveUpdate] = useState<RunUpdateEvent | null>(null)
+  const [character, setCharacter] = useState<CharacterProfile | null>(initialCharacter)
+  const [showCharacterModal, setShowCharacterModal] = useState(false)
+
+  // SERVER dice mode: the player sets up dice, the server rolls
+  const serverDice = projectData.meta.diceMode === 'SERVER'
+  const diceConfig = useDiceConfig(runId, projectData.meta.defaultDice || '1d20')
+
+  // Live updates: state changes from any session (players, GM) are pushed here
+  const { connected: liveConnected } = useRunEvents(runId, {
+    onState: setState,
+    onUpdate: setLiveUpdate,
+  })
 
   // Determine active view mode (override or default from template)
   const activeViewMode = viewModeOverride ?? visualTemplate.renderer
@@ -110,6 +162,21 @@ export function GameScreen({
     setSelectedNodeId(null)
   }, [])
 
+  // Fork a new run from a timeline event and open it
+  const router = useRouter()
+  const forkFromEvent = useCallback(async (eventId: string) => {
+    const res = await fetch(`/api/runs/${runId}/fork`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventId }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      throw new Error(data.error || 'Error al crear la rama')
+    }
+    router.push(`/runs/${data.runId}`)
+  }, [runId, router])
+
   // Exit replay mode - return to current actual state
   const exitReplayMode = useCallback(() => {
     setReplaySnapshot(null)
@@ -125,6 +192,8 @@ export function GameScreen({
 
   // Get current circuit (used by both views)
   const currentCircuit = projectData.circuits.find(c => c.id === displayState.position.circuitId)
+  // Trace meter (null when the project has none) - replay snapshots don't carry it
+  const traceStatus = getTraceStatus(state, projectData)
   const currentNode = currentCircuit?.nodes.find(n => n.id === displayState.position.nodeId)
   const currentNodeState = displayState.nodes[displayState.position.nodeId]
 
@@ -142,12 +211,13 @@ export function GameScreen({
   }, [currentCircuit, displayState])
 
   // Get available moves (uses displayState for UI representation)
-  const getAvailableMoveIds = useCallback((): { fastTravel: string[]; advance: string[]; all: string[] } => {
-    if (!currentCircuit) return { fastTravel: [], advance: [], all: [] }
+  const getAvailableMoveIds = useCallback((): AvailableMoveIds => {
+    if (!currentCircuit) return { fastTravel: [], advance: [], all: [], locked: {}, portals: [] }
 
     const currentNodeId = displayState.position.nodeId
     const fastTravel: string[] = []
     const advance: string[] = []
+    const locked: Record<string, string> = {} // Node ID -> unmet key/dependency
 
     const currentNodeStateLocal = displayState.nodes[currentNodeId]
     const currentIsHacked = currentNodeStateLocal?.hackeado === true
@@ -160,7 +230,12 @@ export function GameScreen({
       if (nodeState.inaccesible || nodeState.bloqueado) continue
 
       if (nodeState.hackeado) {
-        fastTravel.push(node.id)
+        const denial = getAccessDenial(displayState, projectData, node)
+        if (denial) {
+          locked[node.id] = denial
+        } else {
+          fastTravel.push(node.id)
+        }
       }
     }
 
@@ -179,7 +254,9 @@ export function GameScreen({
 
         if (targetId) {
           const targetState = displayState.nodes[targetId]
+          const targetNode = currentCircuit.nodes.find(n => n.id === targetId)
           if (
+            targetNode &&
             targetState &&
             targetState.descubierto &&
             !targetState.inaccesible &&
@@ -187,14 +264,34 @@ export function GameScreen({
             !targetState.hackeado &&
             !advance.includes(targetId)
           ) {
-            advance.push(targetId)
+            const denial = getAccessDenial(displayState, projectData, targetNode, link)
+            if (denial) {
+              locked[targetId] = denial
+            } else {
+              advance.push(targetId)
+            }
           }
         }
       }
     }
 
-    return { fastTravel, advance, all: [...fastTravel, ...advance] }
-  }, [currentCircuit, displayState])
+    // Portals to other circuits follow the engine rules
+    const portals: { nodeId: string; label: string }[] = []
+    const engineMoves = getAvailableMoves(displayState, projectData)
+    const portalTargets = [...engineMoves.all, ...engineMoves.locked.map(l => l.nodeId)]
+      .filter(id => !currentCircuit.nodes.some(n => n.id === id))
+    for (const nodeId of portalTargets) {
+      const found = findNode(projectData, nodeId)
+      if (!found) continue
+      portals.push({ nodeId, label: `${found.circuit.name} › ${found.node.name}` })
+      if (engineMoves.fastTravel.includes(nodeId)) fastTravel.push(nodeId)
+      if (engineMoves.advance.includes(nodeId)) advance.push(nodeId)
+      const lockedMove = engineMoves.locked.find(l => l.nodeId === nodeId)
+      if (lockedMove) locked[nodeId] = lockedMove.message
+    }
+
+    return { fastTravel, advance, all: [...fastTravel, ...advance], locked, portals }
+  }, [currentCircuit, displayState, projectData])
 
   // Merge template with defaults for IMMERSIVE view
   const immersiveTheme = { ...defaultImmersiveTheme, ...visualTemplate.theme }
@@ -220,6 +317,11 @@ export function GameScreen({
         createdAt={createdAt}
         canExport={canExport}
         isSuperAdmin={isSuperAdmin}
+        liveConnected={liveConnected}
+        liveUpdate={liveUpdate}
+        character={character}
+        onCharacterChange={setCharacter}
+        onFork={canFork ? forkFromEvent : undefined}
       />
     )
   }
@@ -229,7 +331,9 @@ export function GameScreen({
   // =============================================================================
 
   // Check if there are multiple circuits
-  const hasMultipleCircuits = projectData.circuits.length > 1
+  // Circuit gating: only circuits reached through a portal can be selected
+  const unlockedCircuitCount = projectData.circuits.filter(c => isCircuitUnlocked(state, projectData, c.id)).length
+  const hasMultipleCircuits = unlockedCircuitCount > 1
 
   // Circuit status type
   type CircuitStatus = 'NOT_STARTED' | 'IN_PROGRESS' | 'ADVANCED' | 'COMPLETED' | 'BLOCKED'
@@ -328,19 +432,11 @@ export function GameScreen({
     setMessage(null)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/switch-circuit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ targetCircuitId }),
-      })
+      const data = await postRunAction(runId, 'switch-circuit', { targetCircuitId }, conflictHandling)
+      if (!data) return
 
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
-
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
       setSelectedNodeId(null)
       setShowCircuitSelector(false)
 
@@ -363,32 +459,32 @@ export function GameScreen({
 
   // API calls
   async function doHack() {
-    if (!hackInput) return
+    if (!serverDice && !hackInput) return
     setLoading(true)
     setMessage(null)
 
     try {
       // PROMPT 7: No longer send nodeId - hack always applies to current position
-      const res = await fetch(`/api/runs/${runId}/hack`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          inputValue: parseInt(hackInput, 10),
-        }),
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
+      const data = await postRunAction(
+        runId,
+        'hack',
+        serverDice ? { dice: diceConfig.dice } : { inputValue: parseInt(hackInput, 10) },
+        conflictHandling
+      )
+      if (!data) return
 
-      // Refetch run state
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       setMessage({
         type: data.success ? 'success' : 'error',
-        text: data.message,
+        text: [
+          data.diceRoll && formatDiceRoll(data.diceRoll),
+          data.hackModifiers && formatHackModifiers(data.hackModifiers),
+          data.message,
+          data.payloads && `${data.payloads.length} archivo(s) extraído(s)`,
+          ...(data.narrative ?? []),
+        ].filter(Boolean).join(' — '),
       })
       setHackInput('')
     } catch (err) {
@@ -406,21 +502,15 @@ export function GameScreen({
     setMessage(null)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/discover`, {
-        method: 'POST',
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
+      const data = await postRunAction(runId, 'discover', undefined, conflictHandling)
+      if (!data) return
 
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       setMessage({
         type: data.discoveredLinks.length > 0 ? 'success' : 'info',
-        text: data.message,
+        text: [data.message, ...(data.narrative ?? [])].join(' — '),
       })
     } catch (err) {
       setMessage({
@@ -437,24 +527,16 @@ export function GameScreen({
     setMessage(null)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/move`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ targetNodeId }),
-      })
+      const data = await postRunAction(runId, 'move', { targetNodeId }, conflictHandling)
+      if (!data) return
 
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
-
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
       setSelectedNodeId(null)
 
       setMessage({
         type: data.success ? 'success' : 'error',
-        text: data.message,
+        text: [data.message, ...(data.narrative ?? [])].join(' — '),
       })
     } catch (err) {
       setMessage({
@@ -466,6 +548,16 @@ export function GameScreen({
     }
   }
 
+  // Another session wrote the run first: resync and let the player retry
+  const conflictHandling: ConflictHandling = {
+    resync: refreshState,
+    onConflict: () =>
+      setMessage({
+        type: 'info',
+        text: 'El estado de la run cambió en otra sesión. Se ha sincronizado, revisa y reintenta.',
+      }),
+  }
+
   async function refreshState() {
     const res = await fetch(`/api/runs/${runId}`)
     const data = await res.json()
@@ -474,6 +566,7 @@ export function GameScreen({
     }
   }
 
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Replay Mode Indicator - fixed at top when in replay mode */}
@@ -504,13 +597,50 @@ export function GameScreen({
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {/* Live stream indicator */}
+            <span
+              className={`flex items-center gap-1.5 text-xs font-mono ${liveConnected ? 'text-cyber-primary' : 'text-gray-600'}`}
+              title={liveConnected ? 'Sincronizado en tiempo real' : 'Sin conexión en tiempo real'}
+            >
+              <span className={`w-2 h-2 rounded-full ${liveConnected ? 'bg-cyber-primary animate-pulse' : 'bg-gray-600'}`} />
+              LIVE
+            </span>
+            {/* Decker profile */}
+            <button
+              onClick={() => setShowCharacterModal(true)}
+              className="px-3 py-1.5 text-xs font-mono bg-cyber-dark border border-cyber-primary/30 hover:border-cyber-primary/60 text-cyber-primary rounded transition-colors"
+              title="Perfil de decker"
+            >
+              {character
+                ? `${character.name} +${getCharacterRollBonus(character)}`
+                : 'DECKER'}
+            </button>
+            {/* Team members */}
+            <TeamPanel
+              runId={runId}
+              currentUserId={currentUserId}
+              initialMembers={teamMembers}
+              state={sharedState}
+              projectData={projectData}
+            />
             {/* Share panel (compact) */}
             <SharePanel
               runId={runId}
               runName={runName}
               projectName={projectName}
               variant="COMPACT"
+              canManageSpectators={canManageSpectators}
             />
+            {/* GM console link */}
+            {canControl && (
+              <Link
+                href={`/runs/${runId}/gm`}
+                className="px-3 py-1.5 text-xs font-mono bg-cyber-dark border border-orange-500/30 hover:border-orange-500/60 text-orange-400 rounded transition-colors"
+                title="Abrir consola GM"
+              >
+                GM
+              </Link>
+            )}
             {/* Audit view button */}
             <button
               onClick={() => setShowAuditView(true)}
@@ -584,7 +714,7 @@ export function GameScreen({
 
             {/* Circuit cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              {getCircuitSummary().map((circuit) => {
+              {getCircuitSummary().filter((circuit) => isCircuitUnlocked(state, projectData, circuit.id)).map((circuit) => {
                 const statusBadge = getStatusBadge(circuit.status)
                 const hint = getCircuitHint(circuit)
 
@@ -694,10 +824,11 @@ export function GameScreen({
       )}
 
       {/* Warnings bar */}
-      {displayState.warnings.length > 0 && (
+      {(displayState.warnings.length > 0 || traceStatus) && (
         <div className="bg-cyber-dark/80 border-b border-red-900/30 px-4 py-2">
           <div className="max-w-6xl mx-auto">
             <div className="flex items-center gap-4 overflow-x-auto">
+              {traceStatus && <TraceMeter {...traceStatus} />}
               {displayState.warnings.slice(-3).map((warning, i) => (
                 <WarningBadge key={i} warning={warning} />
               ))}
@@ -739,10 +870,21 @@ export function GameScreen({
                 onExitReplay={exitReplayMode}
                 isReplayMode={isReplayMode}
                 replayIndex={replayIndex}
+                onFork={canFork ? forkFromEvent : undefined}
                 variant="TECH"
               />
             )}
 
+            {/* Extracted payloads */}
+            {state.inventory && state.inventory.length > 0 && (
+              <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-gray-400 mb-3">
+                  INVENTARIO ({state.inventory.length})
+                </h3>
+                <InventoryPanel items={state.inventory} projectData={projectData} />
+              </div>
+            )}
+
             {/* Current node info */}
             <div className={`bg-cyber-dark/50 border rounded-lg p-4 ${isReplayMode ? 'border-yellow-500/30' : 'border-cyber-primary/20'}`}>
               <div className="flex items-center justify-between mb-2">
@@ -790,18 +932,41 @@ export function GameScreen({
                 <h3 className="text-sm font-mono font-medium text-cyber-primary mb-3">
                   INITIATE BREACH
                 </h3>
+                {serverDice && (
+                  <div className="grid grid-cols-2 gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={diceConfig.expression}
+                      readOnly
+                      title="Expresión de dados del proyecto"
+                      className="bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-white text-sm font-mono focus:border-cyber-primary focus:outline-none"
+                      disabled={loading}
+                    />
+                    <input
+                      type="text"
+                      value={diceConfig.modifiersText}
+                      onChange={(e) => diceConfig.setModifiersText(e.target.value)}
+                      placeholder="INT=3, skill=2"
+                      title="Valores de los modificadores"
+                      className="bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-white text-sm font-mono focus:border-cyber-primary focus:outline-none"
+                      disabled={loading}
+                    />
+                  </div>
+                )}
                 <div className="flex gap-2">
-                  <input
-                    type="number"
-                    value={hackInput}
-                    onChange={(e) => setHackInput(e.target.value)}
-                    placeholder="INPUT"
-                    className="flex-1 bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-white font-mono focus:border-cyber-primary focus:outline-none text-center"
-                    disabled={loading}
-                  />
+                  {!serverDice && (
+                    <input
+                      type="number"
+                      value={hackInput}
+                      onChange={(e) => setHackInput(e.target.value)}
+                      placeholder="INPUT"
+                      className="flex-1 bg-cyber-darker border border-gray-700 rounded px-3 py-2 text-white font-mono focus:border-cyber-primary focus:outline-none text-center"
+                      disabled={loading}
+                    />
+                  )}
                   <button
                     onClick={doHack}
-                    disabled={loading || !hackInput}
+                    disabled={loading || (!serverDice && !hackInput)}
                     className="px-6 py-2 bg-cyber-primary/20 border border-cyber-primary/30 hover:bg-cyber-primary/30 text-cyber-primary rounded font-mono font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
                     {loading ? '...' : 'EXEC'}
@@ -864,7 +1029,7 @@ export function GameScreen({
                 >
                   {loading ? 'CONNECTING...' : `${
                     availableMoves.fastTravel.includes(selectedNodeId) ? '» ' : '> '
-                  }${currentCircuit?.nodes.find(n => n.id === selectedNodeId)?.name || selectedNodeId}`}
+                  }${findNode(projectData, selectedNodeId)?.node.name || selectedNodeId}`}
                 </button>
               </div>
             )}
@@ -912,6 +1077,17 @@ export function GameScreen({
           variant="TECH"
         />
       )}
+
+      {/* Character Modal */}
+      {showCharacterModal && (
+        <CharacterModal
+          runId={runId}
+          character={character}
+          serverDice={serverDice}
+          onSaved={setCharacter}
+          onClose={() => setShowCharacterModal(false)}
+        />
+      )}
     </div>
   )
 }
@@ -936,6 +1112,25 @@ function WarningBadge({ warning }: { warning: Warning }) {
   )
 }
 
+// Trace meter component
+function TraceMeter({ level, max, nextThreshold }: NonNullable<ReturnType<typeof getTraceStatus>>) {
+  const percent = Math.min(100, Math.round((level / max) * 100))
+  const barColor = percent >= 75 ? 'bg-red-500' : percent >= 40 ? 'bg-amber-400' : 'bg-cyber-primary'
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs font-mono whitespace-nowrap"
+      title={nextThreshold ? `Próxima escalada en ${nextThreshold.value}` : 'Sin más escaladas'}
+    >
+      <span className="text-gray-400">TRACE</span>
+      <div className="w-24 h-2 bg-gray-800 rounded overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+      </div>
+      <span className="text-gray-300">{level}/{max}</span>
+    </div>
+  )
+}
+
 // Circuit map component
 function CircuitMap({
   circuit,
@@ -947,7 +1142,7 @@ function CircuitMap({
   circuit: CircuitDefinition
   state: RunState
   selectedNodeId: string | null
-  availableMoves: { fastTravel: string[]; advance: string[]; all: string[] }
+  availableMoves: AvailableMoveIds
   onSelectNode: (id: string | null) => void
 }) {
   // Group nodes by level
@@ -980,6 +1175,7 @@ function CircuitMap({
               const isFastTravel = availableMoves.fastTravel.includes(node.id)
               const isAdvance = availableMoves.advance.includes(node.id)
               const isAccessible = isFastTravel || isAdvance
+              const lockedReason = availableMoves.locked[node.id]
 
               if (!isDiscovered) {
                 return (
@@ -1003,6 +1199,8 @@ function CircuitMap({
                       ? 'bg-cyber-secondary/20 border-cyber-secondary text-cyber-secondary'
                       : isBlocked
                       ? 'bg-red-900/20 border-red-700/30 text-red-400 cursor-not-allowed'
+                      : lockedReason
+                      ? 'bg-amber-900/10 border-amber-700/40 text-amber-400/70 cursor-not-allowed'
                       : isFastTravel
                       ? 'bg-cyber-primary/10 border-cyber-primary/30 text-cyber-primary/70 hover:border-cyber-primary/50'
                       : isAdvance
@@ -1012,10 +1210,15 @@ function CircuitMap({
                       : 'bg-gray-900 border-gray-700 text-gray-400'
                   }`}
                   disabled={isCurrent || isBlocked || (!isAccessible && !isCurrent)}
+                  title={lockedReason}
                 >
+                  {node.type && node.type !== 'STANDARD' && (
+                    <span className="mr-1 opacity-80" title={NODE_TYPE_ICONS[node.type].label}>{NODE_TYPE_ICONS[node.type].icon}</span>
+                  )}
                   {node.name}
                   {isHacked && <span className="ml-1 text-xs opacity-70">[OK]</span>}
                   {isBlocked && <span className="ml-1 text-xs">[X]</span>}
+                  {lockedReason && <span className="ml-1 text-xs">[⚿]</span>}
                   {isAdvance && !isHacked && <span className="ml-1 text-xs opacity-50">&gt;</span>}
                 </button>
               )
@@ -1023,6 +1226,36 @@ function CircuitMap({
           </div>
         </div>
       ))}
+
+      {availableMoves.portals.length > 0 && (
+        <div>
+          <p className="text-xs font-mono text-gray-600 mb-2">PORTALS</p>
+          <div className="flex flex-wrap gap-2">
+            {availableMoves.portals.map(({ nodeId, label }) => {
+              const lockedReason = availableMoves.locked[nodeId]
+              const isSelected = nodeId === selectedNodeId
+              return (
+                <button
+                  key={nodeId}
+                  onClick={() => onSelectNode(isSelected ? null : nodeId)}
+                  disabled={!!lockedReason}
+                  title={lockedReason}
+                  className={`px-4 py-2 rounded border border-dashed text-sm font-mono font-medium transition-all ${
+                    isSelected
+                      ? 'bg-cyber-secondary/20 border-cyber-secondary text-cyber-secondary'
+                      : lockedReason
+                      ? 'bg-amber-900/10 border-amber-700/40 text-amber-400/70 cursor-not-allowed'
+                      : 'bg-gray-800 border-cyber-accent/50 text-white hover:border-cyber-accent'
+                  }`}
+                >
+                  ⇄ {label}
+                  {lockedReason && <span className="ml-1 text-xs">[⚿]</span>}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
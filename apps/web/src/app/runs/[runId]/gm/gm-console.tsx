@@ -0,0 +1,540 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRunEvents } from '../use-run-events'
+import { getEffectiveCd } from '@/lib/engine/engine'
+import type {
+  ProjectData,
+  RunState,
+  GmAction,
+  WarningSeverity,
+  CircuitDefinition,
+  NodeDefinition,
+} from '@/lib/engine'
+
+// =============================================================================
+// GmConsole Component - Live control console for the game master
+// =============================================================================
+// Every action here is an override: it bypasses the game rules and is
+// recorded as a GM_OVERRIDE event in the run timeline. Restoring a
+// checkpoint is recorded as a ROLLBACK event.
+
+interface GmConsoleProps {
+  runId: string
+  projectId: string
+  projectName: string
+  runName: string | null
+  initialState: RunState
+  projectData: ProjectData
+}
+
+const SEVERITIES: WarningSeverity[] = ['INFO', 'TRACE', 'ALERT', 'LOCKDOWN', 'BLACK_ICE']
+
+const SEVERITY_COLORS: Record<WarningSeverity, string> = {
+  INFO: 'text-blue-400',
+  TRACE: 'text-yellow-400',
+  ALERT: 'text-orange-400',
+  LOCKDOWN: 'text-red-400',
+  BLACK_ICE: 'text-purple-400',
+}
+
+export function GmConsole({
+  runId,
+  projectId,
+  projectName,
+  runName,
+  initialState,
+  projectData,
+}: GmConsoleProps) {
+  const [state, setState] = useState<RunState>(initialState)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [warningSeverity, setWarningSeverity] = useState<WarningSeverity>('TRACE')
+  const [warningMessage, setWarningMessage] = useState('')
+  const [warningNodeId, setWarningNodeId] = useState('')
+
+  // Player actions show up live while the GM watches
+  const { connected: liveConnected } = useRunEvents(runId, { onState: setState })
+
+  async function refreshState() {
+    const res = await fetch(`/api/runs/${runId}`)
+    const data = await res.json()
+    if (res.ok && data.state) {
+      setState(data.state)
+    }
+  }
+
+  async function post(endpoint: 'gm' | 'rollback', body: unknown) {
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await res.json()
+
+      // The player acted first - resync so the override is applied knowingly
+      if (res.status === 409) {
+        await refreshState()
+        setMessage({ type: 'error', text: 'La run cambió mientras tanto. Estado sincronizado, reintenta.' })
+        return false
+      }
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Error')
+      }
+
+      if (!liveConnected) await refreshState()
+
+      setMessage({
+        type: data.success ? 'success' : 'error',
+        text: data.message,
+      })
+      return data.success === true
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Error desconocido',
+      })
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function sendAction(action: GmAction) {
+    return post('gm', action)
+  }
+
+  async function rollback(eventId: string, description: string) {
+    if (!confirm(`¿Restaurar la run al estado tras "${description}"? Los cambios posteriores se desharán.`)) return
+    await post('rollback', { eventId })
+  }
+
+  async function injectWarning() {
+    if (!warningMessage.trim()) return
+    const ok = await sendAction({
+      type: 'INJECT_WARNING',
+      severity: warningSeverity,
+      message: warningMessage.trim(),
+      nodeId: warningNodeId || undefined,
+    })
+    if (ok) setWarningMessage('')
+  }
+
+  const currentCircuit = projectData.circuits.find(c => c.id === state.position.circuitId)
+  const currentNode = currentCircuit?.nodes.find(n => n.id === state.position.nodeId)
+  const gmEvents = (state.timeline || [])
+    .filter(e => e.type === 'GM_OVERRIDE' || e.type === 'ROLLBACK')
+    .slice(-10)
+    .reverse()
+  const checkpoints = (state.timeline || []).filter(e => e.hasCheckpoint).slice(-10).reverse()
+  const recentWarnings = state.warnings.slice(-8).reverse()
+
+  const getNodeName = (nodeId: string) => {
+    for (const circuit of projectData.circuits) {
+      const node = circuit.nodes.find(n => n.id === nodeId)
+      if (node) return node.name
+    }
+    return nodeId
+  }
+
+  const formatTime = (timestamp?: string) => {
+    if (!timestamp) return '--:--:--'
+    return new Date(timestamp).toLocaleTimeString('es-ES', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <header className="bg-cyber-dark border-b border-cyber-primary/20 p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            <Link
+              href={`/projects/${projectId}`}
+              className="text-gray-500 hover:text-gray-400 text-xs mb-1 inline-block"
+            >
+              &larr; Volver al proyecto
+            </Link>
+            <h1 className="text-lg font-bold text-cyber-accent font-mono">GM CONSOLE</h1>
+            <p className="text-gray-500 text-sm">
+              {projectName} — {runName || `Run ${runId.slice(0, 8)}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-gray-400 text-xs">Posición actual</p>
+              <p className="text-cyber-secondary font-medium text-sm">
+                {currentCircuit?.name || '?'} / {currentNode?.name || '?'}
+              </p>
+            </div>
+            <button
+              onClick={refreshState}
+              disabled={loading}
+              className="px-3 py-1.5 text-xs font-mono bg-cyber-dark border border-gray-700 hover:border-cyber-primary/50 text-gray-300 rounded transition-colors disabled:opacity-50"
+            >
+              REFRESCAR
+            </button>
+            <Link
+              href={`/runs/${runId}`}
+              className="px-3 py-1.5 text-xs font-mono bg-cyber-secondary/10 border border-cyber-secondary/30 hover:bg-cyber-secondary/20 text-cyber-secondary rounded transition-colors"
+            >
+              VISTA JUGADOR
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Message */}
+      {message && (
+        <div className={`px-4 py-2 text-sm font-mono border-b ${
+          message.type === 'success'
+            ? 'bg-cyber-primary/10 border-cyber-primary/30 text-cyber-primary'
+            : 'bg-red-900/20 border-red-700/30 text-red-400'
+        }`}>
+          <div className="max-w-6xl mx-auto">{message.text}</div>
+        </div>
+      )}
+
+      <main className="flex-1 p-4">
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Circuits & nodes */}
+          <div className="lg:col-span-2 space-y-4">
+            {projectData.circuits.map((circuit) => (
+              <CircuitPanel
+                key={circuit.id}
+                circuit={circuit}
+                state={state}
+                loading={loading}
+                onAction={sendAction}
+              />
+            ))}
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-4">
+            {/* Inject warning */}
+            <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+              <h2 className="text-sm font-mono font-medium text-gray-400 mb-3">INYECTAR AVISO</h2>
+              <div className="space-y-2">
+                <select
+                  value={warningSeverity}
+                  onChange={(e) => setWarningSeverity(e.target.value as WarningSeverity)}
+                  className="w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-primary"
+                >
+                  {SEVERITIES.map((severity) => (
+                    <option key={severity} value={severity}>{severity}</option>
+                  ))}
+                </select>
+                <select
+                  value={warningNodeId}
+                  onChange={(e) => setWarningNodeId(e.target.value)}
+                  className="w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-primary"
+                >
+                  <option value="">Nodo actual del jugador</option>
+                  {projectData.circuits.map((circuit) => (
+                    <optgroup key={circuit.id} label={circuit.name}>
+                      {circuit.nodes.map((node) => (
+                        <option key={node.id} value={node.id}>{node.name}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={warningMessage}
+                  onChange={(e) => setWarningMessage(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') injectWarning()
+                  }}
+                  maxLength={200}
+                  placeholder="INTRUSION DETECTED — ..."
+                  className="w-full bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm font-mono focus:outline-none focus:border-cyber-primary"
+                />
+                <button
+                  onClick={injectWarning}
+                  disabled={loading || !warningMessage.trim()}
+                  className="w-full px-3 py-2 bg-red-600/20 border border-red-600/40 hover:bg-red-600/30 text-red-400 rounded text-sm font-mono transition-colors disabled:opacity-50"
+                >
+                  ENVIAR AVISO
+                </button>
+              </div>
+            </div>
+
+            {/* Recent warnings */}
+            <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+              <h2 className="text-sm font-mono font-medium text-gray-400 mb-3">
+                AVISOS ({state.warnings.length})
+              </h2>
+              {recentWarnings.length === 0 ? (
+                <p className="text-xs text-gray-600">Sin avisos</p>
+              ) : (
+                <div className="space-y-1.5 max-h-60 overflow-y-auto">
+                  {recentWarnings.map((warning, idx) => (
+                    <div key={idx} className="text-xs font-mono">
+                      <span className="text-gray-600">{formatTime(warning.timestamp)} </span>
+                      <span className={SEVERITY_COLORS[warning.severity]}>{warning.severity}</span>
+                      <span className="text-gray-400"> {warning.message}</span>
+                      <span className="text-gray-600"> @ {getNodeName(warning.nodeId)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Rollback checkpoints */}
+            <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+              <h2 className="text-sm font-mono font-medium text-gray-400 mb-3">PUNTOS DE RESTAURACIÓN</h2>
+              {checkpoints.length === 0 ? (
+                <p className="text-xs text-gray-600">Sin puntos de restauración</p>
+              ) : (
+                <div className="space-y-1.5 max-h-60 overflow-y-auto">
+                  {checkpoints.map((event, idx) => (
+                    <div key={event.id} className="flex items-center justify-between gap-2 text-xs">
+                      <div className="min-w-0">
+                        <span className="text-gray-600 font-mono">{formatTime(event.timestamp)} </span>
+                        <span className="text-gray-300">{event.description}</span>
+                      </div>
+                      {idx > 0 && (
+                        <button
+                          onClick={() => rollback(event.id, event.description)}
+                          disabled={loading}
+                          className="shrink-0 px-2 py-1 text-[11px] font-mono text-orange-400 border border-orange-500/30 hover:bg-orange-500/10 rounded transition-colors disabled:opacity-40"
+                        >
+                          RESTAURAR
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* GM interventions */}
+            <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+              <h2 className="text-sm font-mono font-medium text-gray-400 mb-3">INTERVENCIONES GM</h2>
+              {gmEvents.length === 0 ? (
+                <p className="text-xs text-gray-600">Sin intervenciones</p>
+              ) : (
+                <div className="space-y-1.5 max-h-60 overflow-y-auto">
+                  {gmEvents.map((event) => (
+                    <div key={event.id} className="text-xs">
+                      <span className="text-gray-600 font-mono">{formatTime(event.timestamp)} </span>
+                      <span className="text-gray-300">{event.description}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+// =============================================================================
+// CircuitPanel - Node/link overrides for a single circuit
+// =============================================================================
+
+function CircuitPanel({
+  circuit,
+  state,
+  loading,
+  onAction,
+}: {
+  circuit: CircuitDefinition
+  state: RunState
+  loading: boolean
+  onAction: (action: GmAction) => void
+}) {
+  const [showLinks, setShowLinks] = useState(false)
+  const isBlocked = state.blockedCircuits?.[circuit.id] === true
+  const isCompleted = state.completedCircuits?.[circuit.id] === true
+  const isCurrent = state.position.circuitId === circuit.id
+
+  const nodeName = (nodeId: string) => circuit.nodes.find(n => n.id === nodeId)?.name || nodeId
+
+  return (
+    <div className={`bg-cyber-dark/50 border rounded-lg overflow-hidden ${
+      isCurrent ? 'border-cyber-accent/40' : 'border-gray-800'
+    }`}>
+      <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h2 className="text-white font-medium">{circuit.name}</h2>
+          {isCurrent && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-cyber-accent/30 text-cyber-accent rounded">ACTUAL</span>
+          )}
+          {isCompleted && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-green-500/20 text-green-400 rounded">COMPLETADO</span>
+          )}
+          {isBlocked && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-red-500/20 text-red-400 rounded">LOCKDOWN</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isBlocked && (
+            <button
+              onClick={() => onAction({ type: 'UNLOCK_CIRCUIT', circuitId: circuit.id })}
+              disabled={loading}
+              className="px-2 py-1 text-xs font-mono bg-red-600/20 border border-red-600/40 hover:bg-red-600/30 text-red-400 rounded transition-colors disabled:opacity-50"
+            >
+              LEVANTAR LOCKDOWN
+            </button>
+          )}
+          <button
+            onClick={() => setShowLinks(!showLinks)}
+            className="px-2 py-1 text-xs font-mono text-gray-500 hover:text-white transition-colors"
+          >
+            {showLinks ? 'NODOS' : `ENLACES (${circuit.links.length})`}
+          </button>
+        </div>
+      </div>
+
+      {showLinks ? (
+        <div className="divide-y divide-gray-800/50">
+          {circuit.links.map((link) => {
+            const linkState = state.links[link.id]
+            return (
+              <div key={link.id} className="px-4 py-2 flex items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-gray-300 truncate">
+                    {nodeName(link.from)} {link.bidirectional === false ? '→' : '↔'} {nodeName(link.to)}
+                  </span>
+                  {link.hidden && !linkState?.descubierto && (
+                    <span className="text-[10px] px-1.5 py-0.5 bg-gray-700 text-gray-400 rounded">OCULTO</span>
+                  )}
+                  {linkState?.inaccesible && (
+                    <span className="text-[10px] px-1.5 py-0.5 bg-red-500/20 text-red-400 rounded">CORTADO</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => onAction({
+                    type: 'SET_LINK_INACCESSIBLE',
+                    linkId: link.id,
+                    inaccesible: !linkState?.inaccesible,
+                  })}
+                  disabled={loading}
+                  className="shrink-0 px-2 py-1 text-xs font-mono text-gray-400 border border-gray-700 hover:border-gray-500 rounded transition-colors disabled:opacity-50"
+                >
+                  {linkState?.inaccesible ? 'HABILITAR' : 'CORTAR'}
+                </button>
+              </div>
+            )
+          })}
+          {circuit.links.length === 0 && (
+            <p className="px-4 py-3 text-xs text-gray-600">Sin enlaces</p>
+          )}
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-800/50">
+          {[...circuit.nodes]
+            .sort((a, b) => a.level - b.level)
+            .map((node) => (
+              <NodeRow
+                key={node.id}
+                node={node}
+                state={state}
+                loading={loading}
+                onAction={onAction}
+              />
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function NodeRow({
+  node,
+  state,
+  loading,
+  onAction,
+}: {
+  node: NodeDefinition
+  state: RunState
+  loading: boolean
+  onAction: (action: GmAction) => void
+}) {
+  const nodeState = state.nodes[node.id]
+  if (!nodeState) return null
+
+  const isCurrent = state.position.nodeId === node.id
+  const buttonClass =
+    'px-2 py-1 text-[11px] font-mono border rounded transition-colors disabled:opacity-40'
+
+  return (
+    <div className="px-4 py-2 flex items-center justify-between gap-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-600 font-mono">L{node.level}</span>
+          <span className={`text-sm truncate ${isCurrent ? 'text-cyber-accent font-medium' : 'text-white'}`}>
+            {node.name}
+          </span>
+          {node.isFinal && <span className="text-yellow-400 text-xs">★</span>}
+        </div>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {isCurrent && <span className="text-[10px] px-1.5 py-0.5 bg-cyber-accent/30 text-cyber-accent rounded">JUGADOR</span>}
+          {nodeState.hackeado && <span className="text-[10px] px-1.5 py-0.5 bg-cyber-primary/20 text-cyber-primary rounded">HACKEADO</span>}
+          {nodeState.bloqueado && <span className="text-[10px] px-1.5 py-0.5 bg-red-500/20 text-red-400 rounded">BLOQUEADO</span>}
+          {nodeState.inaccesible && <span className="text-[10px] px-1.5 py-0.5 bg-orange-500/20 text-orange-400 rounded">INACCESIBLE</span>}
+          {!nodeState.descubierto && <span className="text-[10px] px-1.5 py-0.5 bg-gray-700 text-gray-400 rounded">OCULTO</span>}
+          <span className="text-[10px] px-1.5 py-0.5 text-gray-500">CD {getEffectiveCd(state, node)} · D{node.failDie} · {nodeState.intentos} intentos</span>
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-end gap-1 shrink-0">
+        <button
+          onClick={() => onAction({ type: 'FORCE_HACK', nodeId: node.id })}
+          disabled={loading || nodeState.hackeado}
+          className={`${buttonClass} text-cyber-primary border-cyber-primary/30 hover:bg-cyber-primary/10`}
+        >
+          HACK
+        </button>
+        <button
+          onClick={() => onAction({ type: 'UNBLOCK_NODE', nodeId: node.id })}
+          disabled={loading || !nodeState.bloqueado}
+          className={`${buttonClass} text-red-400 border-red-500/30 hover:bg-red-500/10`}
+        >
+          DESBLOQ.
+        </button>
+        <button
+          onClick={() => onAction({
+            type: nodeState.descubierto ? 'HIDE_NODE' : 'REVEAL_NODE',
+            nodeId: node.id,
+          })}
+          disabled={loading || (nodeState.descubierto && isCurrent)}
+          className={`${buttonClass} text-cyan-400 border-cyan-500/30 hover:bg-cyan-500/10`}
+        >
+          {nodeState.descubierto ? 'OCULTAR' : 'REVELAR'}
+        </button>
+        <button
+          onClick={() => onAction({
+            type: 'SET_NODE_INACCESSIBLE',
+            nodeId: node.id,
+            inaccesible: !nodeState.inaccesible,
+          })}
+          disabled={loading}
+          className={`${buttonClass} text-orange-400 border-orange-500/30 hover:bg-orange-500/10`}
+        >
+          {nodeState.inaccesible ? 'ACCESIBLE' : 'INACCES.'}
+        </button>
+        <button
+          onClick={() => onAction({ type: 'TELEPORT', nodeId: node.id })}
+          disabled={loading || isCurrent}
+          className={`${buttonClass} text-cyber-accent border-cyber-accent/30 hover:bg-cyber-accent/10`}
+        >
+          MOVER AQUÍ
+        </button>
+      </div>
+    </div>
+  )
+}
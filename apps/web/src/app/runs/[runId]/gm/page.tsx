@@ -0,0 +1,78 @@
+import { auth } from '@/lib/auth'
+import { redirect, notFound } from 'next/navigation'
+import { isSuperAdmin, getProjectRole } from '@/lib/rbac'
+import { prisma } from '@rolhack/database'
+import { parseProjectData, parseRunState, redactRunStateForClients } from '@/lib/engine'
+import { GmConsole } from './gm-console'
+import type { ProjectData, RunState } from '@/lib/engine'
+
+interface Props {
+  params: Promise<{ runId: string }>
+}
+
+export default async function GmConsolePage({ params }: Props) {
+  const session = await auth()
+  const { runId } = await params
+
+  if (!session?.user) {
+    const returnUrl = encodeURIComponent(`/runs/${runId}/gm`)
+    redirect(`/auth/login?callbackUrl=${returnUrl}`)
+  }
+  const user = session.user
+  const isAdmin = isSuperAdmin(user)
+
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    include: {
+      definition: true,
+      project: true,
+    },
+  })
+
+  if (!run || run.deletedAt) {
+    notFound()
+  }
+
+  // Only the GM (project OWNER) or SUPERADMIN can control a live run
+  const projectRole = isAdmin ? null : await getProjectRole(user.id, run.projectId)
+  if (!isAdmin && projectRole !== 'OWNER') {
+    return (
+      <main className="min-h-screen p-8 flex items-center justify-center">
+        <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-8 text-center max-w-md">
+          <h1 className="text-xl font-bold text-white mb-2">Acceso denegado</h1>
+          <p className="text-gray-400 mb-6">Solo OWNER o SUPERADMIN pueden controlar esta RUN.</p>
+          <a
+            href={`/runs/${runId}`}
+            className="inline-block px-4 py-2 bg-cyber-primary text-cyber-darker rounded-lg font-medium hover:bg-cyber-primary/90 transition-colors"
+          >
+            Volver a la run
+          </a>
+        </div>
+      </main>
+    )
+  }
+
+  const projectDataResult = parseProjectData(run.definition.data)
+  const runStateResult = parseRunState(run.state)
+
+  if (!projectDataResult.success || !runStateResult.success) {
+    return (
+      <main className="min-h-screen p-8 flex items-center justify-center">
+        <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-6 text-center">
+          <p className="text-red-400">Error al cargar los datos del juego</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <GmConsole
+      runId={runId}
+      projectId={run.projectId}
+      projectName={run.project.name}
+      runName={run.name}
+      initialState={redactRunStateForClients(runStateResult.data as RunState)}
+      projectData={projectDataResult.data as ProjectData}
+    />
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import Link from 'next/link'
-import type { ProjectData, RunState, Warning, CircuitDefinition, StateSnapshot } from '@/lib/engine'
+import type { ProjectData, RunState, RunUpdateEvent, Warning, CircuitDefinition, StateSnapshot, CharacterProfile, BudgetState } from '@/lib/engine'
 import { Timeline, ReplayIndicator } from './timeline'
 import { AuditView } from './audit-view'
 import { SharePanel } from '@/components/share-panel'
@@ -11,6 +11,12 @@ import { NetworkMapModal } from './network-map-modal'
 import { BackgroundLayer, ThemedEffects } from '@/components/theme'
 import type { ThemeDefinition, ThemeEffects, ThemeTerminology, SemanticColors } from '@/lib/theme'
 import { DEFAULT_TERMINOLOGY, DEFAULT_SEMANTIC_COLORS, DEFAULT_EFFECTS } from '@/lib/theme'
+import { formatDiceRoll } from '@/lib/engine/dice'
+import { useDiceConfig } from './use-dice-config'
+import { postRunAction, type ConflictHandling } from './run-actions'
+import { CharacterModal } from './character-modal'
+import { InventoryPanel } from './inventory-panel'
+import { formatHackModifiers, getCharacterRollBonus, getTraceStatus, getBudgetStatus, getAccessDenial, getAvailableMoves as getEngineMoves, isCircuitUnlocked, findNode } from '@/lib/engine/engine'
 
 interface Props {
   runId: string
@@ -27,6 +33,14 @@ interface Props {
   createdAt: string
   canExport?: boolean
   isSuperAdmin?: boolean
+  // Live stream (subscribed by GameScreen)
+  liveConnected?: boolean
+  liveUpdate?: RunUpdateEvent | null
+  // Decker profile of the current player (owned by GameScreen)
+  character?: CharacterProfile | null
+  onCharacterChange?: (character: CharacterProfile | null) => void
+  // Branch a new run from a timeline event (absent without permission)
+  onFork?: (eventId: string) => Promise<void>
 }
 
 export function ImmersiveView({
@@ -44,6 +58,11 @@ export function ImmersiveView({
   createdAt,
   canExport = false,
   isSuperAdmin = false,
+  liveConnected = false,
+  liveUpdate = null,
+  character = null,
+  onCharacterChange,
+  onFork,
 }: Props) {
   // Get theme colors with fallbacks
   const primaryColor = (theme.primaryColor as string) || '#00ff00'
@@ -73,7 +92,8 @@ export function ImmersiveView({
   // Circuit selector state
   const [showCircuitSelector, setShowCircuitSelector] = useState(false)
   const [circuitTransition, setCircuitTransition] = useState(false)
-  const hasMultipleCircuits = projectData.circuits.length > 1
+  // Circuit gating: only circuits reached through a portal can be selected
+  const hasMultipleCircuits = projectData.circuits.filter(c => isCircuitUnlocked(state, projectData, c.id)).length > 1
 
   // =============================================================================
   // REPLAY MODE STATE (Visual only - does NOT modify actual run state)
@@ -121,6 +141,16 @@ export function ImmersiveView({
     }
   }, [currentCircuitBlocked, state.position.circuitId, lockdownCircuitId])
 
+  // Show game over when a budget ends the run (any action can exhaust it)
+  const runOver = state.gameOver === true
+  useEffect(() => {
+    if (runOver) {
+      setGameOverMessage(state.warnings[state.warnings.length - 1]?.message ?? '')
+      setShowGameOver(true)
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runOver])
+
   // Enter replay mode with a specific snapshot
   const enterReplayMode = (snapshot: StateSnapshot, eventIndex: number) => {
     setReplaySnapshot(snapshot)
@@ -251,23 +281,15 @@ export function ImmersiveView({
     setCircuitTransition(true)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/switch-circuit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ targetCircuitId }),
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
+      const data = await postRunAction(runId, 'switch-circuit', { targetCircuitId }, conflictHandling)
+      if (!data) return
 
       // Add immersive feedback
       addLine('system', '> ESTABLISHING NEW CONNECTION...')
       await new Promise(r => setTimeout(r, 300))
 
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
       setShowCircuitSelector(false)
 
       if (data.success) {
@@ -286,6 +308,11 @@ export function ImmersiveView({
   }
   const [loading, setLoading] = useState(false)
   const [hackInput, setHackInput] = useState('')
+  const [showCharacterModal, setShowCharacterModal] = useState(false)
+  const [showInventory, setShowInventory] = useState(false)
+  // SERVER dice mode: the player sets up dice, the server rolls (no phase 2 prompt)
+  const serverDice = projectData.meta.diceMode === 'SERVER'
+  const diceConfig = useDiceConfig(runId, projectData.meta.defaultDice || '1d20')
   const [terminalLines, setTerminalLines] = useState<{ type: 'system' | 'user' | 'success' | 'error' | 'info' | 'warning'; text: string }[]>([])
 
   // Phase 2 state (fail die roll after failed CD check)
@@ -299,6 +326,17 @@ export function ImmersiveView({
   const currentCircuit = projectData.circuits.find(c => c.id === displayState.position.circuitId)
   const currentNode = currentCircuit?.nodes.find(n => n.id === displayState.position.nodeId)
   const currentNodeState = displayState.nodes[displayState.position.nodeId]
+  // Trace meter (null when the project has none)
+  const traceStatus = getTraceStatus(state, projectData)
+  // Remaining budgets - the clock ticks locally, the server enforces it
+  const budgetStatus = getBudgetStatus(state, projectData)
+  const [clockNow, setClockNow] = useState(() => Date.now())
+  const hasRunningClock = [budgetStatus.run, budgetStatus.circuit].some((b) => b?.deadline && !b.expired)
+  useEffect(() => {
+    if (!hasRunningClock) return
+    const timer = setInterval(() => setClockNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [hasRunningClock])
 
   // Check if hidden links available (uses displayState for UI)
   const hasHiddenLinks = useCallback(() => {
@@ -316,11 +354,12 @@ export function ImmersiveView({
   // Get available moves (uses displayState for UI representation)
   // Only shows nodes connected by direct link (no free fast-travel)
   const getAvailableMoves = useCallback(() => {
-    if (!currentCircuit) return { fastTravel: [], advance: [] }
+    if (!currentCircuit) return { fastTravel: [], advance: [], locked: [] }
 
     const currentNodeId = displayState.position.nodeId
     const fastTravel: { id: string; name: string }[] = [] // Hacked adjacent nodes (retreat)
     const advance: { id: string; name: string }[] = [] // Non-hacked adjacent nodes (advance)
+    const locked: { id: string; name: string; reason: string }[] = [] // Behind an unmet key/dependency
 
     const currentNodeStateLocal = displayState.nodes[currentNodeId]
     const currentIsHacked = currentNodeStateLocal?.hackeado === true
@@ -347,6 +386,15 @@ export function ImmersiveView({
       if (!targetNode || !targetState) continue
       if (targetState.inaccesible || targetState.bloqueado) continue
 
+      const reachable = targetState.hackeado || (currentIsHacked && targetState.descubierto)
+      const denial = reachable ? getAccessDenial(displayState, projectData, targetNode, link) : null
+      if (denial) {
+        if (!locked.find(l => l.id === targetId)) {
+          locked.push({ id: targetNode.id, name: targetNode.name, reason: denial })
+        }
+        continue
+      }
+
       if (targetState.hackeado) {
         // Hacked adjacent node -> retreat allowed (no restriction)
         if (!fastTravel.find(a => a.id === targetId)) {
@@ -360,8 +408,22 @@ export function ImmersiveView({
       }
     }
 
-    return { fastTravel, advance }
-  }, [currentCircuit, displayState])
+    // Portals to other circuits follow the engine rules
+    const engineMoves = getEngineMoves(displayState, projectData)
+    const portalTargets = [...engineMoves.all, ...engineMoves.locked.map(l => l.nodeId)]
+      .filter(id => !currentCircuit.nodes.some(n => n.id === id))
+    for (const nodeId of portalTargets) {
+      const found = findNode(projectData, nodeId)
+      if (!found) continue
+      const portalMove = { id: nodeId, name: `⇄ ${found.circuit.name} › ${found.node.name}` }
+      if (engineMoves.fastTravel.includes(nodeId)) fastTravel.push(portalMove)
+      if (engineMoves.advance.includes(nodeId)) advance.push(portalMove)
+      const lockedMove = engineMoves.locked.find(l => l.nodeId === nodeId)
+      if (lockedMove) locked.push({ ...portalMove, reason: lockedMove.message })
+    }
+
+    return { fastTravel, advance, locked }
+  }, [currentCircuit, displayState, projectData])
 
   const availableMoves = getAvailableMoves()
 
@@ -370,6 +432,11 @@ export function ImmersiveView({
     setTerminalLines(prev => [...prev.slice(-50), { type, text }])
   }
 
+  // Narrative of the scripted triggers fired by an action
+  const addNarrative = (narrative?: string[]) => {
+    for (const text of narrative ?? []) addLine('info', `> ${text}`)
+  }
+
   // Initial boot sequence (uses terminology.bootMessages if available)
   useEffect(() => {
     const bootSequence = async () => {
@@ -402,6 +469,17 @@ export function ImmersiveView({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Announce remote interventions (GM overrides) pushed by the live stream
+  useEffect(() => {
+    if (!liveUpdate) return
+    for (const event of liveUpdate.events) {
+      if (event.type === 'GM_OVERRIDE' || event.type === 'ROLLBACK') {
+        addLine('warning', `> SYSOP OVERRIDE — ${event.description.replace(/^GM:\s*/, '').toUpperCase()}`)
+      }
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveUpdate])
+
   // Scroll to bottom on new lines
   useEffect(() => {
     if (terminalRef.current) {
@@ -411,23 +489,28 @@ export function ImmersiveView({
 
   // API calls
   async function doHack() {
-    if (!hackInput) return
+    if (!serverDice && !hackInput) return
     setLoading(true)
     const inputVal = parseInt(hackInput, 10)
-    addLine('user', `> EXEC BREACH [${hackInput}]`)
+    addLine('user', serverDice ? `> EXEC BREACH [${diceConfig.expression}]` : `> EXEC BREACH [${hackInput}]`)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/hack`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ inputValue: inputVal }),
-      })
-
-      const data = await res.json()
+      const data = await postRunAction(runId, 'hack', serverDice ? { dice: diceConfig.dice } : { inputValue: inputVal }, conflictHandling)
+      if (!data) return
 
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
+      if (data.diceRoll) {
+        addLine('info', `> DICE: ${formatDiceRoll(data.diceRoll)}`)
+        if (data.diceRoll.failDie) {
+          addLine('info', `> FAIL DIE D${data.diceRoll.failDie}: ${data.diceRoll.failDieRoll}`)
+        }
+      }
+      if (data.hackModifiers) {
+        addLine('info', `> MODS: ${formatHackModifiers(data.hackModifiers)}`)
       }
+      for (const item of data.payloads ?? []) {
+        addLine('success', `> DATA EXTRACTED: ${item.name.toUpperCase()} [${item.type}]`)
+      }
+      addNarrative(data.narrative)
 
       // Check if phase 2 is needed (first roll failed CD check)
       if (data.needsPhase2) {
@@ -444,7 +527,8 @@ export function ImmersiveView({
         return
       }
 
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       if (data.success) {
         addLine('success', `> ${data.message}`)
@@ -502,19 +586,11 @@ export function ImmersiveView({
     addLine('user', `> FAIL DIE ROLL: [${failDieRoll}] (D${phase2FailDie})`)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/hack`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ inputValue: phase1Value, failDieRoll }),
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
+      const data = await postRunAction(runId, 'hack', { inputValue: phase1Value, failDieRoll }, conflictHandling)
+      if (!data) return
 
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       // Reset phase 2 state
       setPendingPhase2(false)
@@ -522,6 +598,11 @@ export function ImmersiveView({
       setPhase2FailDie(0)
       setPhase1Value(0)
 
+      if (data.hackModifiers) {
+        addLine('info', `> MODS: ${formatHackModifiers(data.hackModifiers)}`)
+      }
+      addNarrative(data.narrative)
+
       if (data.success) {
         addLine('success', `> ${data.message}`)
 
@@ -573,17 +654,11 @@ export function ImmersiveView({
     addLine('user', '> EXEC SCAN')
 
     try {
-      const res = await fetch(`/api/runs/${runId}/discover`, {
-        method: 'POST',
-      })
+      const data = await postRunAction(runId, 'discover', undefined, conflictHandling)
+      if (!data) return
 
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
-
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       if (data.discoveredLinks.length > 0) {
         addLine('success', `> ${data.message}`)
@@ -593,6 +668,7 @@ export function ImmersiveView({
       } else {
         addLine('info', `> ${data.message}`)
       }
+      addNarrative(data.narrative)
     } catch (err) {
       addLine('error', `> ERROR: ${err instanceof Error ? err.message : 'Unknown error'}`)
     } finally {
@@ -605,26 +681,18 @@ export function ImmersiveView({
     addLine('user', `> EXEC MOVE [${targetName.toUpperCase()}]`)
 
     try {
-      const res = await fetch(`/api/runs/${runId}/move`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ targetNodeId }),
-      })
-
-      const data = await res.json()
-
-      if (!res.ok) {
-        throw new Error(data.error || 'Error')
-      }
+      const data = await postRunAction(runId, 'move', { targetNodeId }, conflictHandling)
+      if (!data) return
 
-      await refreshState()
+      // Live stream delivers the new state; fetch only when disconnected
+      if (!liveConnected) await refreshState()
 
       if (data.success) {
         addLine('success', `> ${data.message}`)
         addLine('system', `> CURRENT NODE: ${targetName.toUpperCase()}`)
 
         // Check if we arrived at a final node
-        const targetNodeDef = currentCircuit?.nodes.find(n => n.id === targetNodeId)
+        const targetNodeDef = findNode(projectData, targetNodeId)?.node
         if (targetNodeDef?.isFinal) {
           addLine('warning', '> ════════════════════════════════════════')
           addLine('warning', `> ⚡ ${terminology.finalNode.toUpperCase()} NODE REACHED`)
@@ -634,6 +702,7 @@ export function ImmersiveView({
       } else {
         addLine('error', `> ${data.message}`)
       }
+      addNarrative(data.narrative)
     } catch (err) {
       addLine('error', `> ERROR: ${err instanceof Error ? err.message : 'Unknown error'}`)
     } finally {
@@ -641,6 +710,15 @@ export function ImmersiveView({
     }
   }
 
+  // Another session wrote the run first: resync and let the player retry
+  const conflictHandling: ConflictHandling = {
+    resync: refreshState,
+    onConflict: () => {
+      addLine('warning', '> NETWORK STATE CHANGED BY ANOTHER SESSION — RESYNCED')
+      addLine('info', '> REVIEW THE CURRENT STATE AND RETRY')
+    },
+  }
+
   async function refreshState() {
     const res = await fetch(`/api/runs/${runId}`)
     const data = await res.json()
@@ -649,9 +727,10 @@ export function ImmersiveView({
     }
   }
 
+
   // Handle key press for phase 1
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && hackInput) {
+    if (e.key === 'Enter' && (serverDice || hackInput)) {
       doHack()
     }
   }
@@ -802,7 +881,7 @@ export function ImmersiveView({
 
             {/* Circuit cards grid */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              {getCircuitSummary().map((circuit) => {
+              {getCircuitSummary().filter((circuit) => isCircuitUnlocked(state, projectData, circuit.id)).map((circuit) => {
                 const statusBadge = getStatusBadge(circuit.status)
                 const hint = getCircuitHint(circuit)
 
@@ -926,6 +1005,7 @@ export function ImmersiveView({
               onExitReplay={exitReplayMode}
               isReplayMode={isReplayMode}
               replayIndex={replayIndex}
+              onFork={onFork}
               variant="IMMERSIVE"
               theme={{ primaryColor, secondaryColor, textColor, bgColor }}
             />
@@ -1014,6 +1094,68 @@ export function ImmersiveView({
                 <span style={{ color: secondaryColor }}>{availableMoves.advance.length}</span>
               </>
             )}
+            {/* Decker profile - click to edit */}
+            <span className="hidden sm:inline" style={{ color: `${primaryColor}33` }}>|</span>
+            <button
+              onClick={() => setShowCharacterModal(true)}
+              className="hover:underline"
+              style={{ color: `${primaryColor}88` }}
+              title="Perfil de decker"
+            >
+              DECKER:
+            </button>
+            <span style={{ color: character ? primaryColor : `${primaryColor}55` }}>
+              {character ? `${character.name} +${getCharacterRollBonus(character)}` : '---'}
+            </span>
+            {/* Extracted payloads - click to open */}
+            {state.inventory && state.inventory.length > 0 && (
+              <>
+                <span className="hidden sm:inline" style={{ color: `${primaryColor}33` }}>|</span>
+                <button
+                  onClick={() => setShowInventory(true)}
+                  className="hover:underline"
+                  style={{ color: `${primaryColor}88` }}
+                  title="Inventario"
+                >
+                  DATA:
+                </button>
+                <span style={{ color: primaryColor }}>{state.inventory.length}</span>
+              </>
+            )}
+            {/* Budgets: run and current circuit */}
+            {budgetStatus.run && (
+              <>
+                <span className="hidden sm:inline" style={{ color: `${primaryColor}33` }}>|</span>
+                <span style={{ color: `${primaryColor}88` }}>RUN:</span>
+                <span style={{ color: budgetStatus.run.expired ? semanticColors.blockedNode : primaryColor }}>
+                  {formatBudget(budgetStatus.run, clockNow)}
+                </span>
+              </>
+            )}
+            {budgetStatus.circuit && (
+              <>
+                <span className="hidden sm:inline" style={{ color: `${primaryColor}33` }}>|</span>
+                <span style={{ color: `${primaryColor}88` }}>{terminology.circuit.toUpperCase()}:</span>
+                <span style={{ color: budgetStatus.circuit.expired ? semanticColors.blockedNode : primaryColor }}>
+                  {formatBudget(budgetStatus.circuit, clockNow)}
+                </span>
+              </>
+            )}
+            {/* Trace meter */}
+            {traceStatus && (
+              <>
+                <span className="hidden sm:inline" style={{ color: `${primaryColor}33` }}>|</span>
+                <span style={{ color: `${primaryColor}88` }}>TRACE:</span>
+                <span
+                  style={{ color: traceStatus.level >= traceStatus.max * 0.75 ? semanticColors.blockedNode : primaryColor }}
+                  title={traceStatus.nextThreshold ? `Próxima escalada en ${traceStatus.nextThreshold.value}` : 'Sin más escaladas'}
+                >
+                  {'▮'.repeat(Math.round((traceStatus.level / traceStatus.max) * 10))}
+                  {'▯'.repeat(10 - Math.round((traceStatus.level / traceStatus.max) * 10))}
+                  {' '}{traceStatus.level}/{traceStatus.max}
+                </span>
+              </>
+            )}
           </div>
         </div>
 
@@ -1172,36 +1314,68 @@ export function ImmersiveView({
                             {terminology.finalNode}
                           </span>
                         )}
-                        <input
-                          type="number"
-                          value={hackInput}
-                          onChange={(e) => {
-                            const val = e.target.value
-                            // Allow empty for typing, but clamp on blur
-                            if (val === '' || (parseInt(val) >= 1 && parseInt(val) <= 20)) {
-                              setHackInput(val)
-                            }
-                          }}
-                          onBlur={(e) => {
-                            const val = parseInt(e.target.value)
-                            if (!isNaN(val)) {
-                              setHackInput(String(Math.max(1, Math.min(20, val))))
-                            }
-                          }}
-                          onKeyPress={handleKeyPress}
-                          placeholder="1-20"
-                          min={1}
-                          max={20}
-                          className="w-16 sm:w-20 bg-transparent rounded px-1 sm:px-2 py-1 text-center text-xs sm:text-sm focus:outline-none"
-                          style={{
-                            border: `1px solid ${currentNode?.isFinal ? semanticColors.success : primaryColor}88`,
-                            color: currentNode?.isFinal ? semanticColors.success : primaryColor,
-                          }}
-                          disabled={loading}
-                        />
+                        {serverDice ? (
+                          <>
+                            <input
+                              type="text"
+                              value={diceConfig.expression}
+                              readOnly
+                              onKeyPress={handleKeyPress}
+                              title="Expresión de dados del proyecto"
+                              className="w-20 sm:w-28 bg-transparent rounded px-1 sm:px-2 py-1 text-center text-xs sm:text-sm focus:outline-none"
+                              style={{
+                                border: `1px solid ${currentNode?.isFinal ? semanticColors.success : primaryColor}88`,
+                                color: currentNode?.isFinal ? semanticColors.success : primaryColor,
+                              }}
+                              disabled={loading}
+                            />
+                            <input
+                              type="text"
+                              value={diceConfig.modifiersText}
+                              onChange={(e) => diceConfig.setModifiersText(e.target.value)}
+                              onKeyPress={handleKeyPress}
+                              placeholder="INT=3"
+                              title="Valores de los modificadores"
+                              className="w-20 sm:w-28 bg-transparent rounded px-1 sm:px-2 py-1 text-center text-xs sm:text-sm focus:outline-none"
+                              style={{
+                                border: `1px solid ${currentNode?.isFinal ? semanticColors.success : primaryColor}88`,
+                                color: currentNode?.isFinal ? semanticColors.success : primaryColor,
+                              }}
+                              disabled={loading}
+                            />
+                          </>
+                        ) : (
+                          <input
+                            type="number"
+                            value={hackInput}
+                            onChange={(e) => {
+                              const val = e.target.value
+                              // Allow empty for typing, but clamp on blur
+                              if (val === '' || (parseInt(val) >= 1 && parseInt(val) <= 20)) {
+                                setHackInput(val)
+                              }
+                            }}
+                            onBlur={(e) => {
+                              const val = parseInt(e.target.value)
+                              if (!isNaN(val)) {
+                                setHackInput(String(Math.max(1, Math.min(20, val))))
+                              }
+                            }}
+                            onKeyPress={handleKeyPress}
+                            placeholder="1-20"
+                            min={1}
+                            max={20}
+                            className="w-16 sm:w-20 bg-transparent rounded px-1 sm:px-2 py-1 text-center text-xs sm:text-sm focus:outline-none"
+                            style={{
+                              border: `1px solid ${currentNode?.isFinal ? semanticColors.success : primaryColor}88`,
+                              color: currentNode?.isFinal ? semanticColors.success : primaryColor,
+                            }}
+                            disabled={loading}
+                          />
+                        )}
                         <button
                           onClick={doHack}
-                          disabled={loading || !hackInput}
+                          disabled={loading || (!serverDice && !hackInput)}
                           className="px-2 sm:px-3 py-1 rounded text-[10px] sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                           style={{
                             border: `1px solid ${currentNode?.isFinal ? semanticColors.success : primaryColor}88`,
@@ -1264,6 +1438,22 @@ export function ImmersiveView({
                             &gt; {node.name}
                           </button>
                         ))}
+
+                        {availableMoves.locked.map(node => (
+                          <button
+                            key={node.id}
+                            onClick={() => addLine('warning', `> ${node.reason}`)}
+                            disabled={loading}
+                            title={node.reason}
+                            className="px-2 sm:px-3 py-1 rounded text-[10px] sm:text-sm opacity-60 transition-colors"
+                            style={{
+                              border: `1px dashed ${semanticColors.warning}88`,
+                              color: semanticColors.warning,
+                            }}
+                          >
+                            ⚿ {node.name}
+                          </button>
+                        ))}
                       </>
                     )}
                   </>
@@ -1630,6 +1820,46 @@ export function ImmersiveView({
         />
       )}
 
+      {/* Character Modal */}
+      {showCharacterModal && (
+        <CharacterModal
+          runId={runId}
+          character={character}
+          serverDice={serverDice}
+          onSaved={(saved) => onCharacterChange?.(saved)}
+          onClose={() => setShowCharacterModal(false)}
+        />
+      )}
+
+      {/* Inventory Modal */}
+      {showInventory && (
+        <div
+          className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={() => setShowInventory(false)}
+        >
+          <div
+            className="rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto font-mono"
+            style={{ backgroundColor: bgColor, border: `1px solid ${primaryColor}55` }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold" style={{ color: primaryColor }}>
+                &gt; DATA EXTRACTED ({state.inventory?.length ?? 0})
+              </h3>
+              <button
+                type="button"
+                onClick={() => setShowInventory(false)}
+                className="px-2 hover:opacity-70"
+                style={{ color: primaryColor }}
+              >
+                ✕
+              </button>
+            </div>
+            <InventoryPanel items={state.inventory ?? []} projectData={projectData} />
+          </div>
+        </div>
+      )}
+
       {/* Network Map Modal */}
       {showNetworkMap && currentCircuit && (
         <NetworkMapModal
@@ -1740,3 +1970,20 @@ export function ImmersiveView({
     </div>
   )
 }
+
+// Remaining budget as shown in the status bar: "5 ACT · 04:12"
+function formatBudget(budget: BudgetState, now: number): string {
+  if (budget.expired) return 'EXPIRED'
+
+  const parts: string[] = []
+  if (budget.actionsLeft !== undefined) {
+    parts.push(`${budget.actionsLeft} ACT`)
+  }
+  if (budget.deadline) {
+    const seconds = Math.max(0, Math.ceil((Date.parse(budget.deadline) - now) / 1000))
+    parts.push(`${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`)
+  } else if (parts.length === 0) {
+    parts.push('--:--')
+  }
+  return parts.join(' · ')
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import type { InventoryItem, PayloadType, ProjectData } from '@/lib/engine'
+
+// =============================================================================
+// InventoryPanel Component - Payloads extracted during the run
+// =============================================================================
+// Data files, passwords, images and keys delivered by compromised nodes.
+// The inventory is shared by the whole team.
+
+interface InventoryPanelProps {
+  items: InventoryItem[]
+  projectData: ProjectData
+}
+
+const TYPE_LABELS: Record<PayloadType, { label: string; className: string }> = {
+  TEXT: { label: 'DATOS', className: 'text-cyan-400 border-cyan-700/40' },
+  MARKDOWN: { label: 'DOC', className: 'text-cyan-400 border-cyan-700/40' },
+  PASSWORD: { label: 'PASS', className: 'text-yellow-400 border-yellow-700/40' },
+  IMAGE: { label: 'IMG', className: 'text-purple-400 border-purple-700/40' },
+  KEY: { label: 'LLAVE', className: 'text-green-400 border-green-700/40' },
+}
+
+export function InventoryPanel({ items, projectData }: InventoryPanelProps) {
+  const [openId, setOpenId] = useState<string | null>(null)
+
+  const nodeName = (nodeId: string) => {
+    for (const circuit of projectData.circuits) {
+      const node = circuit.nodes.find((n) => n.id === nodeId)
+      if (node) return node.name
+    }
+    return nodeId
+  }
+
+  if (items.length === 0) {
+    return <p className="text-gray-600 text-xs font-mono">Sin datos extraídos.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => {
+        const type = TYPE_LABELS[item.type]
+        const isOpen = openId === item.payloadId
+
+        return (
+          <div key={item.payloadId} className="border border-gray-800 rounded">
+            <button
+              type="button"
+              onClick={() => setOpenId(isOpen ? null : item.payloadId)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-800/40 transition-colors"
+            >
+              <span className={`text-[10px] font-mono px-1.5 py-0.5 border rounded ${type.className}`}>
+                {type.label}
+              </span>
+              <span className="flex-1 text-sm text-white truncate">{item.name}</span>
+              <span className="text-[10px] text-gray-500 font-mono truncate max-w-[40%]">{nodeName(item.nodeId)}</span>
+            </button>
+
+            {isOpen && (
+              <div className="px-3 pb-3">
+                {item.type === 'IMAGE' ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={item.content} alt={item.name} className="max-w-full rounded border border-gray-800" />
+                ) : item.type === 'PASSWORD' || item.type === 'KEY' ? (
+                  <code className="block px-2 py-1.5 bg-black/40 rounded text-sm font-mono text-green-400 break-all select-all">
+                    {item.content}
+                  </code>
+                ) : (
+                  <pre className="px-2 py-1.5 bg-black/40 rounded text-xs font-mono text-gray-300 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                    {item.content}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
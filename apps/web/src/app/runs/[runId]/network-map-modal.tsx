@@ -1,8 +1,11 @@
 'use client'
 
 import { useMemo } from 'react'
-import type { CircuitDefinition, RunState } from '@/lib/engine/types'
+import type { CircuitDefinition, LinkStyle, NodeType, RunState } from '@/lib/engine/types'
 import type { SemanticColors, ThemeTerminology } from '@/lib/theme/types'
+import { getIcePositions } from '@/lib/engine/engine'
+import { layoutCircuit } from '@/lib/engine/layout'
+import { NODE_TYPE_ICONS } from './circuit-map'
 
 interface NetworkMapModalProps {
   circuit: CircuitDefinition
@@ -25,6 +28,18 @@ interface NodeWithPosition {
   x: number
   y: number
   isFinal?: boolean
+  type: NodeType
+}
+
+/**
+ * SVG dash pattern of a link style
+ */
+export function getLinkStrokeDash(style: LinkStyle): string {
+  switch (style) {
+    case 'dashed': return '6,3'
+    case 'dotted': return '2,3'
+    default: return 'none'
+  }
 }
 
 export function NetworkMapModal({
@@ -37,39 +52,28 @@ export function NetworkMapModal({
 }: NetworkMapModalProps) {
   const { primaryColor, secondaryColor, textColor, background } = theme
 
-  // Calculate positions for nodes (using mapX/mapY or auto-layout)
+  // Calculate positions for nodes (using mapX/mapY or the circuit's auto-layout)
   const nodesWithPositions = useMemo<NodeWithPosition[]>(() => {
-    // Group nodes by level for auto-layout
-    const nodesByLevel: Record<number, typeof circuit.nodes> = {}
-    circuit.nodes.forEach(node => {
-      const level = node.level
-      if (!nodesByLevel[level]) nodesByLevel[level] = []
-      nodesByLevel[level].push(node)
-    })
-
-    const levels = Object.keys(nodesByLevel).map(Number).sort((a, b) => a - b)
-    const maxLevel = Math.max(...levels, 0)
-
-    return circuit.nodes.map(node => {
-      // Use manual position if defined
-      if (node.mapX !== undefined && node.mapY !== undefined) {
-        return { id: node.id, name: node.name, level: node.level, x: node.mapX, y: node.mapY, isFinal: node.isFinal }
-      }
-
-      // Auto-calculate position based on level
-      const levelNodes = nodesByLevel[node.level] || []
-      const indexInLevel = levelNodes.indexOf(node)
-      const countInLevel = levelNodes.length
-
-      // Y: level 0 at bottom, higher levels go up (SVG y is inverted)
-      const y = maxLevel === 0 ? 50 : 85 - (node.level / maxLevel) * 70
-
-      // X: spread evenly across the level
-      const x = countInLevel === 1 ? 50 : 15 + (indexInLevel / (countInLevel - 1)) * 70
-
-      return { id: node.id, name: node.name, level: node.level, x, y, isFinal: node.isFinal }
-    })
-  }, [circuit.nodes])
+    const positions = layoutCircuit(circuit)
+    return circuit.nodes.map(node => ({
+      id: node.id,
+      name: node.name,
+      level: node.level,
+      ...positions[node.id],
+      isFinal: node.isFinal,
+      type: node.type ?? 'STANDARD',
+    }))
+  }, [circuit])
+
+  // ICE names per node (rendered on discovered nodes only)
+  const iceByNode = useMemo(() => {
+    const byNode: Record<string, string[]> = {}
+    for (const { ice, nodeId } of getIcePositions(runState, circuit)) {
+      if (!byNode[nodeId]) byNode[nodeId] = []
+      byNode[nodeId].push(ice.name)
+    }
+    return byNode
+  }, [runState, circuit])
 
   // Helpers
   const getNodeState = (nodeId: string) => runState.nodes[nodeId]
@@ -99,14 +103,6 @@ export function NetworkMapModal({
     return textColor + '33'
   }
 
-  const getLinkStrokeDash = (link: typeof circuit.links[0]) => {
-    switch (link.style) {
-      case 'dashed': return '6,3'
-      case 'dotted': return '2,3'
-      default: return 'none'
-    }
-  }
-
   const getLinkColor = (link: typeof circuit.links[0]) => {
     if (link.hidden) return secondaryColor
     return primaryColor + 'bb'
@@ -209,7 +205,7 @@ export function NetworkMapModal({
                   y2={to.y}
                   stroke={getLinkColor(link)}
                   strokeWidth="0.4"
-                  strokeDasharray={getLinkStrokeDash(link)}
+                  strokeDasharray={getLinkStrokeDash(link.style)}
                   opacity={link.hidden ? 0.8 : 1}
                 />
               )
@@ -287,6 +283,44 @@ export function NetworkMapModal({
                     />
                   )}
 
+                  {/* Node type marker - glyph at the bottom-right of the node */}
+                  {node.type !== 'STANDARD' && (
+                    <text
+                      x={node.x + radius + 0.5}
+                      y={node.y + radius + 0.5}
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fill={secondaryColor}
+                      fontSize="2"
+                      fontFamily="monospace"
+                    >
+                      <title>{NODE_TYPE_ICONS[node.type].label}</title>
+                      {NODE_TYPE_ICONS[node.type].icon}
+                    </text>
+                  )}
+
+                  {/* ICE marker - triangle at the top-left of the node */}
+                  {iceByNode[node.id] && (
+                    <g>
+                      <title>ICE: {iceByNode[node.id].join(', ')}</title>
+                      <polygon
+                        points={`${node.x - radius - 1.5},${node.y - radius + 1.2} ${node.x - radius + 0.5},${node.y - radius + 1.2} ${node.x - radius - 0.5},${node.y - radius - 0.8}`}
+                        fill={semanticColors.blockedNode}
+                        className="animate-pulse"
+                      />
+                      <text
+                        x={node.x - radius - 0.5}
+                        y={node.y - radius - 1.6}
+                        textAnchor="middle"
+                        fill={semanticColors.blockedNode}
+                        fontSize="1.6"
+                        fontFamily="monospace"
+                      >
+                        {iceByNode[node.id].length > 1 ? `ICE×${iceByNode[node.id].length}` : 'ICE'}
+                      </text>
+                    </g>
+                  )}
+
                   {/* Final node indicator - target/star */}
                   {node.isFinal && (
                     <>
@@ -364,6 +398,12 @@ export function NetworkMapModal({
             </span>
             {terminology.finalNode}
           </span>
+          {Object.keys(iceByNode).some(isNodeVisible) && (
+            <span className="flex items-center gap-2">
+              <span style={{ color: semanticColors.blockedNode }}>▲</span>
+              ICE
+            </span>
+          )}
         </div>
       </div>
     </div>
@@ -2,7 +2,7 @@ import { auth } from '@/lib/auth'
 import { redirect, notFound } from 'next/navigation'
 import { isSuperAdmin, getProjectRole } from '@/lib/rbac'
 import { prisma } from '@rolhack/database'
-import { parseProjectData, parseRunState } from '@/lib/engine'
+import { parseProjectData, parseRunState, listRunParticipants, getRunCharacter, redactPayloads, redactRunStateForClients, canForkRun } from '@/lib/engine'
 import { GameScreen } from './game-screen'
 import type { ProjectData, RunState } from '@/lib/engine'
 
@@ -81,8 +81,10 @@ export default async function RunPage({ params }: Props) {
     )
   }
 
-  const projectData = projectDataResult.data as ProjectData
-  const runState = runStateResult.data as RunState
+  // Payloads only reach the players once extracted (run inventory);
+  // the dice seed never leaves the server
+  const projectData = redactPayloads(projectDataResult.data as ProjectData)
+  const runState = redactRunStateForClients(runStateResult.data as RunState)
 
   // Parse visual template
   const visualTemplate = run.project.visualTemplate
@@ -104,6 +106,33 @@ export default async function RunPage({ params }: Props) {
   // - Owner: can export their own runs
   const canExport = isAdmin || isOwner
 
+  // GM console: project OWNER or SUPERADMIN
+  const canControl = isAdmin || (projectRole ?? await getProjectRole(user.id, run.projectId)) === 'OWNER'
+
+  // Forking: run access plus permission to create runs in the project
+  const canFork = await canForkRun(user.id, runId, isAdmin)
+
+  // Team run members (owner first)
+  const teamMembers = (await listRunParticipants(runId)).map((member) => ({
+    userId: member.userId,
+    name: member.name,
+    email: member.email,
+    isOwner: member.isOwner,
+  }))
+
+  // Decker profile of the viewing player (modifies their hacks)
+  const character = await getRunCharacter(runId, user.id)
+  const initialCharacter = character
+    ? {
+        name: character.name,
+        interface: character.interface,
+        deckBonus: character.deckBonus,
+        programs: character.programs,
+        failDieBonus: character.failDieBonus,
+        failDieRerolls: character.failDieRerolls,
+      }
+    : null
+
   return (
     <GameScreen
       runId={runId}
@@ -116,6 +145,12 @@ export default async function RunPage({ params }: Props) {
       createdAt={run.createdAt.toISOString()}
       canExport={canExport}
       isSuperAdmin={isAdmin}
+      canControl={canControl}
+      canManageSpectators={isOwner || canControl}
+      canFork={canFork}
+      currentUserId={user.id}
+      teamMembers={teamMembers}
+      initialCharacter={initialCharacter}
     />
   )
 }
@@ -0,0 +1,46 @@
+// =============================================================================
+// postRunAction - Player actions (POST /api/runs/:runId/<action>)
+// =============================================================================
+// Action writes are guarded by the run revision: a 409 (STATE_CONFLICT) means
+// another session wrote the run first. The state is resynced and the view
+// tells the player to retry; the caller gets null and stops there.
+
+export type RunAction = 'hack' | 'discover' | 'move' | 'switch-circuit'
+
+export interface ConflictHandling {
+  // Load the latest run state
+  resync: () => Promise<void>
+  // Tell the player the state changed and the action can be retried
+  onConflict: () => void
+}
+
+/**
+ * Send an action; returns the response body, or null after a conflict.
+ * Throws with the server error on any other failure.
+ */
+export async function postRunAction(
+  runId: string,
+  action: RunAction,
+  body: unknown,
+  { resync, onConflict }: ConflictHandling
+) {
+  const res = await fetch(`/api/runs/${runId}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  // Status first: error bodies may not be JSON (proxy or HTML error pages)
+  if (res.status === 409) {
+    await resync()
+    onConflict()
+    return null
+  }
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.error || 'Error')
+  }
+
+  return res.json()
+}
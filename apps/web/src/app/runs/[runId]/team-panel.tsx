@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import type { ProjectData, RunState } from '@/lib/engine'
+
+// =============================================================================
+// TeamPanel Component - Members of a team run
+// =============================================================================
+// Compact header widget: shows who is in the run and where each player is.
+// Project members can join or leave; the list is refreshed after each change.
+
+export interface TeamMember {
+  userId: string
+  name: string | null
+  email: string
+  isOwner: boolean
+}
+
+interface TeamPanelProps {
+  runId: string
+  currentUserId: string
+  initialMembers: TeamMember[]
+  state: RunState
+  projectData: ProjectData
+}
+
+export function TeamPanel({
+  runId,
+  currentUserId,
+  initialMembers,
+  state,
+  projectData,
+}: TeamPanelProps) {
+  const [members, setMembers] = useState<TeamMember[]>(initialMembers)
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const currentMember = members.find((m) => m.userId === currentUserId)
+  const canLeave = currentMember !== undefined && !currentMember.isOwner
+
+  const getPositionLabel = (userId: string) => {
+    const position = state.playerPositions?.[userId]
+    if (!position) return null
+    const circuit = projectData.circuits.find((c) => c.id === position.circuitId)
+    const node = circuit?.nodes.find((n) => n.id === position.nodeId)
+    return `${circuit?.name || '?'} / ${node?.name || '?'}`
+  }
+
+  async function handleJoin() {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/runs/${runId}/participants`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Error al unirse')
+      }
+      setMembers(data.participants)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleLeave() {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/runs/${runId}/participants/${currentUserId}`, {
+        method: 'DELETE',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Error al salir')
+      }
+      setMembers((prev) => prev.filter((m) => m.userId !== currentUserId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 text-xs font-mono bg-cyber-dark border border-cyber-primary/30 hover:border-cyber-primary/60 text-cyber-primary rounded transition-colors"
+        title="Equipo de la run"
+      >
+        EQUIPO ({members.length})
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 z-50 bg-cyber-dark border border-gray-700 rounded-lg p-3 shadow-xl">
+          <ul className="space-y-2 mb-3">
+            {members.map((member) => {
+              const position = getPositionLabel(member.userId)
+              return (
+                <li key={member.userId} className="text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={member.userId === currentUserId ? 'text-cyber-primary' : 'text-white'}>
+                      {member.name || member.email}
+                    </span>
+                    {member.isOwner && (
+                      <span className="text-[10px] font-mono text-gray-500">DUEÑO</span>
+                    )}
+                  </div>
+                  {position && (
+                    <p className="text-[10px] font-mono text-gray-500">{position}</p>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+
+          {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+          {!currentMember && (
+            <button
+              onClick={handleJoin}
+              disabled={loading}
+              className="w-full px-3 py-1.5 bg-cyber-primary/20 border border-cyber-primary/30 hover:bg-cyber-primary/30 text-cyber-primary rounded text-sm font-mono transition-colors disabled:opacity-50"
+            >
+              Unirse al equipo
+            </button>
+          )}
+          {canLeave && (
+            <button
+              onClick={handleLeave}
+              disabled={loading}
+              className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 hover:border-gray-600 text-gray-300 rounded text-sm font-mono transition-colors disabled:opacity-50"
+            >
+              Salir del equipo
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
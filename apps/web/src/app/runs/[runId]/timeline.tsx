@@ -9,6 +9,8 @@ import type { TimelineEvent, RunState, ProjectData, StateSnapshot } from '@/lib/
 // IMPORTANT: This is a UI-only feature for observation and replay.
 // It does NOT modify data or allow logic rollback.
 // The domain does not know about "replay" - it's purely visual.
+// Forking leaves this run untouched: it branches a NEW run from the
+// replayed event.
 
 interface TimelineProps {
   timeline: TimelineEvent[]
@@ -18,6 +20,8 @@ interface TimelineProps {
   onEnterReplay: (snapshot: StateSnapshot, eventIndex: number) => void
   // Callback when exiting replay mode
   onExitReplay: () => void
+  // Branch a new run from the replayed event (absent without permission)
+  onFork?: (eventId: string) => Promise<void>
   // Whether currently in replay mode
   isReplayMode: boolean
   // Current replay index (if in replay mode)
@@ -43,6 +47,16 @@ const EVENT_CONFIG: Record<string, { icon: string; label: string; color: string
   CIRCUIT_CHANGED: { icon: '⇄', label: 'CAMBIO', color: 'text-yellow-400' },
   CIRCUIT_COMPLETED: { icon: '★', label: 'COMPLETADO', color: 'text-green-400' },
   RUN_COMPLETED: { icon: '◆', label: 'FIN', color: 'text-purple-400' },
+  GM_OVERRIDE: { icon: '⚑', label: 'GM', color: 'text-orange-400' },
+  DICE_ROLLED: { icon: '⚄', label: 'DADOS', color: 'text-sky-400' },
+  ICE_CONTACT: { icon: '▲', label: 'ICE', color: 'text-red-400' },
+  TRACE_ESCALATION: { icon: '◉', label: 'RASTREO', color: 'text-amber-400' },
+  BUDGET_EXPIRED: { icon: '⧗', label: 'TIEMPO', color: 'text-rose-400' },
+  TRIGGER_FIRED: { icon: '✦', label: 'EVENTO', color: 'text-violet-400' },
+  CONTROL_SEIZED: { icon: '⌬', label: 'CONTROL', color: 'text-cyan-400' },
+  ROLLBACK: { icon: '↺', label: 'RESTAURAR', color: 'text-orange-400' },
+  RUN_FORKED: { icon: '⑂', label: 'RAMA', color: 'text-cyber-accent' },
+  RUN_MIGRATED: { icon: '⇪', label: 'MIGRACIÓN', color: 'text-sky-400' },
 }
 
 export function Timeline({
@@ -51,12 +65,15 @@ export function Timeline({
   currentState,
   onEnterReplay,
   onExitReplay,
+  onFork,
   isReplayMode,
   replayIndex,
   variant,
   theme,
 }: TimelineProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [isForking, setIsForking] = useState(false)
+  const [forkError, setForkError] = useState<string | null>(null)
 
   // Format timestamp for display
   const formatTime = (timestamp: string) => {
@@ -88,6 +105,20 @@ export function Timeline({
     }
   }
 
+  // Branch a new run from the replayed event
+  const forkFromReplay = async () => {
+    if (!onFork || replayIndex === null) return
+    setIsForking(true)
+    setForkError(null)
+    try {
+      await onFork(timeline[replayIndex].id)
+    } catch (err) {
+      setForkError(err instanceof Error ? err.message : 'Error al crear la rama')
+    } finally {
+      setIsForking(false)
+    }
+  }
+
   // If no timeline events, don't render
   if (timeline.length === 0) return null
 
@@ -147,6 +178,16 @@ export function Timeline({
                   >
                     NEXT ▶
                   </button>
+                  {onFork && (
+                    <button
+                      onClick={forkFromReplay}
+                      disabled={isForking}
+                      className="px-3 py-1 text-xs font-mono bg-cyber-accent/20 text-cyber-accent rounded hover:bg-cyber-accent/30 disabled:opacity-50"
+                      title="Crear una nueva run a partir de este evento"
+                    >
+                      {isForking ? 'CREANDO...' : 'RAMIFICAR'}
+                    </button>
+                  )}
                   <button
                     onClick={onExitReplay}
                     className="px-3 py-1 text-xs font-mono bg-cyber-primary/20 text-cyber-primary rounded hover:bg-cyber-primary/30"
@@ -156,6 +197,11 @@ export function Timeline({
                 </div>
               </div>
             )}
+            {isReplayMode && forkError && (
+              <div className="px-4 py-2 bg-red-900/20 border-b border-red-700/30 text-red-400 text-xs font-mono">
+                {forkError}
+              </div>
+            )}
 
             {/* Timeline events */}
             <div className="max-h-64 overflow-y-auto">
@@ -200,6 +246,9 @@ export function Timeline({
                         )}
                       </div>
                       <p className="text-xs text-gray-400 truncate mt-0.5">
+                        {event.actorName && (
+                          <span className="text-cyber-secondary">{event.actorName}: </span>
+                        )}
                         {event.description}
                       </p>
                     </div>
@@ -217,7 +266,7 @@ export function Timeline({
             <div className="px-4 py-2 border-t border-gray-800 bg-gray-900/50">
               <p className="text-[10px] text-gray-600 font-mono">
                 Selecciona un evento para observar el estado en ese momento.
-                No se pueden modificar decisiones pasadas.
+                No se pueden modificar decisiones pasadas{onFork ? ', pero puedes ramificar una nueva run desde ellas' : ''}.
               </p>
             </div>
           </div>
@@ -286,6 +335,16 @@ export function Timeline({
                 >
                   [&gt;]
                 </button>
+                {onFork && (
+                  <button
+                    onClick={forkFromReplay}
+                    disabled={isForking}
+                    className="px-2 py-0.5 text-[10px] font-mono rounded disabled:opacity-30"
+                    style={{ border: `1px solid ${primaryColor}44`, color: '#ffaa00' }}
+                  >
+                    {isForking ? '[...]' : '[FORK]'}
+                  </button>
+                )}
                 <button
                   onClick={onExitReplay}
                   className="px-2 py-0.5 text-[10px] font-mono rounded"
@@ -296,6 +355,11 @@ export function Timeline({
               </div>
             </div>
           )}
+          {isReplayMode && forkError && (
+            <div className="px-4 py-1.5 text-[10px] font-mono" style={{ color: '#ff4444' }}>
+              &gt; ERROR: {forkError}
+            </div>
+          )}
 
           {/* Timeline events */}
           <div className="max-h-48 overflow-y-auto font-mono text-[11px]">
@@ -326,6 +390,7 @@ export function Timeline({
                     {config.icon}
                   </span>
                   <span className="truncate flex-1" style={{ opacity: 0.8 }}>
+                    {event.actorName && `${event.actorName.toUpperCase()}> `}
                     {event.description}
                   </span>
                   {isLatest && (
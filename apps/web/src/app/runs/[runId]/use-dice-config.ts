@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { HackDiceInput } from '@/lib/engine'
+
+// =============================================================================
+// useDiceConfig - Player dice setup for SERVER dice mode
+// =============================================================================
+// The player's modifier values, kept per run in localStorage so they survive
+// reloads. The server rolls the project's expression; only the modifiers it
+// names count.
+
+interface StoredDiceConfig {
+  modifiersText: string
+}
+
+/**
+ * Parse "INT=3, skill=2" into { INT: 3, skill: 2 } (invalid pairs are skipped)
+ */
+export function parseModifiersText(text: string): Record<string, number> {
+  const modifiers: Record<string, number> = {}
+  for (const pair of text.split(/[,;\s]+/)) {
+    const match = pair.match(/^([A-Za-z_][A-Za-z0-9_]*)=(-?\d+)$/)
+    if (match) modifiers[match[1]] = Number(match[2])
+  }
+  return modifiers
+}
+
+export function useDiceConfig(runId: string, expression: string) {
+  const storageKey = `rolhack-dice-${runId}`
+  const [modifiersText, setModifiersText] = useState('')
+
+  // Load saved config (client-side only)
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      if (!saved) return
+      const config = JSON.parse(saved) as StoredDiceConfig
+      setModifiersText(config.modifiersText || '')
+    } catch {
+      // Ignore corrupted config
+    }
+  }, [storageKey])
+
+  // Persist on change
+  useEffect(() => {
+    try {
+      const config: StoredDiceConfig = { modifiersText }
+      localStorage.setItem(storageKey, JSON.stringify(config))
+    } catch {
+      // Storage unavailable (private mode)
+    }
+  }, [storageKey, modifiersText])
+
+  const dice: Pick<HackDiceInput, 'modifiers'> = {
+    modifiers: parseModifiersText(modifiersText),
+  }
+
+  return { expression, modifiersText, setModifiersText, dice }
+}
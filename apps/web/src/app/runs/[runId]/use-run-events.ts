@@ -0,0 +1,73 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { RunState, RunUpdateEvent } from '@/lib/engine'
+
+// =============================================================================
+// useRunEvents - Subscribe to live run updates (Server-Sent Events)
+// =============================================================================
+// Opens GET /api/runs/:runId/events and hands every newer state to onState.
+// EventSource reconnects on its own; the snapshot sent on each (re)connect
+// brings the client back in sync. Stale revisions are ignored.
+// A RUN_MIGRATED delta means the definition itself changed: the page reloads
+// to fetch the new version instead of rendering new state on the old map.
+
+interface UseRunEventsOptions {
+  // Called with the latest committed state
+  onState: (state: RunState) => void
+  // Called with the deltas of each committed write (not for snapshots)
+  onUpdate?: (update: RunUpdateEvent) => void
+  enabled?: boolean
+  // Spectator token for read-only access without a session
+  token?: string
+}
+
+export function useRunEvents(
+  runId: string,
+  { onState, onUpdate, enabled = true, token }: UseRunEventsOptions
+): { connected: boolean } {
+  const [connected, setConnected] = useState(false)
+  const revisionRef = useRef(-1)
+
+  // Latest callbacks without re-opening the stream on every render
+  const onStateRef = useRef(onState)
+  const onUpdateRef = useRef(onUpdate)
+  onStateRef.current = onState
+  onUpdateRef.current = onUpdate
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return
+
+    const query = token ? `?token=${encodeURIComponent(token)}` : ''
+    const source = new EventSource(`/api/runs/${runId}/events${query}`)
+
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+
+    source.addEventListener('snapshot', (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as { revision: number; state: RunState }
+      if (data.revision < revisionRef.current) return
+      revisionRef.current = data.revision
+      onStateRef.current(data.state)
+    })
+
+    source.addEventListener('update', (e) => {
+      const update = JSON.parse((e as MessageEvent).data) as RunUpdateEvent
+      if (update.revision <= revisionRef.current) return
+      revisionRef.current = update.revision
+      if (update.events.some((event) => event.type === 'RUN_MIGRATED')) {
+        window.location.reload()
+        return
+      }
+      onStateRef.current(update.state)
+      onUpdateRef.current?.(update)
+    })
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [runId, enabled, token])
+
+  return { connected }
+}
@@ -0,0 +1,72 @@
+import { notFound } from 'next/navigation'
+import { prisma } from '@rolhack/database'
+import { parseProjectData, parseRunState } from '@/lib/engine'
+import {
+  verifySpectatorToken,
+  touchSpectatorToken,
+  redactProjectDataForSpectators,
+  redactRunStateForSpectators,
+} from '@/lib/spectator'
+import { SpectatorView } from './spectator-view'
+import type { ProjectData, RunState } from '@/lib/engine'
+
+interface Props {
+  params: Promise<{ token: string }>
+}
+
+// Public read-only view - access is granted by the signed token, not a session
+export default async function SpectatePage({ params }: Props) {
+  const { token } = await params
+  const grant = await verifySpectatorToken(token)
+
+  if (!grant) {
+    return (
+      <main className="min-h-screen p-8 flex items-center justify-center">
+        <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-8 text-center max-w-md">
+          <h1 className="text-xl font-bold text-white mb-2">Enlace no válido</h1>
+          <p className="text-gray-400">
+            Este enlace de espectador ha caducado o ha sido revocado. Pide uno nuevo al GM.
+          </p>
+        </div>
+      </main>
+    )
+  }
+
+  const run = await prisma.run.findUnique({
+    where: { id: grant.runId },
+    include: {
+      definition: true,
+      project: true,
+    },
+  })
+
+  if (!run || run.deletedAt) {
+    notFound()
+  }
+
+  await touchSpectatorToken(grant.tokenId)
+
+  const projectDataResult = parseProjectData(run.definition.data)
+  const runStateResult = parseRunState(run.state)
+
+  if (!projectDataResult.success || !runStateResult.success) {
+    return (
+      <main className="min-h-screen p-8 flex items-center justify-center">
+        <div className="bg-red-900/20 border border-red-700/30 rounded-lg p-6 text-center">
+          <p className="text-red-400">Error al cargar los datos del juego</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <SpectatorView
+      runId={run.id}
+      token={token}
+      projectName={run.project.name}
+      runName={run.name}
+      initialState={redactRunStateForSpectators(runStateResult.data as RunState)}
+      projectData={redactProjectDataForSpectators(projectDataResult.data as ProjectData)}
+    />
+  )
+}
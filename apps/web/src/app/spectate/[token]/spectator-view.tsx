@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type { ProjectData, RunState, StateSnapshot, WarningSeverity } from '@/lib/engine'
+import { CircuitMap } from '@/app/runs/[runId]/circuit-map'
+import { Timeline, ReplayIndicator } from '@/app/runs/[runId]/timeline'
+import { useRunEvents } from '@/app/runs/[runId]/use-run-events'
+
+// =============================================================================
+// SpectatorView Component - Read-only live view of a run
+// =============================================================================
+// Opened from a spectator link: no login, no actions. Follows the run live
+// through the events stream authenticated with the link token. Hack rules
+// (CD, fail die) are redacted server-side before reaching this component.
+
+interface SpectatorViewProps {
+  runId: string
+  token: string
+  projectName: string
+  runName: string | null
+  initialState: RunState
+  projectData: ProjectData
+}
+
+const MAP_THEME = {
+  primaryColor: '#00ff9f',
+  secondaryColor: '#00b8ff',
+  textColor: '#e5e7eb',
+  bgColor: '#050508',
+}
+
+const SEVERITY_COLORS: Record<WarningSeverity, string> = {
+  INFO: 'bg-blue-900/30 text-blue-400 border-blue-700/30',
+  TRACE: 'bg-yellow-900/30 text-yellow-400 border-yellow-700/30',
+  ALERT: 'bg-orange-900/30 text-orange-400 border-orange-700/30',
+  LOCKDOWN: 'bg-red-900/30 text-red-400 border-red-700/30',
+  BLACK_ICE: 'bg-purple-900/30 text-purple-400 border-purple-700/30',
+}
+
+export function SpectatorView({
+  runId,
+  token,
+  projectName,
+  runName,
+  initialState,
+  projectData,
+}: SpectatorViewProps) {
+  const [state, setState] = useState<RunState>(initialState)
+  const [isReplayMode, setIsReplayMode] = useState(false)
+  const [replayIndex, setReplayIndex] = useState<number | null>(null)
+  const [replaySnapshot, setReplaySnapshot] = useState<StateSnapshot | null>(null)
+
+  const { connected: liveConnected } = useRunEvents(runId, { onState: setState, token })
+
+  const enterReplayMode = useCallback((snapshot: StateSnapshot, eventIndex: number) => {
+    setReplaySnapshot(snapshot)
+    setReplayIndex(eventIndex)
+    setIsReplayMode(true)
+  }, [])
+
+  const exitReplayMode = useCallback(() => {
+    setReplaySnapshot(null)
+    setReplayIndex(null)
+    setIsReplayMode(false)
+  }, [])
+
+  // Replay is display-only, same as in the player view
+  const displayState = isReplayMode && replaySnapshot
+    ? { ...state, position: replaySnapshot.position, nodes: replaySnapshot.nodes, links: replaySnapshot.links }
+    : state
+
+  const currentCircuit = projectData.circuits.find(c => c.id === displayState.position.circuitId)
+  const currentNode = currentCircuit?.nodes.find(n => n.id === displayState.position.nodeId)
+  const recentWarnings = displayState.warnings.slice(-5).reverse()
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <header className="bg-cyber-dark border-b border-cyber-primary/20 p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div>
+            <p className="text-gray-500 text-xs mb-1 font-mono">MODO ESPECTADOR</p>
+            <h1 className="text-lg font-bold text-cyber-primary">
+              {runName || `Run ${runId.slice(0, 8)}`}
+            </h1>
+            <p className="text-gray-500 text-sm">{projectName}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-gray-400 text-xs">Posición actual</p>
+              <p className="text-cyber-secondary font-medium text-sm">
+                {currentCircuit?.name || '?'} / {currentNode?.name || '?'}
+              </p>
+            </div>
+            <span
+              className={`flex items-center gap-1.5 text-xs font-mono ${liveConnected ? 'text-cyber-primary' : 'text-gray-600'}`}
+              title={liveConnected ? 'Sincronizado en tiempo real' : 'Sin conexión en tiempo real'}
+            >
+              <span className={`w-2 h-2 rounded-full ${liveConnected ? 'bg-cyber-primary animate-pulse' : 'bg-gray-600'}`} />
+              LIVE
+            </span>
+          </div>
+        </div>
+      </header>
+
+      <ReplayIndicator
+        isReplayMode={isReplayMode}
+        replayIndex={replayIndex}
+        totalEvents={state.timeline?.length || 0}
+        currentEvent={replayIndex !== null ? state.timeline?.[replayIndex] : undefined}
+        onExitReplay={exitReplayMode}
+        variant="TECH"
+      />
+
+      {/* Warnings bar */}
+      {recentWarnings.length > 0 && (
+        <div className="bg-cyber-dark/80 border-b border-red-900/30 px-4 py-2">
+          <div className="max-w-6xl mx-auto flex items-center gap-4 overflow-x-auto">
+            {recentWarnings.map((warning, i) => (
+              <div
+                key={i}
+                className={`px-3 py-1 rounded border text-xs whitespace-nowrap ${SEVERITY_COLORS[warning.severity] || SEVERITY_COLORS.INFO}`}
+              >
+                <span className="font-bold">{warning.severity}:</span> {warning.message}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <main className="flex-1 p-4">
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Map */}
+          <div className="lg:col-span-2">
+            <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+              <h2 className="text-sm font-mono font-medium text-gray-400 mb-4">
+                NETWORK MAP // {currentCircuit?.name?.toUpperCase() || 'UNKNOWN'}
+              </h2>
+              {currentCircuit && (
+                <CircuitMap
+                  circuit={currentCircuit}
+                  state={displayState}
+                  theme={MAP_THEME}
+                  mapStyle="graph"
+                  currentNodeId={displayState.position.nodeId}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div className="space-y-4">
+            {state.timeline && state.timeline.length > 0 ? (
+              <Timeline
+                timeline={state.timeline}
+                projectData={projectData}
+                currentState={state}
+                onEnterReplay={enterReplayMode}
+                onExitReplay={exitReplayMode}
+                isReplayMode={isReplayMode}
+                replayIndex={replayIndex}
+                variant="TECH"
+              />
+            ) : (
+              <div className="bg-cyber-dark/50 border border-gray-800 rounded-lg p-4">
+                <p className="text-gray-500 text-sm">Aún no hay actividad en esta run.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
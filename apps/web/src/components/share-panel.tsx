@@ -2,12 +2,14 @@
 
 import { useState, useCallback } from 'react'
 import { QRCodeSVG } from 'qrcode.react'
+import { SpectatorLinksModal } from './spectator-links-modal'
 
 // =============================================================================
 // SharePanel Component - Deep link sharing with QR code
 // =============================================================================
 // Provides: Copy link, Open in new window, QR code display
 // Used for sharing RUN links with login gating support
+// Run owners and admins also get read-only spectator links (no login)
 
 interface SharePanelProps {
   runId: string
@@ -25,6 +27,8 @@ interface SharePanelProps {
   expanded?: boolean
   // Callback when user clicks to open
   onOpen?: () => void
+  // Show spectator link management (run owner, project OWNER or SUPERADMIN)
+  canManageSpectators?: boolean
 }
 
 export function SharePanel({
@@ -35,8 +39,10 @@ export function SharePanel({
   theme,
   expanded = false,
   onOpen,
+  canManageSpectators = false,
 }: SharePanelProps) {
   const [showQRModal, setShowQRModal] = useState(false)
+  const [showSpectatorModal, setShowSpectatorModal] = useState(false)
   const [copied, setCopied] = useState(false)
 
   // Generate the full URL for the run
@@ -137,6 +143,18 @@ export function SharePanel({
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h2M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" />
           </svg>
         </button>
+        {canManageSpectators && (
+          <button
+            onClick={() => setShowSpectatorModal(true)}
+            className="p-1.5 text-gray-400 hover:text-white transition-colors"
+            title="Enlaces de espectador"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+          </button>
+        )}
 
         {/* QR Modal */}
         {showQRModal && (
@@ -152,6 +170,15 @@ export function SharePanel({
             variant="TECH"
           />
         )}
+
+        {/* Spectator links modal */}
+        {showSpectatorModal && (
+          <SpectatorLinksModal
+            runId={runId}
+            runName={runName}
+            onClose={() => setShowSpectatorModal(false)}
+          />
+        )}
       </div>
     )
   }
@@ -199,6 +226,15 @@ export function SharePanel({
             >
               [QR_CODE]
             </button>
+            {canManageSpectators && (
+              <button
+                onClick={() => setShowSpectatorModal(true)}
+                className="px-3 py-1 rounded text-xs transition-colors"
+                style={{ border: `1px solid ${primaryColor}66`, color: primaryColor }}
+              >
+                [SPECTATORS]
+              </button>
+            )}
           </div>
         </div>
 
@@ -217,6 +253,15 @@ export function SharePanel({
             theme={theme}
           />
         )}
+
+        {/* Spectator links modal */}
+        {showSpectatorModal && (
+          <SpectatorLinksModal
+            runId={runId}
+            runName={runName}
+            onClose={() => setShowSpectatorModal(false)}
+          />
+        )}
       </>
     )
   }
@@ -291,6 +336,19 @@ export function SharePanel({
             </svg>
             QR
           </button>
+
+          {canManageSpectators && (
+            <button
+              onClick={() => setShowSpectatorModal(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-cyber-secondary/20 border border-cyber-secondary/30 hover:bg-cyber-secondary/30 text-cyber-secondary rounded text-sm font-mono transition-colors"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              Espectadores
+            </button>
+          )}
         </div>
       </div>
 
@@ -308,6 +366,15 @@ export function SharePanel({
           variant="TECH"
         />
       )}
+
+      {/* Spectator links modal */}
+      {showSpectatorModal && (
+        <SpectatorLinksModal
+          runId={runId}
+          runName={runName}
+          onClose={() => setShowSpectatorModal(false)}
+        />
+      )}
     </>
   )
 }
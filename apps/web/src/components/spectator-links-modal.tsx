@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+// =============================================================================
+// SpectatorLinksModal Component - Manage read-only spectator links
+// =============================================================================
+// Lists, creates and revokes the spectator links of a run.
+// Only rendered for the run owner, project OWNER or SUPERADMIN.
+
+interface SpectatorLink {
+  id: string
+  label: string | null
+  token: string
+  expiresAt: string
+  lastUsedAt: string | null
+  createdAt: string
+  createdByName: string | null
+}
+
+interface SpectatorLinksModalProps {
+  runId: string
+  runName?: string | null
+  onClose: () => void
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hora' },
+  { hours: 24, label: '24 horas' },
+  { hours: 24 * 7, label: '7 días' },
+  { hours: 24 * 30, label: '30 días' },
+]
+
+export function SpectatorLinksModal({ runId, runName, onClose }: SpectatorLinksModalProps) {
+  const [links, setLinks] = useState<SpectatorLink[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [label, setLabel] = useState('')
+  const [expiresInHours, setExpiresInHours] = useState(24)
+  const [creating, setCreating] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const getSpectateUrl = useCallback((token: string) => {
+    if (typeof window === 'undefined') return ''
+    return `${window.location.origin}/spectate/${token}`
+  }, [])
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/runs/${runId}/spectator-tokens`)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Error al cargar los enlaces')
+      }
+      setLinks(data.tokens)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setLoading(false)
+    }
+  }, [runId])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  async function handleCreate() {
+    setCreating(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/spectator-tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: label.trim() || undefined, expiresInHours }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Error al crear el enlace')
+      }
+      setLinks((prev) => [data.token, ...prev])
+      setLabel('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function handleRevoke(tokenId: string) {
+    if (!confirm('¿Revocar este enlace? Los espectadores conectados perderán el acceso.')) return
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/runs/${runId}/spectator-tokens/${tokenId}`, {
+        method: 'DELETE',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Error al revocar el enlace')
+      }
+      setLinks((prev) => prev.filter((link) => link.id !== tokenId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error desconocido')
+    }
+  }
+
+  async function handleCopy(link: SpectatorLink) {
+    try {
+      await navigator.clipboard.writeText(getSpectateUrl(link.token))
+      setCopiedId(link.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch {
+      setError('No se pudo copiar el enlace')
+    }
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString('es-ES', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-cyber-dark border border-cyber-secondary/30 rounded-xl p-6 max-w-lg w-full shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-mono font-bold text-cyber-secondary">ENLACES DE ESPECTADOR</h3>
+            <p className="text-gray-500 text-xs">
+              Solo lectura, sin login — {runName || `Run ${runId.slice(0, 8)}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-white transition-colors cursor-pointer"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Create */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            maxLength={60}
+            placeholder="Etiqueta (opcional)"
+            className="flex-1 min-w-[8rem] bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-secondary"
+          />
+          <select
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            className="bg-cyber-darker border border-gray-700 rounded px-2 py-1.5 text-white text-sm focus:outline-none focus:border-cyber-secondary"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="px-3 py-1.5 bg-cyber-secondary/20 border border-cyber-secondary/30 hover:bg-cyber-secondary/30 text-cyber-secondary rounded text-sm font-mono transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Creando...' : 'Crear enlace'}
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-red-400 text-xs mb-3">{error}</p>
+        )}
+
+        {/* List */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {loading ? (
+            <p className="text-gray-500 text-sm">Cargando...</p>
+          ) : links.length === 0 ? (
+            <p className="text-gray-500 text-sm">No hay enlaces activos.</p>
+          ) : (
+            links.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center justify-between gap-2 bg-cyber-darker border border-gray-800 rounded px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-white text-sm truncate">{link.label || 'Sin etiqueta'}</p>
+                  <p className="text-gray-500 text-[10px] font-mono">
+                    Caduca {formatDate(link.expiresAt)}
+                    {link.lastUsedAt && ` · Último uso ${formatDate(link.lastUsedAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCopy(link)}
+                    className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+                      copiedId === link.id
+                        ? 'bg-green-500/20 border border-green-500/30 text-green-400'
+                        : 'bg-gray-800 border border-gray-700 hover:border-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {copiedId === link.id ? 'Copiado' : 'Copiar'}
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(link.id)}
+                    className="px-2 py-1 bg-red-600/20 border border-red-600/40 hover:bg-red-600/30 text-red-400 rounded text-xs font-mono transition-colors"
+                  >
+                    Revocar
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
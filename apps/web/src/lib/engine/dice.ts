@@ -0,0 +1,228 @@
+// =============================================================================
+// ROLHACK ENGINE - Dice (server-side rolling)
+// =============================================================================
+// Dice expressions and a seedable RNG for projects in SERVER dice mode.
+// Every roll is derived from (run seed, sequence number), so any recorded
+// roll can be reproduced exactly from the timeline.
+
+import type { DiceRollRecord } from './types'
+
+// Limits keep expressions sane (and cheap to roll)
+const MAX_DICE_PER_TERM = 20
+const MAX_DIE_SIDES = 100
+const MAX_TERMS = 10
+// Same cap as named modifier values (HackDiceInputSchema)
+const MAX_CONSTANT = 50
+
+/**
+ * Parsed term of a dice expression
+ */
+export type DiceTerm =
+  | { kind: 'dice'; sign: 1 | -1; count: number; sides: number }
+  | { kind: 'constant'; sign: 1 | -1; value: number }
+  | { kind: 'modifier'; sign: 1 | -1; name: string }
+
+export type DiceParseResult =
+  | { success: true; terms: DiceTerm[] }
+  | { success: false; error: string }
+
+/**
+ * Parse a dice expression such as `1d20+INT+skill-2`
+ * Terms: NdM dice, integer constants and named modifiers (letters, digits, _)
+ */
+export function parseDiceExpression(expression: string): DiceParseResult {
+  const compact = expression.replace(/\s+/g, '')
+  if (!compact) {
+    return { success: false, error: 'Empty dice expression' }
+  }
+
+  const tokens = compact.match(/[+-]?[^+-]+/g)
+  if (!tokens || tokens.join('') !== compact || tokens.length > MAX_TERMS) {
+    return { success: false, error: `Invalid dice expression: ${expression}` }
+  }
+
+  const terms: DiceTerm[] = []
+  for (const token of tokens) {
+    const sign: 1 | -1 = token.startsWith('-') ? -1 : 1
+    const body = token.replace(/^[+-]/, '')
+
+    const diceMatch = body.match(/^(\d*)d(\d+)$/i)
+    if (diceMatch) {
+      const count = diceMatch[1] ? Number(diceMatch[1]) : 1
+      const sides = Number(diceMatch[2])
+      if (count < 1 || count > MAX_DICE_PER_TERM || sides < 2 || sides > MAX_DIE_SIDES) {
+        return { success: false, error: `Dice out of range: ${body}` }
+      }
+      terms.push({ kind: 'dice', sign, count, sides })
+      continue
+    }
+
+    if (/^\d+$/.test(body)) {
+      if (Number(body) > MAX_CONSTANT) {
+        return { success: false, error: `Constant out of range: ${body}` }
+      }
+      terms.push({ kind: 'constant', sign, value: Number(body) })
+      continue
+    }
+
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(body)) {
+      terms.push({ kind: 'modifier', sign, name: body })
+      continue
+    }
+
+    return { success: false, error: `Invalid dice term: ${body}` }
+  }
+
+  if (!terms.some((term) => term.kind === 'dice')) {
+    return { success: false, error: 'Dice expression must roll at least one die' }
+  }
+
+  return { success: true, terms }
+}
+
+/**
+ * Keep only the modifier values an expression names
+ * Players cannot add modifiers the project's expression does not roll
+ */
+export function pickDiceModifiers(
+  expression: string,
+  modifiers: Record<string, number>
+): Record<string, number> {
+  const parsed = parseDiceExpression(expression)
+  if (!parsed.success) return {}
+
+  const picked: Record<string, number> = {}
+  for (const term of parsed.terms) {
+    if (term.kind === 'modifier' && modifiers[term.name] !== undefined) {
+      picked[term.name] = modifiers[term.name]
+    }
+  }
+  return picked
+}
+
+// =============================================================================
+// SEEDABLE RNG
+// =============================================================================
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Create a deterministic RNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRng(seed: string): () => number {
+  let a = hashSeed(seed)
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * RNG for the Nth roll of a run - the (seed, sequence) pair is stored with each roll
+ */
+export function createRollRng(seed: string, sequence: number): () => number {
+  return createRng(`${seed}:${sequence}`)
+}
+
+/**
+ * Generate a new run dice seed
+ */
+export function generateDiceSeed(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Roll a single die (1 to sides)
+ */
+export function rollDie(sides: number, rng: () => number): number {
+  return Math.floor(rng() * sides) + 1
+}
+
+// =============================================================================
+// ROLLING
+// =============================================================================
+
+export type DiceRollOutcome =
+  | { success: true; rolls: number[]; modifierTotal: number; total: number }
+  | { success: false; error: string }
+
+/**
+ * Roll a parsed expression
+ * Named modifiers are resolved from `modifiers`; unknown names are an error
+ */
+export function rollDiceExpression(
+  expression: string,
+  modifiers: Record<string, number>,
+  rng: () => number
+): DiceRollOutcome {
+  const parsed = parseDiceExpression(expression)
+  if (!parsed.success) return parsed
+
+  const rolls: number[] = []
+  let diceTotal = 0
+  let modifierTotal = 0
+
+  for (const term of parsed.terms) {
+    if (term.kind === 'dice') {
+      for (let i = 0; i < term.count; i++) {
+        const value = rollDie(term.sides, rng)
+        rolls.push(value)
+        diceTotal += term.sign * value
+      }
+    } else if (term.kind === 'constant') {
+      modifierTotal += term.sign * term.value
+    } else {
+      const value = modifiers[term.name]
+      if (value === undefined) {
+        return { success: false, error: `Unknown modifier: ${term.name}` }
+      }
+      modifierTotal += term.sign * value
+    }
+  }
+
+  return { success: true, rolls, modifierTotal, total: diceTotal + modifierTotal }
+}
+
+/**
+ * Reproduce a recorded roll from its seed and sequence
+ * Returns the phase 1 total and the kept fail die roll (if any)
+ * Only on the server: client-facing records carry no seed (total is null)
+ */
+export function replayDiceRoll(record: DiceRollRecord): { total: number | null; failDieRoll?: number } {
+  if (!record.seed) return { total: null }
+
+  const rng = createRollRng(record.seed, record.sequence)
+  const outcome = rollDiceExpression(record.expression, record.modifiers, rng)
+  if (!outcome.success) return { total: null }
+
+  if (!record.failDie) return { total: outcome.total }
+
+  // Discarded (rerolled) results come first, the last roll is the kept one
+  let failDieRoll = rollDie(record.failDie, rng)
+  for (let i = 0; i < (record.discardedFailDieRolls?.length ?? 0); i++) {
+    failDieRoll = rollDie(record.failDie, rng)
+  }
+
+  return { total: outcome.total, failDieRoll }
+}
+
+/**
+ * Human-readable summary of a recorded roll, e.g. "1d20+INT [14] +3 = 17"
+ */
+export function formatDiceRoll(record: DiceRollRecord): string {
+  const modifierTotal = record.total - record.rolls.reduce((sum, value) => sum + value, 0)
+  const modifierPart = modifierTotal === 0 ? '' : modifierTotal > 0 ? ` +${modifierTotal}` : ` ${modifierTotal}`
+  return `${record.expression} [${record.rolls.join(', ')}]${modifierPart} = ${record.total}`
+}
@@ -0,0 +1,190 @@
+// =============================================================================
+// ROLHACK ENGINE - Definition Diff
+// =============================================================================
+// Structural diff between two versions of a ProjectData, matched by ID
+
+import type { ProjectData, CircuitDefinition, LinkDefinition, PortalDefinition } from './types'
+
+// =============================================================================
+// DIFF TYPES
+// =============================================================================
+
+export interface FieldChange {
+  field: string
+  from: unknown // undefined = field absent in that version
+  to: unknown
+}
+
+export interface DiffEntry {
+  id: string
+  name: string
+}
+
+export interface ChangedEntry extends DiffEntry {
+  changes: FieldChange[]
+}
+
+export interface EntityDiff {
+  added: DiffEntry[]
+  removed: DiffEntry[]
+  changed: ChangedEntry[]
+}
+
+export interface CircuitDiff {
+  id: string
+  name: string
+  status: 'ADDED' | 'REMOVED' | 'CHANGED'
+  changes: FieldChange[] // Circuit fields (name, ICE, budget...)
+  nodes: EntityDiff
+  links: EntityDiff
+}
+
+export interface DefinitionDiff {
+  identical: boolean
+  meta: FieldChange[]
+  circuits: CircuitDiff[] // Only circuits with changes
+  portals: EntityDiff
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * JSON with sorted keys: editors may write the same object in any key order
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined'
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  const record = value as Record<string, unknown>
+  return `{${Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+    .join(',')}}`
+}
+
+/**
+ * Per-field changes of two versions of the same object (nested fields compared whole)
+ */
+function diffFields<T extends object>(from: T, to: T, ignore: string[] = []): FieldChange[] {
+  const a = from as Record<string, unknown>
+  const b = to as Record<string, unknown>
+  const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+
+  return fields
+    .filter((field) => !ignore.includes(field))
+    .filter((field) => stableStringify(a[field]) !== stableStringify(b[field]))
+    .map((field) => ({ field, from: a[field], to: b[field] }))
+}
+
+/**
+ * Added / removed / changed entities of two lists, matched by ID
+ */
+function diffEntities<T extends { id: string }>(
+  from: T[],
+  to: T[],
+  nameOf: (entity: T) => string,
+  ignore: string[] = []
+): EntityDiff {
+  const before = new Map(from.map((entity) => [entity.id, entity]))
+  const after = new Map(to.map((entity) => [entity.id, entity]))
+
+  const changed: ChangedEntry[] = []
+  for (const entity of to) {
+    const previous = before.get(entity.id)
+    if (!previous) continue
+    const changes = diffFields(previous, entity, ['id', ...ignore])
+    if (changes.length > 0) changed.push({ id: entity.id, name: nameOf(entity), changes })
+  }
+
+  return {
+    added: to.filter((entity) => !before.has(entity.id)).map((entity) => ({ id: entity.id, name: nameOf(entity) })),
+    removed: from.filter((entity) => !after.has(entity.id)).map((entity) => ({ id: entity.id, name: nameOf(entity) })),
+    changed,
+  }
+}
+
+function isEmpty(diff: EntityDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+}
+
+/**
+ * "A ↔ B" label of a link, using the node names of its circuit
+ */
+function linkName(circuit: CircuitDefinition): (link: LinkDefinition) => string {
+  return (link) => {
+    const from = circuit.nodes.find((n) => n.id === link.from)?.name ?? link.from
+    const to = circuit.nodes.find((n) => n.id === link.to)?.name ?? link.to
+    return `${from} ${link.bidirectional === false ? '→' : '↔'} ${to}`
+  }
+}
+
+function portalName(data: ProjectData): (portal: PortalDefinition) => string {
+  return (portal) => {
+    const circuit = (id: string) => data.circuits.find((c) => c.id === id)?.name ?? id
+    return `${circuit(portal.fromCircuitId)} → ${circuit(portal.toCircuitId)}`
+  }
+}
+
+// =============================================================================
+// DEFINITION DIFF
+// =============================================================================
+
+/**
+ * Structural diff from one definition version to another.
+ * Circuits, nodes, links and portals are matched by ID; a renamed node is a
+ * change, a node with a new ID is a removal plus an addition.
+ */
+export function diffProjectData(from: ProjectData, to: ProjectData): DefinitionDiff {
+  const circuits: CircuitDiff[] = []
+  const previousCircuits = new Map(from.circuits.map((circuit) => [circuit.id, circuit]))
+  const nextIds = new Set(to.circuits.map((circuit) => circuit.id))
+  const nodeName = (node: { name: string }) => node.name
+
+  // Removed circuits first, then the current ones in their order
+  for (const circuit of from.circuits) {
+    if (nextIds.has(circuit.id)) continue
+    circuits.push({
+      id: circuit.id,
+      name: circuit.name,
+      status: 'REMOVED',
+      changes: [],
+      nodes: diffEntities(circuit.nodes, [], nodeName),
+      links: diffEntities(circuit.links, [], linkName(circuit)),
+    })
+  }
+
+  for (const circuit of to.circuits) {
+    const previous = previousCircuits.get(circuit.id)
+    const nodes = diffEntities(previous?.nodes ?? [], circuit.nodes, nodeName)
+    const links = diffEntities(previous?.links ?? [], circuit.links, linkName(circuit))
+    // Links of a removed node are named after the old version
+    if (previous) {
+      links.removed = diffEntities(previous.links, circuit.links, linkName(previous)).removed
+    }
+    const changes = previous ? diffFields(previous, circuit, ['id', 'nodes', 'links']) : []
+
+    if (previous && changes.length === 0 && isEmpty(nodes) && isEmpty(links)) continue
+    circuits.push({
+      id: circuit.id,
+      name: circuit.name,
+      status: previous ? 'CHANGED' : 'ADDED',
+      changes,
+      nodes,
+      links,
+    })
+  }
+
+  const meta = diffFields(from.meta, to.meta)
+  const portals = diffEntities(from.portals ?? [], to.portals ?? [], portalName(to))
+  portals.removed = diffEntities(from.portals ?? [], to.portals ?? [], portalName(from)).removed
+
+  return {
+    identical: meta.length === 0 && circuits.length === 0 && isEmpty(portals),
+    meta,
+    circuits,
+    portals,
+  }
+}
@@ -4,15 +4,36 @@
  * Tests for hack/move logic as specified in the PROMPT
  */
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import {
   initializeRunState,
   attemptHack,
   discoverHiddenLinks,
   moveToNode,
   getAvailableMoves,
+  applyGmAction,
+  switchCircuit,
+  addPlayerPositions,
+  getPlayerView,
+  applyAsPlayer,
+  attemptHackWithServerDice,
+  applyWithCountermeasures,
+  generateAuditData,
+  exportAuditSummary,
+  checkpointRunState,
+  rollbackToEvent,
+  forkRunState,
+  getRunEnding,
+  migrateRunState,
+  redactRunStateForClients,
 } from './engine'
-import type { ProjectData, RunState } from './types'
+import { replayDiceRoll, parseDiceExpression, pickDiceModifiers } from './dice'
+import { diffProjectData } from './diff'
+import { analyzeProjectGraph } from './validation'
+import { simulateProject } from './simulation'
+import { computeLayout, layoutCircuit, countCrossings } from './layout'
+import { ProjectDataSchema } from './schemas'
+import type { ProjectData, RunState, CircuitDefinition, NodeDefinition } from './types'
 
 // =============================================================================
 // TEST FIXTURES
@@ -321,3 +342,777 @@ describe('getAvailableMoves', () => {
     expect(moves.fastTravel).toContain('node-b')
   })
 })
+
+// =============================================================================
+// GM OVERRIDES: bypass rules and leave an auditable trail
+// =============================================================================
+
+describe('GM Overrides', () => {
+  it('should force-hack a node and record a GM_OVERRIDE event', () => {
+    const state = initializeRunState(testProject)
+
+    const { newState, result } = applyGmAction(state, testProject, { type: 'FORCE_HACK', nodeId: 'node-c' })
+
+    expect(result.success).toBe(true)
+    expect(newState.nodes['node-c'].hackeado).toBe(true)
+    const lastEvent = newState.timeline[newState.timeline.length - 1]
+    expect(lastEvent.type).toBe('GM_OVERRIDE')
+    expect(lastEvent.details?.gmAction).toBe('FORCE_HACK')
+  })
+
+  it('should teleport the player and lift a circuit lockdown', () => {
+    let state = initializeRunState(testProject)
+    state = { ...state, blockedCircuits: { 'circuit-1': true } }
+
+    const unlock = applyGmAction(state, testProject, { type: 'UNLOCK_CIRCUIT', circuitId: 'circuit-1' })
+    expect(unlock.newState.blockedCircuits['circuit-1']).toBeUndefined()
+
+    const teleport = applyGmAction(unlock.newState, testProject, { type: 'TELEPORT', nodeId: 'node-d' })
+    expect(teleport.newState.position.nodeId).toBe('node-d')
+    expect(teleport.newState.nodes['node-d'].descubierto).toBe(true)
+  })
+
+  it('should not modify state when the override does not apply', () => {
+    const state = initializeRunState(testProject)
+
+    const { newState, result } = applyGmAction(state, testProject, { type: 'UNBLOCK_NODE', nodeId: 'node-a' })
+
+    expect(result.success).toBe(false)
+    expect(newState).toBe(state)
+  })
+})
+
+// =============================================================================
+// TEAM RUNS: attributed actions and per-player positions
+// =============================================================================
+
+describe('Team Runs', () => {
+  it('should attribute new timeline events to the acting player', () => {
+    const state = initializeRunState(testProject)
+    const previousLength = state.timeline.length
+
+    const { newState } = applyAsPlayer(state, { userId: 'user-1', name: 'Case' }, (s) =>
+      attemptHack(s, testProject, 20)
+    )
+
+    expect(newState.timeline.length).toBeGreaterThan(previousLength)
+    const newEvents = newState.timeline.slice(previousLength)
+    expect(newEvents.every(e => e.actorUserId === 'user-1' && e.actorName === 'Case')).toBe(true)
+    expect(newState.timeline.slice(0, previousLength).every(e => e.actorUserId === undefined)).toBe(true)
+  })
+
+  it('should keep each player at their own position', () => {
+    let state = addPlayerPositions(initializeRunState(testProject), ['user-1', 'user-2'])
+
+    state = applyAsPlayer(state, { userId: 'user-1' }, (s) => attemptHack(s, testProject, 20)).newState
+    state = applyAsPlayer(state, { userId: 'user-1' }, (s) => moveToNode(s, testProject, 'node-b')).newState
+
+    expect(getPlayerView(state, 'user-1').position.nodeId).toBe('node-b')
+    expect(getPlayerView(state, 'user-2').position.nodeId).toBe('node-a')
+    // Shared progress is visible to the whole team
+    expect(getPlayerView(state, 'user-2').nodes['node-a'].hackeado).toBe(true)
+  })
+})
+
+describe('Server Dice', () => {
+  it('should record a reproducible roll and advance the dice sequence', () => {
+    const state: RunState = { ...initializeRunState(testProject), diceSeed: 'test-seed', diceSequence: 0 }
+
+    const { newState, result } = attemptHackWithServerDice(state, testProject, {
+      expression: '1d20+INT',
+      modifiers: { INT: 20 },
+    })
+
+    // 1d20+20 always beats CD 5
+    expect(result.hackeado).toBe(true)
+    expect(result.diceRoll?.sequence).toBe(0)
+    expect(newState.diceSequence).toBe(1)
+
+    const diceEvent = newState.timeline.find(e => e.type === 'DICE_ROLLED')
+    expect(diceEvent?.details?.diceRoll).toEqual(result.diceRoll)
+    expect(replayDiceRoll(result.diceRoll!).total).toBe(result.diceRoll!.total)
+  })
+
+  it('should not consume a roll when the node cannot be hacked', () => {
+    const first = attemptHackWithServerDice(
+      { ...initializeRunState(testProject), diceSeed: 'test-seed' },
+      testProject,
+      { expression: '1d20+30', modifiers: {} }
+    ).newState
+
+    const { newState, result } = attemptHackWithServerDice(first, testProject, {
+      expression: '1d20',
+      modifiers: {},
+    })
+
+    expect(newState).toBe(first)
+    expect(result.diceRoll).toBeUndefined()
+  })
+
+  it('should keep the dice seed out of client-facing state', () => {
+    const { newState } = attemptHackWithServerDice(
+      { ...initializeRunState(testProject), diceSeed: 'test-seed' },
+      testProject,
+      { expression: '1d20+30', modifiers: {} }
+    )
+
+    const redacted = redactRunStateForClients(newState)
+    expect(redacted.diceSeed).toBeUndefined()
+    expect(redacted.diceSequence).toBeUndefined()
+    expect(JSON.stringify(redacted)).not.toContain('test-seed')
+    expect(newState.diceSeed).toBe('test-seed')
+  })
+
+  it('should only take the modifiers the project expression names', () => {
+    expect(pickDiceModifiers('1d20+INT', { INT: 3, LUCK: 50, extra: 50 })).toEqual({ INT: 3 })
+    expect(pickDiceModifiers('1d20', { INT: 3 })).toEqual({})
+  })
+
+  it('should reject constants beyond the modifier cap', () => {
+    expect(parseDiceExpression('1d20+50').success).toBe(true)
+    expect(parseDiceExpression('1d20+999').success).toBe(false)
+  })
+})
+
+describe('Character Modifiers', () => {
+  const character = {
+    name: 'Case',
+    interface: 2,
+    deckBonus: 1,
+    programs: [{ name: 'Icebreaker', bonus: 1 }],
+    failDieBonus: 2,
+    failDieRerolls: 0,
+  }
+
+  it('should add character bonuses to phase 1 and record them on the event', () => {
+    const state = initializeRunState(testProject)
+
+    // Bare roll 1 < CD 5, with +4 from the character = 5
+    const { newState, result } = attemptHack(state, testProject, 1, undefined, { character })
+
+    expect(result.hackeado).toBe(true)
+    expect(result.hackModifiers?.total).toBe(5)
+    const hackEvent = newState.timeline.find(e => e.type === 'NODE_HACKED')
+    expect(hackEvent?.details?.hackModifiers?.characterName).toBe('Case')
+  })
+
+  it('should soften the fail die roll with the character bonus', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].failDie = 6
+    const state = initializeRunState(project)
+    const weakCharacter = { ...character, interface: 0, deckBonus: 0, programs: [] }
+
+    // Fail die 1 + 2 = 3: range failure (LOCKDOWN) instead of critical (BLACK_ICE)
+    const { result } = attemptHack(state, project, 1, 1, { character: weakCharacter })
+
+    expect(result.warning?.severity).toBe('LOCKDOWN')
+    expect(result.hackModifiers?.failDieTotal).toBe(3)
+  })
+})
+
+describe('ICE', () => {
+  const iceProject: ProjectData = {
+    ...testProject,
+    circuits: [
+      {
+        ...testProject.circuits[0],
+        ice: [
+          {
+            id: 'ice-1',
+            name: 'Sentinel',
+            startNodeId: 'node-c',
+            patrolRoute: ['node-b', 'node-a'],
+            triggers: ['EVERY_N_ACTIONS'],
+            everyNActions: 2,
+            onContact: 'EJECT',
+          },
+        ],
+      },
+    ],
+  }
+
+  it('should patrol every N actions and eject the player on contact', () => {
+    let state = initializeRunState(iceProject)
+    expect(state.ice?.['ice-1'].nodeId).toBe('node-c')
+
+    // Action 1: no step yet
+    state = applyWithCountermeasures(state, iceProject, (s) => attemptHack(s, iceProject, 20)).newState
+    expect(state.ice?.['ice-1'].nodeId).toBe('node-c')
+
+    // Action 2: the player moves to B and the ICE steps onto it
+    state = applyWithCountermeasures(state, iceProject, (s) => moveToNode(s, iceProject, 'node-b')).newState
+    expect(state.ice?.['ice-1'].nodeId).toBe('node-b')
+    expect(state.position.nodeId).toBe('node-a')
+    expect(state.timeline[state.timeline.length - 1].type).toBe('ICE_CONTACT')
+  })
+
+  it('should not react to actions that change nothing', () => {
+    const state = initializeRunState(iceProject)
+    const { newState } = applyWithCountermeasures(state, iceProject, (s) => moveToNode(s, iceProject, 'node-c'))
+
+    expect(newState).toBe(state)
+  })
+})
+
+describe('Trace Meter', () => {
+  const traceProject: ProjectData = {
+    ...testProject,
+    meta: {
+      ...testProject.meta,
+      trace: {
+        traceAmount: 1,
+        alertAmount: 2,
+        criticalAmount: 5,
+        thresholds: [
+          { value: 5, escalation: 'RAISE_CD', cdIncrease: 3 },
+          { value: 10, escalation: 'LOCKDOWN' },
+        ],
+      },
+    },
+  }
+
+  it('should raise the meter on critical results and escalate at thresholds', () => {
+    const project = structuredClone(traceProject)
+    project.circuits[0].nodes[0].criticalFailMode = 'WARNING'
+    project.circuits[0].nodes[0].failDie = 6
+
+    let state = initializeRunState(project)
+    expect(state.trace?.level).toBe(0)
+
+    // Critical WARNING -> ALERT (+2)
+    state = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 1, 1)).newState
+    expect(state.trace?.level).toBe(2)
+    expect(state.trace?.cdIncrease).toBe(0)
+
+    // Two more ALERTs (+4) -> crosses 5: RAISE_CD
+    state = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 1, 2)).newState
+    state = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 1, 1)).newState
+    expect(state.trace?.level).toBe(6)
+    expect(state.trace?.reachedThresholds).toEqual([0])
+    expect(state.trace?.cdIncrease).toBe(3)
+    expect(state.timeline.some((e) => e.type === 'TRACE_ESCALATION')).toBe(true)
+
+    // Node A (CD 5) now needs 8
+    const { result } = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 6))
+    expect(result.needsPhase2).toBe(true)
+
+    // Two more ALERTs -> crosses 10: LOCKDOWN of the current circuit
+    state = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 1, 1)).newState
+    state = applyWithCountermeasures(state, project, (s) => attemptHack(s, project, 1, 1)).newState
+    expect(state.trace?.level).toBe(10)
+    expect(state.blockedCircuits['circuit-1']).toBe(true)
+  })
+})
+
+describe('Budgets', () => {
+  it('should consume actions and end the run when the budget runs out', () => {
+    const project: ProjectData = {
+      ...testProject,
+      meta: { ...testProject.meta, budget: { actions: 2, onExpire: 'GAME_OVER' } },
+    }
+
+    let state = initializeRunState(project)
+    expect(state.runBudget?.actionsLeft).toBe(2)
+
+    state = attemptHack(state, project, 20).newState
+    expect(state.runBudget?.actionsLeft).toBe(1)
+
+    state = moveToNode(state, project, 'node-b').newState
+    expect(state.runBudget?.actionsLeft).toBe(0)
+    expect(state.runBudget?.expired).toBe(true)
+    expect(state.gameOver).toBe(true)
+    expect(state.timeline[state.timeline.length - 1].type).toBe('BUDGET_EXPIRED')
+
+    // No further player actions
+    const { newState, result } = attemptHack(state, project, 20)
+    expect(newState).toBe(state)
+    expect(result.gameOver).toBe(true)
+  })
+
+  it('should lock the circuit when a circuit budget runs out', () => {
+    const project: ProjectData = {
+      ...testProject,
+      circuits: [{ ...testProject.circuits[0], budget: { actions: 1, onExpire: 'LOCKDOWN' } }],
+    }
+
+    const state = attemptHack(initializeRunState(project), project, 20).newState
+
+    expect(state.circuitBudgets?.['circuit-1'].expired).toBe(true)
+    expect(state.blockedCircuits['circuit-1']).toBe(true)
+    expect(state.gameOver).toBeUndefined()
+  })
+})
+
+describe('Payloads', () => {
+  it('should deliver node payloads to the inventory once, on hack', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].payloads = [
+      { id: 'pw-1', name: 'Root password', type: 'PASSWORD', content: 'hunter2' },
+    ]
+
+    const state = initializeRunState(project)
+    expect(state.inventory).toBeUndefined()
+
+    const { newState, result } = attemptHack(state, project, 20)
+
+    expect(result.payloads?.map((item) => item.payloadId)).toEqual(['pw-1'])
+    expect(newState.inventory).toHaveLength(1)
+    expect(newState.inventory?.[0]).toMatchObject({ content: 'hunter2', nodeId: 'node-a' })
+    expect(newState.timeline[newState.timeline.length - 1].details?.payloadIds).toEqual(['pw-1'])
+
+    const audit = generateAuditData('run-1', null, 'Test', newState, project, new Date().toISOString())
+    expect(exportAuditSummary(audit, 'markdown')).toContain('Root password')
+  })
+})
+
+describe('Access Requirements', () => {
+  it('should refuse gated moves with a themed reason until keys and dependencies are met', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[3].payloads = [
+      { id: 'admin-pass', name: 'Admin pass', type: 'KEY', content: 'x9-77' },
+    ]
+    project.circuits[0].links[0].requires = [{ type: 'KEY', payloadId: 'admin-pass' }]
+    project.circuits[0].nodes[1].requires = [{ type: 'NODE_HACKED', nodeId: 'node-d' }]
+
+    const state = initializeRunState(project)
+    const { newState: hacked } = attemptHack(state, project, 20)
+
+    const moves = getAvailableMoves(hacked, project)
+    expect(moves.all).not.toContain('node-b')
+    expect(moves.locked).toEqual([{ nodeId: 'node-b', message: 'ACCESS KEY REQUIRED — ADMIN PASS' }])
+    expect(moveToNode(hacked, project, 'node-b').result.message).toBe('ACCESS KEY REQUIRED — ADMIN PASS')
+
+    // Key in the inventory: the node dependency is next
+    const withKey = structuredClone(hacked)
+    withKey.inventory = [{
+      payloadId: 'admin-pass', name: 'Admin pass', type: 'KEY', content: 'x9-77',
+      circuitId: 'circuit-1', nodeId: 'node-d', extractedAt: new Date().toISOString(),
+    }]
+    expect(moveToNode(withKey, project, 'node-b').result.message).toContain('DEPENDENCY NOT MET')
+
+    withKey.nodes['node-d'].hackeado = true
+    const { result } = moveToNode(withKey, project, 'node-b')
+    expect(result.success).toBe(true)
+  })
+})
+
+describe('Portals', () => {
+  it('should keep gated circuits sealed until reached through a portal', () => {
+    const project = structuredClone(testProject)
+    project.meta.circuitGating = true
+    project.circuits.push({
+      id: 'circuit-2',
+      name: 'Vault',
+      nodes: [
+        {
+          id: 'vault-a', name: 'Vault Gate', level: 0, cd: 5, failDie: 4,
+          criticalFailMode: 'BLOQUEO', rangeFailMode: 'WARNING', visibleByDefault: false,
+        },
+      ],
+      links: [],
+    })
+    project.portals = [
+      { id: 'portal-1', fromCircuitId: 'circuit-1', fromNodeId: 'node-a', toCircuitId: 'circuit-2', toNodeId: 'vault-a', hidden: true },
+    ]
+
+    let state = initializeRunState(project)
+    expect(switchCircuit(state, project, 'circuit-2').result.message).toBe('CIRCUIT SEALED — NO PORTAL ROUTE ESTABLISHED')
+
+    state = attemptHack(state, project, 20).newState
+    expect(moveToNode(state, project, 'vault-a').result.message).toBe('PATHWAY NOT YET MAPPED')
+
+    const discovery = discoverHiddenLinks(state, project)
+    expect(discovery.result.discoveredLinks).toContain('portal-1')
+    expect(discovery.result.discoveredNodes).toContain('vault-a')
+    state = discovery.newState
+    expect(getAvailableMoves(state, project).advance).toContain('vault-a')
+
+    const { newState, result } = moveToNode(state, project, 'vault-a')
+    expect(result.success).toBe(true)
+    expect(newState.position).toEqual({ circuitId: 'circuit-2', nodeId: 'vault-a' })
+    expect(newState.unlockedCircuits).toEqual(['circuit-1', 'circuit-2'])
+
+    // Back in circuit 1, the vault can now be selected directly
+    const back = switchCircuit(newState, project, 'circuit-1').newState
+    expect(switchCircuit(back, project, 'circuit-2').result.success).toBe(true)
+  })
+})
+
+describe('Triggers', () => {
+  it('should run a node trigger once when its event happens', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].triggers = [
+      {
+        id: 'trigger-1',
+        on: 'ON_HACK',
+        actions: [
+          { type: 'REVEAL_NODE', nodeId: 'node-d' },
+          { type: 'DISABLE_LINK', linkId: 'link-bc' },
+          { type: 'MESSAGE', text: 'The lights go out.' },
+        ],
+      },
+    ]
+
+    const state = initializeRunState(project)
+    const { newState, result } = attemptHack(state, project, 20)
+
+    expect(newState.nodes['node-d'].descubierto).toBe(true)
+    expect(newState.links['link-bc'].inaccesible).toBe(true)
+    expect(result.narrative).toEqual(['The lights go out.'])
+    expect(newState.firedTriggers).toEqual(['trigger-1'])
+    expect(newState.timeline.some((e) => e.type === 'TRIGGER_FIRED' && e.details?.triggerId === 'trigger-1')).toBe(true)
+
+    // Not repeatable: a second hack of the same node does not fire again
+    const again = attemptHack(newState, project, 20)
+    expect(again.result.narrative).toBeUndefined()
+  })
+})
+
+describe('Node Types', () => {
+  it('should keep firewall neighbours hidden until the firewall falls', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].type = 'FIREWALL'
+
+    const state = initializeRunState(project)
+    expect(state.nodes['node-b'].descubierto).toBe(false)
+    expect(discoverHiddenLinks(state, project).result.message).toBe('FIREWALL ACTIVE — SCAN BLOCKED')
+
+    const { newState, result } = attemptHack(state, project, 20)
+    expect(result.discoveredNodes).toEqual(['node-b'])
+    expect(result.message).toBe('FIREWALL BREACHED — 1 NODE(S) EXPOSED')
+    expect(newState.nodes['node-b'].descubierto).toBe(true)
+    // Behind a hidden link: still needs a scan
+    expect(newState.nodes['node-d'].descubierto).toBe(false)
+  })
+
+  it('should take the target of a control node offline', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].type = 'CONTROL'
+    project.circuits[0].nodes[0].controls = { type: 'NODE', nodeId: 'node-c' }
+
+    const { newState, result } = attemptHack(initializeRunState(project), project, 20)
+    expect(result.message).toBe('CONTROL NODE SEIZED — NODE C OFFLINE')
+    expect(newState.nodes['node-c'].inaccesible).toBe(true)
+    expect(newState.timeline.some((e) => e.type === 'CONTROL_SEIZED')).toBe(true)
+  })
+
+  it('should raise a trace warning on every honeypot hack', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[0].type = 'HONEYPOT'
+
+    const { newState, result } = attemptHack(initializeRunState(project), project, 20)
+    expect(result.success).toBe(true)
+    expect(result.warning?.severity).toBe('TRACE')
+    expect(newState.warnings.map((w) => w.message)).toContain('INTRUSION LOGGED — HONEYPOT — Node A')
+  })
+})
+
+// =============================================================================
+// ROLLBACK TESTS
+// =============================================================================
+
+describe('Rollback', () => {
+  it('should keep checkpoints out of client-facing state', () => {
+    const state = initializeRunState(testProject)
+    const hacked = checkpointRunState(attemptHack(state, testProject, 20).newState, state)
+
+    const redacted = redactRunStateForClients(hacked)
+    expect(redacted.timeline.some((e) => e.checkpoint)).toBe(false)
+    expect(redacted.timeline.filter((e) => e.hasCheckpoint)).toHaveLength(2)
+    expect(hacked.timeline.filter((e) => e.checkpoint)).toHaveLength(2)
+  })
+
+  it('should restore the run to a checkpoint and keep the timeline', () => {
+    const state = initializeRunState(testProject)
+    const startEventId = state.timeline[0].id
+    expect(state.timeline[0].checkpoint).toBeDefined()
+
+    const hacked = checkpointRunState(attemptHack(state, testProject, 20).newState, state)
+    expect(hacked.nodes['node-a'].hackeado).toBe(true)
+    expect(hacked.timeline[hacked.timeline.length - 1].checkpoint?.nodes['node-a'].hackeado).toBe(true)
+
+    const { newState, result } = rollbackToEvent(hacked, testProject, startEventId)
+    expect(result.success).toBe(true)
+    expect(newState.nodes['node-a'].hackeado).toBe(false)
+    expect(newState.timeline).toHaveLength(hacked.timeline.length + 1)
+    expect(newState.timeline[newState.timeline.length - 1].details?.rollbackToEventId).toBe(startEventId)
+  })
+
+  it('should fail for an unknown event', () => {
+    const state = initializeRunState(testProject)
+    const { newState, result } = rollbackToEvent(state, testProject, 'missing')
+    expect(result.success).toBe(false)
+    expect(newState).toBe(state)
+  })
+})
+
+describe('Fork', () => {
+  it('should branch from the checkpoint of an event without touching the parent', () => {
+    const state = initializeRunState(testProject)
+    const hacked = checkpointRunState(attemptHack(state, testProject, 20).newState, state)
+
+    const { newState: fork, result } = forkRunState(hacked, testProject, state.timeline[0].id)
+    expect(result.success).toBe(true)
+    expect(fork?.nodes['node-a'].hackeado).toBe(false)
+    expect(fork?.timeline.map((e) => e.type)).toEqual(['RUN_START', 'RUN_FORKED'])
+    expect(hacked.nodes['node-a'].hackeado).toBe(true)
+
+    expect(forkRunState(hacked, testProject, 'missing').newState).toBeNull()
+  })
+
+  it('should give the fork its own dice seed and send it to nobody', () => {
+    const state: RunState = { ...initializeRunState(testProject), diceSeed: 'test-seed', diceSequence: 0 }
+    const rolled = checkpointRunState(
+      attemptHackWithServerDice(state, testProject, { expression: '1d20+30', modifiers: {} }).newState,
+      state
+    )
+
+    const fork = forkRunState(rolled, testProject, rolled.timeline[rolled.timeline.length - 1].id).newState!
+    expect(fork.diceSeed).toBeUndefined()
+    expect(fork.diceSequence).toBeUndefined()
+    // The copied roll keeps the parent's seed on the server only
+    expect(JSON.stringify(fork)).toContain('test-seed')
+    expect(JSON.stringify(redactRunStateForClients(fork))).not.toContain('test-seed')
+  })
+
+  it('should keep the time left on the run clock', () => {
+    const project: ProjectData = {
+      ...testProject,
+      meta: { ...testProject.meta, budget: { seconds: 60, onExpire: 'GAME_OVER' } },
+    }
+
+    vi.useFakeTimers()
+    try {
+      vi.setSystemTime(new Date('2026-01-01T10:00:00Z'))
+      const state = initializeRunState(project)
+
+      // Forked an hour later: the parent's deadline is long gone
+      vi.setSystemTime(new Date('2026-01-01T11:00:00Z'))
+      const fork = forkRunState(state, project, state.timeline[0].id).newState!
+      expect(fork.runBudget?.deadline).toBe('2026-01-01T11:01:00.000Z')
+
+      const { result } = attemptHack(fork, project, 20)
+      expect(result.gameOver).toBeUndefined()
+      expect(result.hackeado).toBe(true)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
+
+describe('Run Ending', () => {
+  it('should report completed and game over runs', () => {
+    const state = initializeRunState(testProject)
+    expect(getRunEnding(state)).toBeNull()
+    expect(getRunEnding({ ...state, gameOver: true })).toBe('GAME_OVER')
+
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[2].isFinal = true
+    const completed = applyGmAction(state, project, { type: 'FORCE_HACK', nodeId: 'node-c' }).newState
+    expect(getRunEnding(completed)).toBe('COMPLETED')
+  })
+
+  it('should drop the ending when a rollback undoes the completion', () => {
+    const project = structuredClone(testProject)
+    project.circuits[0].nodes[2].isFinal = true
+
+    const state = initializeRunState(project)
+    const completed = checkpointRunState(
+      applyGmAction(state, project, { type: 'FORCE_HACK', nodeId: 'node-c' }).newState,
+      state
+    )
+    expect(getRunEnding(completed)).toBe('COMPLETED')
+
+    const rolledBack = checkpointRunState(
+      rollbackToEvent(completed, project, state.timeline[0].id).newState,
+      completed
+    )
+    expect(rolledBack.timeline.some((e) => e.type === 'RUN_COMPLETED')).toBe(true)
+    expect(getRunEnding(rolledBack)).toBeNull()
+
+    // Rolling forward again restores it
+    const lastCompletedEvent = completed.timeline[completed.timeline.length - 1]
+    const restored = rollbackToEvent(rolledBack, project, lastCompletedEvent.id).newState
+    expect(getRunEnding(restored)).toBe('COMPLETED')
+  })
+
+  it('should drop the ending when a rollback undoes a critical BLACK ICE game over', () => {
+    const project = ProjectDataSchema.parse(structuredClone(testProject)) as ProjectData
+    project.circuits[0].nodes[0] = { ...project.circuits[0].nodes[0], cd: 2, criticalFailMode: 'BLOQUEO' }
+
+    const state = initializeRunState(project)
+    const { newState, result } = attemptHack(state, project, 1, 1)
+    expect(result.gameOver).toBe(true)
+    const lost = checkpointRunState(newState, state)
+    expect(getRunEnding(lost)).toBe('GAME_OVER')
+
+    const rolledBack = rollbackToEvent(lost, project, state.timeline[0].id).newState
+    expect(rolledBack.gameOver).toBeUndefined()
+    expect(getRunEnding(rolledBack)).toBeNull()
+  })
+})
+
+describe('Definition Migration', () => {
+  it('should keep surviving progress and move players off deleted nodes', () => {
+    const hacked = attemptHack(initializeRunState(testProject), testProject, 20).newState
+    const state: RunState = { ...hacked, position: { circuitId: 'circuit-1', nodeId: 'node-d' } }
+
+    const next = structuredClone(testProject)
+    next.circuits[0].nodes = next.circuits[0].nodes.filter((node) => node.id !== 'node-d')
+    next.circuits[0].nodes.push({ id: 'node-e', name: 'Node E', level: 1, cd: 6, failDie: 4, criticalFailMode: 'BLOQUEO', rangeFailMode: 'WARNING', visibleByDefault: true })
+    next.circuits[0].links = [
+      ...next.circuits[0].links.filter((link) => link.id !== 'link-ad'),
+      { id: 'link-ae', from: 'node-a', to: 'node-e', style: 'solid', hidden: false, bidirectional: true },
+    ]
+
+    const { newState, report } = migrateRunState(state, testProject, next, { from: 1, to: 2 })
+    expect(newState.nodes['node-a'].hackeado).toBe(true)
+    expect(newState.nodes['node-d']).toBeUndefined()
+    expect(newState.nodes['node-e'].hackeado).toBe(false)
+    expect(newState.position.nodeId).toBe('node-a')
+    expect(newState.timeline.at(-1)?.type).toBe('RUN_MIGRATED')
+
+    expect(report.keptNodes).toBe(3)
+    expect(report.addedNodes.map((n) => n.id)).toEqual(['node-e'])
+    expect(report.removedNodes.map((n) => n.id)).toEqual(['node-d'])
+    expect(report.addedLinks).toEqual(['link-ae'])
+    expect(report.removedLinks).toEqual(['link-ad'])
+    expect(report.movedPlayers).toHaveLength(1)
+  })
+})
+
+describe('Definition Diff', () => {
+  it('should report added, removed and changed entities by ID', () => {
+    expect(diffProjectData(testProject, structuredClone(testProject)).identical).toBe(true)
+
+    const next = structuredClone(testProject)
+    next.circuits[0].nodes[1] = { ...next.circuits[0].nodes[1], cd: 9, mapX: 40 }
+    next.circuits[0].nodes = next.circuits[0].nodes.filter((node) => node.id !== 'node-d')
+    next.circuits[0].links = next.circuits[0].links
+      .filter((link) => link.id !== 'link-ad')
+      .map((link) => (link.id === 'link-ab' ? { ...link, hidden: true } : link))
+
+    const diff = diffProjectData(testProject, next)
+    const circuit = diff.circuits[0]
+    expect(diff.identical).toBe(false)
+    expect(circuit.status).toBe('CHANGED')
+    expect(circuit.nodes.removed).toEqual([{ id: 'node-d', name: 'Node D' }])
+    expect(circuit.nodes.changed[0].changes).toEqual([
+      { field: 'cd', from: 7, to: 9 },
+      { field: 'mapX', from: undefined, to: 40 },
+    ])
+    expect(circuit.links.changed[0].changes).toEqual([{ field: 'hidden', from: false, to: true }])
+    expect(circuit.links.removed[0].name).toBe('Node A ↔ Node D')
+  })
+})
+
+describe('Graph Analysis', () => {
+  it('should warn about unreachable, never revealed and trapped nodes', () => {
+    expect(analyzeProjectGraph(testProject)).toEqual([])
+
+    const project = structuredClone(testProject)
+    const circuit = project.circuits[0]
+    const node = (id: string, visibleByDefault: boolean, isFinal?: boolean): NodeDefinition =>
+      ({ id, name: id, level: 1, cd: 5, failDie: 4, criticalFailMode: 'BLOQUEO', rangeFailMode: 'WARNING', visibleByDefault, isFinal })
+    circuit.nodes.push(node('node-e', false), node('node-f', true, true), node('node-g', false), node('node-h', false))
+    circuit.links = circuit.links.map((link) => (link.id === 'link-ad' ? { ...link, bidirectional: false } : link))
+    circuit.links.push(
+      { id: 'link-ce', from: 'node-c', to: 'node-e', style: 'solid', hidden: false, bidirectional: true },
+      { id: 'link-gh', from: 'node-g', to: 'node-h', style: 'dashed', hidden: true, bidirectional: true }
+    )
+
+    const warnings = analyzeProjectGraph(project)
+    const byNode = (code: string) =>
+      warnings.filter((w) => w.code === code).map((w) => circuit.nodes[w.path[3] as number].id)
+    expect(byNode('HIDDEN_NODE_NEVER_REVEALED')).toEqual(['node-e'])
+    expect(byNode('UNREACHABLE_NODE')).toEqual(['node-g', 'node-h'])
+    expect(byNode('ONE_WAY_TRAP')).toEqual(['node-d'])
+    expect(warnings.find((w) => w.code === 'FINAL_NODE_UNREACHABLE')?.severity).toBe('CRITICAL')
+    expect(warnings.filter((w) => w.code === 'HIDDEN_CHAIN_UNREACHABLE')).toHaveLength(1)
+  })
+})
+
+describe('Difficulty Simulation', () => {
+  it('should play circuits through the engine and rank dangerous nodes', async () => {
+    const project = ProjectDataSchema.parse(structuredClone(testProject)) as ProjectData
+    project.circuits[0].nodes[2].isFinal = true
+
+    const report = await simulateProject(project, { iterations: 200, dice: '1d20' })
+    const [circuit] = report.circuits
+    expect(circuit.completionRate).toBeGreaterThan(0)
+    expect(circuit.completionRate + circuit.gameOverRate + circuit.stuckRate).toBeLessThanOrEqual(1)
+    expect(report.dangerousNodes.length).toBeGreaterThan(0)
+    expect(await simulateProject(project, { iterations: 200, dice: '1d20' })).toEqual(report)
+
+    // A roll that never beats the entry CD retries (WARNING) until out of actions
+    const hopeless = await simulateProject(project, { iterations: 20, dice: '1d4', maxActions: 30 })
+    expect(hopeless.circuits[0].completionRate).toBe(0)
+    expect(hopeless.circuits[0].stuckRate).toBe(1)
+  })
+
+  it('should keep node counters per circuit and cap the work', async () => {
+    const project = ProjectDataSchema.parse(structuredClone(testProject)) as ProjectData
+    project.circuits[0].nodes[2].isFinal = true
+    // node-a again in a second circuit, never reached there
+    const [entry, other] = project.circuits[0].nodes
+    project.circuits.push({
+      id: 'circuit-2',
+      name: 'Circuit 2',
+      nodes: [{ ...entry, id: 'node-x', isFinal: true }, { ...other, id: 'node-a' }],
+      links: [],
+    })
+
+    const report = await simulateProject(project, { iterations: 50, dice: '1d20', maxActions: 30 })
+    expect(report.iterationsLimited).toBe(false)
+    const nodeA = report.dangerousNodes.filter((node) => node.nodeId === 'node-a')
+    expect(nodeA.map((node) => node.circuitId)).toEqual(['circuit-1'])
+
+    const capped = await simulateProject(project, { iterations: 5000, maxActions: 5000 })
+    expect(capped.iterationsLimited).toBe(true)
+    expect(capped.iterations).toBeLessThan(5000)
+  })
+})
+
+describe('Graph Layout', () => {
+  // Two branches whose definition order crosses their links on the level rows
+  const base = testProject.circuits[0].nodes[0]
+  const node = (id: string, level: number) => ({ ...base, id, name: id, level })
+  const link = (from: string, to: string) => ({
+    id: `${from}-${to}`, from, to, style: 'solid' as const, hidden: false, bidirectional: true,
+  })
+  const crossed: CircuitDefinition = {
+    id: 'crossed',
+    name: 'Crossed',
+    nodes: [node('entry', 0), node('left', 1), node('right', 1), node('right-deep', 2), node('left-deep', 2)],
+    links: [link('entry', 'left'), link('entry', 'right'), link('left', 'left-deep'), link('right', 'right-deep')],
+  }
+
+  it('should order layers to remove the crossings of the level rows', () => {
+    expect(countCrossings(crossed, computeLayout(crossed, 'LEVELS'))).toBe(1)
+
+    const layered = computeLayout(crossed, 'LAYERED')
+    expect(countCrossings(crossed, layered)).toBe(0)
+    expect(layered.entry).toEqual({ x: 50, y: 85 })
+    expect(layered['left-deep'].y).toBe(15)
+  })
+
+  it('should keep every layout inside the map and manual positions on top', () => {
+    for (const algorithm of ['LEVELS', 'LAYERED', 'FORCE', 'RADIAL'] as const) {
+      const positions = computeLayout(crossed, algorithm)
+      expect(Object.keys(positions)).toHaveLength(crossed.nodes.length)
+      for (const { x, y } of Object.values(positions)) {
+        expect(x).toBeGreaterThanOrEqual(15)
+        expect(x).toBeLessThanOrEqual(85)
+        expect(y).toBeGreaterThanOrEqual(15)
+        expect(y).toBeLessThanOrEqual(85)
+      }
+      expect(computeLayout(crossed, algorithm)).toEqual(positions)
+    }
+    expect(computeLayout(crossed, 'RADIAL').entry).toEqual({ x: 50, y: 50 })
+
+    const pinned = { ...crossed, layout: 'RADIAL' as const, nodes: crossed.nodes.map((n) => n.id === 'left' ? { ...n, mapX: 5, mapY: 95 } : n) }
+    const positions = layoutCircuit(pinned)
+    expect(positions.left).toEqual({ x: 5, y: 95 })
+    expect(positions.right).toEqual(computeLayout(pinned, 'RADIAL').right)
+  })
+})
@@ -21,7 +21,34 @@ import type {
   TimelineEvent,
   TimelineEventType,
   StateSnapshot,
+  GmAction,
+  GmActionResult,
+  RunActor,
+  HackDiceInput,
+  DiceRollRecord,
+  CharacterProfile,
+  HackOptions,
+  HackModifierBreakdown,
+  IceDefinition,
+  IceState,
+  WarningSeverity,
+  TraceConfig,
+  TraceState,
+  TraceThreshold,
+  BudgetConfig,
+  BudgetState,
+  InventoryItem,
+  AccessRequirement,
+  PortalDefinition,
+  TriggerDefinition,
+  TriggerEvent,
+  TriggerAction,
+  ControlTarget,
+  RunCheckpoint,
+  RunEnding,
+  RunMigrationReport,
 } from './types'
+import { createRollRng, generateDiceSeed, rollDiceExpression, rollDie } from './dice'
 
 // =============================================================================
 // UTILITY FUNCTIONS
@@ -114,7 +141,7 @@ export function findEntryNodes(circuit: CircuitDefinition): NodeDefinition[] {
 }
 
 // =============================================================================
-// TIMELINE HELPERS (Visual replay - UI only, no logic rollback)
+// TIMELINE HELPERS (Visual replay - UI only, see ROLLBACK for checkpoints)
 // =============================================================================
 
 /**
@@ -201,6 +228,78 @@ function isRunCompleted(state: RunState, data: ProjectData): boolean {
   return data.circuits.every((circuit) => isCircuitCompleted(state, circuit))
 }
 
+/**
+ * Mark a circuit as completed if it just became complete, or unconditionally
+ * with force (mutates a cloned state)
+ * Records CIRCUIT_COMPLETED and, if applicable, RUN_COMPLETED timeline events
+ * Returns true if the circuit was completed by this call
+ */
+function recordCircuitCompletion(
+  newState: RunState,
+  data: ProjectData,
+  circuit: CircuitDefinition,
+  force = false
+): boolean {
+  if (newState.completedCircuits?.[circuit.id] || (!force && !isCircuitCompleted(newState, circuit))) {
+    return false
+  }
+
+  // Mark circuit as completed
+  if (!newState.completedCircuits) newState.completedCircuits = {}
+  newState.completedCircuits[circuit.id] = true
+
+  const circuitCompleteEvent = createTimelineEvent(
+    'CIRCUIT_COMPLETED',
+    newState,
+    circuit.id,
+    `Circuito ${circuit.name} completado`
+  )
+  newState.timeline = [...newState.timeline, circuitCompleteEvent]
+
+  // Check for run completion
+  if (isRunCompleted(newState, data)) {
+    const runCompleteEvent = createTimelineEvent(
+      'RUN_COMPLETED',
+      newState,
+      circuit.id,
+      'Run completada - Todos los circuitos comprometidos'
+    )
+    newState.timeline = [...newState.timeline, runCompleteEvent]
+  }
+
+  return true
+}
+
+/**
+ * Whether the history the state stands on records a RUN_COMPLETED
+ * Walks back from the last event; a GM rollback jumps to its target, so a
+ * completion it undid no longer counts (the timeline itself keeps it)
+ */
+function isCompletionInHistory(timeline: TimelineEvent[]): boolean {
+  let index = timeline.length - 1
+  while (index >= 0) {
+    const event = timeline[index]
+    if (event.type === 'RUN_COMPLETED') return true
+
+    const targetIndex = event.type === 'ROLLBACK'
+      ? timeline.findIndex((candidate) => candidate.id === event.details?.rollbackToEventId)
+      : -1
+    // Targets always come before their rollback
+    index = targetIndex >= 0 && targetIndex < index ? targetIndex : index - 1
+  }
+  return false
+}
+
+/**
+ * How the run ended, or null while it is still being played
+ * Game over: a budget ran out or a critical BLACK ICE block (both set gameOver)
+ */
+export function getRunEnding(state: RunState): RunEnding | null {
+  if (isCompletionInHistory(state.timeline)) return 'COMPLETED'
+  if (state.gameOver) return 'GAME_OVER'
+  return null
+}
+
 // =============================================================================
 // STATE INITIALIZATION
 // =============================================================================
@@ -234,6 +333,24 @@ export function initializeRunState(data: ProjectData): RunState {
     }
   }
 
+  // Firewalls keep their neighbours hidden until compromised
+  for (const circuit of data.circuits) {
+    for (const node of circuit.nodes) {
+      if (node.type !== 'FIREWALL') continue
+      for (const neighbourId of getNeighbourIds(circuit, node.id)) {
+        if (nodes[neighbourId]) nodes[neighbourId].descubierto = false
+      }
+    }
+  }
+
+  // Portals share the link state map
+  for (const portal of data.portals ?? []) {
+    links[portal.id] = {
+      descubierto: !portal.hidden,
+      inaccesible: false,
+    }
+  }
+
   // Find initial position: first circuit, first entry node (level 0)
   const firstCircuit = data.circuits[0]
   const entryNodes = findEntryNodes(firstCircuit)
@@ -264,6 +381,36 @@ export function initializeRunState(data: ProjectData): RunState {
     completedCircuits: {},
   }
 
+  // Circuit gating: only the first circuit is reachable at start
+  if (data.meta.circuitGating) {
+    initialState.unlockedCircuits = [firstCircuit.id]
+  }
+
+  // ICE guardians start at their start node
+  const ice = createIceStates(data)
+  if (Object.keys(ice).length > 0) {
+    initialState.ice = ice
+  }
+
+  // Trace meter starts empty
+  if (data.meta.trace) {
+    initialState.trace = createTraceState()
+  }
+
+  // Budgets: the run clock and the clock of the first circuit start now
+  const now = new Date()
+  if (data.meta.budget) {
+    initialState.runBudget = createBudgetState(data.meta.budget, now)
+  }
+  for (const circuit of data.circuits) {
+    if (circuit.budget) {
+      initialState.circuitBudgets = {
+        ...initialState.circuitBudgets,
+        [circuit.id]: createBudgetState(circuit.budget, circuit.id === firstCircuit.id ? now : undefined),
+      }
+    }
+  }
+
   // Add RUN_START event to timeline
   const startEvent = createTimelineEvent(
     'RUN_START',
@@ -273,10 +420,10 @@ export function initializeRunState(data: ProjectData): RunState {
     { nodeId: startNode.id }
   )
 
-  return {
+  return checkpointRunState({
     ...initialState,
     timeline: [startEvent],
-  }
+  })
 }
 
 // =============================================================================
@@ -296,7 +443,13 @@ export function hasHiddenLinksAvailable(
 
   if (!circuit) return false
 
-  const linksFromNode = getLinksFromNode(circuit, nodeId)
+  const currentNode = circuit.nodes.find((n) => n.id === nodeId)
+  if (currentNode && isFirewallUp(state, currentNode)) return false
+
+  const linksFromNode = [
+    ...getLinksFromNode(circuit, nodeId),
+    ...getPortalsFromNode(data, circuitId, nodeId).map(({ portal }) => portal),
+  ]
 
   return linksFromNode.some((link) => {
     const linkState = state.links[link.id]
@@ -305,967 +458,3078 @@ export function hasHiddenLinksAvailable(
   })
 }
 
+// =============================================================================
+// PAYLOADS (Loot revealed on hack)
+// =============================================================================
+
 /**
- * Attempt to hack the current node
- *
- * TWO-PHASE HACK SYSTEM:
- * - Phase 1: inputValue >= CD = SUCCESS (immediate)
- * - Phase 1: inputValue < CD = needs Phase 2 (fail die roll)
- * - Phase 2: failDieRoll 1-2 = critical failure (criticalFailMode)
- * - Phase 2: failDieRoll 3-failDie = range failure (rangeFailMode)
- *
- * DIEGETIC MESSAGES:
- * - No CD, failMode, or threshold information revealed to user
- * - Use system-style messages: ACCESS GRANTED, LOCKDOWN, etc.
+ * Move the payloads of a compromised node into the run inventory
+ * Payloads already extracted are skipped; returns the new items
+ * (mutates the given state - callers pass a fresh copy)
  */
-export function attemptHack(
+function deliverPayloads(
   state: RunState,
-  data: ProjectData,
-  inputValue: number,
-  failDieRoll?: number
-): { newState: RunState; result: AttemptHackResult } {
-  // Ensure numeric conversion
-  const roll = Number(inputValue)
-
-  // Always hack current position node
-  const nodeId = state.position.nodeId
+  circuit: CircuitDefinition,
+  node: NodeDefinition,
+  timestamp: string
+): InventoryItem[] {
+  const extracted = new Set((state.inventory ?? []).map((item) => item.payloadId))
+  const items: InventoryItem[] = (node.payloads ?? [])
+    .filter((payload) => !extracted.has(payload.id))
+    .map((payload) => ({
+      payloadId: payload.id,
+      name: payload.name,
+      type: payload.type,
+      content: payload.content,
+      circuitId: circuit.id,
+      nodeId: node.id,
+      extractedAt: timestamp,
+    }))
+
+  if (items.length > 0) {
+    state.inventory = [...(state.inventory ?? []), ...items]
+  }
+  return items
+}
 
-  // Find the node
-  const found = findNode(data, nodeId)
-  if (!found) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: false,
-        message: 'TARGET NODE NOT FOUND',
-      },
-    }
+/**
+ * Project data without payload contents, for players and spectators
+ * (extracted payloads reach them through the run inventory)
+ */
+export function redactPayloads(data: ProjectData): ProjectData {
+  return {
+    ...data,
+    circuits: data.circuits.map((circuit) => ({
+      ...circuit,
+      nodes: circuit.nodes.map((node) => (node.payloads ? { ...node, payloads: undefined } : node)),
+    })),
   }
+}
 
-  const { circuit, node } = found
-  const cd = Number(node.cd)
-  const nodeState = state.nodes[nodeId]
+/**
+ * Server roll without its seed, for clients
+ */
+export function redactDiceRollSeed(record: DiceRollRecord): DiceRollRecord {
+  if (record.seed === undefined) return record
+  const redacted = { ...record }
+  delete redacted.seed
+  return redacted
+}
 
-  if (!nodeState) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: false,
-        message: 'NODE STATE ERROR',
-      },
+/**
+ * Timeline events as sent to clients: no dice seeds, and rollback checkpoints
+ * (full state copies, hidden rules included) replaced by a flag
+ */
+export function redactTimelineForClients(events: TimelineEvent[]): TimelineEvent[] {
+  return events.map((event) => {
+    if (event.details?.diceRoll?.seed === undefined && !event.checkpoint) return event
+
+    const redacted: TimelineEvent = { ...event }
+    if (event.details?.diceRoll) {
+      redacted.details = { ...event.details, diceRoll: redactDiceRollSeed(event.details.diceRoll) }
     }
-  }
+    if (event.checkpoint) {
+      delete redacted.checkpoint
+      redacted.hasCheckpoint = true
+    }
+    return redacted
+  })
+}
 
-  // Check if node is already hacked
-  if (nodeState.hackeado) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: true,
-        bloqueado: false,
-        message: 'NODE ALREADY COMPROMISED',
-      },
+/**
+ * Run state as sent to clients (players, GM, spectators)
+ * The dice seed and roll counter stay on the server: with them, anyone could
+ * compute the next server roll before making it. Checkpoints stay too.
+ */
+export function redactRunStateForClients(state: RunState): RunState {
+  const redacted = { ...state, timeline: redactTimelineForClients(state.timeline || []) }
+  delete redacted.diceSeed
+  delete redacted.diceSequence
+  return redacted
+}
+
+// =============================================================================
+// ACCESS REQUIREMENTS (Keys and dependencies gating links/nodes)
+// =============================================================================
+
+/**
+ * First requirement in the list the run does not meet yet
+ */
+function findUnmetRequirement(
+  state: RunState,
+  requires: AccessRequirement[] | undefined
+): AccessRequirement | undefined {
+  return requires?.find((requirement) => {
+    if (requirement.type === 'KEY') {
+      return !(state.inventory ?? []).some((item) => item.payloadId === requirement.payloadId)
     }
-  }
+    return state.nodes[requirement.nodeId]?.hackeado !== true
+  })
+}
 
-  // Check if circuit is blocked
-  const circuitBlocked = state.blockedCircuits?.[circuit.id] === true
-  if (circuitBlocked) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: true,
-        circuitBlocked: true,
-        message: 'CIRCUIT IN LOCKDOWN — ALL ACCESS REVOKED',
-      },
+/**
+ * Themed explanation of an unmet requirement
+ * Works with redacted project data (the key is then left unnamed).
+ */
+function describeRequirement(data: ProjectData, requirement: AccessRequirement): string {
+  if (requirement.type === 'KEY') {
+    for (const circuit of data.circuits) {
+      for (const node of circuit.nodes) {
+        const payload = node.payloads?.find((p) => p.id === requirement.payloadId)
+        if (payload) return `ACCESS KEY REQUIRED — ${payload.name.toUpperCase()}`
+      }
     }
+    return 'ACCESS KEY REQUIRED'
   }
 
-  // Check if node is blocked or inaccessible
-  if (nodeState.bloqueado) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: true,
-        message: 'LOCKDOWN ACTIVE — ACCESS PERMANENTLY DENIED',
-      },
+  const found = findNode(data, requirement.nodeId)
+  if (!found) return 'DEPENDENCY NOT MET — UNKNOWN NODE'
+  return `DEPENDENCY NOT MET — ${found.node.name.toUpperCase()} [${found.circuit.name.toUpperCase()}] NOT COMPROMISED`
+}
+
+/**
+ * Why the run cannot go through a link into a node, or null if it can
+ * The link is checked first: it is the first barrier the player meets.
+ */
+export function getAccessDenial(
+  state: RunState,
+  data: ProjectData,
+  node: NodeDefinition,
+  link?: LinkDefinition | PortalDefinition
+): string | null {
+  const unmet = findUnmetRequirement(state, link?.requires) ?? findUnmetRequirement(state, node.requires)
+  return unmet ? describeRequirement(data, unmet) : null
+}
+
+// =============================================================================
+// NODE TYPES (Built-in mechanics)
+// =============================================================================
+
+/**
+ * Nodes on the other end of the links of a node, whatever their direction
+ */
+function getNeighbourIds(circuit: CircuitDefinition, nodeId: string): string[] {
+  return circuit.links
+    .filter((link) => link.from === nodeId || link.to === nodeId)
+    .map((link) => getLinkTarget(link, nodeId))
+}
+
+/**
+ * Expose the neighbours of a fallen firewall reached through mapped links
+ * Hidden links still need a scan. Returns the newly discovered nodes.
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function exposeFirewallNeighbours(state: RunState, circuit: CircuitDefinition, nodeId: string): string[] {
+  const exposed: string[] = []
+  for (const link of circuit.links) {
+    if (link.from !== nodeId && link.to !== nodeId) continue
+    if (!state.links[link.id]?.descubierto) continue
+    const targetState = state.nodes[getLinkTarget(link, nodeId)]
+    if (targetState && !targetState.descubierto) {
+      targetState.descubierto = true
+      exposed.push(getLinkTarget(link, nodeId))
     }
   }
+  return exposed
+}
 
-  if (nodeState.inaccesible) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: false,
-        message: 'NODE UNREACHABLE',
-      },
+/**
+ * A firewall not yet compromised - blocks scans and keeps its neighbours hidden
+ */
+function isFirewallUp(state: RunState, node: NodeDefinition): boolean {
+  return node.type === 'FIREWALL' && state.nodes[node.id]?.hackeado !== true &&
+    state.nodes[node.id]?.inaccesible !== true
+}
+
+/**
+ * Take the target of a CONTROL node offline
+ * Returns the description of the target, or null when it does not exist
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function applyControl(state: RunState, data: ProjectData, target: ControlTarget): string | null {
+  if (target.type === 'NODE') {
+    const found = findNode(data, target.nodeId)
+    if (!found || !state.nodes[target.nodeId]) return null
+    state.nodes[target.nodeId].inaccesible = true
+    if (found.node.type === 'FIREWALL') {
+      exposeFirewallNeighbours(state, found.circuit, target.nodeId)
     }
+    return found.node.name
   }
 
-  // Create new state (immutable update)
-  const newState = structuredClone(state)
-  const newNodeState = newState.nodes[nodeId]
+  const circuit = findCircuit(data, target.circuitId)
+  if (!circuit) return null
+  for (const ice of circuit.ice ?? []) {
+    state.ice = { ...state.ice, [ice.id]: { ...(state.ice?.[ice.id] ?? createIceState(ice)), offline: true } }
+  }
+  return `ICE ${circuit.name}`
+}
 
-  const timestamp = new Date().toISOString()
+/**
+ * Built-in mechanics of the node type, on top of a hack outcome
+ *
+ * RULES:
+ * - FIREWALL: once compromised, its neighbours behind mapped links are exposed
+ * - DATASTORE: payloads are extracted as on any node - only the message differs
+ * - CONTROL: once compromised, its control target goes offline
+ * - HONEYPOT: every resolved attempt, success or failure, raises a TRACE warning
+ * - Refused attempts and first rolls waiting for phase 2 are left untouched
+ * - The circuit completion message always wins
+ */
+function resolveNodeType(
+  state: RunState,
+  data: ProjectData,
+  outcome: { newState: RunState; result: AttemptHackResult }
+): { newState: RunState; result: AttemptHackResult } {
+  if (outcome.newState === state) return outcome
 
-  // =========================================================================
-  // PHASE 1: Check if roll >= CD (SUCCESS)
-  // =========================================================================
-  if (roll >= cd) {
-    // Increment attempts only when actually processing
-    newNodeState.intentos++
-    newNodeState.hackeado = true
-    newNodeState.ultimoResultado = 'exito'
-    newState.lastHackedNodeByCircuit[circuit.id] = nodeId
+  const found = findNode(data, state.position.nodeId)
+  if (!found || !found.node.type || found.node.type === 'STANDARD') return outcome
 
-    // Record NODE_HACKED timeline event
-    const hackEvent = createTimelineEvent(
-      'NODE_HACKED',
-      newState,
-      circuit.id,
-      `Nodo ${node.name} comprometido`,
-      { nodeId }
-    )
-    newState.timeline = [...newState.timeline, hackEvent]
+  const { circuit, node } = found
+  const newState = outcome.newState
+  const result: AttemptHackResult = { ...outcome.result }
+  const keepMessage = result.circuitCompleted === true
 
-    // Check if this was the final node (circuit complete)
-    const isFinalNode = node.isFinal === true
-    let circuitJustCompleted = false
+  if (node.type === 'HONEYPOT') {
+    const warning: Warning = {
+      severity: 'TRACE',
+      nodeId: node.id,
+      message: `INTRUSION LOGGED — HONEYPOT — ${node.name}`,
+      timestamp: new Date().toISOString(),
+    }
+    newState.warnings = [...newState.warnings, warning]
+    result.warning = result.warning ?? warning
+    return { newState, result }
+  }
 
-    // Check for circuit completion (final node hacked or all nodes hacked)
-    if (isCircuitCompleted(newState, circuit) && !newState.completedCircuits?.[circuit.id]) {
-      // Mark circuit as completed
-      if (!newState.completedCircuits) newState.completedCircuits = {}
-      newState.completedCircuits[circuit.id] = true
-      circuitJustCompleted = true
+  if (!result.success) return { newState, result }
 
-      const circuitCompleteEvent = createTimelineEvent(
-        'CIRCUIT_COMPLETED',
+  if (node.type === 'FIREWALL') {
+    const exposed = exposeFirewallNeighbours(newState, circuit, node.id)
+    if (exposed.length > 0) {
+      const exposeEvent = createTimelineEvent(
+        'LINKS_DISCOVERED',
         newState,
         circuit.id,
-        `Circuito ${circuit.name} completado`
+        `Cortafuegos ${node.name} caído — ${exposed.length} nodo(s) expuesto(s)`,
+        { nodeId: node.id, details: { discoveredNodes: exposed } }
       )
-      newState.timeline = [...newState.timeline, circuitCompleteEvent]
-
-      // Check for run completion
-      if (isRunCompleted(newState, data)) {
-        const runCompleteEvent = createTimelineEvent(
-          'RUN_COMPLETED',
-          newState,
-          circuit.id,
-          'Run completada - Todos los circuitos comprometidos'
-        )
-        newState.timeline = [...newState.timeline, runCompleteEvent]
-      }
+      newState.timeline = [...newState.timeline, exposeEvent]
+      result.discoveredNodes = exposed
+      if (!keepMessage) result.message = `FIREWALL BREACHED — ${exposed.length} NODE(S) EXPOSED`
+    } else if (!keepMessage) {
+      result.message = 'FIREWALL BREACHED'
     }
-
-    return {
-      newState,
-      result: {
-        success: true,
-        hackeado: true,
-        bloqueado: false,
-        circuitCompleted: circuitJustCompleted,
-        message: isFinalNode && circuitJustCompleted
-          ? 'FINAL NODE COMPROMISED — CIRCUIT COMPLETE'
-          : 'ACCESS GRANTED — SECURITY HANDSHAKE ACCEPTED',
-      },
+  } else if (node.type === 'DATASTORE') {
+    if (result.payloads && !keepMessage) {
+      result.message = `DATASTORE BREACHED — ${result.payloads.length} FILE(S) EXTRACTED`
+    }
+  } else if (node.type === 'CONTROL' && node.controls) {
+    const targetName = applyControl(newState, data, node.controls)
+    if (targetName) {
+      const controlEvent = createTimelineEvent(
+        'CONTROL_SEIZED',
+        newState,
+        circuit.id,
+        `Nodo de control ${node.name} — ${targetName} fuera de línea`,
+        { nodeId: node.id, details: { controlTarget: node.controls } }
+      )
+      newState.timeline = [...newState.timeline, controlEvent]
+      if (!keepMessage) result.message = `CONTROL NODE SEIZED — ${targetName.toUpperCase()} OFFLINE`
     }
   }
 
-  // =========================================================================
-  // PHASE 1 FAILED: roll < CD - Need Phase 2
-  // =========================================================================
+  return { newState, result }
+}
 
-  // If no failDieRoll provided, return that we need phase 2
-  if (failDieRoll === undefined || failDieRoll === null) {
+// =============================================================================
+// TRIGGERS (Scripted node/link events)
+// =============================================================================
+
+/**
+ * An event that happened to a node or link during a player action
+ */
+interface TriggerFiring {
+  on: TriggerEvent
+  nodeId: string // Where it happened (warnings and timeline)
+  circuitId: string
+  triggers: TriggerDefinition[] | undefined
+}
+
+/**
+ * ON_HACK / ON_FAIL of the node a hack was attempted on
+ * A first roll waiting for its fail die is not a failure yet.
+ */
+function getHackFirings(
+  state: RunState,
+  data: ProjectData,
+  outcome: { newState: RunState; result: AttemptHackResult }
+): TriggerFiring[] {
+  const { circuitId, nodeId } = state.position
+  const node = findNode(data, nodeId)?.node
+  if (!node || outcome.newState === state || outcome.result.needsPhase2) return []
+
+  const wasHacked = state.nodes[nodeId]?.hackeado === true
+  if (outcome.result.success && !wasHacked) {
+    return [{ on: 'ON_HACK', nodeId, circuitId, triggers: node.triggers }]
+  }
+  if (!outcome.result.success) {
+    return [{ on: 'ON_FAIL', nodeId, circuitId, triggers: node.triggers }]
+  }
+  return []
+}
+
+/**
+ * ON_ENTER of the node moved into and of the link traversed
+ */
+function getMoveFirings(state: RunState, data: ProjectData, result: MoveToNodeResult): TriggerFiring[] {
+  if (!result.success) return []
+
+  const { circuitId, nodeId } = result.newPosition
+  const firings: TriggerFiring[] = []
+  const circuit = findCircuit(data, circuitId)
+  const link = circuitId === state.position.circuitId
+    ? circuit?.links.find((l) => linkConnectsNodes(l, state.position.nodeId, nodeId))
+    : undefined
+  if (link) {
+    firings.push({ on: 'ON_ENTER', nodeId, circuitId, triggers: link.triggers })
+  }
+
+  const node = circuit?.nodes.find((n) => n.id === nodeId)
+  if (node) {
+    firings.push({ on: 'ON_ENTER', nodeId, circuitId, triggers: node.triggers })
+  }
+  return firings
+}
+
+/**
+ * ON_DISCOVER of the links and nodes revealed by a scan
+ */
+function getDiscoveryFirings(state: RunState, data: ProjectData, result: DiscoverLinksResult): TriggerFiring[] {
+  const { circuitId, nodeId } = state.position
+  return [
+    ...result.discoveredLinks.map((linkId) => ({
+      on: 'ON_DISCOVER' as const,
+      nodeId,
+      circuitId,
+      triggers: findLink(data, linkId)?.link.triggers,
+    })),
+    ...result.discoveredNodes.map((discoveredId) => ({
+      on: 'ON_DISCOVER' as const,
+      nodeId: discoveredId,
+      circuitId,
+      triggers: findNode(data, discoveredId)?.node.triggers,
+    })),
+  ]
+}
+
+/**
+ * Apply the actions of a fired trigger; returns its narrative messages
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function applyTriggerActions(
+  state: RunState,
+  data: ProjectData,
+  firing: TriggerFiring,
+  actions: TriggerAction[]
+): string[] {
+  const narrative: string[] = []
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'REVEAL_NODE':
+        if (state.nodes[action.nodeId]) state.nodes[action.nodeId].descubierto = true
+        break
+      case 'REVEAL_LINK': {
+        if (state.links[action.linkId]) state.links[action.linkId].descubierto = true
+        const link = findLink(data, action.linkId)?.link
+        const portal = data.portals?.find((p) => p.id === action.linkId)
+        const ends = link ? [link.from, link.to] : portal ? [portal.fromNodeId, portal.toNodeId] : []
+        for (const endId of ends) {
+          if (state.nodes[endId]) state.nodes[endId].descubierto = true
+        }
+        break
+      }
+      case 'DISABLE_NODE':
+        if (state.nodes[action.nodeId]) state.nodes[action.nodeId].inaccesible = true
+        break
+      case 'DISABLE_LINK':
+        if (state.links[action.linkId]) state.links[action.linkId].inaccesible = true
+        break
+      case 'CHANGE_CD':
+        if (state.nodes[action.nodeId]) {
+          state.nodes[action.nodeId].cdModifier = (state.nodes[action.nodeId].cdModifier ?? 0) + action.amount
+        }
+        break
+      case 'ADD_WARNING':
+        state.warnings = [
+          ...state.warnings,
+          { severity: action.severity, nodeId: firing.nodeId, message: action.message, timestamp: new Date().toISOString() },
+        ]
+        break
+      case 'MESSAGE':
+        narrative.push(action.text)
+        break
+      case 'COMPLETE_CIRCUIT': {
+        const circuit = findCircuit(data, action.circuitId)
+        if (circuit) recordCircuitCompletion(state, data, circuit, true)
+        break
+      }
+    }
+  }
+
+  return narrative
+}
+
+/**
+ * Fire the triggers matching the events of an action
+ * Non-repeatable triggers fire once per run. Each fired trigger records a
+ * TRIGGER_FIRED event ahead of the events its actions produce; the
+ * narrative messages are added to the action result.
+ */
+function runTriggers<R extends { narrative?: string[] }>(
+  outcome: { newState: RunState; result: R },
+  data: ProjectData,
+  firings: TriggerFiring[]
+): { newState: RunState; result: R } {
+  const alreadyFired = new Set(outcome.newState.firedTriggers ?? [])
+  const toFire = firings.flatMap((firing) =>
+    (firing.triggers ?? [])
+      .filter((trigger) => trigger.on === firing.on && (trigger.repeatable || !alreadyFired.has(trigger.id)))
+      .map((trigger) => ({ firing, trigger }))
+  )
+  if (toFire.length === 0) return outcome
+
+  const newState = structuredClone(outcome.newState)
+  const narrative: string[] = []
+
+  for (const { firing, trigger } of toFire) {
+    const timelineLength = newState.timeline.length
+    const messages = applyTriggerActions(newState, data, firing, trigger.actions)
+    narrative.push(...messages)
+
+    if (!trigger.repeatable) {
+      newState.firedTriggers = [...(newState.firedTriggers ?? []), trigger.id]
+    }
+
+    const triggerEvent = createTimelineEvent(
+      'TRIGGER_FIRED',
+      newState,
+      firing.circuitId,
+      messages[0] ?? `Disparador ${trigger.id} (${trigger.actions.length} acción(es))`,
+      {
+        nodeId: firing.nodeId,
+        details: {
+          triggerId: trigger.id,
+          ...(messages.length > 0 && { narrative: messages }),
+        },
+      }
+    )
+    const actionEvents = newState.timeline.slice(timelineLength)
+    newState.timeline = [...newState.timeline.slice(0, timelineLength), triggerEvent, ...actionEvents]
+  }
+
+  return {
+    newState,
+    result: narrative.length > 0 ? { ...outcome.result, narrative } : outcome.result,
+  }
+}
+
+// =============================================================================
+// CHARACTER MODIFIERS
+// =============================================================================
+
+/**
+ * Total bonus a character adds to phase 1 rolls
+ */
+export function getCharacterRollBonus(character: CharacterProfile | null | undefined): number {
+  if (!character) return 0
+  return character.interface + character.deckBonus +
+    character.programs.reduce((sum, program) => sum + program.bonus, 0)
+}
+
+/**
+ * Breakdown of the character modifiers applied to a hack (none without character)
+ */
+function buildHackModifiers(
+  character: CharacterProfile | null,
+  roll: number,
+  failDie?: { roll: number; total: number }
+): HackModifierBreakdown | undefined {
+  if (!character) return undefined
+
+  return {
+    characterName: character.name,
+    roll,
+    interface: character.interface,
+    deckBonus: character.deckBonus,
+    programs: character.programs,
+    total: roll + getCharacterRollBonus(character),
+    ...(failDie && {
+      failDieRoll: failDie.roll,
+      failDieBonus: character.failDieBonus,
+      failDieTotal: failDie.total,
+    }),
+  }
+}
+
+/**
+ * Human-readable breakdown, e.g. "Case: tirada 9 +3 Interfaz +2 ciberdeck = 14"
+ */
+export function formatHackModifiers(modifiers: HackModifierBreakdown): string {
+  const signed = (value: number) => (value < 0 ? `${value}` : `+${value}`)
+  const parts = [`tirada ${modifiers.roll}`]
+  if (modifiers.interface) parts.push(`${signed(modifiers.interface)} Interfaz`)
+  if (modifiers.deckBonus) parts.push(`${signed(modifiers.deckBonus)} ciberdeck`)
+  for (const program of modifiers.programs) {
+    if (program.bonus) parts.push(`${signed(program.bonus)} ${program.name}`)
+  }
+
+  let text = `${modifiers.characterName}: ${parts.join(' ')} = ${modifiers.total}`
+  if (modifiers.failDieRoll !== undefined) {
+    const bonus = modifiers.failDieBonus ? ` ${signed(modifiers.failDieBonus)}` : ''
+    text += ` · dado de fallo ${modifiers.failDieRoll}${bonus} = ${modifiers.failDieTotal}`
+  }
+  return text
+}
+
+/**
+ * Attempt to hack the current node
+ *
+ * TWO-PHASE HACK SYSTEM:
+ * - Phase 1: inputValue >= CD = SUCCESS (immediate)
+ * - Phase 1: inputValue < CD = needs Phase 2 (fail die roll)
+ * - Phase 2: failDieRoll 1-2 = critical failure (criticalFailMode)
+ * - Phase 2: failDieRoll 3-failDie = range failure (rangeFailMode)
+ *
+ * CHARACTER (options.character):
+ * - Interface, cyberdeck and program bonuses are added to the phase 1 roll
+ * - failDieBonus is added to the fail die roll (capped at failDie)
+ * - The breakdown is recorded on the outcome events (details.hackModifiers)
+ *
+ * TRACE METER:
+ * - Phase 1 compares against the effective CD (RAISE_CD escalations included)
+ *
+ * NODE TYPES:
+ * - Firewall, datastore, control and honeypot mechanics apply on top of the
+ *   outcome (see resolveNodeType)
+ *
+ * BUDGET:
+ * - A resolved hack consumes one action (see consumeBudget)
+ *
+ * DIEGETIC MESSAGES:
+ * - No CD, failMode, or threshold information revealed to user
+ * - Use system-style messages: ACCESS GRANTED, LOCKDOWN, etc.
+ */
+export function attemptHack(
+  state: RunState,
+  data: ProjectData,
+  inputValue: number,
+  failDieRoll?: number,
+  options: HackOptions = {}
+): { newState: RunState; result: AttemptHackResult } {
+  return withBudget(
+    state,
+    data,
+    { success: false, hackeado: false, bloqueado: false, gameOver: true, message: RUN_OVER_MESSAGE },
+    () => {
+      const outcome = resolveNodeType(state, data, resolveHack(state, data, inputValue, failDieRoll, options))
+      return runTriggers(outcome, data, getHackFirings(state, data, outcome))
+    }
+  )
+}
+
+/**
+ * Hack rules behind attemptHack, before the budget is consumed
+ */
+function resolveHack(
+  state: RunState,
+  data: ProjectData,
+  inputValue: number,
+  failDieRoll: number | undefined,
+  options: HackOptions
+): { newState: RunState; result: AttemptHackResult } {
+  // Ensure numeric conversion
+  const roll = Number(inputValue)
+
+  // Always hack current position node
+  const nodeId = state.position.nodeId
+
+  // Find the node
+  const found = findNode(data, nodeId)
+  if (!found) {
     return {
-      newState: state, // Don't modify state yet - wait for phase 2
+      newState: state,
       result: {
         success: false,
         hackeado: false,
         bloqueado: false,
-        needsPhase2: true,
-        failDie: node.failDie,
-        message: 'ACCESS DENIED — SECURITY COUNTERMEASURE ACTIVATED — AWAITING RESPONSE',
+        message: 'TARGET NODE NOT FOUND',
       },
     }
   }
 
-  // =========================================================================
-  // PHASE 2: Process fail die roll
-  // =========================================================================
+  const { circuit, node } = found
+  const cd = getEffectiveCd(state, node)
+  const nodeState = state.nodes[nodeId]
 
-  // Validate failDieRoll is in range
-  const failRoll = Number(failDieRoll)
-  if (failRoll < 1 || failRoll > node.failDie) {
+  if (!nodeState) {
     return {
       newState: state,
       result: {
         success: false,
         hackeado: false,
         bloqueado: false,
-        message: `INVALID RESPONSE — VALUE MUST BE 1-${node.failDie}`,
+        message: 'NODE STATE ERROR',
       },
     }
   }
 
-  // Increment attempts now that we're processing the full hack
-  newNodeState.intentos++
-
-  // PHASE 2 RULE 1: failRoll 1-2 = CRITICAL FAILURE
-  if (failRoll <= 2) {
-    // Check criticalFailMode - if WARNING, allow retry
-    if (node.criticalFailMode === 'WARNING') {
-      newNodeState.ultimoResultado = 'fallo'
-      const warning: Warning = {
-        severity: 'ALERT',
-        nodeId,
-        message: `CRITICAL TRACE — BLACK ICE DETECTED — ${node.name}`,
-        timestamp,
-      }
-      newState.warnings.push(warning)
-
-      return {
-        newState,
-        result: {
-          success: false,
-          hackeado: false,
-          bloqueado: false,
-          warning,
-          message: 'CRITICAL TRACE — BLACK ICE ACTIVE — RETRY POSSIBLE',
-        },
-      }
+  // Check if node is already hacked
+  if (nodeState.hackeado) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        hackeado: true,
+        bloqueado: false,
+        message: 'NODE ALREADY COMPROMISED',
+      },
     }
+  }
 
-    // BLOQUEO mode - Block node + circuit
-    newNodeState.bloqueado = true
-    newNodeState.ultimoResultado = 'fallo'
-
-    // Block entire circuit
-    newState.blockedCircuits = { ...newState.blockedCircuits, [circuit.id]: true }
-
-    // Check for GAME OVER condition: CD = 1 or 2 means critical system
-    const isCriticalGameOver = cd <= 2
-
-    const warning: Warning = {
-      severity: 'BLACK_ICE',
-      nodeId,
-      message: isCriticalGameOver
-        ? `FATAL BREACH — NEURAL LINK SEVERED — ${circuit.name}`
-        : `BLACK ICE DEPLOYED — CIRCUIT ${circuit.name} TERMINATED`,
-      timestamp,
+  // Check if circuit is blocked
+  const circuitBlocked = state.blockedCircuits?.[circuit.id] === true
+  if (circuitBlocked) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: true,
+        circuitBlocked: true,
+        message: 'CIRCUIT IN LOCKDOWN — ALL ACCESS REVOKED',
+      },
     }
-    newState.warnings.push(warning)
-
-    // Record NODE_BLOCKED timeline event
-    const blockEvent = createTimelineEvent(
-      'NODE_BLOCKED',
-      newState,
-      circuit.id,
-      isCriticalGameOver
-        ? `GAME OVER — ${node.name} — CONEXIÓN NEURAL DESTRUIDA`
-        : `Nodo ${node.name} bloqueado por BLACK ICE`,
-      { nodeId, details: { warningGenerated: true } }
-    )
-    newState.timeline = [...newState.timeline, blockEvent]
-
-    // Record CIRCUIT_BLOCKED timeline event
-    const circuitBlockEvent = createTimelineEvent(
-      'CIRCUIT_BLOCKED',
-      newState,
-      circuit.id,
-      isCriticalGameOver
-        ? `GAME OVER — Circuito ${circuit.name} — DESTRUCCIÓN TOTAL`
-        : `Circuito ${circuit.name} bloqueado — BLACK ICE`
-    )
-    newState.timeline = [...newState.timeline, circuitBlockEvent]
+  }
 
+  // Check if node is blocked or inaccessible
+  if (nodeState.bloqueado) {
     return {
-      newState,
+      newState: state,
       result: {
         success: false,
         hackeado: false,
         bloqueado: true,
-        circuitBlocked: true,
-        gameOver: isCriticalGameOver,
-        warning,
-        message: isCriticalGameOver
-          ? 'FATAL ERROR — NEURAL LINK DESTROYED — GAME OVER'
-          : 'CRITICAL FAILURE — BLACK ICE — CIRCUIT LOCKDOWN ENGAGED',
+        message: 'LOCKDOWN ACTIVE — ACCESS PERMANENTLY DENIED',
       },
     }
   }
 
-  // PHASE 2 RULE 2: failRoll 3 to failDie = RANGE FAILURE
-  newNodeState.ultimoResultado = 'fallo'
+  if (nodeState.inaccesible) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: false,
+        message: 'NODE UNREACHABLE',
+      },
+    }
+  }
+
+  // Create new state (immutable update)
+  const newState = structuredClone(state)
+  const newNodeState = newState.nodes[nodeId]
+
+  const timestamp = new Date().toISOString()
+
+  // Character stats are applied on top of the posted rolls
+  const character = options.character ?? null
+  const effectiveRoll = roll + getCharacterRollBonus(character)
+
+  // =========================================================================
+  // PHASE 1: Check if roll >= CD (SUCCESS)
+  // =========================================================================
+  if (effectiveRoll >= cd) {
+    const hackModifiers = buildHackModifiers(character, roll)
+
+    // Increment attempts only when actually processing
+    newNodeState.intentos++
+    newNodeState.hackeado = true
+    newNodeState.ultimoResultado = 'exito'
+    newState.lastHackedNodeByCircuit[circuit.id] = nodeId
+
+    // Loot stored in the node goes to the run inventory
+    const payloads = deliverPayloads(newState, circuit, node, timestamp)
+
+    // Record NODE_HACKED timeline event
+    const hackDetails = {
+      ...(hackModifiers && { hackModifiers }),
+      ...(payloads.length > 0 && { payloadIds: payloads.map((item) => item.payloadId) }),
+    }
+    const hackEvent = createTimelineEvent(
+      'NODE_HACKED',
+      newState,
+      circuit.id,
+      `Nodo ${node.name} comprometido`,
+      { nodeId, details: Object.keys(hackDetails).length > 0 ? hackDetails : undefined }
+    )
+    newState.timeline = [...newState.timeline, hackEvent]
+
+    // Check if this was the final node (circuit complete)
+    const isFinalNode = node.isFinal === true
+    const circuitJustCompleted = recordCircuitCompletion(newState, data, circuit)
+
+    return {
+      newState,
+      result: {
+        success: true,
+        hackeado: true,
+        bloqueado: false,
+        circuitCompleted: circuitJustCompleted,
+        hackModifiers,
+        payloads: payloads.length > 0 ? payloads : undefined,
+        message: isFinalNode && circuitJustCompleted
+          ? 'FINAL NODE COMPROMISED — CIRCUIT COMPLETE'
+          : 'ACCESS GRANTED — SECURITY HANDSHAKE ACCEPTED',
+      },
+    }
+  }
+
+  // =========================================================================
+  // PHASE 1 FAILED: roll < CD - Need Phase 2
+  // =========================================================================
+
+  // If no failDieRoll provided, return that we need phase 2
+  if (failDieRoll === undefined || failDieRoll === null) {
+    return {
+      newState: state, // Don't modify state yet - wait for phase 2
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: false,
+        needsPhase2: true,
+        failDie: node.failDie,
+        message: 'ACCESS DENIED — SECURITY COUNTERMEASURE ACTIVATED — AWAITING RESPONSE',
+      },
+    }
+  }
+
+  // =========================================================================
+  // PHASE 2: Process fail die roll
+  // =========================================================================
+
+  // Validate failDieRoll is in range
+  const failRoll = Number(failDieRoll)
+  if (failRoll < 1 || failRoll > node.failDie) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: false,
+        message: `INVALID RESPONSE — VALUE MUST BE 1-${node.failDie}`,
+      },
+    }
+  }
+
+  // Increment attempts now that we're processing the full hack
+  newNodeState.intentos++
+
+  const effectiveFailRoll = character
+    ? Math.min(node.failDie, failRoll + character.failDieBonus)
+    : failRoll
+  const hackModifiers = buildHackModifiers(character, roll, { roll: failRoll, total: effectiveFailRoll })
+
+  // PHASE 2 RULE 1: failRoll 1-2 = CRITICAL FAILURE
+  if (effectiveFailRoll <= 2) {
+    // Check criticalFailMode - if WARNING, allow retry
+    if (node.criticalFailMode === 'WARNING') {
+      newNodeState.ultimoResultado = 'fallo'
+      const warning: Warning = {
+        severity: 'ALERT',
+        nodeId,
+        message: `CRITICAL TRACE — BLACK ICE DETECTED — ${node.name}`,
+        timestamp,
+      }
+      newState.warnings.push(warning)
+
+      return {
+        newState,
+        result: {
+          success: false,
+          hackeado: false,
+          bloqueado: false,
+          warning,
+          hackModifiers,
+          message: 'CRITICAL TRACE — BLACK ICE ACTIVE — RETRY POSSIBLE',
+        },
+      }
+    }
+
+    // BLOQUEO mode - Block node + circuit
+    newNodeState.bloqueado = true
+    newNodeState.ultimoResultado = 'fallo'
+
+    // Block entire circuit
+    newState.blockedCircuits = { ...newState.blockedCircuits, [circuit.id]: true }
+
+    // Check for GAME OVER condition: CD = 1 or 2 means critical system
+    const isCriticalGameOver = Number(node.cd) <= 2
+    if (isCriticalGameOver) newState.gameOver = true
+
+    const warning: Warning = {
+      severity: 'BLACK_ICE',
+      nodeId,
+      message: isCriticalGameOver
+        ? `FATAL BREACH — NEURAL LINK SEVERED — ${circuit.name}`
+        : `BLACK ICE DEPLOYED — CIRCUIT ${circuit.name} TERMINATED`,
+      timestamp,
+    }
+    newState.warnings.push(warning)
+
+    // Record NODE_BLOCKED timeline event
+    const blockEvent = createTimelineEvent(
+      'NODE_BLOCKED',
+      newState,
+      circuit.id,
+      isCriticalGameOver
+        ? `GAME OVER — ${node.name} — CONEXIÓN NEURAL DESTRUIDA`
+        : `Nodo ${node.name} bloqueado por BLACK ICE`,
+      { nodeId, details: { warningGenerated: true, hackModifiers } }
+    )
+    newState.timeline = [...newState.timeline, blockEvent]
+
+    // Record CIRCUIT_BLOCKED timeline event
+    const circuitBlockEvent = createTimelineEvent(
+      'CIRCUIT_BLOCKED',
+      newState,
+      circuit.id,
+      isCriticalGameOver
+        ? `GAME OVER — Circuito ${circuit.name} — DESTRUCCIÓN TOTAL`
+        : `Circuito ${circuit.name} bloqueado — BLACK ICE`
+    )
+    newState.timeline = [...newState.timeline, circuitBlockEvent]
+
+    return {
+      newState,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: true,
+        circuitBlocked: true,
+        gameOver: isCriticalGameOver,
+        warning,
+        hackModifiers,
+        message: isCriticalGameOver
+          ? 'FATAL ERROR — NEURAL LINK DESTROYED — GAME OVER'
+          : 'CRITICAL FAILURE — BLACK ICE — CIRCUIT LOCKDOWN ENGAGED',
+      },
+    }
+  }
+
+  // PHASE 2 RULE 2: failRoll 3 to failDie = RANGE FAILURE
+  newNodeState.ultimoResultado = 'fallo'
+  let warning: Warning
+
+  if (node.rangeFailMode === 'WARNING') {
+    // Use custom rangeErrorMessage if provided, otherwise default
+    const message = node.rangeErrorMessage || `TRACE DETECTED — ${node.name}`
+    warning = {
+      severity: 'TRACE',
+      nodeId,
+      message,
+      timestamp,
+    }
+    newState.warnings.push(warning)
+
+    return {
+      newState,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: false,
+        warning,
+        hackModifiers,
+        message: 'ACCESS DENIED — TRACE DETECTED — RETRY WINDOW OPEN',
+      },
+    }
+  }
+
+  // BLOQUEO mode - Block entire circuit
+  newNodeState.bloqueado = true
+
+  // Block entire circuit
+  newState.blockedCircuits = { ...newState.blockedCircuits, [circuit.id]: true }
+
+  // Check for GAME OVER condition: CD = 1 or 2 means critical system
+  const isCriticalGameOver = Number(node.cd) <= 2
+  if (isCriticalGameOver) newState.gameOver = true
+
+  warning = {
+    severity: isCriticalGameOver ? 'BLACK_ICE' : 'LOCKDOWN',
+    nodeId,
+    message: isCriticalGameOver
+      ? `FATAL BREACH — NEURAL LINK SEVERED — ${circuit.name}`
+      : `LOCKDOWN ENGAGED — CIRCUIT ${circuit.name}`,
+    timestamp,
+  }
+  newState.warnings.push(warning)
+
+  // Record NODE_BLOCKED timeline event
+  const blockEvent = createTimelineEvent(
+    'NODE_BLOCKED',
+    newState,
+    circuit.id,
+    isCriticalGameOver
+      ? `GAME OVER — ${node.name} — CONEXIÓN NEURAL DESTRUIDA`
+      : `Nodo ${node.name} bloqueado por LOCKDOWN`,
+    { nodeId, details: { warningGenerated: true, hackModifiers } }
+  )
+  newState.timeline = [...newState.timeline, blockEvent]
+
+  // Record CIRCUIT_BLOCKED timeline event
+  const circuitBlockEvent = createTimelineEvent(
+    'CIRCUIT_BLOCKED',
+    newState,
+    circuit.id,
+    isCriticalGameOver
+      ? `GAME OVER — Circuito ${circuit.name} — DESTRUCCIÓN TOTAL`
+      : `Circuito ${circuit.name} bloqueado — LOCKDOWN`
+  )
+  newState.timeline = [...newState.timeline, circuitBlockEvent]
+
+  return {
+    newState,
+    result: {
+      success: false,
+      hackeado: false,
+      bloqueado: true,
+      circuitBlocked: true,
+      gameOver: isCriticalGameOver,
+      warning,
+      hackModifiers,
+      message: isCriticalGameOver
+        ? 'FATAL ERROR — NEURAL LINK DESTROYED — GAME OVER'
+        : 'ACCESS DENIED — LOCKDOWN — CIRCUIT LOCKDOWN ENGAGED',
+    },
+  }
+}
+
+/**
+ * Attempt to hack the current node with server-rolled dice (SERVER dice mode)
+ *
+ * RULES:
+ * - Same two-phase rules as attemptHack - the server only supplies the rolls
+ * - Phase 1 rolls the player's expression; if it falls short of the CD the
+ *   node's fail die is rolled right away for phase 2
+ * - Rolls come from the run seed + a per-roll sequence number and are recorded
+ *   as a DICE_ROLLED event ahead of the hack outcome (auditable, reproducible)
+ * - Nothing is rolled or recorded when the node cannot be hacked
+ * - Character failDieRerolls: critical fail die results are rolled again
+ */
+export function attemptHackWithServerDice(
+  state: RunState,
+  data: ProjectData,
+  dice: HackDiceInput,
+  options: HackOptions = {}
+): { newState: RunState; result: AttemptHackResult } {
+  const seed = state.diceSeed ?? generateDiceSeed()
+  const sequence = state.diceSequence ?? 0
+  const rng = createRollRng(seed, sequence)
+
+  const roll = rollDiceExpression(dice.expression, dice.modifiers, rng)
+  if (!roll.success) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        hackeado: false,
+        bloqueado: false,
+        message: `INVALID DICE SEQUENCE — ${roll.error.toUpperCase()}`,
+      },
+    }
+  }
+
+  let attempt = attemptHack(state, data, roll.total, undefined, options)
+  let failDie: number | undefined
+  let failDieRoll: number | undefined
+  const discardedFailDieRolls: number[] = []
+
+  if (attempt.result.needsPhase2 && attempt.result.failDie) {
+    failDie = attempt.result.failDie
+    failDieRoll = rollDie(failDie, rng)
+
+    // Character rerolls: a critical result (after the fail die bonus) is rolled again
+    const failDieBonus = options.character?.failDieBonus ?? 0
+    let rerolls = options.character?.failDieRerolls ?? 0
+    while (rerolls > 0 && Math.min(failDie, failDieRoll + failDieBonus) <= 2) {
+      discardedFailDieRolls.push(failDieRoll)
+      failDieRoll = rollDie(failDie, rng)
+      rerolls--
+    }
+
+    attempt = attemptHack(state, data, roll.total, failDieRoll, options)
+  }
+
+  // Node not hackable (already hacked, lockdown, unreachable): no roll consumed
+  if (attempt.newState === state) {
+    return attempt
+  }
+
+  const diceRoll: DiceRollRecord = {
+    seed,
+    sequence,
+    expression: dice.expression,
+    modifiers: dice.modifiers,
+    rolls: roll.rolls,
+    total: roll.total,
+    failDie,
+    failDieRoll,
+    ...(discardedFailDieRolls.length > 0 && { discardedFailDieRolls }),
+  }
+
+  const rerolled = discardedFailDieRolls.length > 0
+    ? ` (repetido tras ${discardedFailDieRolls.join(', ')})`
+    : ''
+
+  const diceEvent = createTimelineEvent(
+    'DICE_ROLLED',
+    state,
+    state.position.circuitId,
+    failDieRoll !== undefined
+      ? `Tirada ${dice.expression} = ${roll.total} · dado de fallo d${failDie} = ${failDieRoll}${rerolled}`
+      : `Tirada ${dice.expression} = ${roll.total}`,
+    { nodeId: state.position.nodeId, details: { diceRoll } }
+  )
+
+  const outcomeEvents = attempt.newState.timeline.slice(state.timeline.length)
+
+  return {
+    newState: {
+      ...attempt.newState,
+      diceSeed: seed,
+      diceSequence: sequence + 1,
+      timeline: [...state.timeline, diceEvent, ...outcomeEvents],
+    },
+    result: { ...attempt.result, diceRoll },
+  }
+}
+
+/**
+ * Discover hidden links from current position
+ *
+ * NOTE (PROMPT 8): Does NOT require current node to be hacked
+ * A search that changes the state consumes one budget action
+ */
+export function discoverHiddenLinks(
+  state: RunState,
+  data: ProjectData
+): { newState: RunState; result: DiscoverLinksResult } {
+  return withBudget(
+    state,
+    data,
+    { discoveredLinks: [], discoveredNodes: [], message: RUN_OVER_MESSAGE },
+    () => {
+      const outcome = resolveDiscovery(state, data)
+      return runTriggers(outcome, data, getDiscoveryFirings(state, data, outcome.result))
+    }
+  )
+}
+
+/**
+ * Link search rules behind discoverHiddenLinks
+ */
+function resolveDiscovery(
+  state: RunState,
+  data: ProjectData
+): { newState: RunState; result: DiscoverLinksResult } {
+  const { circuitId, nodeId } = state.position
+  const circuit = findCircuit(data, circuitId)
+
+  if (!circuit) {
+    return {
+      newState: state,
+      result: {
+        discoveredLinks: [],
+        discoveredNodes: [],
+        message: 'NETWORK ERROR — CIRCUIT NOT FOUND',
+      },
+    }
+  }
+
+  // Check if circuit is blocked
+  if (state.blockedCircuits?.[circuitId] === true) {
+    return {
+      newState: state,
+      result: {
+        discoveredLinks: [],
+        discoveredNodes: [],
+        message: 'CIRCUIT IN LOCKDOWN — SCAN DISABLED',
+      },
+    }
+  }
+
+  // An active firewall jams scans from its own node
+  const currentNode = circuit.nodes.find((n) => n.id === nodeId)
+  if (currentNode && isFirewallUp(state, currentNode)) {
+    return {
+      newState: state,
+      result: {
+        discoveredLinks: [],
+        discoveredNodes: [],
+        message: 'FIREWALL ACTIVE — SCAN BLOCKED',
+      },
+    }
+  }
+
+  const linksFromNode = getLinksFromNode(circuit, nodeId)
+  const newState = structuredClone(state)
+
+  const discoveredLinks: string[] = []
+  const discoveredNodes: string[] = []
+
+  for (const link of linksFromNode) {
+    const linkState = newState.links[link.id]
+
+    // Only discover hidden links that aren't yet discovered
+    if (link.hidden && linkState && !linkState.descubierto) {
+      // Discover the link
+      linkState.descubierto = true
+      discoveredLinks.push(link.id)
+
+      // Discover the target node if it wasn't visible
+      const targetNodeId = getLinkTarget(link, nodeId)
+      const targetNodeState = newState.nodes[targetNodeId]
+
+      if (targetNodeState && !targetNodeState.descubierto) {
+        targetNodeState.descubierto = true
+        discoveredNodes.push(targetNodeId)
+      }
+    }
+  }
+
+  // Hidden portals are scanned like hidden links
+  for (const { portal, target } of getPortalsFromNode(data, circuitId, nodeId)) {
+    const linkState = newState.links[portal.id]
+
+    if (portal.hidden && linkState && !linkState.descubierto) {
+      linkState.descubierto = true
+      discoveredLinks.push(portal.id)
+
+      const targetNodeState = newState.nodes[target.nodeId]
+      if (targetNodeState && !targetNodeState.descubierto) {
+        targetNodeState.descubierto = true
+        discoveredNodes.push(target.nodeId)
+      }
+    }
+  }
+
+  if (discoveredLinks.length === 0) {
+    return {
+      newState: state, // No changes
+      result: {
+        discoveredLinks: [],
+        discoveredNodes: [],
+        message: 'SCAN COMPLETE — NO HIDDEN PATHWAYS DETECTED',
+      },
+    }
+  }
+
+  // Record LINKS_DISCOVERED timeline event
+  const discoverEvent = createTimelineEvent(
+    'LINKS_DISCOVERED',
+    newState,
+    circuitId,
+    `${discoveredLinks.length} enlace(s) oculto(s) descubierto(s)`,
+    {
+      nodeId,
+      details: {
+        discoveredLinks,
+        discoveredNodes,
+      },
+    }
+  )
+  newState.timeline = [...newState.timeline, discoverEvent]
+
+  return {
+    newState,
+    result: {
+      discoveredLinks,
+      discoveredNodes,
+      message: `SCAN COMPLETE — ${discoveredLinks.length} HIDDEN PATHWAY(S) REVEALED`,
+    },
+  }
+}
+
+/**
+ * Move to a node
+ *
+ * RULES (Direct Link Movement):
+ * - Only movement to nodes connected by direct link (no free fast-travel)
+ * - Hacked adjacent node: allow movement (retreat)
+ * - Non-hacked adjacent node: requires current node hacked (advance) + target discovered
+ * - Level does NOT determine movement — only links and hack state matter
+ * - A successful move consumes one budget action
+ */
+export function moveToNode(
+  state: RunState,
+  data: ProjectData,
+  targetNodeId: string
+): { newState: RunState; result: MoveToNodeResult } {
+  return withBudget(
+    state,
+    data,
+    { success: false, newPosition: state.position, message: RUN_OVER_MESSAGE },
+    () => {
+      const outcome = resolveMove(state, data, targetNodeId)
+      return runTriggers(outcome, data, getMoveFirings(state, data, outcome.result))
+    }
+  )
+}
+
+/**
+ * Movement rules behind moveToNode
+ */
+function resolveMove(
+  state: RunState,
+  data: ProjectData,
+  targetNodeId: string
+): { newState: RunState; result: MoveToNodeResult } {
+  const { circuitId, nodeId: currentNodeId } = state.position
+  const circuit = findCircuit(data, circuitId)
+
+  if (!circuit) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'NETWORK ERROR — CIRCUIT NOT FOUND',
+      },
+    }
+  }
+
+  // Check if circuit is blocked
+  if (state.blockedCircuits?.[circuitId] === true) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'CIRCUIT IN LOCKDOWN — MOVEMENT DISABLED',
+      },
+    }
+  }
+
+  // Can't move to same node
+  if (targetNodeId === currentNodeId) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'ALREADY AT TARGET NODE',
+      },
+    }
+  }
+
+  // Target in another circuit: only reachable through a portal
+  const portalRoute = getPortalsFromNode(data, circuitId, currentNodeId)
+    .find(({ target }) => target.nodeId === targetNodeId)
+  if (portalRoute) {
+    return resolvePortalMove(state, data, portalRoute.portal, portalRoute.target)
+  }
+
+  // Check target node exists and get its state
+  const targetNode = circuit.nodes.find((n) => n.id === targetNodeId)
+  if (!targetNode) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET NODE NOT FOUND',
+      },
+    }
+  }
+
+  const targetNodeState = state.nodes[targetNodeId]
+  if (!targetNodeState) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'NODE STATE ERROR',
+      },
+    }
+  }
+
+  // Check target is not inaccessible
+  if (targetNodeState.inaccesible) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET NODE UNREACHABLE',
+      },
+    }
+  }
+
+  // Check target is not blocked
+  if (targetNodeState.bloqueado) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET NODE IN LOCKDOWN — ACCESS DENIED',
+      },
+    }
+  }
+
+  // STEP 1: Find a link between current and target node (REQUIRED for all movement)
+  const connectingLink = circuit.links.find((link) =>
+    linkConnectsNodes(link, currentNodeId, targetNodeId)
+  )
+
+  if (!connectingLink) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'NO DIRECT PATHWAY TO TARGET',
+      },
+    }
+  }
+
+  const linkState = state.links[connectingLink.id]
+
+  // STEP 2: Link must be discovered
+  if (!linkState || !linkState.descubierto) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'PATHWAY NOT YET MAPPED',
+      },
+    }
+  }
+
+  // Check link is not inaccessible
+  if (linkState.inaccesible) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'PATHWAY BLOCKED',
+      },
+    }
+  }
+
+  // Keys / dependencies declared on the link or the target node
+  const accessDenial = getAccessDenial(state, data, targetNode, connectingLink)
+  if (accessDenial) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: accessDenial,
+      },
+    }
+  }
+
+  // STEP 3: If target is hacked → allow movement (retreat)
+  if (targetNodeState.hackeado) {
+    const newState = structuredClone(state)
+    newState.position = {
+      circuitId,
+      nodeId: targetNodeId,
+    }
+
+    return {
+      newState,
+      result: {
+        success: true,
+        newPosition: newState.position,
+        message: `RECONNECTING TO ${targetNode.name.toUpperCase()}...`,
+      },
+    }
+  }
+
+  // STEP 4: Target is NOT hacked → requires current node hacked (advance)
+  const currentNodeState = state.nodes[currentNodeId]
+  if (!currentNodeState?.hackeado) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'CURRENT NODE NOT COMPROMISED — CANNOT TRAVERSE',
+      },
+    }
+  }
+
+  // STEP 5: Target must be discovered
+  if (!targetNodeState.descubierto) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET NODE NOT YET IDENTIFIED',
+      },
+    }
+  }
+
+  // Perform move
+  const newState = structuredClone(state)
+  newState.position = {
+    circuitId,
+    nodeId: targetNodeId,
+  }
+
+  return {
+    newState,
+    result: {
+      success: true,
+      newPosition: newState.position,
+      message: `TRAVERSING TO ${targetNode.name.toUpperCase()}...`,
+    },
+  }
+}
+
+/**
+ * Get available moves from current position
+ *
+ * RULES (Direct Link Movement):
+ * - Only adjacent nodes connected by discovered links
+ * - retreat: hacked adjacent nodes (can move back without current being hacked)
+ * - advance: non-hacked adjacent nodes (requires current node hacked + target discovered)
+ *
+ * Returns object with:
+ * - fastTravel: hacked adjacent nodes (retreat targets)
+ * - advance: non-hacked adjacent nodes (advance targets, requires current hacked)
+ * - all: combined list of all available moves
+ * - locked: adjacent moves refused by a key/dependency requirement, with the reason
+ * Portal targets (nodes in other circuits) are included in every list.
+ */
+export function getAvailableMoves(
+  state: RunState,
+  data: ProjectData
+): { fastTravel: string[]; advance: string[]; all: string[]; locked: { nodeId: string; message: string }[] } {
+  const { circuitId, nodeId: currentNodeId } = state.position
+  const circuit = findCircuit(data, circuitId)
+
+  if (!circuit) return { fastTravel: [], advance: [], all: [], locked: [] }
+
+  const fastTravel: string[] = [] // Hacked adjacent nodes (retreat)
+  const advance: string[] = [] // Non-hacked adjacent nodes (advance)
+  const locked: { nodeId: string; message: string }[] = [] // Adjacent nodes behind an unmet requirement
+
+  const currentNodeState = state.nodes[currentNodeId]
+  const currentIsHacked = currentNodeState?.hackeado === true
+
+  // Get all links from current node
+  const linksFromNode = getLinksFromNode(circuit, currentNodeId)
+
+  for (const link of linksFromNode) {
+    const linkState = state.links[link.id]
+
+    // Link must be discovered and not blocked
+    if (!linkState || !linkState.descubierto || linkState.inaccesible) {
+      continue
+    }
+
+    const targetNodeId = getLinkTarget(link, currentNodeId)
+    const targetNodeState = state.nodes[targetNodeId]
+
+    if (!targetNodeState) continue
+    if (targetNodeState.inaccesible || targetNodeState.bloqueado) continue
+
+    const reachable = targetNodeState.hackeado || (currentIsHacked && targetNodeState.descubierto)
+    const targetNode = circuit.nodes.find((n) => n.id === targetNodeId)
+    const accessDenial = reachable && targetNode ? getAccessDenial(state, data, targetNode, link) : null
+    if (accessDenial) {
+      if (!locked.some((l) => l.nodeId === targetNodeId)) {
+        locked.push({ nodeId: targetNodeId, message: accessDenial })
+      }
+      continue
+    }
+
+    if (targetNodeState.hackeado) {
+      // Hacked adjacent node → retreat allowed (no restriction)
+      if (!fastTravel.includes(targetNodeId)) {
+        fastTravel.push(targetNodeId)
+      }
+    } else if (currentIsHacked && targetNodeState.descubierto) {
+      // Non-hacked adjacent node → advance allowed if current is hacked + target discovered
+      if (!advance.includes(targetNodeId)) {
+        advance.push(targetNodeId)
+      }
+    }
+  }
+
+  // Portals to other circuits follow the same rules
+  for (const { portal, target } of getPortalsFromNode(data, circuitId, currentNodeId)) {
+    const linkState = state.links[portal.id]
+    if (!linkState || !linkState.descubierto || linkState.inaccesible) continue
+    if (state.blockedCircuits?.[target.circuitId] === true) continue
+
+    const targetNodeState = state.nodes[target.nodeId]
+    if (!targetNodeState) continue
+    if (targetNodeState.inaccesible || targetNodeState.bloqueado) continue
+
+    const reachable = targetNodeState.hackeado || (currentIsHacked && targetNodeState.descubierto)
+    const targetNode = findNode(data, target.nodeId)?.node
+    const accessDenial = reachable && targetNode ? getAccessDenial(state, data, targetNode, portal) : null
+    if (accessDenial) {
+      if (!locked.some((l) => l.nodeId === target.nodeId)) {
+        locked.push({ nodeId: target.nodeId, message: accessDenial })
+      }
+      continue
+    }
+
+    if (targetNodeState.hackeado) {
+      if (!fastTravel.includes(target.nodeId)) fastTravel.push(target.nodeId)
+    } else if (reachable && !advance.includes(target.nodeId)) {
+      advance.push(target.nodeId)
+    }
+  }
+
+  // Combine both lists
+  const all = [...fastTravel, ...advance]
+
+  return { fastTravel, advance, all, locked }
+}
+
+/**
+ * Get accessible nodes from current position (legacy helper)
+ * @deprecated Use getAvailableMoves() instead for proper PROMPT 7 logic
+ */
+export function getAccessibleNodes(
+  state: RunState,
+  data: ProjectData
+): string[] {
+  return getAvailableMoves(state, data).all
+}
+
+/**
+ * Get current node info
+ */
+export function getCurrentNodeInfo(
+  state: RunState,
+  data: ProjectData
+): { circuit: CircuitDefinition; node: NodeDefinition; nodeState: NodeState } | null {
+  const { circuitId, nodeId } = state.position
+  const circuit = findCircuit(data, circuitId)
+
+  if (!circuit) return null
+
+  const node = circuit.nodes.find((n) => n.id === nodeId)
+  if (!node) return null
+
+  const nodeState = state.nodes[nodeId]
+  if (!nodeState) return null
+
+  return { circuit, node, nodeState }
+}
+
+/**
+ * Switch to a different circuit
+ *
+ * RULES:
+ * - Can switch to any circuit at any time (no blocking)
+ * - State of all circuits is preserved independently
+ * - Position moves to:
+ *   1. Last hacked node in target circuit (if exists)
+ *   2. First entry node (level 0) in target circuit (if no hacked nodes)
+ * - The landing node's key/dependency requirements must be met
+ * - With circuit gating, only circuits already reached through a portal
+ *   (or the first circuit) can be selected
+ * - Does NOT modify node/link states
+ */
+export function switchCircuit(
+  state: RunState,
+  data: ProjectData,
+  targetCircuitId: string
+): { newState: RunState; result: SwitchCircuitResult } {
+  // No player actions once a budget ended the run
+  if (state.gameOver) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: RUN_OVER_MESSAGE,
+      },
+    }
+  }
+
+  // Check target circuit exists
+  const targetCircuit = findCircuit(data, targetCircuitId)
+
+  if (!targetCircuit) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET CIRCUIT NOT FOUND',
+      },
+    }
+  }
+
+  // Already on this circuit?
+  if (state.position.circuitId === targetCircuitId) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'ALREADY ON THIS CIRCUIT',
+      },
+    }
+  }
+
+  // Check if target circuit is blocked
+  if (state.blockedCircuits?.[targetCircuitId] === true) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'TARGET CIRCUIT IS LOCKED — ACCESS DENIED',
+      },
+    }
+  }
+
+  // Circuit gating: circuits not reached through a portal yet are sealed
+  if (!isCircuitUnlocked(state, data, targetCircuitId)) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: 'CIRCUIT SEALED — NO PORTAL ROUTE ESTABLISHED',
+      },
+    }
+  }
+
+  // Determine target node:
+  // 1. Last hacked node in this circuit (if exists)
+  // 2. First entry node (level 0)
+  let targetNodeId: string | null = null
+
+  // Check for last hacked node
+  const lastHackedNodeId = state.lastHackedNodeByCircuit[targetCircuitId]
+  if (lastHackedNodeId) {
+    const nodeState = state.nodes[lastHackedNodeId]
+    // Verify node is still valid and hacked
+    if (nodeState && nodeState.hackeado && !nodeState.bloqueado && !nodeState.inaccesible) {
+      targetNodeId = lastHackedNodeId
+    }
+  }
+
+  // If no last hacked node, use entry node
+  if (!targetNodeId) {
+    const entryNodes = findEntryNodes(targetCircuit)
+    if (entryNodes.length === 0) {
+      return {
+        newState: state,
+        result: {
+          success: false,
+          newPosition: state.position,
+          message: 'NO ENTRY POINT IN TARGET CIRCUIT',
+        },
+      }
+    }
+    targetNodeId = entryNodes[0].id
+  }
+
+  // Get target node info
+  const targetNode = targetCircuit.nodes.find((n) => n.id === targetNodeId)
+
+  // Keys / dependencies declared on the landing node
+  const accessDenial = targetNode ? getAccessDenial(state, data, targetNode) : null
+  if (accessDenial) {
+    return {
+      newState: state,
+      result: {
+        success: false,
+        newPosition: state.position,
+        message: accessDenial,
+      },
+    }
+  }
+
+  // Store previous circuit for timeline
+  const previousCircuitId = state.position.circuitId
+
+  // Create new state with updated position
+  const newState = structuredClone(state)
+  newState.position = {
+    circuitId: targetCircuitId,
+    nodeId: targetNodeId,
+  }
+
+  // Ensure target node is discovered
+  if (newState.nodes[targetNodeId]) {
+    newState.nodes[targetNodeId].descubierto = true
+  }
+
+  enterCircuit(newState, targetCircuit)
+
+  // Record CIRCUIT_CHANGED timeline event
+  const switchEvent = createTimelineEvent(
+    'CIRCUIT_CHANGED',
+    newState,
+    targetCircuitId,
+    `Cambio a circuito ${targetCircuit.name}`,
+    {
+      nodeId: targetNodeId,
+      details: {
+        previousCircuitId,
+      },
+    }
+  )
+  newState.timeline = [...newState.timeline, switchEvent]
+
+  return {
+    newState,
+    result: {
+      success: true,
+      newPosition: newState.position,
+      message: `SWITCHING TO ${targetCircuit.name.toUpperCase()}${targetNode ? ` — CONNECTING TO ${targetNode.name.toUpperCase()}` : ''}...`,
+    },
+  }
+}
+
+/**
+ * Get circuit summary for selection UI
+ */
+export function getCircuitSummary(
+  state: RunState,
+  data: ProjectData
+): Array<{
+  id: string
+  name: string
+  description?: string
+  isActive: boolean
+  nodeCount: number
+  hackedCount: number
+  blockedCount: number
+  hasProgress: boolean
+}> {
+  const currentCircuitId = state.position.circuitId
+
+  return data.circuits.map((circuit) => {
+    let hackedCount = 0
+    let blockedCount = 0
+
+    for (const node of circuit.nodes) {
+      const nodeState = state.nodes[node.id]
+      if (nodeState) {
+        if (nodeState.hackeado) hackedCount++
+        if (nodeState.bloqueado) blockedCount++
+      }
+    }
+
+    return {
+      id: circuit.id,
+      name: circuit.name,
+      description: circuit.description,
+      isActive: circuit.id === currentCircuitId,
+      nodeCount: circuit.nodes.length,
+      hackedCount,
+      blockedCount,
+      hasProgress: hackedCount > 0 || blockedCount > 0,
+    }
+  })
+}
+
+// =============================================================================
+// PORTALS (Links between circuits)
+// =============================================================================
+
+/**
+ * Portals leaving a node, with the position each one leads to
+ * Bidirectional portals (default) can be taken from either end.
+ */
+export function getPortalsFromNode(
+  data: ProjectData,
+  circuitId: string,
+  nodeId: string
+): { portal: PortalDefinition; target: Position }[] {
+  const routes: { portal: PortalDefinition; target: Position }[] = []
+  for (const portal of data.portals ?? []) {
+    if (portal.fromCircuitId === circuitId && portal.fromNodeId === nodeId) {
+      routes.push({ portal, target: { circuitId: portal.toCircuitId, nodeId: portal.toNodeId } })
+    } else if (portal.bidirectional !== false && portal.toCircuitId === circuitId && portal.toNodeId === nodeId) {
+      routes.push({ portal, target: { circuitId: portal.fromCircuitId, nodeId: portal.fromNodeId } })
+    }
+  }
+  return routes
+}
+
+/**
+ * Can the player switch to a circuit?
+ * Always true without circuit gating; runs started before gating was
+ * enabled have no unlock list and keep free switching.
+ */
+export function isCircuitUnlocked(state: RunState, data: ProjectData, circuitId: string): boolean {
+  if (!data.meta.circuitGating || !state.unlockedCircuits) return true
+  return state.unlockedCircuits.includes(circuitId)
+}
+
+/**
+ * Bookkeeping when the player arrives in a circuit: unlock it (gating)
+ * and start its clock on the first entry
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function enterCircuit(state: RunState, circuit: CircuitDefinition): void {
+  if (state.unlockedCircuits && !state.unlockedCircuits.includes(circuit.id)) {
+    state.unlockedCircuits = [...state.unlockedCircuits, circuit.id]
+  }
+
+  const budget = state.circuitBudgets?.[circuit.id]
+  if (circuit.budget && budget) {
+    state.circuitBudgets = {
+      ...state.circuitBudgets,
+      [circuit.id]: startBudgetClock(budget, circuit.budget, new Date()),
+    }
+  }
+}
+
+/**
+ * Movement through a portal - same rules as a link, ending in another circuit
+ */
+function resolvePortalMove(
+  state: RunState,
+  data: ProjectData,
+  portal: PortalDefinition,
+  target: Position
+): { newState: RunState; result: MoveToNodeResult } {
+  const fail = (message: string) => ({
+    newState: state,
+    result: { success: false, newPosition: state.position, message },
+  })
+
+  const targetCircuit = findCircuit(data, target.circuitId)
+  const targetNode = targetCircuit?.nodes.find((n) => n.id === target.nodeId)
+  const targetNodeState = state.nodes[target.nodeId]
+  if (!targetCircuit || !targetNode || !targetNodeState) return fail('TARGET NODE NOT FOUND')
+
+  const linkState = state.links[portal.id]
+  if (!linkState || !linkState.descubierto) return fail('PATHWAY NOT YET MAPPED')
+  if (linkState.inaccesible) return fail('PATHWAY BLOCKED')
+
+  if (state.blockedCircuits?.[target.circuitId] === true) return fail('TARGET CIRCUIT IS LOCKED — ACCESS DENIED')
+  if (targetNodeState.inaccesible) return fail('TARGET NODE UNREACHABLE')
+  if (targetNodeState.bloqueado) return fail('TARGET NODE IN LOCKDOWN — ACCESS DENIED')
+
+  const accessDenial = getAccessDenial(state, data, targetNode, portal)
+  if (accessDenial) return fail(accessDenial)
+
+  // Advancing into a non-hacked node needs the current node hacked + target discovered
+  if (!targetNodeState.hackeado) {
+    if (!state.nodes[state.position.nodeId]?.hackeado) return fail('CURRENT NODE NOT COMPROMISED — CANNOT TRAVERSE')
+    if (!targetNodeState.descubierto) return fail('TARGET NODE NOT YET IDENTIFIED')
+  }
+
+  const previousCircuitId = state.position.circuitId
+  const newState = structuredClone(state)
+  newState.position = { ...target }
+  enterCircuit(newState, targetCircuit)
+
+  const portalEvent = createTimelineEvent(
+    'CIRCUIT_CHANGED',
+    newState,
+    target.circuitId,
+    `Portal hacia circuito ${targetCircuit.name}`,
+    {
+      nodeId: target.nodeId,
+      details: {
+        previousCircuitId,
+        portalId: portal.id,
+      },
+    }
+  )
+  newState.timeline = [...newState.timeline, portalEvent]
+
+  return {
+    newState,
+    result: {
+      success: true,
+      newPosition: newState.position,
+      message: `PORTAL ESTABLISHED — ${targetCircuit.name.toUpperCase()} — CONNECTING TO ${targetNode.name.toUpperCase()}...`,
+    },
+  }
+}
+
+// =============================================================================
+// ICE (Guardians patrolling circuits)
+// =============================================================================
+
+// Escalation ladder for RAISE_SEVERITY (LOCKDOWN is reserved for circuit locks)
+const ICE_SEVERITY_LADDER: WarningSeverity[] = ['INFO', 'TRACE', 'ALERT', 'BLACK_ICE']
+
+/**
+ * Initial state of a guardian - parked at its start node
+ */
+function createIceState(ice: IceDefinition): IceState {
+  return { nodeId: ice.startNodeId, routeIndex: 0, direction: 1, actionCount: 0, engaged: false }
+}
+
+/**
+ * Initial states of every guardian in the project
+ */
+function createIceStates(data: ProjectData): Record<string, IceState> {
+  const states: Record<string, IceState> = {}
+  for (const circuit of data.circuits) {
+    for (const ice of circuit.ice ?? []) {
+      states[ice.id] = createIceState(ice)
+    }
+  }
+  return states
+}
+
+/**
+ * Move a guardian one step along its route, reversing at either end
+ * With a target on the route (player revealed by the trace meter) the
+ * guardian heads towards it instead, and waits there.
+ */
+function stepIce(ice: IceDefinition, iceState: IceState, targetNodeId?: string): IceState {
+  const route = [ice.startNodeId, ...ice.patrolRoute]
+  if (route.length < 2) return iceState
+
+  const targetIndexes = route
+    .map((nodeId, index) => (nodeId === targetNodeId ? index : -1))
+    .filter((index) => index >= 0)
+  if (targetIndexes.length > 0) {
+    const targetIndex = targetIndexes.reduce((closest, index) =>
+      Math.abs(index - iceState.routeIndex) < Math.abs(closest - iceState.routeIndex) ? index : closest
+    )
+    if (targetIndex === iceState.routeIndex) return iceState
+    const direction = targetIndex > iceState.routeIndex ? 1 : -1
+    const routeIndex = iceState.routeIndex + direction
+    return { ...iceState, routeIndex, direction, nodeId: route[routeIndex] }
+  }
+
+  let direction = iceState.direction
+  let routeIndex = iceState.routeIndex + direction
+  if (routeIndex < 0 || routeIndex >= route.length) {
+    direction = direction === 1 ? -1 : 1
+    routeIndex = iceState.routeIndex + direction
+  }
+
+  return { ...iceState, routeIndex, direction, nodeId: route[routeIndex] }
+}
+
+/**
+ * Apply the contact effect of a guardian that reached the player
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function applyIceContact(state: RunState, circuit: CircuitDefinition, ice: IceDefinition): void {
+  const nodeId = state.position.nodeId
+  const node = circuit.nodes.find((n) => n.id === nodeId)
+  const timestamp = new Date().toISOString()
   let warning: Warning
 
-  if (node.rangeFailMode === 'WARNING') {
-    // Use custom rangeErrorMessage if provided, otherwise default
-    const message = node.rangeErrorMessage || `TRACE DETECTED — ${node.name}`
+  if (ice.onContact === 'LOCKDOWN') {
+    state.nodes = {
+      ...state.nodes,
+      [nodeId]: { ...state.nodes[nodeId], bloqueado: true, ultimoResultado: 'fallo' },
+    }
+    state.blockedCircuits = { ...state.blockedCircuits, [circuit.id]: true }
     warning = {
-      severity: 'TRACE',
+      severity: 'LOCKDOWN',
       nodeId,
-      message,
+      message: `ICE ${ice.name.toUpperCase()} ENGAGED — LOCKDOWN — CIRCUIT ${circuit.name}`,
       timestamp,
     }
-    newState.warnings.push(warning)
-
-    return {
-      newState,
-      result: {
-        success: false,
-        hackeado: false,
-        bloqueado: false,
-        warning,
-        message: 'ACCESS DENIED — TRACE DETECTED — RETRY WINDOW OPEN',
-      },
+  } else if (ice.onContact === 'EJECT') {
+    const entryNodes = findEntryNodes(circuit)
+    const entryNode = entryNodes.find((n) => state.nodes[n.id]?.descubierto) ?? entryNodes[0] ?? node
+    state.position = { circuitId: circuit.id, nodeId: entryNode?.id ?? nodeId }
+    warning = {
+      severity: 'ALERT',
+      nodeId,
+      message: `ICE ${ice.name.toUpperCase()} ENGAGED — CONNECTION DROPPED — REROUTED TO ${entryNode?.name ?? nodeId}`,
+      timestamp,
+    }
+  } else {
+    const lastSeverity = state.warnings[state.warnings.length - 1]?.severity ?? 'INFO'
+    const ladderIndex = lastSeverity === 'LOCKDOWN'
+      ? ICE_SEVERITY_LADDER.length - 1
+      : ICE_SEVERITY_LADDER.indexOf(lastSeverity)
+    const severity = ICE_SEVERITY_LADDER[Math.min(ladderIndex + 1, ICE_SEVERITY_LADDER.length - 1)]
+    warning = {
+      severity,
+      nodeId,
+      message: `ICE ${ice.name.toUpperCase()} ENGAGED — THREAT LEVEL ${severity}`,
+      timestamp,
     }
   }
 
-  // BLOQUEO mode - Block entire circuit
-  newNodeState.bloqueado = true
-
-  // Block entire circuit
-  newState.blockedCircuits = { ...newState.blockedCircuits, [circuit.id]: true }
-
-  // Check for GAME OVER condition: CD = 1 or 2 means critical system
-  const isCriticalGameOver = cd <= 2
-
-  warning = {
-    severity: isCriticalGameOver ? 'BLACK_ICE' : 'LOCKDOWN',
-    nodeId,
-    message: isCriticalGameOver
-      ? `FATAL BREACH — NEURAL LINK SEVERED — ${circuit.name}`
-      : `LOCKDOWN ENGAGED — CIRCUIT ${circuit.name}`,
-    timestamp,
-  }
-  newState.warnings.push(warning)
-
-  // Record NODE_BLOCKED timeline event
-  const blockEvent = createTimelineEvent(
-    'NODE_BLOCKED',
-    newState,
-    circuit.id,
-    isCriticalGameOver
-      ? `GAME OVER — ${node.name} — CONEXIÓN NEURAL DESTRUIDA`
-      : `Nodo ${node.name} bloqueado por LOCKDOWN`,
-    { nodeId, details: { warningGenerated: true } }
-  )
-  newState.timeline = [...newState.timeline, blockEvent]
+  state.warnings = [...state.warnings, warning]
 
-  // Record CIRCUIT_BLOCKED timeline event
-  const circuitBlockEvent = createTimelineEvent(
-    'CIRCUIT_BLOCKED',
-    newState,
+  const contactEvent = createTimelineEvent(
+    'ICE_CONTACT',
+    state,
     circuit.id,
-    isCriticalGameOver
-      ? `GAME OVER — Circuito ${circuit.name} — DESTRUCCIÓN TOTAL`
-      : `Circuito ${circuit.name} bloqueado — LOCKDOWN`
+    ice.onContact === 'LOCKDOWN'
+      ? `ICE ${ice.name} intercepta en ${node?.name ?? nodeId} — circuito bloqueado`
+      : ice.onContact === 'EJECT'
+        ? `ICE ${ice.name} intercepta en ${node?.name ?? nodeId} — conexión expulsada`
+        : `ICE ${ice.name} intercepta en ${node?.name ?? nodeId} — amenaza ${warning.severity}`,
+    { nodeId, details: { iceId: ice.id, iceEffect: ice.onContact, warningGenerated: true } }
   )
-  newState.timeline = [...newState.timeline, circuitBlockEvent]
-
-  return {
-    newState,
-    result: {
-      success: false,
-      hackeado: false,
-      bloqueado: true,
-      circuitBlocked: true,
-      gameOver: isCriticalGameOver,
-      warning,
-      message: isCriticalGameOver
-        ? 'FATAL ERROR — NEURAL LINK DESTROYED — GAME OVER'
-        : 'ACCESS DENIED — LOCKDOWN — CIRCUIT LOCKDOWN ENGAGED',
-    },
-  }
+  state.timeline = [...state.timeline, contactEvent]
 }
 
 /**
- * Discover hidden links from current position
+ * Let the guardians of the player's circuit react to a resolved action
  *
- * NOTE (PROMPT 8): Does NOT require current node to be hacked
+ * RULES:
+ * - Each guardian counts the action; ON_TRACE / ON_ALERT fire on warnings
+ *   of that severity raised by the action, EVERY_N_ACTIONS every N actions
+ * - A triggered guardian moves one step along its patrol route
+ * - Once the trace meter reveals the player, every guardian moves on every
+ *   action, heading towards the player along its route
+ * - Sharing the player's node is a contact; its effect fires once per contact
  */
-export function discoverHiddenLinks(
-  state: RunState,
-  data: ProjectData
-): { newState: RunState; result: DiscoverLinksResult } {
-  const { circuitId, nodeId } = state.position
-  const circuit = findCircuit(data, circuitId)
-
-  if (!circuit) {
-    return {
-      newState: state,
-      result: {
-        discoveredLinks: [],
-        discoveredNodes: [],
-        message: 'NETWORK ERROR — CIRCUIT NOT FOUND',
-      },
+function resolveIce(previousState: RunState, state: RunState, data: ProjectData): RunState {
+  const circuit = findCircuit(data, state.position.circuitId)
+  if (!circuit?.ice?.length) return state
+
+  const actionWarnings = state.warnings.slice(previousState.warnings.length)
+  const traced = actionWarnings.some((w) => w.severity === 'TRACE')
+  const alerted = actionWarnings.some((w) => w.severity === 'ALERT')
+  const hunting = state.trace?.revealedToIce === true
+
+  const newState: RunState = { ...state, ice: { ...state.ice } }
+  const iceStates = newState.ice as Record<string, IceState>
+
+  for (const ice of circuit.ice) {
+    let iceState = iceStates[ice.id] ?? createIceState(ice)
+    if (iceState.offline) continue
+    const actionCount = iceState.actionCount + 1
+    const intervalReached = ice.triggers.includes('EVERY_N_ACTIONS') &&
+      ice.everyNActions !== undefined && actionCount >= ice.everyNActions
+
+    iceState = { ...iceState, actionCount: intervalReached ? 0 : actionCount }
+
+    const triggered = hunting || intervalReached ||
+      (ice.triggers.includes('ON_TRACE') && traced) ||
+      (ice.triggers.includes('ON_ALERT') && alerted)
+    if (triggered) {
+      iceState = stepIce(ice, iceState, hunting ? newState.position.nodeId : undefined)
     }
-  }
 
-  // Check if circuit is blocked
-  if (state.blockedCircuits?.[circuitId] === true) {
-    return {
-      newState: state,
-      result: {
-        discoveredLinks: [],
-        discoveredNodes: [],
-        message: 'CIRCUIT IN LOCKDOWN — SCAN DISABLED',
-      },
+    if (iceState.nodeId === newState.position.nodeId && !iceState.engaged) {
+      applyIceContact(newState, circuit, ice)
     }
+
+    iceStates[ice.id] = { ...iceState, engaged: iceState.nodeId === newState.position.nodeId }
   }
 
-  const linksFromNode = getLinksFromNode(circuit, nodeId)
-  const newState = structuredClone(state)
+  return newState
+}
 
-  const discoveredLinks: string[] = []
-  const discoveredNodes: string[] = []
+/**
+ * Guardians currently on the given circuit, with their node
+ * Used by the maps to render ICE markers (offline guardians are left out)
+ */
+export function getIcePositions(
+  state: RunState,
+  circuit: CircuitDefinition
+): { ice: IceDefinition; nodeId: string }[] {
+  return (circuit.ice ?? [])
+    .filter((ice) => !state.ice?.[ice.id]?.offline)
+    .map((ice) => ({
+      ice,
+      nodeId: state.ice?.[ice.id]?.nodeId ?? ice.startNodeId,
+    }))
+}
 
-  for (const link of linksFromNode) {
-    const linkState = newState.links[link.id]
+// =============================================================================
+// TRACE METER (Run-level alert that escalates)
+// =============================================================================
 
-    // Only discover hidden links that aren't yet discovered
-    if (link.hidden && linkState && !linkState.descubierto) {
-      // Discover the link
-      linkState.descubierto = true
-      discoveredLinks.push(link.id)
+// Default CD increase of a RAISE_CD threshold
+const DEFAULT_TRACE_CD_INCREASE = 2
 
-      // Discover the target node if it wasn't visible
-      const targetNodeId = getLinkTarget(link, nodeId)
-      const targetNodeState = newState.nodes[targetNodeId]
+/**
+ * Initial trace meter - empty, no escalation fired
+ */
+function createTraceState(): TraceState {
+  return { level: 0, reachedThresholds: [], cdIncrease: 0, revealedToIce: false }
+}
 
-      if (targetNodeState && !targetNodeState.descubierto) {
-        targetNodeState.descubierto = true
-        discoveredNodes.push(targetNodeId)
-      }
-    }
+/**
+ * How much a warning raises the meter
+ * Critical results are the BLACK_ICE warnings
+ */
+function getTraceAmount(config: TraceConfig, severity: WarningSeverity): number {
+  switch (severity) {
+    case 'TRACE':
+      return config.traceAmount
+    case 'ALERT':
+      return config.alertAmount
+    case 'BLACK_ICE':
+      return config.criticalAmount
+    default:
+      return 0
   }
+}
 
-  if (discoveredLinks.length === 0) {
-    return {
-      newState: state, // No changes
-      result: {
-        discoveredLinks: [],
-        discoveredNodes: [],
-        message: 'SCAN COMPLETE — NO HIDDEN PATHWAYS DETECTED',
-      },
+/**
+ * CD of a node in a run - the definition CD plus the RAISE_CD escalations
+ * and the CHANGE_CD triggers applied to the node
+ */
+export function getEffectiveCd(state: RunState, node: NodeDefinition): number {
+  return Math.max(0, Number(node.cd) + (state.trace?.cdIncrease ?? 0) + (state.nodes[node.id]?.cdModifier ?? 0))
+}
+
+/**
+ * Apply the escalation of a threshold the meter just reached
+ * (mutates the given state - callers pass a fresh copy)
+ */
+function applyTraceEscalation(state: RunState, data: ProjectData, threshold: TraceThreshold): void {
+  const trace = state.trace as TraceState
+  const { circuitId, nodeId } = state.position
+  const circuit = findCircuit(data, circuitId)
+  const timestamp = new Date().toISOString()
+  let warning: Warning
+  let description: string
+
+  if (threshold.escalation === 'RAISE_CD') {
+    const increase = threshold.cdIncrease ?? DEFAULT_TRACE_CD_INCREASE
+    state.trace = { ...trace, cdIncrease: trace.cdIncrease + increase }
+    warning = {
+      severity: 'INFO',
+      nodeId,
+      message: `TRACE LEVEL ${trace.level} — SECURITY PROTOCOLS HARDENED`,
+      timestamp,
+    }
+    description = `Rastreo ${trace.level} — dificultad de los nodos +${increase}`
+  } else if (threshold.escalation === 'REVEAL_TO_ICE') {
+    state.trace = { ...trace, revealedToIce: true }
+    warning = {
+      severity: 'ALERT',
+      nodeId,
+      message: `TRACE LEVEL ${trace.level} — POSITION EXPOSED — ICE HUNTING`,
+      timestamp,
+    }
+    description = `Rastreo ${trace.level} — posición revelada al ICE`
+  } else {
+    state.blockedCircuits = { ...state.blockedCircuits, [circuitId]: true }
+    warning = {
+      severity: 'LOCKDOWN',
+      nodeId,
+      message: `TRACE LEVEL ${trace.level} — LOCKDOWN ENGAGED — CIRCUIT ${circuit?.name ?? circuitId}`,
+      timestamp,
     }
+    description = `Rastreo ${trace.level} — circuito ${circuit?.name ?? circuitId} bloqueado`
   }
 
-  // Record LINKS_DISCOVERED timeline event
-  const discoverEvent = createTimelineEvent(
-    'LINKS_DISCOVERED',
-    newState,
+  state.warnings = [...state.warnings, warning]
+
+  const escalationEvent = createTimelineEvent(
+    'TRACE_ESCALATION',
+    state,
     circuitId,
-    `${discoveredLinks.length} enlace(s) oculto(s) descubierto(s)`,
+    description,
     {
       nodeId,
-      details: {
-        discoveredLinks,
-        discoveredNodes,
-      },
+      details: { traceLevel: trace.level, traceEscalation: threshold.escalation, warningGenerated: true },
     }
   )
-  newState.timeline = [...newState.timeline, discoverEvent]
+  state.timeline = [...state.timeline, escalationEvent]
 
-  return {
-    newState,
-    result: {
-      discoveredLinks,
-      discoveredNodes,
-      message: `SCAN COMPLETE — ${discoveredLinks.length} HIDDEN PATHWAY(S) REVEALED`,
-    },
+  if (threshold.escalation === 'LOCKDOWN' && circuit) {
+    const circuitBlockEvent = createTimelineEvent(
+      'CIRCUIT_BLOCKED',
+      state,
+      circuitId,
+      `Circuito ${circuit.name} bloqueado — RASTREO`
+    )
+    state.timeline = [...state.timeline, circuitBlockEvent]
   }
 }
 
 /**
- * Move to a node
+ * Raise the trace meter with the warnings of a resolved action
  *
- * RULES (Direct Link Movement):
- * - Only movement to nodes connected by direct link (no free fast-travel)
- * - Hacked adjacent node: allow movement (retreat)
- * - Non-hacked adjacent node: requires current node hacked (advance) + target discovered
- * - Level does NOT determine movement — only links and hack state matter
+ * RULES:
+ * - TRACE, ALERT and critical (BLACK_ICE) warnings add their configured amount
+ * - Each threshold fires its escalation once, the first time it is reached;
+ *   several thresholds reached at once fire in value order
+ * - Warnings raised by the escalations themselves do not feed the meter
  */
-export function moveToNode(
+function resolveTrace(previousState: RunState, state: RunState, data: ProjectData): RunState {
+  const config = data.meta.trace
+  if (!config) return state
+
+  const amount = state.warnings
+    .slice(previousState.warnings.length)
+    .reduce((sum, warning) => sum + getTraceAmount(config, warning.severity), 0)
+  if (amount === 0) return state
+
+  const trace = state.trace ?? createTraceState()
+  const level = trace.level + amount
+  const reached = config.thresholds
+    .map((threshold, index) => ({ threshold, index }))
+    .filter(({ threshold, index }) => threshold.value <= level && !trace.reachedThresholds.includes(index))
+    .sort((a, b) => a.threshold.value - b.threshold.value)
+
+  const newState: RunState = {
+    ...state,
+    trace: { ...trace, level, reachedThresholds: [...trace.reachedThresholds, ...reached.map((r) => r.index)] },
+  }
+
+  for (const { threshold } of reached) {
+    applyTraceEscalation(newState, data, threshold)
+  }
+
+  return newState
+}
+
+/**
+ * Trace meter summary for the renderers (null when the project has no meter)
+ * `max` is the highest threshold, or the level once it goes beyond it
+ */
+export function getTraceStatus(
+  state: RunState,
+  data: ProjectData
+): { level: number; max: number; nextThreshold: TraceThreshold | null } | null {
+  const config = data.meta.trace
+  if (!config) return null
+
+  const level = state.trace?.level ?? 0
+  const values = config.thresholds.map((threshold) => threshold.value)
+  const nextThreshold = config.thresholds
+    .filter((threshold) => threshold.value > level)
+    .sort((a, b) => a.value - b.value)[0] ?? null
+
+  return { level, max: Math.max(level, ...values, 1), nextThreshold }
+}
+
+/**
+ * Run a player action and let the network's countermeasures react to it:
+ * first the ICE of the player's circuit, then the trace meter (which also
+ * counts the warnings raised by ICE contacts)
+ * Returns the original state untouched when the action changed nothing
+ */
+export function applyWithCountermeasures<R>(
   state: RunState,
   data: ProjectData,
-  targetNodeId: string
-): { newState: RunState; result: MoveToNodeResult } {
-  const { circuitId, nodeId: currentNodeId } = state.position
-  const circuit = findCircuit(data, circuitId)
+  action: (state: RunState) => { newState: RunState; result: R }
+): { newState: RunState; result: R } {
+  const outcome = action(state)
+  if (outcome.newState === state) return outcome
 
-  if (!circuit) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'NETWORK ERROR — CIRCUIT NOT FOUND',
-      },
-    }
-  }
+  const afterIce = resolveIce(state, outcome.newState, data)
+  return { newState: resolveTrace(state, afterIce, data), result: outcome.result }
+}
 
-  // Check if circuit is blocked
-  if (state.blockedCircuits?.[circuitId] === true) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'CIRCUIT IN LOCKDOWN — MOVEMENT DISABLED',
-      },
-    }
-  }
+// =============================================================================
+// BUDGETS (Action and time limits per run or circuit)
+// =============================================================================
 
-  // Can't move to same node
-  if (targetNodeId === currentNodeId) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'ALREADY AT TARGET NODE',
-      },
-    }
+// Result message of player actions once a budget ended the run
+const RUN_OVER_MESSAGE = 'CONNECTION TERMINATED — RUN OVER'
+
+/**
+ * Fresh budget - the clock only runs when a start time is given
+ */
+function createBudgetState(budget: BudgetConfig, clockStart?: Date): BudgetState {
+  const budgetState: BudgetState = { expired: false }
+  if (budget.actions !== undefined) {
+    budgetState.actionsLeft = budget.actions
   }
+  return clockStart ? startBudgetClock(budgetState, budget, clockStart) : budgetState
+}
 
-  // Check target node exists and get its state
-  const targetNode = circuit.nodes.find((n) => n.id === targetNodeId)
-  if (!targetNode) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET NODE NOT FOUND',
-      },
-    }
-  }
+/**
+ * Start the clock of a budget (no-op when it has no clock or already runs)
+ */
+function startBudgetClock(budgetState: BudgetState, budget: BudgetConfig, now: Date): BudgetState {
+  if (budget.seconds === undefined || budgetState.deadline || budgetState.expired) return budgetState
+  return { ...budgetState, deadline: new Date(now.getTime() + budget.seconds * 1000).toISOString() }
+}
 
-  const targetNodeState = state.nodes[targetNodeId]
-  if (!targetNodeState) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'NODE STATE ERROR',
-      },
-    }
-  }
+/**
+ * Spend one action of a budget
+ */
+function spendBudgetAction(budgetState: BudgetState, budget: BudgetConfig, now: Date): BudgetState {
+  const started = startBudgetClock(budgetState, budget, now)
+  return started.actionsLeft === undefined
+    ? started
+    : { ...started, actionsLeft: Math.max(0, started.actionsLeft - 1) }
+}
 
-  // Check target is not inaccessible
-  if (targetNodeState.inaccesible) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET NODE UNREACHABLE',
-      },
-    }
-  }
+/**
+ * Whether a budget has run out (no actions left or past its deadline)
+ */
+function isBudgetExhausted(budgetState: BudgetState, now: Date): boolean {
+  return budgetState.actionsLeft === 0 ||
+    (budgetState.deadline !== undefined && now.getTime() >= Date.parse(budgetState.deadline))
+}
 
-  // Check target is not blocked
-  if (targetNodeState.bloqueado) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET NODE IN LOCKDOWN — ACCESS DENIED',
-      },
-    }
-  }
+/**
+ * Fire the outcome of a budget that just ran out
+ *
+ * RULES:
+ * - LOCKDOWN locks the circuit (every circuit, for the run budget)
+ * - GAME_OVER ends the run: player actions are refused from then on
+ * - SWITCH_CIRCUIT forces the player into the target circuit; when that
+ *   circuit cannot be entered (locked, already there) it falls back to LOCKDOWN
+ * - Recorded as a BUDGET_EXPIRED event ahead of the outcome's own events
+ */
+function expireBudget(
+  state: RunState,
+  data: ProjectData,
+  scope: 'RUN' | 'CIRCUIT',
+  budget: BudgetConfig,
+  circuitId: string
+): RunState {
+  const circuit = findCircuit(data, circuitId)
+  const scopeName = scope === 'RUN' ? 'RUN' : `CIRCUIT ${circuit?.name ?? circuitId}`
+  const nodeId = state.position.nodeId
+  const timestamp = new Date().toISOString()
 
-  // STEP 1: Find a link between current and target node (REQUIRED for all movement)
-  const connectingLink = circuit.links.find((link) =>
-    linkConnectsNodes(link, currentNodeId, targetNodeId)
-  )
+  let newState: RunState = scope === 'RUN'
+    ? { ...state, runBudget: { ...(state.runBudget as BudgetState), expired: true } }
+    : {
+        ...state,
+        circuitBudgets: {
+          ...state.circuitBudgets,
+          [circuitId]: { ...(state.circuitBudgets?.[circuitId] as BudgetState), expired: true },
+        },
+      }
 
-  if (!connectingLink) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'NO DIRECT PATHWAY TO TARGET',
-      },
+  const forcedSwitch = budget.onExpire === 'SWITCH_CIRCUIT' && budget.switchToCircuitId
+    ? switchCircuit(newState, data, budget.switchToCircuitId)
+    : null
+  const outcome = budget.onExpire === 'SWITCH_CIRCUIT' && !forcedSwitch?.result.success
+    ? 'LOCKDOWN'
+    : budget.onExpire
+
+  let warning: Warning
+  let description: string
+  if (outcome === 'GAME_OVER') {
+    warning = {
+      severity: 'BLACK_ICE',
+      nodeId,
+      message: `TIME WINDOW CLOSED — ${scopeName} — CONNECTION TERMINATED`,
+      timestamp,
+    }
+    description = `GAME OVER — tiempo agotado (${scope === 'RUN' ? 'run' : circuit?.name ?? circuitId})`
+  } else if (outcome === 'SWITCH_CIRCUIT') {
+    const target = findCircuit(data, budget.switchToCircuitId as string)
+    warning = {
+      severity: 'ALERT',
+      nodeId,
+      message: `TIME WINDOW CLOSED — ${scopeName} — FORCED REROUTE TO ${target?.name.toUpperCase()}`,
+      timestamp,
+    }
+    description = `Tiempo agotado — desvío forzado a ${target?.name}`
+  } else {
+    warning = {
+      severity: 'LOCKDOWN',
+      nodeId,
+      message: `TIME WINDOW CLOSED — ${scopeName} — LOCKDOWN ENGAGED`,
+      timestamp,
     }
+    description = scope === 'RUN'
+      ? 'Tiempo agotado — todos los circuitos bloqueados'
+      : `Tiempo agotado — circuito ${circuit?.name ?? circuitId} bloqueado`
   }
 
-  const linkState = state.links[connectingLink.id]
+  newState = { ...newState, warnings: [...newState.warnings, warning] }
+  const expiredEvent = createTimelineEvent(
+    'BUDGET_EXPIRED',
+    newState,
+    circuitId,
+    description,
+    { nodeId, details: { budgetScope: scope, budgetOutcome: outcome, warningGenerated: true } }
+  )
+  newState = { ...newState, timeline: [...newState.timeline, expiredEvent] }
 
-  // STEP 2: Link must be discovered
-  if (!linkState || !linkState.descubierto) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'PATHWAY NOT YET MAPPED',
-      },
-    }
+  if (outcome === 'GAME_OVER') {
+    return { ...newState, gameOver: true }
   }
 
-  // Check link is not inaccessible
-  if (linkState.inaccesible) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'PATHWAY BLOCKED',
-      },
-    }
+  if (outcome === 'SWITCH_CIRCUIT') {
+    return switchCircuit(newState, data, budget.switchToCircuitId as string).newState
   }
 
-  // STEP 3: If target is hacked → allow movement (retreat)
-  if (targetNodeState.hackeado) {
-    const newState = structuredClone(state)
-    newState.position = {
-      circuitId,
-      nodeId: targetNodeId,
-    }
-
-    return {
+  const lockedCircuits = scope === 'RUN' ? data.circuits : circuit ? [circuit] : []
+  for (const locked of lockedCircuits) {
+    if (newState.blockedCircuits?.[locked.id]) continue
+    newState = { ...newState, blockedCircuits: { ...newState.blockedCircuits, [locked.id]: true } }
+    const circuitBlockEvent = createTimelineEvent(
+      'CIRCUIT_BLOCKED',
       newState,
-      result: {
-        success: true,
-        newPosition: newState.position,
-        message: `RECONNECTING TO ${targetNode.name.toUpperCase()}...`,
-      },
-    }
+      locked.id,
+      `Circuito ${locked.name} bloqueado — TIEMPO AGOTADO`
+    )
+    newState = { ...newState, timeline: [...newState.timeline, circuitBlockEvent] }
   }
+  return newState
+}
 
-  // STEP 4: Target is NOT hacked → requires current node hacked (advance)
-  const currentNodeState = state.nodes[currentNodeId]
-  if (!currentNodeState?.hackeado) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'CURRENT NODE NOT COMPROMISED — CANNOT TRAVERSE',
-      },
-    }
+/**
+ * Consume one action of the run budget and of the budget of the circuit
+ * where the action happened, firing the outcome of any budget that ran out
+ * Clocks are checked here too: time limits expire on the next action
+ */
+function consumeBudget(previousState: RunState, state: RunState, data: ProjectData): RunState {
+  const circuitId = previousState.position.circuitId
+  const circuit = findCircuit(data, circuitId)
+  const runBudget = data.meta.budget
+  const circuitBudget = circuit?.budget
+  if (!runBudget && !circuitBudget) return state
+
+  const now = new Date()
+  let newState = state
+  let runExhausted = false
+  let circuitExhausted = false
+
+  if (runBudget && !state.runBudget?.expired) {
+    const spent = spendBudgetAction(state.runBudget ?? createBudgetState(runBudget, now), runBudget, now)
+    newState = { ...newState, runBudget: spent }
+    runExhausted = isBudgetExhausted(spent, now)
   }
 
-  // STEP 5: Target must be discovered
-  if (!targetNodeState.descubierto) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET NODE NOT YET IDENTIFIED',
-      },
-    }
+  if (circuitBudget && !state.circuitBudgets?.[circuitId]?.expired) {
+    const current = state.circuitBudgets?.[circuitId] ?? createBudgetState(circuitBudget, now)
+    const spent = spendBudgetAction(current, circuitBudget, now)
+    newState = { ...newState, circuitBudgets: { ...newState.circuitBudgets, [circuitId]: spent } }
+    circuitExhausted = isBudgetExhausted(spent, now)
   }
 
-  // Perform move
-  const newState = structuredClone(state)
-  newState.position = {
-    circuitId,
-    nodeId: targetNodeId,
+  if (circuitExhausted && circuitBudget) {
+    newState = expireBudget(newState, data, 'CIRCUIT', circuitBudget, circuitId)
+  }
+  if (runExhausted && runBudget && !newState.gameOver) {
+    newState = expireBudget(newState, data, 'RUN', runBudget, newState.position.circuitId)
   }
 
-  return {
-    newState,
-    result: {
-      success: true,
-      newPosition: newState.position,
-      message: `TRAVERSING TO ${targetNode.name.toUpperCase()}...`,
-    },
+  return newState
+}
+
+/**
+ * Run a budgeted player action (hack, move, link search)
+ * Refused once the run is over; consumes the budgets when it changed the state
+ */
+function withBudget<R>(
+  state: RunState,
+  data: ProjectData,
+  runOverResult: R,
+  action: () => { newState: RunState; result: R }
+): { newState: RunState; result: R } {
+  if (state.gameOver) {
+    return { newState: state, result: runOverResult }
   }
+
+  const outcome = action()
+  if (outcome.newState === state) return outcome
+
+  return { newState: consumeBudget(state, outcome.newState, data), result: outcome.result }
 }
 
 /**
- * Get available moves from current position
- *
- * RULES (Direct Link Movement):
- * - Only adjacent nodes connected by discovered links
- * - retreat: hacked adjacent nodes (can move back without current being hacked)
- * - advance: non-hacked adjacent nodes (requires current node hacked + target discovered)
- *
- * Returns object with:
- * - fastTravel: hacked adjacent nodes (retreat targets)
- * - advance: non-hacked adjacent nodes (advance targets, requires current hacked)
- * - all: combined list of all available moves
+ * Remaining budgets for the renderers: the run budget and the budget of the
+ * player's current circuit (null when not configured)
  */
-export function getAvailableMoves(
+export function getBudgetStatus(
   state: RunState,
   data: ProjectData
-): { fastTravel: string[]; advance: string[]; all: string[] } {
-  const { circuitId, nodeId: currentNodeId } = state.position
+): { run: BudgetState | null; circuit: BudgetState | null } {
+  const circuitId = state.position.circuitId
   const circuit = findCircuit(data, circuitId)
 
-  if (!circuit) return { fastTravel: [], advance: [], all: [] }
+  return {
+    run: data.meta.budget ? state.runBudget ?? createBudgetState(data.meta.budget) : null,
+    circuit: circuit?.budget ? state.circuitBudgets?.[circuitId] ?? createBudgetState(circuit.budget) : null,
+  }
+}
 
-  const fastTravel: string[] = [] // Hacked adjacent nodes (retreat)
-  const advance: string[] = [] // Non-hacked adjacent nodes (advance)
+// =============================================================================
+// TEAM RUNS (Several players sharing one run)
+// =============================================================================
 
-  const currentNodeState = state.nodes[currentNodeId]
-  const currentIsHacked = currentNodeState?.hackeado === true
+/**
+ * Enable per-player positions for the given players
+ * Players without a position yet start where the team currently is
+ */
+export function addPlayerPositions(state: RunState, userIds: string[]): RunState {
+  const playerPositions = { ...state.playerPositions }
+  let changed = !state.playerPositions
+
+  for (const userId of userIds) {
+    if (!playerPositions[userId]) {
+      playerPositions[userId] = { ...state.position }
+      changed = true
+    }
+  }
 
-  // Get all links from current node
-  const linksFromNode = getLinksFromNode(circuit, currentNodeId)
+  return changed ? { ...state, playerPositions } : state
+}
 
-  for (const link of linksFromNode) {
-    const linkState = state.links[link.id]
+/**
+ * Get the state as seen by a player
+ * In team runs `position` is replaced by the player's own position;
+ * solo runs (or unknown players) get the shared state untouched.
+ */
+export function getPlayerView(state: RunState, userId: string | null | undefined): RunState {
+  const position = userId ? state.playerPositions?.[userId] : undefined
+  if (!position) return state
+  if (position.circuitId === state.position.circuitId && position.nodeId === state.position.nodeId) {
+    return state
+  }
+  return { ...state, position: { ...position } }
+}
 
-    // Link must be discovered and not blocked
-    if (!linkState || !linkState.descubierto || linkState.inaccesible) {
-      continue
-    }
+/**
+ * Run a player action on behalf of a team member
+ *
+ * RULES:
+ * - The action runs against the player's own position (team runs)
+ * - Every timeline event produced by the action is attributed to the player
+ * - The resulting position is stored back as the player's position
+ * - Returns the original state untouched when the action changed nothing
+ */
+export function applyAsPlayer<R>(
+  state: RunState,
+  actor: RunActor,
+  action: (playerState: RunState) => { newState: RunState; result: R }
+): { newState: RunState; result: R } {
+  const playerState = getPlayerView(state, actor.userId)
+  const { newState, result } = action(playerState)
+
+  if (newState === playerState) {
+    return { newState: state, result }
+  }
 
-    const targetNodeId = getLinkTarget(link, currentNodeId)
-    const targetNodeState = state.nodes[targetNodeId]
+  const previousLength = state.timeline.length
+  const timeline = newState.timeline.map((event, index) =>
+    index < previousLength
+      ? event
+      : { ...event, actorUserId: actor.userId, actorName: actor.name ?? undefined }
+  )
 
-    if (!targetNodeState) continue
-    if (targetNodeState.inaccesible || targetNodeState.bloqueado) continue
+  const playerPositions = newState.playerPositions?.[actor.userId]
+    ? { ...newState.playerPositions, [actor.userId]: { ...newState.position } }
+    : newState.playerPositions
 
-    if (targetNodeState.hackeado) {
-      // Hacked adjacent node → retreat allowed (no restriction)
-      if (!fastTravel.includes(targetNodeId)) {
-        fastTravel.push(targetNodeId)
-      }
-    } else if (currentIsHacked && targetNodeState.descubierto) {
-      // Non-hacked adjacent node → advance allowed if current is hacked + target discovered
-      if (!advance.includes(targetNodeId)) {
-        advance.push(targetNodeId)
+  return {
+    newState: { ...newState, timeline, playerPositions },
+    result,
+  }
+}
+
+// =============================================================================
+// GM OVERRIDES (Live control console)
+// =============================================================================
+
+/**
+ * Apply a GM override to the run state
+ *
+ * RULES:
+ * - Bypasses the normal game rules (no rolls, no link checks)
+ * - Every applied override records a GM_OVERRIDE timeline event so
+ *   interventions can be told apart from player actions in the audit
+ * - Returns the original state untouched when the override is not applicable
+ */
+export function applyGmAction(
+  state: RunState,
+  data: ProjectData,
+  action: GmAction
+): { newState: RunState; result: GmActionResult } {
+  const fail = (message: string) => ({
+    newState: state,
+    result: { success: false, message },
+  })
+
+  const newState = structuredClone(state)
+  let circuitId = state.position.circuitId
+  let nodeId: string | undefined
+  let description: string
+  let message: string
+  let payloadIds: string[] | undefined
+
+  switch (action.type) {
+    case 'FORCE_HACK':
+    case 'UNBLOCK_NODE':
+    case 'REVEAL_NODE':
+    case 'HIDE_NODE':
+    case 'SET_NODE_INACCESSIBLE':
+    case 'TELEPORT': {
+      const found = findNode(data, action.nodeId)
+      const nodeState = newState.nodes[action.nodeId]
+      if (!found || !nodeState) return fail('TARGET NODE NOT FOUND')
+
+      const { circuit, node } = found
+      circuitId = circuit.id
+      nodeId = node.id
+
+      if (action.type === 'FORCE_HACK') {
+        if (nodeState.hackeado) return fail('NODE ALREADY COMPROMISED')
+        nodeState.hackeado = true
+        nodeState.bloqueado = false
+        nodeState.descubierto = true
+        nodeState.ultimoResultado = 'exito'
+        newState.lastHackedNodeByCircuit[circuit.id] = node.id
+        const payloads = deliverPayloads(newState, circuit, node, new Date().toISOString())
+        payloadIds = payloads.length > 0 ? payloads.map((item) => item.payloadId) : undefined
+        description = `GM: Nodo ${node.name} comprometido manualmente`
+        message = `GM OVERRIDE — ${node.name.toUpperCase()} COMPROMISED`
+      } else if (action.type === 'UNBLOCK_NODE') {
+        if (!nodeState.bloqueado) return fail('NODE IS NOT IN LOCKDOWN')
+        nodeState.bloqueado = false
+        description = `GM: Nodo ${node.name} desbloqueado`
+        message = `GM OVERRIDE — ${node.name.toUpperCase()} RELEASED`
+      } else if (action.type === 'REVEAL_NODE') {
+        if (nodeState.descubierto) return fail('NODE ALREADY IDENTIFIED')
+        nodeState.descubierto = true
+        description = `GM: Nodo ${node.name} revelado`
+        message = `GM OVERRIDE — ${node.name.toUpperCase()} REVEALED`
+      } else if (action.type === 'HIDE_NODE') {
+        if (state.position.nodeId === node.id) return fail('CANNOT HIDE CURRENT NODE')
+        if (!nodeState.descubierto) return fail('NODE ALREADY HIDDEN')
+        nodeState.descubierto = false
+        description = `GM: Nodo ${node.name} ocultado`
+        message = `GM OVERRIDE — ${node.name.toUpperCase()} HIDDEN`
+      } else if (action.type === 'SET_NODE_INACCESSIBLE') {
+        nodeState.inaccesible = action.inaccesible
+        description = action.inaccesible
+          ? `GM: Nodo ${node.name} marcado como inaccesible`
+          : `GM: Nodo ${node.name} accesible de nuevo`
+        message = `GM OVERRIDE — ${node.name.toUpperCase()} ${action.inaccesible ? 'UNREACHABLE' : 'REACHABLE'}`
+      } else {
+        if (state.position.nodeId === node.id) return fail('ALREADY AT TARGET NODE')
+        newState.position = { circuitId: circuit.id, nodeId: node.id }
+        nodeState.descubierto = true
+        description = `GM: Teletransporte a ${node.name} (${circuit.name})`
+        message = `GM OVERRIDE — CONNECTION REROUTED TO ${node.name.toUpperCase()}`
+      }
+      break
+    }
+
+    case 'SET_LINK_INACCESSIBLE': {
+      const found = findLink(data, action.linkId)
+      const linkState = newState.links[action.linkId]
+      if (!found || !linkState) return fail('TARGET LINK NOT FOUND')
+
+      circuitId = found.circuit.id
+      linkState.inaccesible = action.inaccesible
+      description = action.inaccesible
+        ? `GM: Enlace ${found.link.from} → ${found.link.to} bloqueado`
+        : `GM: Enlace ${found.link.from} → ${found.link.to} habilitado`
+      message = `GM OVERRIDE — PATHWAY ${action.inaccesible ? 'SEVERED' : 'RESTORED'}`
+      break
+    }
+
+    case 'UNLOCK_CIRCUIT': {
+      const circuit = findCircuit(data, action.circuitId)
+      if (!circuit) return fail('TARGET CIRCUIT NOT FOUND')
+      if (newState.blockedCircuits?.[circuit.id] !== true) {
+        return fail('CIRCUIT IS NOT IN LOCKDOWN')
       }
+
+      circuitId = circuit.id
+      delete newState.blockedCircuits[circuit.id]
+      description = `GM: Circuito ${circuit.name} desbloqueado`
+      message = `GM OVERRIDE — CIRCUIT ${circuit.name.toUpperCase()} LOCKDOWN LIFTED`
+      break
+    }
+
+    case 'INJECT_WARNING': {
+      const targetNodeId = action.nodeId ?? state.position.nodeId
+      const found = findNode(data, targetNodeId)
+      if (!found) return fail('TARGET NODE NOT FOUND')
+
+      circuitId = found.circuit.id
+      nodeId = targetNodeId
+      newState.warnings.push({
+        severity: action.severity,
+        nodeId: targetNodeId,
+        message: action.message,
+        timestamp: new Date().toISOString(),
+      })
+      description = `GM: Aviso ${action.severity} — ${action.message}`
+      message = `GM OVERRIDE — ${action.severity} SIGNAL INJECTED`
+      break
     }
   }
 
-  // Combine both lists
-  const all = [...fastTravel, ...advance]
+  const gmEvent = createTimelineEvent('GM_OVERRIDE', newState, circuitId, description, {
+    nodeId,
+    details: {
+      gmAction: action.type,
+      warningGenerated: action.type === 'INJECT_WARNING' ? true : undefined,
+      payloadIds,
+    },
+  })
+  newState.timeline = [...newState.timeline, gmEvent]
+
+  // A forced hack can complete the circuit like a regular one
+  if (action.type === 'FORCE_HACK') {
+    const circuit = findCircuit(data, circuitId)
+    if (circuit) recordCircuitCompletion(newState, data, circuit)
+  }
 
-  return { fastTravel, advance, all }
+  return {
+    newState,
+    result: { success: true, message },
+  }
 }
 
+// =============================================================================
+// ROLLBACK (GM undo to a timeline checkpoint)
+// =============================================================================
+
 /**
- * Get accessible nodes from current position (legacy helper)
- * @deprecated Use getAvailableMoves() instead for proper PROMPT 7 logic
+ * Everything a rollback restores, copied out of the run state
  */
-export function getAccessibleNodes(
-  state: RunState,
-  data: ProjectData
-): string[] {
-  return getAvailableMoves(state, data).all
+function createCheckpoint(state: RunState): RunCheckpoint {
+  const core: Partial<RunState> = { ...state }
+  delete core.timeline
+  delete core.warnings
+  delete core.diceSeed
+  delete core.diceSequence
+  return {
+    ...(structuredClone(core) as Omit<RunCheckpoint, 'warningCount'>),
+    warningCount: state.warnings.length,
+  }
 }
 
 /**
- * Get current node info
+ * Stamp the checkpoint of a write on its last timeline event
+ * Called on every committed write (and on run start). A write that records no
+ * event leaves the previous checkpoint in place, so rolling back to that
+ * checkpoint undoes it as well.
  */
-export function getCurrentNodeInfo(
-  state: RunState,
-  data: ProjectData
-): { circuit: CircuitDefinition; node: NodeDefinition; nodeState: NodeState } | null {
-  const { circuitId, nodeId } = state.position
-  const circuit = findCircuit(data, circuitId)
-
-  if (!circuit) return null
+export function checkpointRunState(state: RunState, previousState?: RunState): RunState {
+  if (previousState && state.timeline.length <= previousState.timeline.length) return state
 
-  const node = circuit.nodes.find((n) => n.id === nodeId)
-  if (!node) return null
-
-  const nodeState = state.nodes[nodeId]
-  if (!nodeState) return null
+  const lastEvent = state.timeline[state.timeline.length - 1]
+  if (!lastEvent) return state
 
-  return { circuit, node, nodeState }
+  return {
+    ...state,
+    timeline: [...state.timeline.slice(0, -1), { ...lastEvent, checkpoint: createCheckpoint(state) }],
+  }
 }
 
 /**
- * Switch to a different circuit
+ * Roll the run back to the checkpoint of a timeline event (GM undo)
  *
  * RULES:
- * - Can switch to any circuit at any time (no blocking)
- * - State of all circuits is preserved independently
- * - Position moves to:
- *   1. Last hacked node in target circuit (if exists)
- *   2. First entry node (level 0) in target circuit (if no hacked nodes)
- * - Does NOT modify node/link states
+ * - Only events carrying a checkpoint can be targets: the last event of each
+ *   committed write (runs started before rollbacks existed have none)
+ * - Position, nodes, links and every countermeasure are restored; warnings
+ *   raised after the checkpoint are dropped
+ * - History is kept: the timeline is never truncated and the rollback is
+ *   recorded as a ROLLBACK event
+ * - The server dice counter keeps going - a replayed hack gets fresh dice
  */
-export function switchCircuit(
+export function rollbackToEvent(
   state: RunState,
   data: ProjectData,
-  targetCircuitId: string
-): { newState: RunState; result: SwitchCircuitResult } {
-  // Check target circuit exists
-  const targetCircuit = findCircuit(data, targetCircuitId)
-
-  if (!targetCircuit) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET CIRCUIT NOT FOUND',
-      },
-    }
-  }
-
-  // Already on this circuit?
-  if (state.position.circuitId === targetCircuitId) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'ALREADY ON THIS CIRCUIT',
-      },
-    }
-  }
+  eventId: string
+): { newState: RunState; result: GmActionResult } {
+  const fail = (message: string) => ({
+    newState: state,
+    result: { success: false, message },
+  })
 
-  // Check if target circuit is blocked
-  if (state.blockedCircuits?.[targetCircuitId] === true) {
-    return {
-      newState: state,
-      result: {
-        success: false,
-        newPosition: state.position,
-        message: 'TARGET CIRCUIT IS LOCKED — ACCESS DENIED',
-      },
-    }
+  const target = state.timeline.find((event) => event.id === eventId)
+  if (!target) return fail('TIMELINE EVENT NOT FOUND')
+  if (!target.checkpoint) return fail('NO CHECKPOINT RECORDED FOR THIS EVENT')
+
+  const { warningCount, ...core } = structuredClone(target.checkpoint)
+  const newState: RunState = {
+    ...core,
+    warnings: state.warnings.slice(0, warningCount),
+    timeline: state.timeline,
+    diceSeed: state.diceSeed,
+    diceSequence: state.diceSequence,
   }
 
-  // Determine target node:
-  // 1. Last hacked node in this circuit (if exists)
-  // 2. First entry node (level 0)
-  let targetNodeId: string | null = null
+  const circuit = findCircuit(data, newState.position.circuitId)
+  const rollbackEvent = createTimelineEvent(
+    'ROLLBACK',
+    newState,
+    newState.position.circuitId,
+    `GM: Run restaurada a "${target.description}"`,
+    { nodeId: newState.position.nodeId, details: { rollbackToEventId: target.id } }
+  )
+  newState.timeline = [...newState.timeline, rollbackEvent]
 
-  // Check for last hacked node
-  const lastHackedNodeId = state.lastHackedNodeByCircuit[targetCircuitId]
-  if (lastHackedNodeId) {
-    const nodeState = state.nodes[lastHackedNodeId]
-    // Verify node is still valid and hacked
-    if (nodeState && nodeState.hackeado && !nodeState.bloqueado && !nodeState.inaccesible) {
-      targetNodeId = lastHackedNodeId
-    }
+  return {
+    newState,
+    result: {
+      success: true,
+      message: `GM OVERRIDE — RUN RESTORED${circuit ? ` — ${circuit.name.toUpperCase()}` : ''}`,
+    },
   }
+}
 
-  // If no last hacked node, use entry node
-  if (!targetNodeId) {
-    const entryNodes = findEntryNodes(targetCircuit)
-    if (entryNodes.length === 0) {
-      return {
-        newState: state,
-        result: {
-          success: false,
-          newPosition: state.position,
-          message: 'NO ENTRY POINT IN TARGET CIRCUIT',
-        },
-      }
-    }
-    targetNodeId = entryNodes[0].id
-  }
+// =============================================================================
+// FORK (Branch a new run from a timeline checkpoint)
+// =============================================================================
 
-  // Get target node info
-  const targetNode = targetCircuit.nodes.find((n) => n.id === targetNodeId)
+/**
+ * Build the initial state of a run forked from a timeline event
+ *
+ * RULES:
+ * - The fork starts where the run settled after the chosen event: its own
+ *   checkpoint, or the checkpoint of the write it was part of
+ * - History up to that checkpoint is copied and the fork is recorded as a
+ *   RUN_FORKED event - the parent run is never modified
+ * - Running budget clocks keep the time they had left at the checkpoint
+ * - The fork rolls its own dice: it gets a fresh seed on its first roll, so
+ *   neither run's rolls predict the other's (copied roll records keep the
+ *   parent's seed and stay verifiable)
+ */
+export function forkRunState(
+  state: RunState,
+  data: ProjectData,
+  eventId: string
+): { newState: RunState | null; result: GmActionResult } {
+  const fail = (message: string) => ({
+    newState: null,
+    result: { success: false, message },
+  })
 
-  // Store previous circuit for timeline
-  const previousCircuitId = state.position.circuitId
+  const targetIndex = state.timeline.findIndex((event) => event.id === eventId)
+  if (targetIndex === -1) return fail('TIMELINE EVENT NOT FOUND')
 
-  // Create new state with updated position
-  const newState = structuredClone(state)
-  newState.position = {
-    circuitId: targetCircuitId,
-    nodeId: targetNodeId,
+  const checkpointIndex = state.timeline.findIndex(
+    (event, index) => index >= targetIndex && event.checkpoint !== undefined
+  )
+  const source = state.timeline[checkpointIndex]
+  if (!source?.checkpoint) return fail('NO CHECKPOINT RECORDED FOR THIS EVENT')
+
+  const { warningCount, ...core } = structuredClone(source.checkpoint)
+  const newState: RunState = {
+    ...core,
+    warnings: state.warnings.slice(0, warningCount),
+    timeline: state.timeline.slice(0, checkpointIndex + 1),
   }
 
-  // Ensure target node is discovered
-  if (newState.nodes[targetNodeId]) {
-    newState.nodes[targetNodeId].descubierto = true
+  // Shift running clocks by the time elapsed since the checkpoint
+  const now = new Date()
+  const elapsed = Math.max(0, now.getTime() - new Date(source.timestamp).getTime())
+  const shiftClock = (budget: BudgetState): BudgetState =>
+    budget.deadline && !budget.expired
+      ? { ...budget, deadline: new Date(new Date(budget.deadline).getTime() + elapsed).toISOString() }
+      : budget
+  if (newState.runBudget) {
+    newState.runBudget = shiftClock(newState.runBudget)
+  }
+  if (newState.circuitBudgets) {
+    newState.circuitBudgets = Object.fromEntries(
+      Object.entries(newState.circuitBudgets).map(([circuitId, budget]) => [circuitId, shiftClock(budget)])
+    )
   }
 
-  // Record CIRCUIT_CHANGED timeline event
-  const switchEvent = createTimelineEvent(
-    'CIRCUIT_CHANGED',
+  const circuit = findCircuit(data, newState.position.circuitId)
+  const forkEvent = createTimelineEvent(
+    'RUN_FORKED',
     newState,
-    targetCircuitId,
-    `Cambio a circuito ${targetCircuit.name}`,
-    {
-      nodeId: targetNodeId,
-      details: {
-        previousCircuitId,
-      },
-    }
+    newState.position.circuitId,
+    `Rama creada desde "${source.description}"`,
+    { nodeId: newState.position.nodeId, details: { forkedFromEventId: source.id } }
   )
-  newState.timeline = [...newState.timeline, switchEvent]
 
   return {
-    newState,
+    newState: checkpointRunState({ ...newState, timeline: [...newState.timeline, forkEvent] }),
     result: {
       success: true,
-      newPosition: newState.position,
-      message: `SWITCHING TO ${targetCircuit.name.toUpperCase()}${targetNode ? ` — CONNECTING TO ${targetNode.name.toUpperCase()}` : ''}...`,
+      message: `RUN FORKED${circuit ? ` — ${circuit.name.toUpperCase()}` : ''}`,
     },
   }
 }
 
+// =============================================================================
+// DEFINITION MIGRATION (Upgrade a run to another definition version)
+// =============================================================================
+
 /**
- * Get circuit summary for selection UI
+ * Upgrade the state of a run to another definition version
+ * The same call builds the dry-run report and the migrated state.
+ *
+ * RULES:
+ * - Node and link state (hacked, discovered, blocked...) is kept for every ID
+ *   that still exists; new IDs start as a new run would (initializeRunState)
+ * - Players on a removed node move to the first entry node of its circuit,
+ *   or to the start node when the circuit is gone too
+ * - Circuit flags, ICE, trace and budgets follow the same keep-or-initialize rule
+ * - Warnings, inventory and history are kept; rollback checkpoints describe
+ *   the previous version, so they are dropped
  */
-export function getCircuitSummary(
+export function migrateRunState(
   state: RunState,
-  data: ProjectData
-): Array<{
-  id: string
-  name: string
-  description?: string
-  isActive: boolean
-  nodeCount: number
-  hackedCount: number
-  blockedCount: number
-  hasProgress: boolean
-}> {
-  const currentCircuitId = state.position.circuitId
-
-  return data.circuits.map((circuit) => {
-    let hackedCount = 0
-    let blockedCount = 0
+  from: ProjectData,
+  to: ProjectData,
+  versions?: { from: number; to: number }
+): { newState: RunState; report: RunMigrationReport } {
+  const fresh = initializeRunState(to)
+  const nodeName = (nodeId: string) => findNode(from, nodeId)?.node.name ?? nodeId
+
+  const report: RunMigrationReport = {
+    keptNodes: 0,
+    addedNodes: [],
+    removedNodes: [],
+    keptLinks: 0,
+    addedLinks: [],
+    removedLinks: [],
+    removedCircuits: from.circuits
+      .filter((circuit) => !findCircuit(to, circuit.id))
+      .map((circuit) => ({ id: circuit.id, name: circuit.name })),
+    movedPlayers: [],
+  }
 
-    for (const node of circuit.nodes) {
-      const nodeState = state.nodes[node.id]
-      if (nodeState) {
-        if (nodeState.hackeado) hackedCount++
-        if (nodeState.bloqueado) blockedCount++
-      }
+  // Nodes and links: keep what still exists, initialize the rest
+  const nodes: Record<string, NodeState> = {}
+  for (const [nodeId, freshNode] of Object.entries(fresh.nodes)) {
+    if (state.nodes[nodeId]) {
+      nodes[nodeId] = state.nodes[nodeId]
+      report.keptNodes++
+    } else {
+      nodes[nodeId] = freshNode
+      report.addedNodes.push({ id: nodeId, name: findNode(to, nodeId)?.node.name ?? nodeId })
     }
+  }
+  for (const nodeId of Object.keys(state.nodes)) {
+    if (!fresh.nodes[nodeId]) report.removedNodes.push({ id: nodeId, name: nodeName(nodeId) })
+  }
 
-    return {
-      id: circuit.id,
-      name: circuit.name,
-      description: circuit.description,
-      isActive: circuit.id === currentCircuitId,
-      nodeCount: circuit.nodes.length,
-      hackedCount,
-      blockedCount,
-      hasProgress: hackedCount > 0 || blockedCount > 0,
+  const links: Record<string, LinkState> = {}
+  for (const [linkId, freshLink] of Object.entries(fresh.links)) {
+    if (state.links[linkId]) {
+      links[linkId] = state.links[linkId]
+      report.keptLinks++
+    } else {
+      links[linkId] = freshLink
+      report.addedLinks.push(linkId)
     }
-  })
+  }
+  report.removedLinks = Object.keys(state.links).filter((linkId) => !fresh.links[linkId])
+
+  // Players off removed nodes (in team runs `position` mirrors one of them)
+  const relocate = (position: Position, userId?: string, track = true): Position => {
+    const found = findNode(to, position.nodeId)
+    if (found) return { circuitId: found.circuit.id, nodeId: found.node.id }
+
+    const circuit = findCircuit(to, position.circuitId)
+    const entryNode = circuit ? findEntryNodes(circuit)[0] : undefined
+    const target = circuit && entryNode ? { circuitId: circuit.id, nodeId: entryNode.id } : fresh.position
+    nodes[target.nodeId] = { ...nodes[target.nodeId], descubierto: true }
+    if (track) report.movedPlayers.push({ userId, from: position, to: target })
+    return target
+  }
+
+  const position = relocate(state.position, undefined, !state.playerPositions)
+  const playerPositions = state.playerPositions
+    ? Object.fromEntries(
+        Object.entries(state.playerPositions).map(([userId, playerPosition]) => [
+          userId,
+          relocate(playerPosition, userId),
+        ])
+      )
+    : undefined
+
+  // Circuit-keyed state: drop removed circuits
+  const keepCircuits = <T>(record: Record<string, T> | undefined) =>
+    Object.fromEntries(Object.entries(record ?? {}).filter(([circuitId]) => findCircuit(to, circuitId)))
+
+  const lastHackedNodeByCircuit = Object.fromEntries(
+    Object.entries(keepCircuits(state.lastHackedNodeByCircuit)).filter(([, nodeId]) => nodes[nodeId])
+  )
+
+  const unlockedCircuits = to.meta.circuitGating
+    ? Array.from(
+        new Set([
+          ...(state.unlockedCircuits ?? fresh.unlockedCircuits ?? []).filter((id) => findCircuit(to, id)),
+          position.circuitId,
+        ])
+      )
+    : undefined
+
+  const ice = fresh.ice
+    ? Object.fromEntries(
+        Object.entries(fresh.ice).map(([iceId, freshIce]) => {
+          const current = state.ice?.[iceId]
+          return [iceId, current && nodes[current.nodeId] ? current : freshIce]
+        })
+      )
+    : undefined
+
+  const circuitBudgets = fresh.circuitBudgets
+    ? Object.fromEntries(
+        Object.entries(fresh.circuitBudgets).map(([circuitId, freshBudget]) => [
+          circuitId,
+          state.circuitBudgets?.[circuitId] ?? freshBudget,
+        ])
+      )
+    : undefined
+
+  const newState: RunState = {
+    ...state,
+    position,
+    playerPositions,
+    nodes,
+    links,
+    lastHackedNodeByCircuit,
+    blockedCircuits: keepCircuits(state.blockedCircuits),
+    completedCircuits: keepCircuits(state.completedCircuits),
+    unlockedCircuits,
+    ice,
+    trace: to.meta.trace ? state.trace ?? fresh.trace : undefined,
+    runBudget: to.meta.budget ? state.runBudget ?? fresh.runBudget : undefined,
+    circuitBudgets,
+    timeline: state.timeline.map((event) => ({ ...event, checkpoint: undefined })),
+  }
+
+  const migrateEvent = createTimelineEvent(
+    'RUN_MIGRATED',
+    newState,
+    position.circuitId,
+    versions
+      ? `Run migrada de v${versions.from} a v${versions.to}`
+      : 'Run migrada a una nueva versión de la definición',
+    { nodeId: position.nodeId }
+  )
+
+  return {
+    newState: checkpointRunState({
+      ...newState,
+      timeline: [...newState.timeline, migrateEvent],
+    }),
+    report,
+  }
 }
 
 // =============================================================================
 // AUDIT FUNCTIONS (Observation-only, no state modification)
 // =============================================================================
 
-import type { CircuitAuditSummary, RunAuditData, ExportFormat } from './types'
+import type { CircuitAuditSummary, RunAuditData, ExportFormat, ExtractedPayloadAudit } from './types'
 
 /**
  * Generate comprehensive audit data for a run
@@ -1344,6 +3608,11 @@ export function generateAuditData(
     blockedNodes,
     circuits: circuitAudits,
     timeline: state.timeline || [],
+    gmInterventions: (state.timeline || []).filter(e => e.type === 'GM_OVERRIDE' || e.type === 'ROLLBACK'),
+    extractedPayloads: (state.inventory || []).map((item): ExtractedPayloadAudit => ({
+      ...item,
+      nodeName: findNode(data, item.nodeId)?.node.name ?? item.nodeId,
+    })),
     currentPosition: state.position,
   }
 }
@@ -1376,6 +3645,8 @@ export function exportTimeline(
         description: e.description,
         circuitId: e.circuitId,
         nodeId: e.nodeId,
+        actor: e.actorName,
+        hackModifiers: e.details?.hackModifiers,
       })),
     }, null, 2)
   }
@@ -1394,10 +3665,17 @@ export function exportTimeline(
       second: '2-digit',
     })
 
+    const actor = event.actorName ? ` (${event.actorName})` : ''
+
     if (format === 'markdown') {
-      output += `${bullet}**${time}** - \`${event.type}\`: ${event.description}\n`
+      output += `${bullet}**${time}** - \`${event.type}\`${actor}: ${event.description}\n`
     } else {
-      output += `${bullet}[${time}] ${event.type}: ${event.description}\n`
+      output += `${bullet}[${time}] ${event.type}${actor}: ${event.description}\n`
+    }
+
+    // Character modifiers explain the outcome of a hack
+    if (event.details?.hackModifiers) {
+      output += `  ${bullet}${formatHackModifiers(event.details.hackModifiers)}\n`
     }
   }
 
@@ -1431,6 +3709,14 @@ export function exportAuditSummary(
         description: e.description,
         circuitId: e.circuitId,
         nodeId: e.nodeId,
+        hackModifiers: e.details?.hackModifiers,
+      })),
+      gmInterventions: auditData.gmInterventions.map(e => ({
+        action: e.details?.gmAction ?? e.type,
+        timestamp: e.timestamp,
+        description: e.description,
+        circuitId: e.circuitId,
+        nodeId: e.nodeId,
       })),
       circuits: auditData.circuits.map(c => ({
         ...c,
@@ -1465,6 +3751,9 @@ export function exportAuditSummary(
   output += `${bullet}${bold('Circuitos')}: ${auditData.completedCircuits}/${auditData.totalCircuits} completados\n`
   output += `${bullet}${bold('Nodos')}: ${auditData.hackedNodes} hackeados, ${auditData.blockedNodes} bloqueados de ${auditData.totalNodes} total\n`
   output += `${bullet}${bold('Eventos')}: ${auditData.timeline.length} registrados\n`
+  if (auditData.gmInterventions.length > 0) {
+    output += `${bullet}${bold('Intervenciones GM')}: ${auditData.gmInterventions.length}\n`
+  }
   output += separator
 
   // Per-circuit breakdown
@@ -1491,5 +3780,50 @@ export function exportAuditSummary(
     output += '\n\n'
   }
 
+  // GM interventions, kept apart from player actions
+  if (auditData.gmInterventions.length > 0) {
+    output += separator
+    output += `${h2}Intervenciones del GM\n\n`
+    for (const event of auditData.gmInterventions) {
+      const time = new Date(event.timestamp).toLocaleTimeString('es-ES', {
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+      output += `${bullet}[${time}] ${event.details?.gmAction ?? event.type}: ${event.description}\n`
+    }
+  }
+
+  // Character modifiers behind each hack outcome
+  const modifiedHacks = auditData.timeline.filter(e => e.details?.hackModifiers)
+  if (modifiedHacks.length > 0) {
+    output += separator
+    output += `${h2}Modificadores de Personaje\n\n`
+    for (const event of modifiedHacks) {
+      const modifiers = event.details?.hackModifiers
+      if (!modifiers) continue
+      const time = new Date(event.timestamp).toLocaleTimeString('es-ES', {
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+      output += `${bullet}[${time}] ${event.description} — ${formatHackModifiers(modifiers)}\n`
+    }
+  }
+
+  // Payloads extracted from compromised nodes
+  if (auditData.extractedPayloads.length > 0) {
+    output += separator
+    output += `${h2}Datos Extraídos\n\n`
+    for (const item of auditData.extractedPayloads) {
+      const time = new Date(item.extractedAt).toLocaleTimeString('es-ES', {
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+      output += `${bullet}[${time}] ${bold(item.name)} (${item.type}) — nodo ${item.nodeName}\n`
+    }
+  }
+
   return output
 }
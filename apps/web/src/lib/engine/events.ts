@@ -0,0 +1,61 @@
+// =============================================================================
+// ROLHACK ENGINE - Run Event Bus
+// =============================================================================
+// In-process pub/sub for live run updates. Services publish after every
+// committed state write; the SSE endpoint forwards updates to subscribers.
+// NOTE: single-process only - every subscriber must hit the same server.
+
+import { EventEmitter } from 'events'
+import { redactRunStateForClients, redactTimelineForClients } from './engine'
+import type { RunState, RunUpdateEvent } from './types'
+
+// Singleton pattern (survives hot reload in development)
+const globalForRunEvents = globalThis as unknown as {
+  runEventBus: EventEmitter | undefined
+}
+
+const runEventBus = globalForRunEvents.runEventBus ?? new EventEmitter()
+
+// One listener per open stream - no meaningful upper bound
+runEventBus.setMaxListeners(0)
+
+if (process.env.NODE_ENV !== 'production') globalForRunEvents.runEventBus = runEventBus
+
+/**
+ * Publish a committed state change to every subscriber of the run
+ * Timeline and warnings are append-only, so deltas are the new tail entries
+ * Subscribers are clients: the dice seed never leaves the server
+ */
+export function publishRunUpdate(
+  runId: string,
+  previousState: RunState,
+  newState: RunState,
+  revision: number
+): void {
+  const update: RunUpdateEvent = {
+    runId,
+    revision,
+    state: redactRunStateForClients(newState),
+    events: redactTimelineForClients((newState.timeline || []).slice((previousState.timeline || []).length)),
+    warnings: newState.warnings.slice(previousState.warnings.length),
+    positionChanged:
+      previousState.position.circuitId !== newState.position.circuitId ||
+      previousState.position.nodeId !== newState.position.nodeId,
+  }
+
+  runEventBus.emit(runId, update)
+}
+
+/**
+ * Subscribe to live updates of a run
+ * Returns the unsubscribe function
+ */
+export function subscribeToRun(
+  runId: string,
+  listener: (update: RunUpdateEvent) => void
+): () => void {
+  runEventBus.on(runId, listener)
+  return () => {
+    runEventBus.off(runId, listener)
+  }
+}
@@ -12,11 +12,25 @@ export * from './schemas'
 export {
   validateProjectDataFull,
   validateProjectDataFromJson,
+  analyzeProjectGraph,
   formatErrorPath,
   type ValidationError as ProjectValidationError,
   type ValidationResult as ProjectValidationResult,
+  type ValidationWarning as ProjectValidationWarning,
+  type ValidationSeverity as ProjectValidationSeverity,
 } from './validation'
 
+// Definition diff (between versions)
+export {
+  diffProjectData,
+  type DefinitionDiff,
+  type CircuitDiff,
+  type EntityDiff,
+  type DiffEntry,
+  type ChangedEntry,
+  type FieldChange,
+} from './diff'
+
 // Engine functions
 export {
   // Utilities
@@ -32,20 +46,82 @@ export {
   // Game operations
   hasHiddenLinksAvailable,
   attemptHack,
+  attemptHackWithServerDice,
+  getCharacterRollBonus,
+  applyWithCountermeasures,
+  getIcePositions,
+  getEffectiveCd,
+  getTraceStatus,
+  getBudgetStatus,
+  formatHackModifiers,
+  redactPayloads,
+  redactDiceRollSeed,
+  redactTimelineForClients,
+  redactRunStateForClients,
   discoverHiddenLinks,
   moveToNode,
   getAvailableMoves,
+  getPortalsFromNode,
+  isCircuitUnlocked,
+  getAccessDenial,
   getAccessibleNodes, // @deprecated - use getAvailableMoves
   getCurrentNodeInfo,
   // Circuit navigation
   switchCircuit,
   getCircuitSummary,
+  // Team runs
+  addPlayerPositions,
+  getPlayerView,
+  applyAsPlayer,
+  // Run lifecycle
+  getRunEnding,
+  // Definition migration
+  migrateRunState,
+  // GM overrides
+  applyGmAction,
+  // GM rollback
+  checkpointRunState,
+  rollbackToEvent,
+  // Fork
+  forkRunState,
   // Audit functions (observation-only)
   generateAuditData,
   exportTimeline,
   exportAuditSummary,
 } from './engine'
 
+// Difficulty simulation (Monte-Carlo playthroughs)
+export {
+  simulateProject,
+  type SimulationOptions,
+  type SimulationStrategy,
+  type SimulationReport,
+  type CircuitSimulation,
+  type NodeDanger,
+} from './simulation'
+
+// Map layout (automatic node positions)
+export {
+  layoutCircuit,
+  computeLayout,
+  countCrossings,
+  DEFAULT_CIRCUIT_LAYOUT,
+  type LayoutPoint,
+  type LayoutPositions,
+} from './layout'
+
+// Dice (server-side rolling)
+export {
+  parseDiceExpression,
+  pickDiceModifiers,
+  rollDiceExpression,
+  replayDiceRoll,
+  formatDiceRoll,
+  createRng,
+  createRollRng,
+  type DiceTerm,
+} from './dice'
+
 // Database services
 export {
   // Errors
@@ -53,18 +129,41 @@ export {
   NotFoundError,
   PermissionError,
   ValidationError,
+  StateConflictError,
   // Services
   createRun,
+  forkRun,
+  archiveRun,
+  unarchiveRun,
+  bulkManageRuns,
+  previewRunMigrations,
+  activateDefinitionWithMigration,
   attemptHackService,
   discoverLinksService,
   moveToNodeService,
   switchCircuitService,
+  applyGmActionService,
+  rollbackRunService,
   getRunInfo,
   listUserRuns,
   listAllRuns,
   canAccessRun,
+  canPlayRun,
+  canControlRun,
+  canManageRun,
+  canForkRun,
   canCreateRunInProject,
+  listRunParticipants,
+  addRunParticipant,
+  removeRunParticipant,
+  getRunCharacter,
+  saveRunCharacter,
+  deleteRunCharacter,
   // Types
   type RunInfo,
   type RunListItem,
+  type RunMigrationPreview,
 } from './services'
+
+// Live run updates (server-side pub/sub)
+export { publishRunUpdate, subscribeToRun } from './events'
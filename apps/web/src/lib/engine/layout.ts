@@ -0,0 +1,446 @@
+// =============================================================================
+// ROLHACK ENGINE - Graph Layout
+// =============================================================================
+// Automatic map positions (0-100) for the nodes of a circuit
+
+import type { CircuitDefinition, CircuitLayout } from './types'
+
+export type LayoutPoint = { x: number; y: number }
+export type LayoutPositions = Record<string, LayoutPoint>
+
+export const DEFAULT_CIRCUIT_LAYOUT: CircuitLayout = 'LEVELS'
+
+// Positions stay inside [MARGIN, 100 - MARGIN] so labels fit on the map
+const MARGIN = 15
+const SPAN = 100 - MARGIN * 2
+
+const ORDERING_SWEEPS = 8
+const FORCE_ITERATIONS = 300
+
+// =============================================================================
+// GRAPH HELPERS
+// =============================================================================
+
+/**
+ * Neighbours of every node, ignoring link direction and dangling links
+ */
+function buildAdjacency(circuit: CircuitDefinition): Map<string, string[]> {
+  const adjacency = new Map<string, string[]>(circuit.nodes.map((node) => [node.id, []]))
+  for (const link of circuit.links) {
+    const from = adjacency.get(link.from)
+    const to = adjacency.get(link.to)
+    if (!from || !to || link.from === link.to) continue
+    if (!from.includes(link.to)) from.push(link.to)
+    if (!to.includes(link.from)) to.push(link.from)
+  }
+  return adjacency
+}
+
+/**
+ * Entry nodes (lowest level), plus the first node of every component the
+ * entries cannot reach, lowest level first
+ */
+function findRoots(circuit: CircuitDefinition, adjacency: Map<string, string[]>): { entries: string[]; others: string[] } {
+  const byLevel = [...circuit.nodes].sort((a, b) => a.level - b.level)
+  const minLevel = byLevel[0]?.level ?? 0
+  const entries = byLevel.filter((node) => node.level === minLevel).map((node) => node.id)
+  const others: string[] = []
+
+  const seen = new Set<string>()
+  const visit = (start: string) => {
+    const queue = [start]
+    seen.add(start)
+    while (queue.length > 0) {
+      for (const next of adjacency.get(queue.shift() as string) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next)
+          queue.push(next)
+        }
+      }
+    }
+  }
+  entries.forEach((id) => {
+    if (!seen.has(id)) visit(id)
+  })
+  for (const node of byLevel) {
+    if (seen.has(node.id)) continue
+    others.push(node.id)
+    visit(node.id)
+  }
+  return { entries, others }
+}
+
+/**
+ * Hops from the entry nodes. Components the entries cannot reach start one
+ * layer past the deepest node placed so far.
+ */
+function layerByDistance(circuit: CircuitDefinition, adjacency: Map<string, string[]>): Map<string, number> {
+  const depth = new Map<string, number>()
+  const { entries, others } = findRoots(circuit, adjacency)
+
+  const walk = (starts: string[], startDepth: number) => {
+    const queue = [...starts]
+    queue.forEach((id) => depth.set(id, startDepth))
+    while (queue.length > 0) {
+      const id = queue.shift() as string
+      for (const next of adjacency.get(id) ?? []) {
+        if (depth.has(next)) continue
+        depth.set(next, (depth.get(id) as number) + 1)
+        queue.push(next)
+      }
+    }
+  }
+
+  walk(entries, 0)
+  for (const root of others) {
+    walk([root], Math.max(...Array.from(depth.values())) + 1)
+  }
+  return depth
+}
+
+/**
+ * Spread values evenly across the map (a single value is centred)
+ */
+function spread(index: number, count: number): number {
+  return count <= 1 ? 50 : MARGIN + (index / (count - 1)) * SPAN
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+// =============================================================================
+// EDGE CROSSINGS
+// =============================================================================
+
+function segmentsCross(a: LayoutPoint, b: LayoutPoint, c: LayoutPoint, d: LayoutPoint): boolean {
+  const orientation = (p: LayoutPoint, q: LayoutPoint, r: LayoutPoint) =>
+    Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x))
+  const o1 = orientation(a, b, c)
+  const o2 = orientation(a, b, d)
+  const o3 = orientation(c, d, a)
+  const o4 = orientation(c, d, b)
+  return o1 * o2 < 0 && o3 * o4 < 0
+}
+
+/**
+ * Pairs of links that cross on the map. Links sharing a node never count.
+ */
+export function countCrossings(circuit: CircuitDefinition, positions: LayoutPositions): number {
+  const links = circuit.links.filter((link) => positions[link.from] && positions[link.to])
+  let crossings = 0
+  for (let i = 0; i < links.length; i++) {
+    for (let j = i + 1; j < links.length; j++) {
+      const a = links[i]
+      const b = links[j]
+      if (a.from === b.from || a.from === b.to || a.to === b.from || a.to === b.to) continue
+      if (segmentsCross(positions[a.from], positions[a.to], positions[b.from], positions[b.to])) crossings++
+    }
+  }
+  return crossings
+}
+
+// =============================================================================
+// LEVELS (one row per level)
+// =============================================================================
+
+function layoutByLevel(circuit: CircuitDefinition): LayoutPositions {
+  const levels = Array.from(new Set(circuit.nodes.map((node) => node.level))).sort((a, b) => a - b)
+  const maxLevel = Math.max(...levels, 0)
+
+  const positions: LayoutPositions = {}
+  for (const level of levels) {
+    const row = circuit.nodes.filter((node) => node.level === level)
+    row.forEach((node, index) => {
+      // Level 0 at the bottom, higher levels go up (SVG y is inverted)
+      const y = maxLevel === 0 ? 50 : 85 - (level / maxLevel) * 70
+      positions[node.id] = { x: spread(index, row.length), y }
+    })
+  }
+  return positions
+}
+
+// =============================================================================
+// LAYERED (Sugiyama-style)
+// =============================================================================
+
+/**
+ * Crossings between two consecutive layers for the given orders
+ */
+function layerCrossings(upper: string[], lower: string[], adjacency: Map<string, string[]>): number {
+  const edges: [number, number][] = []
+  upper.forEach((id, i) => {
+    for (const next of adjacency.get(id) ?? []) {
+      const j = lower.indexOf(next)
+      if (j >= 0) edges.push([i, j])
+    }
+  })
+  let crossings = 0
+  for (let a = 0; a < edges.length; a++) {
+    for (let b = a + 1; b < edges.length; b++) {
+      if ((edges[a][0] - edges[b][0]) * (edges[a][1] - edges[b][1]) < 0) crossings++
+    }
+  }
+  return crossings
+}
+
+/**
+ * Layers by distance from the entry (links then join adjacent layers only),
+ * ordered inside each layer with barycenter sweeps to minimise crossings
+ */
+function layoutLayered(circuit: CircuitDefinition): LayoutPositions {
+  const adjacency = buildAdjacency(circuit)
+  const depth = layerByDistance(circuit, adjacency)
+  const layerCount = Math.max(...Array.from(depth.values()), 0) + 1
+
+  let layers: string[][] = Array.from({ length: layerCount }, () => [])
+  circuit.nodes.forEach((node) => layers[depth.get(node.id) as number].push(node.id))
+
+  const totalCrossings = (order: string[][]) =>
+    order.slice(1).reduce((sum, layer, i) => sum + layerCrossings(order[i], layer, adjacency), 0)
+
+  let best = layers.map((layer) => [...layer])
+  let bestCrossings = totalCrossings(best)
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const downwards = sweep % 2 === 0
+    const indexes = downwards
+      ? Array.from({ length: layerCount - 1 }, (_, i) => i + 1)
+      : Array.from({ length: layerCount - 1 }, (_, i) => layerCount - 2 - i)
+
+    for (const i of indexes) {
+      const fixed = layers[downwards ? i - 1 : i + 1]
+      const barycenter = (id: string, current: number) => {
+        const slots = (adjacency.get(id) ?? []).map((next) => fixed.indexOf(next)).filter((slot) => slot >= 0)
+        // Nodes with nothing in the fixed layer keep their place
+        return slots.length === 0 ? current : slots.reduce((sum, slot) => sum + slot, 0) / slots.length
+      }
+      const scaled = layers[i].map((id, current) => ({
+        id,
+        // Same scale as the fixed layer, so unlinked nodes hold their slot
+        weight: barycenter(id, (current * Math.max(fixed.length - 1, 0)) / Math.max(layers[i].length - 1, 1)),
+      }))
+      layers[i] = scaled.sort((a, b) => a.weight - b.weight).map((entry) => entry.id)
+    }
+
+    const crossings = totalCrossings(layers)
+    if (crossings < bestCrossings) {
+      best = layers.map((layer) => [...layer])
+      bestCrossings = crossings
+    }
+  }
+  layers = best
+
+  const positions: LayoutPositions = {}
+  layers.forEach((layer, depthIndex) => {
+    // Entry layer at the bottom, like the level layout
+    const y = layerCount === 1 ? 50 : 85 - (depthIndex / (layerCount - 1)) * 70
+    layer.forEach((id, index) => {
+      positions[id] = { x: spread(index, layer.length), y }
+    })
+  })
+  return positions
+}
+
+// =============================================================================
+// FORCE-DIRECTED (Fruchterman-Reingold)
+// =============================================================================
+
+/**
+ * Linked nodes attract, every pair repels. Starts from the layered layout, so
+ * the result is deterministic, then scales the drawing to fill the map.
+ */
+function layoutForce(circuit: CircuitDefinition): LayoutPositions {
+  const adjacency = buildAdjacency(circuit)
+  const ids = circuit.nodes.map((node) => node.id)
+  const start = layoutLayered(circuit)
+  const positions = new Map(ids.map((id) => [id, { ...start[id] }]))
+  if (ids.length < 2) return start
+
+  const k = Math.sqrt((SPAN * SPAN) / ids.length) * 0.8
+  let temperature = SPAN / 10
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const displacement = new Map(ids.map((id) => [id, { x: 0, y: 0 }]))
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i]) as LayoutPoint
+        const b = positions.get(ids[j]) as LayoutPoint
+        let dx = a.x - b.x
+        let dy = a.y - b.y
+        // Nodes on the same spot: nudge apart along a fixed direction
+        if (dx === 0 && dy === 0) {
+          dx = 0.1 * (i + 1)
+          dy = 0.1 * (j + 1)
+        }
+        const distance = Math.hypot(dx, dy)
+        const force = (k * k) / distance
+        const da = displacement.get(ids[i]) as LayoutPoint
+        const db = displacement.get(ids[j]) as LayoutPoint
+        da.x += (dx / distance) * force
+        da.y += (dy / distance) * force
+        db.x -= (dx / distance) * force
+        db.y -= (dy / distance) * force
+      }
+    }
+
+    for (const [id, neighbours] of Array.from(adjacency)) {
+      const a = positions.get(id) as LayoutPoint
+      for (const next of neighbours) {
+        // Each link is seen from both ends: pull only this end
+        const b = positions.get(next) as LayoutPoint
+        const dx = a.x - b.x
+        const dy = a.y - b.y
+        const distance = Math.hypot(dx, dy) || 0.01
+        const force = (distance * distance) / k
+        const d = displacement.get(id) as LayoutPoint
+        d.x -= (dx / distance) * force
+        d.y -= (dy / distance) * force
+      }
+    }
+
+    for (const id of ids) {
+      const d = displacement.get(id) as LayoutPoint
+      const length = Math.hypot(d.x, d.y)
+      if (length === 0) continue
+      const step = Math.min(length, temperature)
+      const p = positions.get(id) as LayoutPoint
+      p.x += (d.x / length) * step
+      p.y += (d.y / length) * step
+    }
+
+    temperature = (SPAN / 10) * (1 - (iteration + 1) / FORCE_ITERATIONS)
+  }
+
+  // Fit the drawing into the map, each axis on its own
+  const xs = ids.map((id) => (positions.get(id) as LayoutPoint).x)
+  const ys = ids.map((id) => (positions.get(id) as LayoutPoint).y)
+  const fit = (value: number, min: number, max: number) =>
+    max - min < 0.001 ? 50 : MARGIN + ((value - min) / (max - min)) * SPAN
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)]
+
+  return Object.fromEntries(
+    ids.map((id) => {
+      const p = positions.get(id) as LayoutPoint
+      return [id, { x: fit(p.x, minX, maxX), y: fit(p.y, minY, maxY) }]
+    })
+  )
+}
+
+// =============================================================================
+// RADIAL (rings around the entry)
+// =============================================================================
+
+/**
+ * Entry node in the centre, one ring per hop. Each subtree of the
+ * breadth-first tree gets an angle wedge sized by its leaves, so branches
+ * never overlap. Several entries (or unreachable components) share the
+ * first ring around an empty centre.
+ */
+function layoutRadial(circuit: CircuitDefinition): LayoutPositions {
+  const adjacency = buildAdjacency(circuit)
+  const { entries, others } = findRoots(circuit, adjacency)
+  const roots = [...entries, ...others]
+  const ROOT = '\u0000root'
+
+  // Breadth-first tree, children in definition order
+  const children = new Map<string, string[]>([[ROOT, roots.length === 1 ? [] : roots]])
+  const depth = new Map<string, number>()
+  const queue: string[] = []
+  if (roots.length === 1) {
+    depth.set(roots[0], 0)
+    queue.push(roots[0])
+  } else {
+    roots.forEach((id) => {
+      depth.set(id, 1)
+      queue.push(id)
+    })
+  }
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    children.set(id, [])
+    for (const next of adjacency.get(id) ?? []) {
+      if (depth.has(next)) continue
+      depth.set(next, (depth.get(id) as number) + 1)
+      ;(children.get(id) as string[]).push(next)
+      queue.push(next)
+    }
+  }
+
+  const leaves = new Map<string, number>()
+  const countLeaves = (id: string): number => {
+    const own = children.get(id) ?? []
+    const count = own.length === 0 ? 1 : own.reduce((sum, child) => sum + countLeaves(child), 0)
+    leaves.set(id, count)
+    return count
+  }
+
+  const center = roots.length === 1 ? roots[0] : ROOT
+  countLeaves(center)
+  const maxDepth = Math.max(...Array.from(depth.values()), 1)
+  const ringGap = SPAN / 2 / maxDepth
+
+  const positions: LayoutPositions = {}
+  const place = (id: string, from: number, to: number) => {
+    const ring = id === ROOT ? 0 : (depth.get(id) as number)
+    const angle = (from + to) / 2
+    if (id !== ROOT) {
+      positions[id] = {
+        x: 50 + Math.cos(angle) * ring * ringGap,
+        y: 50 + Math.sin(angle) * ring * ringGap,
+      }
+    }
+    let cursor = from
+    for (const child of children.get(id) ?? []) {
+      const wedge = ((to - from) * (leaves.get(child) as number)) / (leaves.get(id) as number)
+      place(child, cursor, cursor + wedge)
+      cursor += wedge
+    }
+  }
+  // Start at the top of the map and go clockwise
+  place(center, -Math.PI / 2, (Math.PI * 3) / 2)
+  return positions
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Automatic position of every node, ignoring mapX/mapY
+ */
+export function computeLayout(circuit: CircuitDefinition, layout: CircuitLayout = DEFAULT_CIRCUIT_LAYOUT): LayoutPositions {
+  if (circuit.nodes.length === 0) return {}
+
+  let positions: LayoutPositions
+  switch (layout) {
+    case 'LAYERED':
+      positions = layoutLayered(circuit)
+      break
+    case 'FORCE':
+      positions = layoutForce(circuit)
+      break
+    case 'RADIAL':
+      positions = layoutRadial(circuit)
+      break
+    default:
+      positions = layoutByLevel(circuit)
+  }
+
+  return Object.fromEntries(
+    Object.entries(positions).map(([id, { x, y }]) => [id, { x: round(x), y: round(y) }])
+  )
+}
+
+/**
+ * Map position of every node: mapX/mapY when set, otherwise the circuit's
+ * automatic layout (or the one given, to preview another algorithm)
+ */
+export function layoutCircuit(circuit: CircuitDefinition, layout?: CircuitLayout): LayoutPositions {
+  const auto = computeLayout(circuit, layout ?? circuit.layout ?? DEFAULT_CIRCUIT_LAYOUT)
+  return Object.fromEntries(
+    circuit.nodes.map((node) => [
+      node.id,
+      node.mapX !== undefined && node.mapY !== undefined ? { x: node.mapX, y: node.mapY } : auto[node.id],
+    ])
+  )
+}
@@ -13,11 +13,63 @@ export const FailModeSchema = z.enum(['WARNING', 'BLOQUEO'])
 
 export const LinkStyleSchema = z.enum(['solid', 'dashed', 'dotted'])
 
+export const PayloadTypeSchema = z.enum(['TEXT', 'MARKDOWN', 'PASSWORD', 'IMAGE', 'KEY'])
+
+export const NodePayloadSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(80),
+  type: PayloadTypeSchema,
+  content: z.string().max(20000),
+})
+
+export const AccessRequirementSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('KEY'), payloadId: z.string().min(1) }),
+  z.object({ type: z.literal('NODE_HACKED'), nodeId: z.string().min(1) }),
+])
+
+export const NodeTypeSchema = z.enum(['STANDARD', 'FIREWALL', 'DATASTORE', 'CONTROL', 'HONEYPOT'])
+
+export const ControlTargetSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('NODE'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('CIRCUIT'), circuitId: z.string().min(1) }),
+])
+
+export const WarningSeveritySchema = z.enum([
+  'INFO',
+  'TRACE',
+  'ALERT',
+  'LOCKDOWN',
+  'BLACK_ICE',
+])
+
+export const TriggerEventSchema = z.enum(['ON_HACK', 'ON_FAIL', 'ON_ENTER', 'ON_DISCOVER'])
+
+export const TriggerActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('REVEAL_NODE'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('REVEAL_LINK'), linkId: z.string().min(1) }),
+  z.object({ type: z.literal('DISABLE_NODE'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('DISABLE_LINK'), linkId: z.string().min(1) }),
+  z.object({ type: z.literal('CHANGE_CD'), nodeId: z.string().min(1), amount: z.number().int().min(-20).max(20) }),
+  z.object({ type: z.literal('ADD_WARNING'), severity: WarningSeveritySchema, message: z.string().min(1).max(200) }),
+  z.object({ type: z.literal('MESSAGE'), text: z.string().min(1).max(2000) }),
+  z.object({ type: z.literal('COMPLETE_CIRCUIT'), circuitId: z.string().min(1) }),
+])
+
+export const TriggerDefinitionSchema = z.object({
+  id: z.string().min(1),
+  on: TriggerEventSchema,
+  actions: z.array(TriggerActionSchema).min(1).max(20),
+  repeatable: z.boolean().optional(),
+})
+
 // Raw schema before migration (accepts both old and new format)
 const NodeDefinitionRawSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   description: z.string().optional(),
+  // Built-in mechanics (absent = STANDARD)
+  type: NodeTypeSchema.optional(),
+  controls: ControlTargetSchema.optional(),
   level: z.number().int().min(0),
   cd: z.number().int().min(0), // 0 allowed for entry nodes
   // Fail die (D3-D20) - for phase 2 fail determination (optional for legacy data)
@@ -34,6 +86,12 @@ const NodeDefinitionRawSchema = z.object({
   // Map positioning (optional, for visual circuit map)
   mapX: z.number().min(0).max(100).optional(),
   mapY: z.number().min(0).max(100).optional(),
+  // Loot revealed on hack
+  payloads: z.array(NodePayloadSchema).max(20).optional(),
+  // Keys / dependencies needed to enter the node
+  requires: z.array(AccessRequirementSchema).max(10).optional(),
+  // Scripted reactions
+  triggers: z.array(TriggerDefinitionSchema).max(20).optional(),
 })
 
 // Schema with migration transform for backward compatibility
@@ -41,6 +99,8 @@ export const NodeDefinitionSchema = NodeDefinitionRawSchema.transform((node) =>
   id: node.id,
   name: node.name,
   description: node.description,
+  type: node.type,
+  controls: node.controls,
   level: node.level,
   cd: node.cd,
   // Migration: default to D4 for legacy nodes without failDie
@@ -54,6 +114,9 @@ export const NodeDefinitionSchema = NodeDefinitionRawSchema.transform((node) =>
   // Map positioning
   mapX: node.mapX,
   mapY: node.mapY,
+  payloads: node.payloads,
+  requires: node.requires,
+  triggers: node.triggers,
 }))
 
 export const LinkDefinitionSchema = z.object({
@@ -63,14 +126,44 @@ export const LinkDefinitionSchema = z.object({
   style: LinkStyleSchema,
   hidden: z.boolean(),
   bidirectional: z.boolean().optional().default(true),
+  requires: z.array(AccessRequirementSchema).max(10).optional(),
+  triggers: z.array(TriggerDefinitionSchema).max(20).optional(),
 })
 
+export const IceTriggerSchema = z.enum(['ON_TRACE', 'ON_ALERT', 'EVERY_N_ACTIONS'])
+
+export const IceContactEffectSchema = z.enum(['LOCKDOWN', 'EJECT', 'RAISE_SEVERITY'])
+
+export const IceDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  startNodeId: z.string().min(1),
+  patrolRoute: z.array(z.string().min(1)).default([]),
+  triggers: z.array(IceTriggerSchema).min(1),
+  everyNActions: z.number().int().min(1).max(50).optional(),
+  onContact: IceContactEffectSchema,
+})
+
+export const BudgetOutcomeSchema = z.enum(['LOCKDOWN', 'GAME_OVER', 'SWITCH_CIRCUIT'])
+
+export const BudgetConfigSchema = z.object({
+  actions: z.number().int().min(1).max(500).optional(),
+  seconds: z.number().int().min(10).max(86400).optional(),
+  onExpire: BudgetOutcomeSchema,
+  switchToCircuitId: z.string().min(1).optional(),
+})
+
+export const CircuitLayoutSchema = z.enum(['LEVELS', 'LAYERED', 'FORCE', 'RADIAL'])
+
 export const CircuitDefinitionSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   description: z.string().optional(),
   nodes: z.array(NodeDefinitionSchema).min(1),
   links: z.array(LinkDefinitionSchema),
+  ice: z.array(IceDefinitionSchema).optional(),
+  budget: BudgetConfigSchema.optional(),
+  layout: CircuitLayoutSchema.optional(),
 }).refine(
   (circuit) => {
     const finalNodes = circuit.nodes.filter(n => n.isFinal === true)
@@ -79,30 +172,56 @@ export const CircuitDefinitionSchema = z.object({
   { message: 'Solo puede haber un nodo final por circuito' }
 )
 
+export const DiceModeSchema = z.enum(['MANUAL', 'SERVER'])
+
+export const TraceEscalationSchema = z.enum(['RAISE_CD', 'REVEAL_TO_ICE', 'LOCKDOWN'])
+
+export const TraceThresholdSchema = z.object({
+  value: z.number().int().min(1).max(1000),
+  escalation: TraceEscalationSchema,
+  cdIncrease: z.number().int().min(1).max(20).optional(),
+})
+
+export const TraceConfigSchema = z.object({
+  traceAmount: z.number().int().min(0).max(100),
+  alertAmount: z.number().int().min(0).max(100),
+  criticalAmount: z.number().int().min(0).max(100),
+  thresholds: z.array(TraceThresholdSchema).max(10),
+})
+
 export const ProjectMetaSchema = z.object({
   version: z.string().min(1),
   author: z.string().optional(),
   createdAt: z.string().optional(),
   description: z.string().optional(),
+  diceMode: DiceModeSchema.optional(),
+  defaultDice: z.string().max(60).optional(),
+  trace: TraceConfigSchema.optional(),
+  budget: BudgetConfigSchema.optional(),
+  circuitGating: z.boolean().optional(),
+})
+
+export const PortalDefinitionSchema = z.object({
+  id: z.string().min(1),
+  fromCircuitId: z.string().min(1),
+  fromNodeId: z.string().min(1),
+  toCircuitId: z.string().min(1),
+  toNodeId: z.string().min(1),
+  hidden: z.boolean(),
+  bidirectional: z.boolean().optional().default(true),
+  requires: z.array(AccessRequirementSchema).max(10).optional(),
 })
 
 export const ProjectDataSchema = z.object({
   meta: ProjectMetaSchema,
   circuits: z.array(CircuitDefinitionSchema).min(1),
+  portals: z.array(PortalDefinitionSchema).max(100).optional(),
 })
 
 // =============================================================================
 // RUN STATE SCHEMAS
 // =============================================================================
 
-export const WarningSeveritySchema = z.enum([
-  'INFO',
-  'TRACE',
-  'ALERT',
-  'LOCKDOWN',
-  'BLACK_ICE',
-])
-
 export const HackResultSchema = z.enum(['exito', 'fallo']).nullable()
 
 export const NodeStateSchema = z.object({
@@ -112,6 +231,7 @@ export const NodeStateSchema = z.object({
   descubierto: z.boolean(),
   intentos: z.number().int().min(0),
   ultimoResultado: HackResultSchema,
+  cdModifier: z.number().int().optional(),
 })
 
 export const LinkStateSchema = z.object({
@@ -126,6 +246,38 @@ export const WarningSchema = z.object({
   timestamp: z.string().optional(),
 })
 
+export const InventoryItemSchema = z.object({
+  payloadId: z.string(),
+  name: z.string(),
+  type: PayloadTypeSchema,
+  content: z.string(),
+  circuitId: z.string(),
+  nodeId: z.string(),
+  extractedAt: z.string(),
+})
+
+export const IceStateSchema = z.object({
+  nodeId: z.string(),
+  routeIndex: z.number().int().min(0),
+  direction: z.union([z.literal(1), z.literal(-1)]),
+  actionCount: z.number().int().min(0),
+  engaged: z.boolean(),
+  offline: z.boolean().optional(),
+})
+
+export const TraceStateSchema = z.object({
+  level: z.number().int().min(0),
+  reachedThresholds: z.array(z.number().int().min(0)),
+  cdIncrease: z.number().int().min(0),
+  revealedToIce: z.boolean(),
+})
+
+export const BudgetStateSchema = z.object({
+  actionsLeft: z.number().int().min(0).optional(),
+  deadline: z.string().optional(),
+  expired: z.boolean(),
+})
+
 export const PositionSchema = z.object({
   circuitId: z.string(),
   nodeId: z.string(),
@@ -142,6 +294,29 @@ export const TimelineEventTypeSchema = z.enum([
   'CIRCUIT_CHANGED',
   'CIRCUIT_COMPLETED',
   'RUN_COMPLETED',
+  'GM_OVERRIDE',
+  'DICE_ROLLED',
+  'ICE_CONTACT',
+  'TRACE_ESCALATION',
+  'BUDGET_EXPIRED',
+  'TRIGGER_FIRED',
+  'CONTROL_SEIZED',
+  'ROLLBACK',
+  'RUN_FORKED',
+  'RUN_MIGRATED',
+])
+
+// GM override actions (live control console)
+export const GmActionTypeSchema = z.enum([
+  'FORCE_HACK',
+  'UNBLOCK_NODE',
+  'REVEAL_NODE',
+  'HIDE_NODE',
+  'SET_NODE_INACCESSIBLE',
+  'SET_LINK_INACCESSIBLE',
+  'UNLOCK_CIRCUIT',
+  'TELEPORT',
+  'INJECT_WARNING',
 ])
 
 // State snapshot for visual replay (observation only)
@@ -151,6 +326,71 @@ export const StateSnapshotSchema = z.object({
   links: z.record(z.string(), LinkStateSchema),
 })
 
+// Server dice roll record (DICE_ROLLED events)
+export const DiceRollRecordSchema = z.object({
+  seed: z.string().optional(),
+  sequence: z.number().int().min(0),
+  expression: z.string(),
+  modifiers: z.record(z.string(), z.number()),
+  rolls: z.array(z.number().int()),
+  total: z.number(),
+  failDie: z.number().int().optional(),
+  failDieRoll: z.number().int().optional(),
+  discardedFailDieRolls: z.array(z.number().int()).optional(),
+})
+
+export const CharacterProgramSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  bonus: z.number().int().min(-10).max(10),
+})
+
+// Character modifiers behind a hack outcome
+export const HackModifierBreakdownSchema = z.object({
+  characterName: z.string(),
+  roll: z.number(),
+  interface: z.number(),
+  deckBonus: z.number(),
+  programs: z.array(CharacterProgramSchema),
+  total: z.number(),
+  failDieRoll: z.number().optional(),
+  failDieBonus: z.number().optional(),
+  failDieTotal: z.number().optional(),
+})
+
+// Run state restored by a GM rollback - everything but the append-only
+// warnings and timeline, and the server dice counter
+const RunStateCoreSchema = z.object({
+  position: PositionSchema,
+  lastHackedNodeByCircuit: z.record(z.string(), z.string()),
+  nodes: z.record(z.string(), NodeStateSchema),
+  links: z.record(z.string(), LinkStateSchema),
+  // Blocked circuits - when a BLOQUEO occurs, entire circuit is locked
+  blockedCircuits: z.record(z.string(), z.boolean()).optional().default({}),
+  // Completed circuits - when final node is hacked, circuit is complete
+  completedCircuits: z.record(z.string(), z.boolean()).optional().default({}),
+  // ICE positions keyed by ICE id
+  ice: z.record(z.string(), IceStateSchema).optional(),
+  // Trace meter
+  trace: TraceStateSchema.optional(),
+  // Budgets
+  runBudget: BudgetStateSchema.optional(),
+  circuitBudgets: z.record(z.string(), BudgetStateSchema).optional(),
+  gameOver: z.boolean().optional(),
+  // Extracted payloads
+  inventory: z.array(InventoryItemSchema).optional(),
+  // Circuit gating
+  unlockedCircuits: z.array(z.string()).optional(),
+  // Fired triggers
+  firedTriggers: z.array(z.string()).optional(),
+  // Team runs: per-player positions keyed by userId
+  playerPositions: z.record(z.string(), PositionSchema).optional(),
+})
+
+// Checkpoint stamped on the last event of each committed write
+export const RunCheckpointSchema = RunStateCoreSchema.extend({
+  warningCount: z.number().int().min(0),
+})
+
 // Timeline event for visual replay
 export const TimelineEventSchema = z.object({
   id: z.string(),
@@ -159,25 +399,43 @@ export const TimelineEventSchema = z.object({
   circuitId: z.string(),
   nodeId: z.string().optional(),
   description: z.string(),
+  actorUserId: z.string().optional(),
+  actorName: z.string().optional(),
   details: z.object({
     discoveredLinks: z.array(z.string()).optional(),
     discoveredNodes: z.array(z.string()).optional(),
     warningGenerated: z.boolean().optional(),
     previousCircuitId: z.string().optional(),
+    portalId: z.string().optional(),
+    gmAction: GmActionTypeSchema.optional(),
+    diceRoll: DiceRollRecordSchema.optional(),
+    hackModifiers: HackModifierBreakdownSchema.optional(),
+    iceId: z.string().optional(),
+    iceEffect: IceContactEffectSchema.optional(),
+    traceLevel: z.number().int().min(0).optional(),
+    traceEscalation: TraceEscalationSchema.optional(),
+    budgetScope: z.enum(['RUN', 'CIRCUIT']).optional(),
+    budgetOutcome: BudgetOutcomeSchema.optional(),
+    payloadIds: z.array(z.string()).optional(),
+    triggerId: z.string().optional(),
+    narrative: z.array(z.string()).optional(),
+    controlTarget: ControlTargetSchema.optional(),
+    rollbackToEventId: z.string().optional(),
+    forkedFromEventId: z.string().optional(),
   }).optional(),
   snapshot: StateSnapshotSchema,
+  // GM rollback target (only on the last event of each committed write)
+  checkpoint: RunCheckpointSchema.optional(),
+  hasCheckpoint: z.boolean().optional(),
 })
 
-export const RunStateSchema = z.object({
-  position: PositionSchema,
-  lastHackedNodeByCircuit: z.record(z.string(), z.string()),
-  nodes: z.record(z.string(), NodeStateSchema),
-  links: z.record(z.string(), LinkStateSchema),
+export const RunStateSchema = RunStateCoreSchema.extend({
   warnings: z.array(WarningSchema),
   // Timeline for visual replay - optional for backward compatibility with existing runs
   timeline: z.array(TimelineEventSchema).optional().default([]),
-  // Blocked circuits - when a BLOQUEO occurs, entire circuit is locked
-  blockedCircuits: z.record(z.string(), z.boolean()).optional().default({}),
+  // Server dice: run seed and roll counter
+  diceSeed: z.string().optional(),
+  diceSequence: z.number().int().min(0).optional(),
 })
 
 // =============================================================================
@@ -188,21 +446,119 @@ export const CreateRunInputSchema = z.object({
   name: z.string().optional(),
 })
 
+// SERVER dice mode: values of the named modifiers in the project's dice
+// expression - the expression itself is always the project's (meta.defaultDice)
+export const HackDiceInputSchema = z.object({
+  modifiers: z
+    .record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.number().int().min(-50).max(50))
+    .refine((modifiers) => Object.keys(modifiers).length <= 10, 'Too many modifiers')
+    .default({}),
+})
+
 /**
  * PROMPT 7: No longer accepts nodeId - hack always applies to current position
  * Two-phase hack system:
  * - Phase 1: inputValue >= CD = success, inputValue < CD = needs phase 2
  * - Phase 2: failDieRoll (1 to failDie) determines failure type
+ * SERVER dice mode: inputValue/failDieRoll are ignored, the server rolls the
+ * project's expression with the player's modifier values (`dice`)
  */
 export const AttemptHackInputSchema = z.object({
-  inputValue: z.number().int().min(0),
+  // MANUAL dice mode: the player's rolls
+  inputValue: z.number().int().min(0).optional(),
   failDieRoll: z.number().int().min(1).max(20).optional(), // Phase 2 fail die roll
+  // SERVER dice mode: the player's modifier values (the server rolls)
+  dice: HackDiceInputSchema.optional(),
+})
+
+/**
+ * Decker profile of the current player in a run
+ */
+export const CharacterProfileSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  interface: z.number().int().min(0).max(20).default(0),
+  deckBonus: z.number().int().min(0).max(20).default(0),
+  programs: z.array(CharacterProgramSchema).max(10).default([]),
+  failDieBonus: z.number().int().min(0).max(10).default(0),
+  failDieRerolls: z.number().int().min(0).max(3).default(0),
 })
 
 export const MoveToNodeInputSchema = z.object({
   targetNodeId: z.string().min(1),
 })
 
+/**
+ * GM override - one action per request, discriminated by type
+ */
+export const GmActionInputSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('FORCE_HACK'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('UNBLOCK_NODE'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('REVEAL_NODE'), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal('HIDE_NODE'), nodeId: z.string().min(1) }),
+  z.object({
+    type: z.literal('SET_NODE_INACCESSIBLE'),
+    nodeId: z.string().min(1),
+    inaccesible: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('SET_LINK_INACCESSIBLE'),
+    linkId: z.string().min(1),
+    inaccesible: z.boolean(),
+  }),
+  z.object({ type: z.literal('UNLOCK_CIRCUIT'), circuitId: z.string().min(1) }),
+  z.object({ type: z.literal('TELEPORT'), nodeId: z.string().min(1) }),
+  z.object({
+    type: z.literal('INJECT_WARNING'),
+    severity: WarningSeveritySchema,
+    message: z.string().min(1).max(200),
+    nodeId: z.string().min(1).optional(),
+  }),
+])
+
+/**
+ * GM rollback - restore the run to the checkpoint of a timeline event
+ */
+export const RollbackInputSchema = z.object({
+  eventId: z.string().min(1),
+})
+
+/**
+ * Fork - branch a new run from the checkpoint of a timeline event
+ */
+export const ForkRunInputSchema = z.object({
+  eventId: z.string().min(1),
+})
+
+/**
+ * Admin bulk maintenance - runs untouched for N days, optionally in one project
+ */
+export const BulkRunActionInputSchema = z.object({
+  action: z.enum(['ARCHIVE', 'RESTORE', 'PURGE']),
+  olderThanDays: z.number().int().min(0).max(3650),
+  projectId: z.string().min(1).optional(),
+})
+
+/**
+ * Difficulty simulation of a (possibly unsaved) definition
+ */
+export const SimulationInputSchema = z.object({
+  data: z.unknown(),
+  iterations: z.number().int().min(1).max(5000).optional(),
+  dice: z.string().trim().min(1).max(60).optional(),
+  strategy: z.enum(['DIRECT', 'EXPLORE']).optional(),
+})
+
+/**
+ * Editor autosave - work in progress, only the outer shape is checked
+ */
+export const DefinitionDraftInputSchema = z.object({
+  data: z.object({
+    meta: z.record(z.unknown()),
+    circuits: z.array(z.unknown()),
+  }).passthrough(),
+  baseDefinitionId: z.string().min(1).nullable().optional(),
+})
+
 // =============================================================================
 // VALIDATION HELPERS
 // =============================================================================
@@ -7,12 +7,26 @@ import { prisma } from '@rolhack/database'
 import {
   initializeRunState,
   attemptHack as engineAttemptHack,
+  attemptHackWithServerDice as engineAttemptHackWithServerDice,
   discoverHiddenLinks as engineDiscoverLinks,
   moveToNode as engineMoveToNode,
   switchCircuit as engineSwitchCircuit,
+  applyGmAction as engineApplyGmAction,
+  rollbackToEvent as engineRollbackToEvent,
+  checkpointRunState,
+  forkRunState,
+  applyAsPlayer,
+  applyWithCountermeasures,
+  addPlayerPositions,
   hasHiddenLinksAvailable,
+  getRunEnding,
+  migrateRunState,
+  redactRunStateForClients,
+  redactDiceRollSeed,
 } from './engine'
-import { parseProjectData, parseRunState } from './schemas'
+import { parseProjectData, parseRunState, CharacterProgramSchema } from './schemas'
+import { pickDiceModifiers } from './dice'
+import { publishRunUpdate } from './events'
 import type {
   ProjectData,
   RunState,
@@ -21,6 +35,15 @@ import type {
   DiscoverLinksResult,
   MoveToNodeResult,
   SwitchCircuitResult,
+  GmAction,
+  GmActionResult,
+  RunActor,
+  RunParticipantInfo,
+  HackDiceInput,
+  CharacterProfile,
+  RunCharacterInfo,
+  BulkRunAction,
+  RunMigrationReport,
 } from './types'
 
 // =============================================================================
@@ -55,6 +78,12 @@ export class ValidationError extends EngineError {
   }
 }
 
+export class StateConflictError extends EngineError {
+  constructor(runId: string) {
+    super(`Run state changed concurrently: ${runId}`, 'STATE_CONFLICT')
+  }
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -100,15 +129,49 @@ async function getRunWithDefinition(runId: string) {
 
 /**
  * Save run state to database
+ * Optimistic concurrency: the write only succeeds if the run is still at the
+ * revision it was read at, otherwise a StateConflictError is thrown.
+ * The write leaves a rollback checkpoint on its last timeline event.
+ * A run that ends with the write is archived; a GM rollback that undoes the
+ * ending reactivates it.
+ * Committed writes are published to live subscribers.
  */
-async function saveRunState(runId: string, state: RunState) {
-  await prisma.run.update({
-    where: { id: runId },
+async function saveRunState(
+  runId: string,
+  previousState: RunState,
+  newState: RunState,
+  expectedRevision: number
+) {
+  const state = checkpointRunState(newState, previousState)
+  const now = new Date()
+
+  const ending = getRunEnding(state)
+  const previousEnding = getRunEnding(previousState)
+  const lifecycle =
+    ending === previousEnding
+      ? {}
+      : ending
+        ? { ending, endedAt: now, status: 'ARCHIVED', archivedAt: now }
+        : { ending: null, endedAt: null, status: 'ACTIVE', archivedAt: null }
+
+  const { count } = await prisma.run.updateMany({
+    where: { id: runId, revision: expectedRevision },
     data: {
       state: JSON.stringify(state),
-      updatedAt: new Date(),
+      revision: { increment: 1 },
+      updatedAt: now,
+      ...lifecycle,
     },
   })
+
+  if (count === 0) {
+    throw new StateConflictError(runId)
+  }
+
+  const revision = expectedRevision + 1
+  publishRunUpdate(runId, previousState, state, revision)
+
+  return revision
 }
 
 // =============================================================================
@@ -188,27 +251,46 @@ export async function createRun(
  * Two-phase hack system:
  * - Phase 1: inputValue >= CD = success, inputValue < CD = needs phase 2
  * - Phase 2: failDieRoll (1 to failDie) determines failure type
+ * In SERVER dice mode the posted rolls are ignored and the server rolls the
+ * project's expression; the player only supplies the modifier values it names.
+ * The acting player's character (if any) modifies both phases.
  */
 export async function attemptHackService(
   runId: string,
-  inputValue: number,
-  failDieRoll?: number
+  actor: RunActor,
+  input: { inputValue?: number; failDieRoll?: number; dice?: Pick<HackDiceInput, 'modifiers'> }
 ): Promise<AttemptHackResult> {
-  const { runState, projectData } = await getRunWithDefinition(runId)
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
+  const character = await getRunCharacter(runId, actor.userId)
 
-  const { newState, result } = engineAttemptHack(
-    runState,
-    projectData,
-    inputValue,
-    failDieRoll
+  const serverDice = projectData.meta.diceMode === 'SERVER'
+  const { inputValue } = input
+
+  if (!serverDice && inputValue === undefined) {
+    throw new ValidationError('inputValue is required in MANUAL dice mode')
+  }
+
+  const expression = projectData.meta.defaultDice || '1d20'
+  const dice: HackDiceInput = {
+    expression,
+    modifiers: pickDiceModifiers(expression, input.dice?.modifiers ?? {}),
+  }
+
+  const { newState, result } = applyAsPlayer(runState, actor, (playerState) =>
+    applyWithCountermeasures(playerState, projectData, (current) =>
+      serverDice
+        ? engineAttemptHackWithServerDice(current, projectData, dice, { character })
+        : engineAttemptHack(current, projectData, inputValue as number, input.failDieRoll, { character })
+    )
   )
 
   // Save state if changed
   if (newState !== runState) {
-    await saveRunState(runId, newState)
+    await saveRunState(runId, runState, newState, run.revision)
   }
 
-  return result
+  // The roll goes back to the player without the run seed
+  return result.diceRoll ? { ...result, diceRoll: redactDiceRollSeed(result.diceRoll) } : result
 }
 
 // =============================================================================
@@ -216,15 +298,18 @@ export async function attemptHackService(
 // =============================================================================
 
 export async function discoverLinksService(
-  runId: string
+  runId: string,
+  actor: RunActor
 ): Promise<DiscoverLinksResult> {
-  const { runState, projectData } = await getRunWithDefinition(runId)
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
 
-  const { newState, result } = engineDiscoverLinks(runState, projectData)
+  const { newState, result } = applyAsPlayer(runState, actor, (playerState) =>
+    applyWithCountermeasures(playerState, projectData, (current) => engineDiscoverLinks(current, projectData))
+  )
 
   // Save state if changed
   if (newState !== runState) {
-    await saveRunState(runId, newState)
+    await saveRunState(runId, runState, newState, run.revision)
   }
 
   return result
@@ -236,19 +321,20 @@ export async function discoverLinksService(
 
 export async function moveToNodeService(
   runId: string,
+  actor: RunActor,
   targetNodeId: string
 ): Promise<MoveToNodeResult> {
-  const { runState, projectData } = await getRunWithDefinition(runId)
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
 
-  const { newState, result } = engineMoveToNode(
-    runState,
-    projectData,
-    targetNodeId
+  const { newState, result } = applyAsPlayer(runState, actor, (playerState) =>
+    applyWithCountermeasures(playerState, projectData, (current) =>
+      engineMoveToNode(current, projectData, targetNodeId)
+    )
   )
 
   // Save state if changed
   if (newState !== runState) {
-    await saveRunState(runId, newState)
+    await saveRunState(runId, runState, newState, run.revision)
   }
 
   return result
@@ -266,6 +352,7 @@ export interface RunInfo {
   projectName: string
   definitionId: string
   definitionVersion: number
+  revision: number
   state: RunState
   hasHiddenLinks: boolean
   createdAt: Date
@@ -283,13 +370,268 @@ export async function getRunInfo(runId: string): Promise<RunInfo> {
     projectName: run.project.name,
     definitionId: run.definitionId,
     definitionVersion: run.definition.version,
-    state: runState,
+    revision: run.revision,
+    state: redactRunStateForClients(runState),
     hasHiddenLinks: hasHiddenLinksAvailable(runState, projectData),
     createdAt: run.createdAt,
     updatedAt: run.updatedAt,
   }
 }
 
+// =============================================================================
+// FORK RUN SERVICE
+// =============================================================================
+
+/**
+ * Branch a new run from a timeline event of an existing run
+ * The fork keeps the parent's definition and is owned by the forking user.
+ * Authorization is checked by the caller (see canForkRun)
+ */
+export async function forkRun(
+  runId: string,
+  userId: string,
+  eventId: string
+): Promise<CreateRunResult> {
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
+
+  if (run.project.deletedAt) {
+    throw new EngineError('Project has been deleted', 'PROJECT_DELETED')
+  }
+
+  const { newState, result } = forkRunState(runState, projectData, eventId)
+  if (!newState) {
+    throw new EngineError(result.message, 'INVALID_FORK')
+  }
+
+  // Named after the parent, numbered per branch
+  const forkCount = await prisma.run.count({ where: { parentRunId: run.id } })
+  const parentName = run.name || `Run ${run.id.slice(0, 8)}`
+
+  const fork = await prisma.run.create({
+    data: {
+      projectId: run.projectId,
+      definitionId: run.definitionId,
+      ownerUserId: userId,
+      name: `${parentName} — rama ${forkCount + 1}`,
+      status: 'ACTIVE',
+      state: JSON.stringify(newState),
+      parentRunId: run.id,
+      forkedFromEventId: eventId,
+    },
+  })
+
+  // Copied roll records carry the parent's seed
+  return {
+    runId: fork.id,
+    runName: fork.name,
+    state: redactRunStateForClients(newState),
+  }
+}
+
+// =============================================================================
+// RUN ARCHIVAL SERVICE
+// =============================================================================
+
+/**
+ * Archive a run (hidden from the active list, still playable and auditable)
+ * Authorization is checked by the caller (see canManageRun)
+ */
+export async function archiveRun(runId: string): Promise<void> {
+  await setRunArchived(runId, true)
+}
+
+/**
+ * Return an archived run to the active list
+ * Authorization is checked by the caller (see canManageRun)
+ */
+export async function unarchiveRun(runId: string): Promise<void> {
+  await setRunArchived(runId, false)
+}
+
+async function setRunArchived(runId: string, archived: boolean) {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { deletedAt: true },
+  })
+
+  if (!run) {
+    throw new NotFoundError('Run', runId)
+  }
+
+  if (run.deletedAt) {
+    throw new EngineError('Run has been deleted', 'RUN_DELETED')
+  }
+
+  await prisma.run.update({
+    where: { id: runId },
+    data: archived
+      ? { status: 'ARCHIVED', archivedAt: new Date() }
+      : { status: 'ACTIVE', archivedAt: null },
+  })
+}
+
+/**
+ * Admin bulk maintenance of runs not updated in the last `olderThanDays` days
+ * - ARCHIVE: active runs are archived
+ * - RESTORE: archived runs return to the active list
+ * - PURGE: archived or deleted runs are removed for good (with their team,
+ *   characters and spectator links; forks keep playing without lineage)
+ * Authorization (SUPERADMIN) is checked by the caller
+ * Returns the number of affected runs
+ */
+export async function bulkManageRuns(input: {
+  action: BulkRunAction
+  olderThanDays: number
+  projectId?: string
+}): Promise<number> {
+  const cutoff = new Date(Date.now() - input.olderThanDays * 24 * 60 * 60 * 1000)
+  const where = {
+    updatedAt: { lt: cutoff },
+    ...(input.projectId ? { projectId: input.projectId } : {}),
+  }
+
+  switch (input.action) {
+    case 'ARCHIVE': {
+      const { count } = await prisma.run.updateMany({
+        where: { ...where, status: 'ACTIVE', deletedAt: null },
+        data: { status: 'ARCHIVED', archivedAt: new Date() },
+      })
+      return count
+    }
+    case 'RESTORE': {
+      const { count } = await prisma.run.updateMany({
+        where: { ...where, status: 'ARCHIVED', deletedAt: null },
+        data: { status: 'ACTIVE', archivedAt: null },
+      })
+      return count
+    }
+    case 'PURGE': {
+      const { count } = await prisma.run.deleteMany({
+        where: { ...where, OR: [{ status: 'ARCHIVED' }, { deletedAt: { not: null } }] },
+      })
+      return count
+    }
+  }
+}
+
+// =============================================================================
+// DEFINITION MIGRATION SERVICE
+// =============================================================================
+
+export interface RunMigrationPreview {
+  runId: string
+  runName: string | null
+  fromVersion: number
+  report: RunMigrationReport
+}
+
+/**
+ * Plan the upgrade of the active runs still on other versions of the project
+ */
+async function planRunMigrations(projectId: string, definitionId: string) {
+  const definition = await prisma.projectDefinition.findUnique({
+    where: { id: definitionId },
+  })
+
+  if (!definition || definition.projectId !== projectId) {
+    throw new NotFoundError('Definition', definitionId)
+  }
+
+  const targetResult = parseProjectData(definition.data)
+  if (!targetResult.success) {
+    throw new ValidationError('Invalid project definition data')
+  }
+  const target = targetResult.data as ProjectData
+
+  const runs = await prisma.run.findMany({
+    where: { projectId, definitionId: { not: definitionId }, status: 'ACTIVE', deletedAt: null },
+    include: { definition: true },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  return runs.map((run) => {
+    const sourceResult = parseProjectData(run.definition.data)
+    const stateResult = parseRunState(run.state)
+    if (!sourceResult.success || !stateResult.success) {
+      throw new ValidationError(`Invalid state or definition in run ${run.id}`)
+    }
+
+    const runState = stateResult.data as RunState
+    const { newState, report } = migrateRunState(
+      runState,
+      sourceResult.data as ProjectData,
+      target,
+      { from: run.definition.version, to: definition.version }
+    )
+
+    const preview: RunMigrationPreview = {
+      runId: run.id,
+      runName: run.name,
+      fromVersion: run.definition.version,
+      report,
+    }
+
+    return { run, runState, newState, preview }
+  })
+}
+
+/**
+ * Dry run: what activating a definition would change in each active run
+ */
+export async function previewRunMigrations(
+  projectId: string,
+  definitionId: string
+): Promise<RunMigrationPreview[]> {
+  const plans = await planRunMigrations(projectId, definitionId)
+  return plans.map((plan) => plan.preview)
+}
+
+/**
+ * Activate a definition version and upgrade the active runs to it
+ * All-or-nothing: a run that changes meanwhile aborts the whole activation.
+ * Authorization is checked by the caller (OWNER or SUPERADMIN)
+ */
+export async function activateDefinitionWithMigration(
+  projectId: string,
+  definitionId: string
+): Promise<RunMigrationPreview[]> {
+  const plans = await planRunMigrations(projectId, definitionId)
+
+  await prisma.$transaction(async (tx) => {
+    for (const { run, newState } of plans) {
+      const { count } = await tx.run.updateMany({
+        where: { id: run.id, revision: run.revision },
+        data: {
+          definitionId,
+          state: JSON.stringify(newState),
+          revision: { increment: 1 },
+        },
+      })
+
+      if (count === 0) {
+        throw new StateConflictError(run.id)
+      }
+    }
+
+    await tx.projectDefinition.updateMany({
+      where: { projectId, isActive: true },
+      data: { isActive: false },
+    })
+
+    await tx.projectDefinition.update({
+      where: { id: definitionId },
+      data: { isActive: true },
+    })
+  })
+
+  // Players reload the new definition when they see RUN_MIGRATED
+  for (const { run, runState, newState } of plans) {
+    publishRunUpdate(run.id, runState, newState, run.revision + 1)
+  }
+
+  return plans.map((plan) => plan.preview)
+}
+
 // =============================================================================
 // LIST RUNS SERVICE
 // =============================================================================
@@ -304,10 +646,13 @@ export interface RunListItem {
   updatedAt: Date
 }
 
+/**
+ * List runs the user owns or takes part in as a team member
+ */
 export async function listUserRuns(userId: string): Promise<RunListItem[]> {
   const runs = await prisma.run.findMany({
     where: {
-      ownerUserId: userId,
+      OR: [{ ownerUserId: userId }, { participants: { some: { userId } } }],
       deletedAt: null,
     },
     include: {
@@ -389,6 +734,112 @@ export async function canAccessRun(
   return membership?.active === true
 }
 
+/**
+ * Check if user can take player actions (hack, move, scan, switch circuit)
+ * Solo runs: anyone who can access the run. Team runs: SUPERADMIN, run owner,
+ * team participants or the GM - other members would act from the shared
+ * position without one of their own
+ */
+export async function canPlayRun(
+  userId: string,
+  runId: string,
+  isSuperAdmin: boolean
+): Promise<boolean> {
+  if (isSuperAdmin) return true
+
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { ownerUserId: true, _count: { select: { participants: true } } },
+  })
+
+  if (!run) return false
+  if (run.ownerUserId === userId) return true
+
+  if (run._count.participants === 0) {
+    return canAccessRun(userId, runId, false)
+  }
+
+  const participant = await prisma.runParticipant.findUnique({
+    where: { runId_userId: { runId, userId } },
+    select: { runId: true },
+  })
+  if (participant) return true
+
+  return canControlRun(userId, runId, false)
+}
+
+/**
+ * Check if user can control a run as GM
+ * Allows: SUPERADMIN or OWNER of the run's project
+ */
+export async function canControlRun(
+  userId: string,
+  runId: string,
+  isSuperAdmin: boolean
+): Promise<boolean> {
+  if (isSuperAdmin) return true
+
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { projectId: true },
+  })
+
+  if (!run) return false
+
+  const membership = await prisma.projectMember.findUnique({
+    where: {
+      projectId_userId: { projectId: run.projectId, userId },
+    },
+    select: { role: true, active: true },
+  })
+
+  return membership?.active === true && membership.role === 'OWNER'
+}
+
+/**
+ * Check if user can manage a run (team, share links)
+ * Allows: SUPERADMIN, run owner, or OWNER of the run's project
+ */
+export async function canManageRun(
+  userId: string,
+  runId: string,
+  isSuperAdmin: boolean
+): Promise<boolean> {
+  if (isSuperAdmin) return true
+
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { ownerUserId: true },
+  })
+
+  if (!run) return false
+  if (run.ownerUserId === userId) return true
+
+  return canControlRun(userId, runId, false)
+}
+
+/**
+ * Check if user can fork a run
+ * Allows: users who can access the run and create runs in its project
+ */
+export async function canForkRun(
+  userId: string,
+  runId: string,
+  isSuperAdmin: boolean
+): Promise<boolean> {
+  if (isSuperAdmin) return true
+
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { projectId: true },
+  })
+
+  if (!run) return false
+  if (!(await canAccessRun(userId, runId, false))) return false
+
+  return canCreateRunInProject(userId, run.projectId, false)
+}
+
 /**
  * Check if user can create run in project
  */
@@ -426,20 +877,259 @@ export async function canCreateRunInProject(
 
 export async function switchCircuitService(
   runId: string,
+  actor: RunActor,
   targetCircuitId: string
 ): Promise<SwitchCircuitResult> {
-  const { runState, projectData } = await getRunWithDefinition(runId)
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
 
-  const { newState, result } = engineSwitchCircuit(
-    runState,
-    projectData,
-    targetCircuitId
+  const { newState, result } = applyAsPlayer(runState, actor, (playerState) =>
+    applyWithCountermeasures(playerState, projectData, (current) =>
+      engineSwitchCircuit(current, projectData, targetCircuitId)
+    )
   )
 
   // Save state if changed
   if (newState !== runState) {
-    await saveRunState(runId, newState)
+    await saveRunState(runId, runState, newState, run.revision)
   }
 
   return result
 }
+
+// =============================================================================
+// GM OVERRIDE SERVICE
+// =============================================================================
+
+/**
+ * Apply a GM override to a live run
+ * Authorization (OWNER/SUPERADMIN) is checked by the caller
+ */
+export async function applyGmActionService(
+  runId: string,
+  action: GmAction
+): Promise<GmActionResult> {
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
+
+  const { newState, result } = engineApplyGmAction(runState, projectData, action)
+
+  // Save state if changed
+  if (newState !== runState) {
+    await saveRunState(runId, runState, newState, run.revision)
+  }
+
+  return result
+}
+
+// =============================================================================
+// ROLLBACK SERVICE
+// =============================================================================
+
+/**
+ * Restore a live run to the checkpoint of a timeline event
+ * Authorization (OWNER/SUPERADMIN) is checked by the caller
+ */
+export async function rollbackRunService(
+  runId: string,
+  eventId: string
+): Promise<GmActionResult> {
+  const { run, runState, projectData } = await getRunWithDefinition(runId)
+
+  const { newState, result } = engineRollbackToEvent(runState, projectData, eventId)
+
+  // Save state if changed
+  if (newState !== runState) {
+    await saveRunState(runId, runState, newState, run.revision)
+  }
+
+  return result
+}
+
+// =============================================================================
+// RUN PARTICIPANTS SERVICE (Team runs)
+// =============================================================================
+
+/**
+ * List the team of a run: the owner first, then participants by join date
+ */
+export async function listRunParticipants(runId: string): Promise<RunParticipantInfo[]> {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    include: {
+      owner: { select: { id: true, name: true, email: true } },
+      participants: {
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { joinedAt: 'asc' },
+      },
+    },
+  })
+
+  if (!run || run.deletedAt) {
+    throw new NotFoundError('Run', runId)
+  }
+
+  return [
+    {
+      userId: run.owner.id,
+      name: run.owner.name,
+      email: run.owner.email,
+      isOwner: true,
+      joinedAt: run.createdAt,
+    },
+    ...run.participants.map((participant) => ({
+      userId: participant.user.id,
+      name: participant.user.name,
+      email: participant.user.email,
+      isOwner: false,
+      joinedAt: participant.joinedAt,
+    })),
+  ]
+}
+
+/**
+ * Add a project member to a run team
+ * The first participant turns the run into a team run: every player
+ * (owner included) gets their own position in the shared state.
+ */
+export async function addRunParticipant(runId: string, userId: string): Promise<void> {
+  const { run, runState } = await getRunWithDefinition(runId)
+
+  if (run.ownerUserId === userId) {
+    throw new EngineError('The run owner is already part of the team', 'ALREADY_PARTICIPANT')
+  }
+
+  const membership = await prisma.projectMember.findUnique({
+    where: {
+      projectId_userId: { projectId: run.projectId, userId },
+    },
+    select: { active: true },
+  })
+
+  if (membership?.active !== true) {
+    throw new PermissionError('Only active project members can join the run')
+  }
+
+  // Position first: on a STATE_CONFLICT nobody joins. A stored position
+  // without a participant row is harmless (removed players keep theirs too)
+  const newState = addPlayerPositions(runState, [run.ownerUserId, userId])
+  if (newState !== runState) {
+    await saveRunState(runId, runState, newState, run.revision)
+  }
+
+  await prisma.runParticipant.upsert({
+    where: { runId_userId: { runId, userId } },
+    create: { runId, userId },
+    update: {},
+  })
+}
+
+/**
+ * Remove a participant from a run team
+ * Their position is kept in the state so they resume where they left if they rejoin
+ */
+export async function removeRunParticipant(runId: string, userId: string): Promise<void> {
+  const { count } = await prisma.runParticipant.deleteMany({
+    where: { runId, userId },
+  })
+
+  if (count === 0) {
+    throw new NotFoundError('RunParticipant', userId)
+  }
+}
+
+// =============================================================================
+// RUN CHARACTERS SERVICE (Decker profiles)
+// =============================================================================
+
+/**
+ * Map a character row to the engine profile (programs are stored as JSON)
+ */
+function toRunCharacterInfo(character: {
+  id: string
+  userId: string
+  name: string
+  interface: number
+  deckBonus: number
+  programs: string
+  failDieBonus: number
+  failDieRerolls: number
+  updatedAt: Date
+}): RunCharacterInfo {
+  let programs: CharacterProfile['programs'] = []
+  try {
+    const parsed = CharacterProgramSchema.array().safeParse(JSON.parse(character.programs))
+    if (parsed.success) programs = parsed.data
+  } catch {
+    // Corrupt JSON - treat as no programs
+  }
+
+  return {
+    id: character.id,
+    userId: character.userId,
+    name: character.name,
+    interface: character.interface,
+    deckBonus: character.deckBonus,
+    programs,
+    failDieBonus: character.failDieBonus,
+    failDieRerolls: character.failDieRerolls,
+    updatedAt: character.updatedAt,
+  }
+}
+
+/**
+ * Get the character a player uses in a run (null if none)
+ */
+export async function getRunCharacter(runId: string, userId: string): Promise<RunCharacterInfo | null> {
+  const character = await prisma.character.findUnique({
+    where: { runId_userId: { runId, userId } },
+  })
+
+  return character ? toRunCharacterInfo(character) : null
+}
+
+/**
+ * Create or update the character of a player in a run
+ */
+export async function saveRunCharacter(
+  runId: string,
+  userId: string,
+  profile: CharacterProfile
+): Promise<RunCharacterInfo> {
+  const run = await prisma.run.findUnique({
+    where: { id: runId },
+    select: { deletedAt: true },
+  })
+
+  if (!run || run.deletedAt) {
+    throw new NotFoundError('Run', runId)
+  }
+
+  const data = {
+    name: profile.name,
+    interface: profile.interface,
+    deckBonus: profile.deckBonus,
+    programs: JSON.stringify(profile.programs),
+    failDieBonus: profile.failDieBonus,
+    failDieRerolls: profile.failDieRerolls,
+  }
+
+  const character = await prisma.character.upsert({
+    where: { runId_userId: { runId, userId } },
+    create: { runId, userId, ...data },
+    update: data,
+  })
+
+  return toRunCharacterInfo(character)
+}
+
+/**
+ * Remove the character of a player - later hacks use bare rolls
+ */
+export async function deleteRunCharacter(runId: string, userId: string): Promise<void> {
+  const { count } = await prisma.character.deleteMany({
+    where: { runId, userId },
+  })
+
+  if (count === 0) {
+    throw new NotFoundError('Character', userId)
+  }
+}
@@ -0,0 +1,352 @@
+// =============================================================================
+// ROLHACK ENGINE - Difficulty Simulation
+// =============================================================================
+// Monte-Carlo playthroughs of a definition through the real engine rules.
+// Runs in short slices that yield to the event loop, within a fixed work cap.
+
+import type { ProjectData, CircuitDefinition, RunState } from './types'
+import {
+  initializeRunState,
+  attemptHack,
+  moveToNode,
+  discoverHiddenLinks,
+  switchCircuit,
+  getAvailableMoves,
+  hasHiddenLinksAvailable,
+  applyWithCountermeasures,
+  getLinksFromNode,
+  getLinkTarget,
+} from './engine'
+import { createRng, rollDie, rollDiceExpression } from './dice'
+
+// =============================================================================
+// SIMULATION TYPES
+// =============================================================================
+
+/**
+ * How the simulated decker picks the next node
+ * DIRECT: heads for the final node, scans only when stuck
+ * EXPLORE: scans every node and advances at random
+ */
+export type SimulationStrategy = 'DIRECT' | 'EXPLORE'
+
+export interface SimulationOptions {
+  iterations?: number // Playthroughs per circuit (default 1000)
+  dice?: string // Hack roll expression (default: meta.defaultDice or 1d20)
+  strategy?: SimulationStrategy // Default DIRECT
+  maxActions?: number // A playthrough still going after this many actions is stuck
+  seed?: string // Same seed, same report
+}
+
+export interface CircuitSimulation {
+  circuitId: string
+  circuitName: string
+  completionRate: number // 0-1
+  lockdownRate: number // Playthroughs where a node or the circuit was locked down
+  gameOverRate: number
+  stuckRate: number // No moves left, or out of actions
+  averageActions: number | null // Of the completed playthroughs
+}
+
+export interface NodeDanger {
+  circuitId: string
+  nodeId: string
+  nodeName: string
+  attempts: number
+  failureRate: number // Per resolved hack attempt
+  lockdownRate: number
+  gameOverRate: number
+}
+
+export interface SimulationReport {
+  iterations: number
+  iterationsLimited: boolean // Fewer than requested: the definition is too large for the work cap
+  dice: string
+  strategy: SimulationStrategy
+  circuits: CircuitSimulation[]
+  dangerousNodes: NodeDanger[] // Most dangerous first
+}
+
+type Ending = 'COMPLETED' | 'LOCKDOWN' | 'GAME_OVER' | 'STUCK'
+
+interface NodeCounters {
+  attempts: number
+  failures: number
+  lockdowns: number
+  gameOvers: number
+}
+
+const DEFAULT_ITERATIONS = 1000
+const DEFAULT_MAX_ACTIONS = 200
+const DANGEROUS_NODES = 5
+// Cap on iterations × nodes × maxActions - iterations are cut to fit
+const MAX_SIMULATION_WORK = 5000000
+// Playthroughs run for this long before yielding to the event loop
+const SLICE_MS = 20
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+/**
+ * Per-node counters are kept per circuit: node IDs are only unique within one
+ */
+const counterKey = (circuitId: string, nodeId: string) => `${circuitId}:${nodeId}`
+
+// =============================================================================
+// PATHFINDING
+// =============================================================================
+
+/**
+ * Steps from every node to the final node along the links, in their direction
+ * (hidden links included: they are found by scanning)
+ */
+function distancesToFinal(circuit: CircuitDefinition): Map<string, number> {
+  const distances = new Map<string, number>()
+  const finalNode = circuit.nodes.find((n) => n.isFinal)
+  if (!finalNode) return distances
+
+  distances.set(finalNode.id, 0)
+  const queue = [finalNode.id]
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string
+    for (const node of circuit.nodes) {
+      if (distances.has(node.id)) continue
+      const leadsHere = getLinksFromNode(circuit, node.id).some((link) => getLinkTarget(link, node.id) === nodeId)
+      if (leadsHere) {
+        distances.set(node.id, (distances.get(nodeId) as number) + 1)
+        queue.push(node.id)
+      }
+    }
+  }
+  return distances
+}
+
+/**
+ * First step of the shortest retreat through compromised nodes to one that
+ * still has somewhere to go (an open neighbour or a hidden link to scan)
+ */
+function stepTowardsFrontier(state: RunState, circuit: CircuitDefinition): string | null {
+  const usableLinks = (nodeId: string) =>
+    getLinksFromNode(circuit, nodeId).filter((link) => {
+      const linkState = state.links[link.id]
+      return linkState?.descubierto && !linkState.inaccesible
+    })
+  const hasFrontier = (nodeId: string) =>
+    getLinksFromNode(circuit, nodeId).some((link) => link.hidden && !state.links[link.id]?.descubierto) ||
+    usableLinks(nodeId).some((link) => {
+      const target = state.nodes[getLinkTarget(link, nodeId)]
+      return target && target.descubierto && !target.hackeado && !target.bloqueado && !target.inaccesible
+    })
+
+  const start = state.position.nodeId
+  const firstStep = new Map<string, string>()
+  const queue = [start]
+  while (queue.length > 0) {
+    const nodeId = queue.shift() as string
+    if (nodeId !== start && hasFrontier(nodeId)) return firstStep.get(nodeId) as string
+
+    for (const link of usableLinks(nodeId)) {
+      const targetId = getLinkTarget(link, nodeId)
+      const target = state.nodes[targetId]
+      if (targetId === start || firstStep.has(targetId)) continue
+      if (!target?.hackeado || target.bloqueado || target.inaccesible) continue
+      firstStep.set(targetId, nodeId === start ? targetId : (firstStep.get(nodeId) as string))
+      queue.push(targetId)
+    }
+  }
+  return null
+}
+
+// =============================================================================
+// PLAYTHROUGH
+// =============================================================================
+
+/**
+ * Drop the history the rules never read back before the next action: the
+ * engine clones the whole state on every action, timeline included.
+ * The last warning stays - ICE contacts escalate from its severity.
+ */
+function trimHistory(state: RunState): RunState {
+  return { ...state, timeline: [], warnings: state.warnings.slice(-1) }
+}
+
+/**
+ * One playthrough of a circuit from a fresh run, until it ends or stalls
+ */
+function playCircuit(
+  data: ProjectData,
+  circuit: CircuitDefinition,
+  dice: string,
+  strategy: SimulationStrategy,
+  maxActions: number,
+  distances: Map<string, number>,
+  rng: () => number,
+  counters: Map<string, NodeCounters>
+): { ending: Ending; actions: number; lockdown: boolean } {
+  let state = initializeRunState(data)
+  if (state.position.circuitId !== circuit.id) {
+    // Circuits are played in isolation: open the gate the portals would open
+    if (state.unlockedCircuits) state.unlockedCircuits = [...state.unlockedCircuits, circuit.id]
+    const switched = switchCircuit(state, data, circuit.id)
+    if (!switched.result.success) return { ending: 'STUCK', actions: 0, lockdown: false }
+    state = switched.newState
+  }
+
+  const pick = <T>(options: T[]) => options[Math.floor(rng() * options.length)]
+  let lockdown = false
+
+  for (let actions = 0; actions < maxActions; actions++) {
+    state = trimHistory(state)
+    if (state.completedCircuits?.[circuit.id]) return { ending: 'COMPLETED', actions, lockdown }
+    if (state.gameOver) return { ending: 'GAME_OVER', actions, lockdown }
+    if (state.blockedCircuits?.[circuit.id]) return { ending: 'LOCKDOWN', actions, lockdown: true }
+    // ICE ejections or budgets may take the player out of the circuit
+    if (state.position.circuitId !== circuit.id) return { ending: 'STUCK', actions, lockdown }
+
+    const nodeId = state.position.nodeId
+    const nodeState = state.nodes[nodeId]
+    const node = circuit.nodes.find((n) => n.id === nodeId)
+
+    // Hack the current node until it falls or locks down
+    if (node && nodeState && !nodeState.hackeado && !nodeState.bloqueado && !nodeState.inaccesible) {
+      const rolled = rollDiceExpression(dice, {}, rng)
+      const roll = rolled.success ? rolled.total : 0
+      const failRoll = rollDie(node.failDie, rng)
+      const { newState, result } = applyWithCountermeasures(state, data, (current) =>
+        attemptHack(current, data, roll, failRoll)
+      )
+      if (newState === state) return { ending: 'STUCK', actions, lockdown }
+
+      const key = counterKey(circuit.id, nodeId)
+      const nodeCounters = counters.get(key) ?? { attempts: 0, failures: 0, lockdowns: 0, gameOvers: 0 }
+      nodeCounters.attempts++
+      if (!result.success) nodeCounters.failures++
+      if (result.bloqueado) nodeCounters.lockdowns++
+      if (result.gameOver) nodeCounters.gameOvers++
+      counters.set(key, nodeCounters)
+
+      lockdown = lockdown || result.bloqueado
+      if (result.gameOver) return { ending: 'GAME_OVER', actions: actions + 1, lockdown }
+      state = newState
+      continue
+    }
+
+    const { advance } = getAvailableMoves(state, data)
+
+    // Scan for hidden links: always when exploring, otherwise only when stuck
+    if (nodeState?.hackeado && hasHiddenLinksAvailable(state, data) && (strategy === 'EXPLORE' || advance.length === 0)) {
+      const scanned = applyWithCountermeasures(state, data, (current) => discoverHiddenLinks(current, data))
+      if (scanned.newState !== state) {
+        state = scanned.newState
+        continue
+      }
+    }
+
+    let targetId: string | null = null
+    if (advance.length > 0) {
+      const closest = Math.min(...advance.map((id) => distances.get(id) ?? Infinity))
+      targetId = strategy === 'DIRECT' && closest < Infinity
+        ? pick(advance.filter((id) => distances.get(id) === closest))
+        : pick(advance)
+    } else {
+      targetId = stepTowardsFrontier(state, circuit)
+    }
+    if (!targetId) return { ending: 'STUCK', actions, lockdown }
+
+    const moved = applyWithCountermeasures(state, data, (current) => moveToNode(current, data, targetId as string))
+    if (moved.newState === state) return { ending: 'STUCK', actions, lockdown }
+    state = moved.newState
+  }
+
+  return { ending: state.completedCircuits?.[circuit.id] ? 'COMPLETED' : 'STUCK', actions: maxActions, lockdown }
+}
+
+// =============================================================================
+// DIFFICULTY REPORT
+// =============================================================================
+
+/**
+ * Play every circuit `iterations` times from a fresh run and report how
+ * lethal it is. Runs the real hack / move / scan rules, countermeasures
+ * included; time budgets never expire (the simulation takes no time).
+ * Circuits are played in isolation, so keys carried from other circuits
+ * are not in the inventory.
+ * Large definitions get fewer iterations than requested (MAX_SIMULATION_WORK).
+ */
+export async function simulateProject(
+  data: ProjectData,
+  options: SimulationOptions = {}
+): Promise<SimulationReport> {
+  const dice = options.dice ?? data.meta.defaultDice ?? '1d20'
+  const strategy = options.strategy ?? 'DIRECT'
+  const maxActions = options.maxActions ?? DEFAULT_MAX_ACTIONS
+  const rng = createRng(options.seed ?? 'simulation')
+
+  const requestedIterations = options.iterations ?? DEFAULT_ITERATIONS
+  const nodeCount = data.circuits.reduce((sum, circuit) => sum + circuit.nodes.length, 0)
+  const affordableIterations = Math.floor(MAX_SIMULATION_WORK / (Math.max(nodeCount, 1) * maxActions))
+  const iterations = Math.max(1, Math.min(requestedIterations, affordableIterations))
+
+  const counters = new Map<string, NodeCounters>()
+  const circuits: CircuitSimulation[] = []
+  let sliceStart = Date.now()
+
+  for (const circuit of data.circuits) {
+    const distances = distancesToFinal(circuit)
+    const endings: Record<Ending, number> = { COMPLETED: 0, LOCKDOWN: 0, GAME_OVER: 0, STUCK: 0 }
+    let lockdowns = 0
+    let completedActions = 0
+
+    for (let i = 0; i < iterations; i++) {
+      if (Date.now() - sliceStart >= SLICE_MS) {
+        await yieldToEventLoop()
+        sliceStart = Date.now()
+      }
+
+      const played = playCircuit(data, circuit, dice, strategy, maxActions, distances, rng, counters)
+      endings[played.ending]++
+      if (played.lockdown) lockdowns++
+      if (played.ending === 'COMPLETED') completedActions += played.actions
+    }
+
+    circuits.push({
+      circuitId: circuit.id,
+      circuitName: circuit.name,
+      completionRate: endings.COMPLETED / iterations,
+      lockdownRate: lockdowns / iterations,
+      gameOverRate: endings.GAME_OVER / iterations,
+      stuckRate: endings.STUCK / iterations,
+      averageActions: endings.COMPLETED > 0 ? completedActions / endings.COMPLETED : null,
+    })
+  }
+
+  const dangerousNodes: NodeDanger[] = data.circuits
+    .flatMap((circuit) =>
+      circuit.nodes.map((node) => {
+        const c = counters.get(counterKey(circuit.id, node.id))
+        if (!c || c.attempts === 0) return null
+        return {
+          circuitId: circuit.id,
+          nodeId: node.id,
+          nodeName: node.name,
+          attempts: c.attempts,
+          failureRate: c.failures / c.attempts,
+          lockdownRate: c.lockdowns / c.attempts,
+          gameOverRate: c.gameOvers / c.attempts,
+        }
+      })
+    )
+    .filter((danger): danger is NodeDanger => danger !== null && danger.failureRate > 0)
+    .sort((a, b) =>
+      b.gameOverRate - a.gameOverRate || b.lockdownRate - a.lockdownRate || b.failureRate - a.failureRate
+    )
+    .slice(0, DANGEROUS_NODES)
+
+  return {
+    iterations,
+    iterationsLimited: iterations < requestedIterations,
+    dice,
+    strategy,
+    circuits,
+    dangerousNodes,
+  }
+}
@@ -26,6 +26,8 @@ export interface NodeDefinition {
   id: string
   name: string
   description?: string
+  type?: NodeType // Built-in mechanics (defaults to STANDARD)
+  controls?: ControlTarget // CONTROL nodes: taken offline when the node is compromised
   level: number // 0 = entry point, higher = deeper in the network
   cd: number // Challenge Difficulty - value needed to hack (first roll >= CD = success)
   failDie: number // Fail die (D3-D20) - determines fail roll range in phase 2
@@ -34,11 +36,48 @@ export interface NodeDefinition {
   rangeErrorMessage?: string // Custom message for WARNING in range failure
   visibleByDefault: boolean // Is this node visible at run start?
   isFinal?: boolean // Final node - hacking completes the circuit (only 1 per circuit)
+  payloads?: NodePayload[] // Delivered to the run inventory when the node is compromised
+  requires?: AccessRequirement[] // All must be met to enter the node
+  triggers?: TriggerDefinition[] // Scripted reactions (ON_HACK, ON_FAIL, ON_ENTER, ON_DISCOVER)
   // Map positioning (for visual circuit map)
   mapX?: number // X coordinate (0-100 percentage)
   mapY?: number // Y coordinate (0-100 percentage)
 }
 
+/**
+ * Node type - built-in mechanics on top of the CD / fail die rules
+ * FIREWALL: its neighbours stay hidden until it is compromised
+ * DATASTORE: stores payloads
+ * CONTROL: compromising it takes its control target offline
+ * HONEYPOT: every resolved hack attempt raises a TRACE warning
+ */
+export type NodeType = 'STANDARD' | 'FIREWALL' | 'DATASTORE' | 'CONTROL' | 'HONEYPOT'
+
+/**
+ * What a CONTROL node shuts down
+ * NODE: the node becomes inaccessible (a firewall drops, exposing its neighbours)
+ * CIRCUIT: the ICE guardians of the circuit go offline
+ */
+export type ControlTarget =
+  | { type: 'NODE'; nodeId: string }
+  | { type: 'CIRCUIT'; circuitId: string }
+
+/**
+ * Payload type - how the content is shown to the players
+ * TEXT / MARKDOWN: data file, PASSWORD / KEY: code, IMAGE: image URL
+ */
+export type PayloadType = 'TEXT' | 'MARKDOWN' | 'PASSWORD' | 'IMAGE' | 'KEY'
+
+/**
+ * Loot stored in a node - revealed only once the node is compromised
+ */
+export interface NodePayload {
+  id: string
+  name: string
+  type: PayloadType
+  content: string
+}
+
 /**
  * Link between nodes - represents a connection/path
  */
@@ -49,6 +88,74 @@ export interface LinkDefinition {
   style: LinkStyle
   hidden: boolean // Must be discovered via "Buscar accesos"
   bidirectional?: boolean // Default true - can traverse both ways
+  requires?: AccessRequirement[] // All must be met to traverse the link
+  triggers?: TriggerDefinition[] // Scripted reactions (ON_ENTER when traversed, ON_DISCOVER)
+}
+
+/**
+ * What fires a trigger
+ * - ON_HACK / ON_FAIL: a hack on the node succeeds / fails (nodes only)
+ * - ON_ENTER: the player moves into the node or through the link
+ * - ON_DISCOVER: the node or link is revealed by a scan
+ */
+export type TriggerEvent = 'ON_HACK' | 'ON_FAIL' | 'ON_ENTER' | 'ON_DISCOVER'
+
+/**
+ * What a trigger does when it fires
+ */
+export type TriggerAction =
+  | { type: 'REVEAL_NODE'; nodeId: string }
+  | { type: 'REVEAL_LINK'; linkId: string } // Also reveals both ends
+  | { type: 'DISABLE_NODE'; nodeId: string } // Marks the node inaccesible
+  | { type: 'DISABLE_LINK'; linkId: string } // Marks the link inaccesible
+  | { type: 'CHANGE_CD'; nodeId: string; amount: number } // Negative lowers the CD
+  | { type: 'ADD_WARNING'; severity: WarningSeverity; message: string }
+  | { type: 'MESSAGE'; text: string } // Narrative shown to the players
+  | { type: 'COMPLETE_CIRCUIT'; circuitId: string }
+
+/**
+ * Declarative "on event -> do actions" script attached to a node or link
+ * Fires once per run unless repeatable. Actions never fire other triggers.
+ */
+export interface TriggerDefinition {
+  id: string
+  on: TriggerEvent
+  actions: TriggerAction[]
+  repeatable?: boolean
+}
+
+/**
+ * Condition gating a link or node
+ * - KEY: a payload (from any node) must be in the run inventory
+ * - NODE_HACKED: a node (in any circuit) must be compromised
+ */
+export type AccessRequirement =
+  | { type: 'KEY'; payloadId: string }
+  | { type: 'NODE_HACKED'; nodeId: string }
+
+/**
+ * What makes an ICE take a step along its patrol route
+ */
+export type IceTrigger = 'ON_TRACE' | 'ON_ALERT' | 'EVERY_N_ACTIONS'
+
+/**
+ * What an ICE does when it reaches the player's node
+ */
+export type IceContactEffect = 'LOCKDOWN' | 'EJECT' | 'RAISE_SEVERITY'
+
+/**
+ * ICE - a guardian entity patrolling a circuit
+ * Walks back and forth along [startNodeId, ...patrolRoute]; consecutive
+ * nodes must be connected by a link (hidden links included).
+ */
+export interface IceDefinition {
+  id: string
+  name: string
+  startNodeId: string
+  patrolRoute: string[] // Node IDs visited after the start node
+  triggers: IceTrigger[]
+  everyNActions?: number // Required with EVERY_N_ACTIONS
+  onContact: IceContactEffect
 }
 
 /**
@@ -60,8 +167,20 @@ export interface CircuitDefinition {
   description?: string
   nodes: NodeDefinition[]
   links: LinkDefinition[]
+  ice?: IceDefinition[] // Guardians patrolling this circuit
+  budget?: BudgetConfig // Time limit while in this circuit
+  layout?: CircuitLayout // Map layout for nodes without mapX/mapY (default LEVELS)
 }
 
+/**
+ * Automatic map layout of a circuit
+ * LEVELS: one row per node level
+ * LAYERED: rows by distance from the entry, ordered to minimise crossings
+ * FORCE: force-directed (linked nodes attract, all nodes repel)
+ * RADIAL: rings around the entry node
+ */
+export type CircuitLayout = 'LEVELS' | 'LAYERED' | 'FORCE' | 'RADIAL'
+
 /**
  * Project metadata
  */
@@ -70,6 +189,68 @@ export interface ProjectMeta {
   author?: string
   createdAt?: string
   description?: string
+  // Who rolls the hack dice: players at the table (MANUAL, default) or the server
+  diceMode?: DiceMode
+  // Default dice expression for SERVER mode (e.g. "1d20")
+  defaultDice?: string
+  // Run-level trace meter (disabled when absent)
+  trace?: TraceConfig
+  // Time limit for the whole run
+  budget?: BudgetConfig
+  // Circuit gating: circuits other than the first one are entered only through portals
+  circuitGating?: boolean
+}
+
+/**
+ * Dice mode - MANUAL: players post their rolls, SERVER: the server rolls
+ */
+export type DiceMode = 'MANUAL' | 'SERVER'
+
+/**
+ * What happens when the trace meter crosses a threshold
+ * - RAISE_CD: every node still to be hacked gets harder
+ * - REVEAL_TO_ICE: guardians learn where the player is and hunt them
+ * - LOCKDOWN: the player's current circuit is locked down
+ */
+export type TraceEscalation = 'RAISE_CD' | 'REVEAL_TO_ICE' | 'LOCKDOWN'
+
+/**
+ * Trace meter threshold - fires its escalation once, when first reached
+ */
+export interface TraceThreshold {
+  value: number
+  escalation: TraceEscalation
+  cdIncrease?: number // RAISE_CD only (default 2)
+}
+
+/**
+ * Trace meter configuration - how much each warning raises the meter
+ */
+export interface TraceConfig {
+  traceAmount: number // Per TRACE warning
+  alertAmount: number // Per ALERT warning
+  criticalAmount: number // Per critical result (BLACK_ICE warning)
+  thresholds: TraceThreshold[]
+}
+
+/**
+ * What happens when a budget runs out
+ * - LOCKDOWN: the circuit (or every circuit, for the run budget) is locked down
+ * - GAME_OVER: the run ends
+ * - SWITCH_CIRCUIT: the player is forced into another circuit
+ */
+export type BudgetOutcome = 'LOCKDOWN' | 'GAME_OVER' | 'SWITCH_CIRCUIT'
+
+/**
+ * Action budget and/or wall-clock limit ("the sweep arrives in 10 actions")
+ * Hacks, moves and link searches consume actions; the clock of a circuit
+ * starts when the player enters it, the run clock at run start.
+ */
+export interface BudgetConfig {
+  actions?: number
+  seconds?: number
+  onExpire: BudgetOutcome
+  switchToCircuitId?: string // Required with SWITCH_CIRCUIT
 }
 
 /**
@@ -78,6 +259,22 @@ export interface ProjectMeta {
 export interface ProjectData {
   meta: ProjectMeta
   circuits: CircuitDefinition[]
+  portals?: PortalDefinition[] // Links between circuits
+}
+
+/**
+ * Portal - a link from a node in one circuit to a node in another circuit
+ * Discovered and traversed like a normal link; its state lives in RunState.links.
+ */
+export interface PortalDefinition {
+  id: string
+  fromCircuitId: string
+  fromNodeId: string
+  toCircuitId: string
+  toNodeId: string
+  hidden: boolean // Must be discovered via "Buscar accesos"
+  bidirectional?: boolean // Default true - can traverse both ways
+  requires?: AccessRequirement[] // All must be met to traverse the portal
 }
 
 // =============================================================================
@@ -104,6 +301,7 @@ export interface NodeState {
   descubierto: boolean
   intentos: number
   ultimoResultado: HackResult
+  cdModifier?: number // Set by CHANGE_CD triggers
 }
 
 /**
@@ -124,6 +322,50 @@ export interface Warning {
   timestamp?: string
 }
 
+/**
+ * Payload extracted during a run
+ */
+export interface InventoryItem {
+  payloadId: string
+  name: string
+  type: PayloadType
+  content: string
+  circuitId: string
+  nodeId: string
+  extractedAt: string // ISO 8601
+}
+
+/**
+ * ICE state in a run
+ */
+export interface IceState {
+  nodeId: string
+  routeIndex: number // Index in [startNodeId, ...patrolRoute]
+  direction: 1 | -1 // Patrol direction (reverses at the route ends)
+  actionCount: number // Player actions in the circuit since the last EVERY_N_ACTIONS step
+  engaged: boolean // Already in contact with the player (effect fires once per contact)
+  offline?: boolean // Shut down by a CONTROL node - no longer moves nor engages
+}
+
+/**
+ * Trace meter state in a run
+ */
+export interface TraceState {
+  level: number
+  reachedThresholds: number[] // Indexes in TraceConfig.thresholds already fired
+  cdIncrease: number // Added to the CD of every node not yet hacked
+  revealedToIce: boolean // Guardians hunt the player instead of patrolling
+}
+
+/**
+ * Remaining budget in a run
+ */
+export interface BudgetState {
+  actionsLeft?: number // Absent when the budget has no action limit
+  deadline?: string // ISO 8601 - absent until the clock starts (or without a clock)
+  expired: boolean
+}
+
 /**
  * Current position in the network
  */
@@ -145,6 +387,16 @@ export type TimelineEventType =
   | 'CIRCUIT_CHANGED'
   | 'CIRCUIT_COMPLETED'
   | 'RUN_COMPLETED'
+  | 'GM_OVERRIDE'
+  | 'DICE_ROLLED'
+  | 'ICE_CONTACT'
+  | 'TRACE_ESCALATION'
+  | 'BUDGET_EXPIRED'
+  | 'TRIGGER_FIRED'
+  | 'CONTROL_SEIZED'
+  | 'ROLLBACK'
+  | 'RUN_FORKED'
+  | 'RUN_MIGRATED'
 
 /**
  * Snapshot of state at a point in time (for visual replay)
@@ -156,10 +408,20 @@ export interface StateSnapshot {
   links: Record<string, LinkState>
 }
 
+/**
+ * Run state restored by a GM rollback
+ * Warnings and the timeline are append-only: only the warning count is kept.
+ * The server dice counter is left out so rolls never repeat after a rollback.
+ */
+export type RunCheckpoint = Omit<RunState, 'warnings' | 'timeline' | 'diceSeed' | 'diceSequence'> & {
+  warningCount: number
+}
+
 /**
  * Timeline event - a milestone in the RUN progression
  * Used for visual replay and progress understanding
- * NOT for logic rollback - purely observational
+ * The snapshot is observational only; the last event of each committed write
+ * also carries the checkpoint a GM can roll the run back to
  */
 export interface TimelineEvent {
   id: string
@@ -169,15 +431,38 @@ export interface TimelineEvent {
   nodeId?: string
   // Human-readable description
   description: string
+  // Team runs: who performed the action (absent on older events)
+  actorUserId?: string
+  actorName?: string
   // Optional additional context
   details?: {
     discoveredLinks?: string[]
     discoveredNodes?: string[]
     warningGenerated?: boolean
     previousCircuitId?: string
+    portalId?: string // Set on CIRCUIT_CHANGED events caused by a portal
+    gmAction?: GmActionType // Set on GM_OVERRIDE events
+    diceRoll?: DiceRollRecord // Set on DICE_ROLLED events
+    hackModifiers?: HackModifierBreakdown // Character modifiers behind a hack outcome
+    iceId?: string // Set on ICE_CONTACT events
+    iceEffect?: IceContactEffect
+    traceLevel?: number // Set on TRACE_ESCALATION events
+    traceEscalation?: TraceEscalation
+    budgetScope?: 'RUN' | 'CIRCUIT' // Set on BUDGET_EXPIRED events
+    budgetOutcome?: BudgetOutcome
+    payloadIds?: string[] // Payloads extracted by a hack
+    triggerId?: string // Set on TRIGGER_FIRED events
+    narrative?: string[] // MESSAGE actions of a fired trigger
+    controlTarget?: ControlTarget // Set on CONTROL_SEIZED events
+    rollbackToEventId?: string // Set on ROLLBACK events
+    forkedFromEventId?: string // Set on RUN_FORKED events (event id in the parent run)
   }
   // State snapshot for visual replay (observation only)
   snapshot: StateSnapshot
+  // GM rollback target (see checkpointRunState) - server-side only
+  checkpoint?: RunCheckpoint
+  // Client-facing state: stands in for the checkpoint (see redactRunStateForClients)
+  hasCheckpoint?: boolean
 }
 
 /**
@@ -195,8 +480,191 @@ export interface RunState {
   blockedCircuits: Record<string, boolean>
   // Completed circuits - when final node is hacked, circuit is complete
   completedCircuits: Record<string, boolean>
+  // Server dice: run seed and number of rolls made so far (SERVER dice mode)
+  // Server-side only - stripped before the state reaches any client
+  diceSeed?: string
+  diceSequence?: number
+  // ICE positions keyed by ICE id (initialized lazily for older runs)
+  ice?: Record<string, IceState>
+  // Trace meter (only when the project configures one)
+  trace?: TraceState
+  // Budgets (only when the project configures them)
+  runBudget?: BudgetState
+  circuitBudgets?: Record<string, BudgetState>
+  // Set when a budget or a critical BLACK ICE block ends the run - no further player actions
+  gameOver?: boolean
+  // Payloads extracted from compromised nodes, in extraction order
+  inventory?: InventoryItem[]
+  // Circuits reached so far (only with circuit gating)
+  unlockedCircuits?: string[]
+  // IDs of the triggers already fired (non-repeatable triggers fire once)
+  firedTriggers?: string[]
+  // Team runs: per-player positions keyed by userId (absent in solo runs)
+  // `position` always mirrors the position of the last player who acted
+  playerPositions?: Record<string, Position>
+}
+
+/**
+ * How a run ended: every circuit compromised, or game over
+ * Runs are archived automatically when they end
+ */
+export type RunEnding = 'COMPLETED' | 'GAME_OVER'
+
+/**
+ * What upgrading a run to another definition version changes
+ * Doubles as the dry-run report shown before activating the version
+ */
+export interface RunMigrationReport {
+  keptNodes: number
+  addedNodes: { id: string; name: string }[]
+  removedNodes: { id: string; name: string }[]
+  keptLinks: number // Links and portals
+  addedLinks: string[]
+  removedLinks: string[]
+  removedCircuits: { id: string; name: string }[]
+  // Players standing on removed nodes, sent to an entry node
+  movedPlayers: { userId?: string; from: Position; to: Position }[]
+}
+
+// =============================================================================
+// DICE TYPES (Server-side rolling)
+// =============================================================================
+
+/**
+ * Dice of a server-rolled hack: the project's expression, with the values
+ * the player gives to the modifiers it names
+ */
+export interface HackDiceInput {
+  expression: string // e.g. "1d20+INT+skill"
+  modifiers: Record<string, number> // Values for the named modifiers
+}
+
+/**
+ * Audit record of a server roll - reproducible from (seed, sequence)
+ */
+export interface DiceRollRecord {
+  seed?: string // Server-side only - stripped from client-facing state
+  sequence: number
+  expression: string
+  modifiers: Record<string, number>
+  rolls: number[] // Individual die results of phase 1
+  total: number // Phase 1 total (compared against CD)
+  failDie?: number // Phase 2 die size, when phase 2 was rolled
+  failDieRoll?: number // Kept fail die result
+  discardedFailDieRolls?: number[] // Critical results rerolled by the character, in order
+}
+
+// =============================================================================
+// CHARACTER TYPES (Decker profiles)
+// =============================================================================
+
+/**
+ * Program loaded in the decker's cyberdeck
+ */
+export interface CharacterProgram {
+  name: string
+  bonus: number // Added to phase 1 rolls
+}
+
+/**
+ * Decker profile - the stats a player brings into a run
+ */
+export interface CharacterProfile {
+  name: string
+  interface: number // Interface attribute, added to phase 1 rolls
+  deckBonus: number // Cyberdeck bonus, added to phase 1 rolls
+  programs: CharacterProgram[]
+  failDieBonus: number // Added to the fail die roll (capped at the fail die)
+  failDieRerolls: number // SERVER dice: critical fail die results rerolled per hack
+}
+
+/**
+ * Character of a player in a run
+ */
+export interface RunCharacterInfo extends CharacterProfile {
+  id: string
+  userId: string
+  updatedAt: Date
+}
+
+/**
+ * Options applied to a hack attempt
+ */
+export interface HackOptions {
+  character?: CharacterProfile | null
+}
+
+/**
+ * Why a hack came out the way it did - recorded on the outcome events
+ */
+export interface HackModifierBreakdown {
+  characterName: string
+  roll: number // Phase 1 roll as posted / rolled
+  interface: number
+  deckBonus: number
+  programs: CharacterProgram[]
+  total: number // Effective phase 1 value compared against the CD
+  failDieRoll?: number // Phase 2 roll as posted / rolled
+  failDieBonus?: number
+  failDieTotal?: number // Effective fail die value
+}
+
+// =============================================================================
+// TEAM RUN TYPES (Several players sharing one run)
+// =============================================================================
+
+/**
+ * Player performing an action in a run
+ */
+export interface RunActor {
+  userId: string
+  name?: string | null
 }
 
+/**
+ * Member of a team run
+ */
+export interface RunParticipantInfo {
+  userId: string
+  name: string | null
+  email: string
+  isOwner: boolean
+  joinedAt: Date
+}
+
+// =============================================================================
+// GM OVERRIDE TYPES (Live control console)
+// =============================================================================
+
+/**
+ * Override actions available to the GM during a live session
+ */
+export type GmActionType =
+  | 'FORCE_HACK'
+  | 'UNBLOCK_NODE'
+  | 'REVEAL_NODE'
+  | 'HIDE_NODE'
+  | 'SET_NODE_INACCESSIBLE'
+  | 'SET_LINK_INACCESSIBLE'
+  | 'UNLOCK_CIRCUIT'
+  | 'TELEPORT'
+  | 'INJECT_WARNING'
+
+/**
+ * A single GM override, applied directly to the run state
+ * bypassing the normal game rules
+ */
+export type GmAction =
+  | { type: 'FORCE_HACK'; nodeId: string }
+  | { type: 'UNBLOCK_NODE'; nodeId: string }
+  | { type: 'REVEAL_NODE'; nodeId: string }
+  | { type: 'HIDE_NODE'; nodeId: string }
+  | { type: 'SET_NODE_INACCESSIBLE'; nodeId: string; inaccesible: boolean }
+  | { type: 'SET_LINK_INACCESSIBLE'; linkId: string; inaccesible: boolean }
+  | { type: 'UNLOCK_CIRCUIT'; circuitId: string }
+  | { type: 'TELEPORT'; nodeId: string }
+  | { type: 'INJECT_WARNING'; severity: WarningSeverity; message: string; nodeId?: string }
+
 // =============================================================================
 // AUDIT & DEMO TYPES (Observation-only features)
 // =============================================================================
@@ -228,6 +696,13 @@ export interface CircuitAuditSummary {
   events: TimelineEvent[]
 }
 
+/**
+ * Payload extracted during the run, with its source node name
+ */
+export interface ExtractedPayloadAudit extends InventoryItem {
+  nodeName: string
+}
+
 /**
  * Full audit data for a run
  */
@@ -246,6 +721,10 @@ export interface RunAuditData {
   circuits: CircuitAuditSummary[]
   // Full timeline
   timeline: TimelineEvent[]
+  // GM interventions (GM_OVERRIDE and ROLLBACK events), listed apart from player actions
+  gmInterventions: TimelineEvent[]
+  // Payloads extracted from compromised nodes
+  extractedPayloads: ExtractedPayloadAudit[]
   // Current position (if viewing live state)
   currentPosition: Position
 }
@@ -279,6 +758,9 @@ export interface CreateRunResult {
   state: RunState
 }
 
+// Admin bulk maintenance: archive, restore (unarchive) or hard-purge old runs
+export type BulkRunAction = 'ARCHIVE' | 'RESTORE' | 'PURGE'
+
 export interface AttemptHackInput {
   runId: string
   nodeId: string
@@ -298,6 +780,11 @@ export interface AttemptHackResult {
   // Phase 2 support
   needsPhase2?: boolean // True if first roll failed and needs fail die roll
   failDie?: number // The fail die value (D3-D20) for phase 2 input validation
+  diceRoll?: DiceRollRecord // SERVER dice mode: the rolls made by the server
+  hackModifiers?: HackModifierBreakdown // Character modifiers applied to the rolls
+  payloads?: InventoryItem[] // Payloads extracted by this hack
+  discoveredNodes?: string[] // Neighbours exposed by a compromised FIREWALL
+  narrative?: string[] // Messages of the triggers fired by this action
 }
 
 export interface DiscoverLinksInput {
@@ -308,6 +795,7 @@ export interface DiscoverLinksResult {
   discoveredLinks: string[]
   discoveredNodes: string[]
   message: string
+  narrative?: string[] // Messages of the triggers fired by this action
 }
 
 export interface MoveToNodeInput {
@@ -319,6 +807,7 @@ export interface MoveToNodeResult {
   success: boolean
   newPosition: Position
   message: string
+  narrative?: string[] // Messages of the triggers fired by this action
 }
 
 export interface SwitchCircuitInput {
@@ -331,3 +820,22 @@ export interface SwitchCircuitResult {
   newPosition: Position
   message: string
 }
+
+export interface GmActionResult {
+  success: boolean
+  message: string
+}
+
+/**
+ * Live update pushed to subscribers after every committed state write
+ * (see GET /api/runs/:runId/events)
+ */
+export interface RunUpdateEvent {
+  runId: string
+  revision: number
+  state: RunState
+  // Deltas since the previous revision
+  events: TimelineEvent[]
+  warnings: Warning[]
+  positionChanged: boolean
+}
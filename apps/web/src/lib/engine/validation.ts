@@ -4,7 +4,7 @@
 // Extended validation with business rules for the editor
 
 import { z } from 'zod'
-import type { ProjectData } from './types'
+import type { ProjectData, BudgetConfig, AccessRequirement, TriggerAction } from './types'
 import { ProjectDataSchema } from './schemas'
 
 // =============================================================================
@@ -17,9 +17,25 @@ export interface ValidationError {
   message: string
 }
 
+/**
+ * How much a graph warning matters to playability
+ * CRITICAL: the adventure cannot be completed
+ * WARNING: part of the world can never be played
+ * INFO: probably unintended, but playable
+ */
+export type ValidationSeverity = 'CRITICAL' | 'WARNING' | 'INFO'
+
+/**
+ * Non-blocking finding of the graph analysis - saving is still allowed
+ */
+export interface ValidationWarning extends ValidationError {
+  severity: ValidationSeverity
+}
+
 export interface ValidationResult {
   valid: boolean
   errors: ValidationError[]
+  warnings: ValidationWarning[] // Only computed when the schema is valid
 }
 
 // =============================================================================
@@ -49,6 +65,23 @@ function convertZodErrors(zodError: z.ZodError): ValidationError[] {
  * 6. Unique circuit IDs within project
  * 7. CD must be >= 0 (0 allowed for entry nodes)
  * 8. failDie must be in range 3-20 if present (defaults to D4 via schema)
+ * 9. ICE: unique IDs within project, start/route nodes exist, consecutive
+ *    route nodes are linked, EVERY_N_ACTIONS needs everyNActions
+ * 10. Trace meter: threshold values are unique
+ * 11. Budgets: at least an action or time limit; SWITCH_CIRCUIT targets
+ *     another existing circuit
+ * 12. Payload IDs are unique within project
+ * 13. Access requirements reference existing payloads and nodes
+ * 14. Portals: unique IDs (links included), both ends exist, ends are in
+ *     different circuits
+ * 15. Triggers: unique IDs within project, link triggers only fire on
+ *     ON_ENTER / ON_DISCOVER, actions reference existing nodes, links and
+ *     circuits
+ * 16. Node types: datastores hold at least one payload, control nodes have
+ *     a target that exists and is not the node itself
+ *
+ * Playability findings (analyzeProjectGraph) come back as warnings and do not
+ * make the data invalid.
  */
 export function validateProjectDataFull(data: unknown): ValidationResult {
   const errors: ValidationError[] = []
@@ -59,6 +92,7 @@ export function validateProjectDataFull(data: unknown): ValidationResult {
     return {
       valid: false,
       errors: convertZodErrors(zodResult.error),
+      warnings: [],
     }
   }
 
@@ -68,6 +102,10 @@ export function validateProjectDataFull(data: unknown): ValidationResult {
 
   // Rule: Unique circuit IDs
   const seenCircuitIds = new Set<string>()
+  // ICE state is keyed by ICE id, so IDs are unique across the project
+  const seenIceIds = new Set<string>()
+  // The run inventory is keyed by payload id
+  const seenPayloadIds = new Set<string>()
   for (let circuitIdx = 0; circuitIdx < projectData.circuits.length; circuitIdx++) {
     const circuit = projectData.circuits[circuitIdx]
 
@@ -124,6 +162,18 @@ export function validateProjectDataFull(data: unknown): ValidationResult {
           message: `Dado de fallo debe ser entre D3 y D20 en nodo "${node.name}" (valor: D${node.failDie})`,
         })
       }
+
+      // Rule: Unique payload IDs within project
+      node.payloads?.forEach((payload, payloadIdx) => {
+        if (seenPayloadIds.has(payload.id)) {
+          errors.push({
+            path: ['circuits', circuitIdx, 'nodes', nodeIdx, 'payloads', payloadIdx, 'id'],
+            code: 'DUPLICATE_PAYLOAD_ID',
+            message: `ID de payload duplicado: "${payload.id}"`,
+          })
+        }
+        seenPayloadIds.add(payload.id)
+      })
     }
 
     // Rule: Unique link IDs within circuit
@@ -167,12 +217,463 @@ export function validateProjectDataFull(data: unknown): ValidationResult {
         })
       }
     }
+
+    // ICE patrol routes may use any link, hidden or not, in either direction
+    const linkedPairs = new Set(circuit.links.flatMap((l) => [`${l.from}>${l.to}`, `${l.to}>${l.from}`]))
+    const iceList = circuit.ice ?? []
+    for (let iceIdx = 0; iceIdx < iceList.length; iceIdx++) {
+      const ice = iceList[iceIdx]
+      const icePath = ['circuits', circuitIdx, 'ice', iceIdx]
+
+      // Rule: Unique ICE IDs within project
+      if (seenIceIds.has(ice.id)) {
+        errors.push({
+          path: [...icePath, 'id'],
+          code: 'DUPLICATE_ICE_ID',
+          message: `ID de ICE duplicado: "${ice.id}"`,
+        })
+      }
+      seenIceIds.add(ice.id)
+
+      // Rule: Start and route nodes must exist in the circuit
+      const route = [ice.startNodeId, ...ice.patrolRoute]
+      const missing = route.filter((nodeId) => !nodeIds.has(nodeId))
+      if (missing.length > 0) {
+        errors.push({
+          path: [...icePath, 'patrolRoute'],
+          code: 'ICE_UNKNOWN_NODE',
+          message: `ICE "${ice.name}" referencia nodos inexistentes: ${missing.map((id) => `"${id}"`).join(', ')}`,
+        })
+        continue
+      }
+
+      // Rule: Consecutive route nodes must be connected by a link
+      for (let step = 1; step < route.length; step++) {
+        if (!linkedPairs.has(`${route[step - 1]}>${route[step]}`)) {
+          errors.push({
+            path: [...icePath, 'patrolRoute', step - 1],
+            code: 'ICE_ROUTE_NOT_LINKED',
+            message: `Ruta del ICE "${ice.name}": no hay enlace entre "${route[step - 1]}" y "${route[step]}"`,
+          })
+        }
+      }
+
+      // Rule: EVERY_N_ACTIONS needs the action interval
+      if (ice.triggers.includes('EVERY_N_ACTIONS') && !ice.everyNActions) {
+        errors.push({
+          path: [...icePath, 'everyNActions'],
+          code: 'ICE_MISSING_INTERVAL',
+          message: `ICE "${ice.name}" se activa cada N acciones pero no define N`,
+        })
+      }
+    }
+  }
+
+  // Rule: Access requirements reference existing payloads / nodes (any circuit)
+  const allNodeIds = new Set(projectData.circuits.flatMap((c) => c.nodes.map((n) => n.id)))
+  const gated: { requires?: AccessRequirement[]; path: (string | number)[] }[] = [
+    ...projectData.circuits.flatMap((circuit, circuitIdx) => [
+      ...circuit.nodes.map((node, idx) => ({ requires: node.requires, path: ['circuits', circuitIdx, 'nodes', idx] })),
+      ...circuit.links.map((link, idx) => ({ requires: link.requires, path: ['circuits', circuitIdx, 'links', idx] })),
+    ]),
+    ...(projectData.portals ?? []).map((portal, idx) => ({ requires: portal.requires, path: ['portals', idx] })),
+  ]
+  for (const { requires, path } of gated) {
+    requires?.forEach((requirement, requirementIdx) => {
+      if (requirement.type === 'KEY' && !seenPayloadIds.has(requirement.payloadId)) {
+        errors.push({
+          path: [...path, 'requires', requirementIdx, 'payloadId'],
+          code: 'REQUIREMENT_UNKNOWN_PAYLOAD',
+          message: `Requisito de acceso referencia un payload inexistente: "${requirement.payloadId}"`,
+        })
+      }
+      if (requirement.type === 'NODE_HACKED' && !allNodeIds.has(requirement.nodeId)) {
+        errors.push({
+          path: [...path, 'requires', requirementIdx, 'nodeId'],
+          code: 'REQUIREMENT_UNKNOWN_NODE',
+          message: `Requisito de acceso referencia un nodo inexistente: "${requirement.nodeId}"`,
+        })
+      }
+    })
+  }
+
+  // Rule: Portals - their state shares the link map, so IDs are unique among links too
+  const allLinkIds = new Set(projectData.circuits.flatMap((c) => c.links.map((l) => l.id)))
+  const seenPortalIds = new Set<string>()
+  projectData.portals?.forEach((portal, portalIdx) => {
+    if (seenPortalIds.has(portal.id) || allLinkIds.has(portal.id)) {
+      errors.push({
+        path: ['portals', portalIdx, 'id'],
+        code: 'DUPLICATE_PORTAL_ID',
+        message: `ID de portal duplicado: "${portal.id}"`,
+      })
+    }
+    seenPortalIds.add(portal.id)
+
+    const ends = [
+      { side: 'from', circuitId: portal.fromCircuitId, nodeId: portal.fromNodeId },
+      { side: 'to', circuitId: portal.toCircuitId, nodeId: portal.toNodeId },
+    ]
+    for (const end of ends) {
+      const circuit = projectData.circuits.find((c) => c.id === end.circuitId)
+      if (!circuit) {
+        errors.push({
+          path: ['portals', portalIdx, `${end.side}CircuitId`],
+          code: 'PORTAL_UNKNOWN_CIRCUIT',
+          message: `Portal "${portal.id}" referencia un circuito inexistente: "${end.circuitId}"`,
+        })
+      } else if (!circuit.nodes.some((n) => n.id === end.nodeId)) {
+        errors.push({
+          path: ['portals', portalIdx, `${end.side}NodeId`],
+          code: 'PORTAL_UNKNOWN_NODE',
+          message: `Portal "${portal.id}" referencia un nodo inexistente en "${circuit.name}": "${end.nodeId}"`,
+        })
+      }
+    }
+
+    if (portal.fromCircuitId === portal.toCircuitId) {
+      errors.push({
+        path: ['portals', portalIdx],
+        code: 'PORTAL_SAME_CIRCUIT',
+        message: `Portal "${portal.id}" debe conectar dos circuitos distintos`,
+      })
+    }
+  })
+
+  // Rule: Triggers - fired triggers are tracked by ID across the run
+  const isKnownLink = (linkId: string) => allLinkIds.has(linkId) || seenPortalIds.has(linkId)
+  const missingTarget = (action: TriggerAction): string | null => {
+    if ('nodeId' in action && !allNodeIds.has(action.nodeId)) return `nodo "${action.nodeId}"`
+    if ('linkId' in action && !isKnownLink(action.linkId)) return `enlace "${action.linkId}"`
+    if ('circuitId' in action && !seenCircuitIds.has(action.circuitId)) return `circuito "${action.circuitId}"`
+    return null
+  }
+  const seenTriggerIds = new Set<string>()
+  const scripted = projectData.circuits.flatMap((circuit, circuitIdx) => [
+    ...circuit.nodes.map((node, idx) => ({ triggers: node.triggers, isLink: false, path: ['circuits', circuitIdx, 'nodes', idx] })),
+    ...circuit.links.map((link, idx) => ({ triggers: link.triggers, isLink: true, path: ['circuits', circuitIdx, 'links', idx] })),
+  ])
+  for (const { triggers, isLink, path } of scripted) {
+    triggers?.forEach((trigger, triggerIdx) => {
+      const triggerPath = [...path, 'triggers', triggerIdx]
+
+      if (seenTriggerIds.has(trigger.id)) {
+        errors.push({
+          path: [...triggerPath, 'id'],
+          code: 'DUPLICATE_TRIGGER_ID',
+          message: `ID de disparador duplicado: "${trigger.id}"`,
+        })
+      }
+      seenTriggerIds.add(trigger.id)
+
+      if (isLink && (trigger.on === 'ON_HACK' || trigger.on === 'ON_FAIL')) {
+        errors.push({
+          path: [...triggerPath, 'on'],
+          code: 'TRIGGER_INVALID_EVENT',
+          message: `El disparador "${trigger.id}" de un enlace solo puede activarse al entrar o al descubrirlo`,
+        })
+      }
+
+      trigger.actions.forEach((action, actionIdx) => {
+        const missing = missingTarget(action)
+        if (missing) {
+          errors.push({
+            path: [...triggerPath, 'actions', actionIdx],
+            code: 'TRIGGER_UNKNOWN_TARGET',
+            message: `El disparador "${trigger.id}" referencia un ${missing} inexistente`,
+          })
+        }
+      })
+    })
+  }
+
+  // Rule: Node types need what their mechanics act on
+  projectData.circuits.forEach((circuit, circuitIdx) => {
+    circuit.nodes.forEach((node, nodeIdx) => {
+      const nodePath = ['circuits', circuitIdx, 'nodes', nodeIdx]
+
+      if (node.type === 'DATASTORE' && !node.payloads?.length) {
+        errors.push({
+          path: [...nodePath, 'payloads'],
+          code: 'DATASTORE_WITHOUT_PAYLOAD',
+          message: `El almacén de datos "${node.name}" debe contener al menos un payload`,
+        })
+      }
+
+      if (node.type !== 'CONTROL') return
+      const target = node.controls
+      if (!target) {
+        errors.push({
+          path: [...nodePath, 'controls'],
+          code: 'CONTROL_WITHOUT_TARGET',
+          message: `El nodo de control "${node.name}" debe tener un objetivo`,
+        })
+      } else if (target.type === 'NODE' ? !allNodeIds.has(target.nodeId) : !seenCircuitIds.has(target.circuitId)) {
+        errors.push({
+          path: [...nodePath, 'controls'],
+          code: 'CONTROL_UNKNOWN_TARGET',
+          message: `El nodo de control "${node.name}" referencia un objetivo inexistente`,
+        })
+      } else if (target.type === 'NODE' && target.nodeId === node.id) {
+        errors.push({
+          path: [...nodePath, 'controls'],
+          code: 'CONTROL_SELF_TARGET',
+          message: `El nodo de control "${node.name}" no puede controlarse a sí mismo`,
+        })
+      }
+    })
+  })
+
+  // Rule: Trace meter thresholds fire in value order - one per value
+  const seenThresholds = new Set<number>()
+  projectData.meta.trace?.thresholds.forEach((threshold, thresholdIdx) => {
+    if (seenThresholds.has(threshold.value)) {
+      errors.push({
+        path: ['meta', 'trace', 'thresholds', thresholdIdx, 'value'],
+        code: 'DUPLICATE_TRACE_THRESHOLD',
+        message: `Umbral de rastreo duplicado: ${threshold.value}`,
+      })
+    }
+    seenThresholds.add(threshold.value)
+  })
+
+  // Rule: Budgets need a limit, and SWITCH_CIRCUIT a valid target circuit
+  const budgets: { budget: BudgetConfig; path: (string | number)[]; circuitId?: string }[] = []
+  if (projectData.meta.budget) {
+    budgets.push({ budget: projectData.meta.budget, path: ['meta', 'budget'] })
+  }
+  projectData.circuits.forEach((circuit, circuitIdx) => {
+    if (circuit.budget) {
+      budgets.push({ budget: circuit.budget, path: ['circuits', circuitIdx, 'budget'], circuitId: circuit.id })
+    }
+  })
+
+  for (const { budget, path, circuitId } of budgets) {
+    if (budget.actions === undefined && budget.seconds === undefined) {
+      errors.push({
+        path,
+        code: 'BUDGET_WITHOUT_LIMIT',
+        message: 'El límite debe definir acciones o tiempo',
+      })
+    }
+    if (budget.onExpire === 'SWITCH_CIRCUIT') {
+      const target = budget.switchToCircuitId
+      if (!target || target === circuitId || !seenCircuitIds.has(target)) {
+        errors.push({
+          path: [...path, 'switchToCircuitId'],
+          code: 'BUDGET_INVALID_SWITCH_TARGET',
+          message: target
+            ? `Circuito destino inválido al agotar el límite: "${target}"`
+            : 'Falta el circuito destino al agotar el límite',
+        })
+      }
+    }
   }
 
   return {
     valid: errors.length === 0,
     errors,
+    warnings: analyzeProjectGraph(projectData),
+  }
+}
+
+// =============================================================================
+// GRAPH ANALYSIS (playability warnings)
+// =============================================================================
+
+interface GraphEdge {
+  from: string // `${circuitId}/${nodeId}`
+  to: string
+  hidden: boolean // Scanning from `from` reveals `to`
+  oneWay: boolean
+}
+
+/**
+ * Playability analysis of the node graph - findings are warnings, not errors
+ *
+ * Walks the world the way a run does: from the level-0 entries (only the
+ * first circuit's when circuits are gated; a circuit opens once reached
+ * through a portal), along links and portals in their allowed direction,
+ * into nodes that are visible, revealed by scanning a hidden link, or
+ * revealed by a trigger.
+ *
+ * Findings:
+ * - FINAL_NODE_UNREACHABLE: no path from an entry to a final node
+ * - UNREACHABLE_NODE: node no path leads to
+ * - HIDDEN_NODE_NEVER_REVEALED: hidden node with no hidden link, portal or
+ *   trigger to reveal it
+ * - HIDDEN_CHAIN_UNREACHABLE: hidden links that can never be scanned
+ * - MULTIPLE_FINAL_NODES: more than one isFinal node in a circuit
+ * - ONE_WAY_TRAP: one-way link into a node with no way out
+ */
+export function analyzeProjectGraph(data: ProjectData): ValidationWarning[] {
+  const warnings: ValidationWarning[] = []
+  const key = (circuitId: string, nodeId: string) => `${circuitId}/${nodeId}`
+
+  // Edges in their traversable direction
+  const edges: GraphEdge[] = []
+  const addEdge = (from: string, to: string, hidden: boolean, bidirectional?: boolean) => {
+    edges.push({ from, to, hidden, oneWay: bidirectional === false })
+    if (bidirectional !== false) edges.push({ from: to, to: from, hidden, oneWay: false })
   }
+  for (const circuit of data.circuits) {
+    for (const link of circuit.links) {
+      addEdge(key(circuit.id, link.from), key(circuit.id, link.to), link.hidden, link.bidirectional)
+    }
+  }
+  for (const portal of data.portals ?? []) {
+    addEdge(
+      key(portal.fromCircuitId, portal.fromNodeId),
+      key(portal.toCircuitId, portal.toNodeId),
+      portal.hidden,
+      portal.bidirectional
+    )
+  }
+
+  // Nodes a trigger reveals (REVEAL_LINK reveals both ends)
+  const revealedNodeIds = new Set<string>()
+  const linkEnds = new Map<string, string[]>([
+    ...data.circuits.flatMap((c) => c.links.map((l) => [l.id, [l.from, l.to]] as [string, string[]])),
+    ...(data.portals ?? []).map((p) => [p.id, [p.fromNodeId, p.toNodeId]] as [string, string[]]),
+  ])
+  const scripted = data.circuits.flatMap((c) => [...c.nodes, ...c.links])
+  for (const action of scripted.flatMap((entity) => entity.triggers ?? []).flatMap((t) => t.actions)) {
+    if (action.type === 'REVEAL_NODE') revealedNodeIds.add(action.nodeId)
+    if (action.type === 'REVEAL_LINK') linkEnds.get(action.linkId)?.forEach((id) => revealedNodeIds.add(id))
+  }
+
+  // Fixpoint walk: reaching a node may reveal (hidden edges) or open (portals) more
+  const discovered = new Set<string>()
+  const reachable = new Set<string>()
+  const openCircuit = (circuitId: string) => {
+    const circuit = data.circuits.find((c) => c.id === circuitId)
+    circuit?.nodes.filter((n) => n.level === 0).forEach((n) => {
+      discovered.add(key(circuit.id, n.id))
+      reachable.add(key(circuit.id, n.id))
+    })
+  }
+  for (const circuit of data.circuits) {
+    for (const node of circuit.nodes) {
+      if (node.visibleByDefault || revealedNodeIds.has(node.id)) discovered.add(key(circuit.id, node.id))
+    }
+  }
+  const gated = data.meta.circuitGating === true
+  const circuitOf = (nodeKey: string) => nodeKey.slice(0, nodeKey.indexOf('/'))
+  const opened = new Set(gated ? data.circuits.slice(0, 1).map((c) => c.id) : data.circuits.map((c) => c.id))
+  opened.forEach(openCircuit)
+
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const edge of edges) {
+      if (!reachable.has(edge.from)) continue
+      if (edge.hidden && !discovered.has(edge.to)) {
+        discovered.add(edge.to)
+        changed = true
+      }
+      if (discovered.has(edge.to) && !reachable.has(edge.to)) {
+        reachable.add(edge.to)
+        changed = true
+        const circuitId = circuitOf(edge.to)
+        if (!opened.has(circuitId)) {
+          opened.add(circuitId)
+          openCircuit(circuitId)
+        }
+      }
+    }
+  }
+
+  data.circuits.forEach((circuit, circuitIdx) => {
+    const nodePath = (nodeId: string) => ['circuits', circuitIdx, 'nodes', circuit.nodes.findIndex((n) => n.id === nodeId)]
+
+    // Unreachable nodes, by what is most likely wrong with them
+    for (const node of circuit.nodes) {
+      const nodeKey = key(circuit.id, node.id)
+      if (reachable.has(nodeKey)) continue
+
+      const revealable = discovered.has(nodeKey) || edges.some((e) => e.to === nodeKey && e.hidden)
+      if (node.isFinal) {
+        warnings.push({
+          path: nodePath(node.id),
+          code: 'FINAL_NODE_UNREACHABLE',
+          severity: 'CRITICAL',
+          message: `El nodo final "${node.name}" no es alcanzable desde ninguna entrada: "${circuit.name}" no se puede completar`,
+        })
+      } else if (!revealable) {
+        warnings.push({
+          path: nodePath(node.id),
+          code: 'HIDDEN_NODE_NEVER_REVEALED',
+          severity: 'WARNING',
+          message: `El nodo oculto "${node.name}" no tiene enlace oculto ni disparador que lo revele`,
+        })
+      } else {
+        warnings.push({
+          path: nodePath(node.id),
+          code: 'UNREACHABLE_NODE',
+          severity: 'WARNING',
+          message: `El nodo "${node.name}" no es alcanzable desde ninguna entrada`,
+        })
+      }
+    }
+
+    // Hidden links no reachable node can scan, grouped in chains sharing nodes
+    const unscannable = circuit.links.filter(
+      (link) =>
+        link.hidden &&
+        !reachable.has(key(circuit.id, link.from)) &&
+        (link.bidirectional === false || !reachable.has(key(circuit.id, link.to)))
+    )
+    const pending = new Set(unscannable)
+    for (const first of unscannable) {
+      if (!pending.has(first)) continue
+      pending.delete(first)
+      const chain = [first]
+      for (let i = 0; i < chain.length; i++) {
+        for (const link of Array.from(pending)) {
+          const ends = [chain[i].from, chain[i].to]
+          if (ends.includes(link.from) || ends.includes(link.to)) {
+            pending.delete(link)
+            chain.push(link)
+          }
+        }
+      }
+      const names = Array.from(new Set(chain.flatMap((l) => [l.from, l.to])))
+        .map((id) => circuit.nodes.find((n) => n.id === id)?.name ?? id)
+      warnings.push({
+        path: ['circuits', circuitIdx, 'links', circuit.links.indexOf(first)],
+        code: 'HIDDEN_CHAIN_UNREACHABLE',
+        severity: 'WARNING',
+        message: `Cadena de enlaces ocultos que nunca se puede descubrir en "${circuit.name}": ${names.join(' · ')}`,
+      })
+    }
+
+    const finals = circuit.nodes.filter((n) => n.isFinal)
+    if (finals.length > 1) {
+      warnings.push({
+        path: ['circuits', circuitIdx],
+        code: 'MULTIPLE_FINAL_NODES',
+        severity: 'INFO',
+        message: `El circuito "${circuit.name}" tiene ${finals.length} nodos finales: ${finals.map((n) => `"${n.name}"`).join(', ')}`,
+      })
+    }
+
+    // One-way link into a node with no way out (final nodes end the circuit anyway)
+    for (const node of circuit.nodes) {
+      const nodeKey = key(circuit.id, node.id)
+      if (node.isFinal || !reachable.has(nodeKey)) continue
+      const trapped = edges.some((e) => e.to === nodeKey && e.oneWay) && !edges.some((e) => e.from === nodeKey)
+      if (trapped) {
+        warnings.push({
+          path: nodePath(node.id),
+          code: 'ONE_WAY_TRAP',
+          severity: 'WARNING',
+          message: `Un enlace de un solo sentido lleva a "${node.name}", que no tiene salida`,
+        })
+      }
+    }
+  })
+
+  return warnings
 }
 
 /**
@@ -196,6 +697,7 @@ export function validateProjectDataFromJson(jsonString: string): ValidationResul
           message: `JSON inválido: ${e instanceof Error ? e.message : 'Error de sintaxis'}`,
         },
       ],
+      warnings: [],
     }
   }
 }
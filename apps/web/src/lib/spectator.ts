@@ -0,0 +1,261 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@rolhack/database'
+import { redactRunStateForClients } from './engine'
+import type { ProjectData, RunState, RunUpdateEvent, NodeState, TimelineEvent } from './engine'
+
+// ============================================
+// SPECTATOR TOKENS
+// ============================================
+// Read-only share links that work without login.
+// Token format: <tokenId>.<expiresAtEpoch>.<signature>
+// The signature binds the token to its run and expiry (HMAC with AUTH_SECRET);
+// the database row allows revocation before expiry.
+
+export interface SpectatorTokenInfo {
+  id: string
+  label: string | null
+  token: string
+  expiresAt: Date
+  revokedAt: Date | null
+  lastUsedAt: Date | null
+  createdAt: Date
+  createdByName: string | null
+}
+
+// Allowed validity window for new links
+export const SPECTATOR_TOKEN_MAX_HOURS = 30 * 24
+
+function getSigningSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required to sign spectator tokens')
+  }
+  return secret
+}
+
+function sign(tokenId: string, runId: string, expiresAtEpoch: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${tokenId}.${runId}.${expiresAtEpoch}`)
+    .digest('base64url')
+}
+
+/**
+ * Build the signed token string for a stored token row
+ */
+function buildToken(tokenId: string, runId: string, expiresAt: Date): string {
+  const expiresAtEpoch = Math.floor(expiresAt.getTime() / 1000)
+  return `${tokenId}.${expiresAtEpoch}.${sign(tokenId, runId, expiresAtEpoch)}`
+}
+
+// ============================================
+// MANAGEMENT (authorized via canManageRun)
+// ============================================
+
+/**
+ * Create a new spectator link for a run
+ */
+export async function createSpectatorToken(
+  runId: string,
+  userId: string,
+  options: { expiresInHours: number; label?: string }
+): Promise<SpectatorTokenInfo> {
+  const hours = Math.min(Math.max(options.expiresInHours, 1), SPECTATOR_TOKEN_MAX_HOURS)
+  // Whole seconds, so the stored expiry matches the signed one
+  const expiresAt = new Date(Math.floor((Date.now() + hours * 60 * 60 * 1000) / 1000) * 1000)
+
+  const row = await prisma.spectatorToken.create({
+    data: {
+      runId,
+      createdByUserId: userId,
+      label: options.label || null,
+      expiresAt,
+    },
+    include: { createdBy: { select: { name: true } } },
+  })
+
+  return {
+    id: row.id,
+    label: row.label,
+    token: buildToken(row.id, runId, row.expiresAt),
+    expiresAt: row.expiresAt,
+    revokedAt: row.revokedAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+    createdByName: row.createdBy.name,
+  }
+}
+
+/**
+ * List the active (not revoked, not expired) spectator links of a run
+ */
+export async function listSpectatorTokens(runId: string): Promise<SpectatorTokenInfo[]> {
+  const rows = await prisma.spectatorToken.findMany({
+    where: {
+      runId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    include: { createdBy: { select: { name: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return rows.map((row) => ({
+    id: row.id,
+    label: row.label,
+    token: buildToken(row.id, runId, row.expiresAt),
+    expiresAt: row.expiresAt,
+    revokedAt: row.revokedAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+    createdByName: row.createdBy.name,
+  }))
+}
+
+/**
+ * Revoke a spectator link
+ * Returns false if the token does not belong to the run
+ */
+export async function revokeSpectatorToken(runId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.spectatorToken.updateMany({
+    where: { id: tokenId, runId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
+
+// ============================================
+// VERIFICATION (public, no session)
+// ============================================
+
+/**
+ * Verify a spectator token
+ * Returns the run it grants access to, or null if invalid, expired or revoked
+ */
+export async function verifySpectatorToken(
+  token: string
+): Promise<{ tokenId: string; runId: string } | null> {
+  const [tokenId, epochPart, signature] = token.split('.')
+  const expiresAtEpoch = Number(epochPart)
+
+  if (!tokenId || !signature || !Number.isInteger(expiresAtEpoch)) return null
+  if (expiresAtEpoch * 1000 <= Date.now()) return null
+
+  const row = await prisma.spectatorToken.findUnique({
+    where: { id: tokenId },
+    select: { runId: true, expiresAt: true, revokedAt: true },
+  })
+
+  if (!row || row.revokedAt) return null
+  if (Math.floor(row.expiresAt.getTime() / 1000) !== expiresAtEpoch) return null
+
+  const expected = Buffer.from(sign(tokenId, row.runId, expiresAtEpoch))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  return { tokenId, runId: row.runId }
+}
+
+/**
+ * Record that a spectator link was used (best effort)
+ */
+export async function touchSpectatorToken(tokenId: string): Promise<void> {
+  await prisma.spectatorToken
+    .update({ where: { id: tokenId }, data: { lastUsedAt: new Date() } })
+    .catch(() => {})
+}
+
+// ============================================
+// REDACTION
+// ============================================
+
+/**
+ * Strip hack rules from the world definition before sending it to spectators
+ * CD, fail die and fail modes are zeroed/neutralized - the view never shows them
+ */
+export function redactProjectDataForSpectators(data: ProjectData): ProjectData {
+  return {
+    ...data,
+    circuits: data.circuits.map((circuit) => ({
+      ...circuit,
+      nodes: circuit.nodes.map((node) => ({
+        ...node,
+        cd: 0,
+        failDie: 0,
+        criticalFailMode: 'WARNING' as const,
+        rangeFailMode: 'WARNING' as const,
+        rangeErrorMessage: undefined,
+        // Extracted payloads are part of the run inventory
+        payloads: undefined,
+      })),
+      // Patrol routes would reveal hidden nodes; current ICE positions live in the run state
+      ice: circuit.ice?.map((ice) => ({ ...ice, patrolRoute: [] })),
+    })),
+  }
+}
+
+// Fail die results in DICE_ROLLED descriptions (quoted again by rollback/fork events)
+const FAIL_DIE_DESCRIPTION = / · dado de fallo d\d+ = \d+(?: \(repetido tras [\d, ]+\))?/g
+
+function redactNodeStates(nodes: Record<string, NodeState>): Record<string, NodeState> {
+  return Object.fromEntries(
+    Object.entries(nodes).map(([nodeId, node]) => {
+      const redacted = { ...node }
+      delete redacted.cdModifier
+      return [nodeId, redacted]
+    })
+  )
+}
+
+/**
+ * Timeline event without the hack rules behind it
+ * Fail die rolls, character modifiers and CD changes stay hidden; the GM
+ * rollback checkpoint (a full state copy) is dropped
+ */
+function redactTimelineEventForSpectators(event: TimelineEvent): TimelineEvent {
+  const redacted: TimelineEvent = {
+    ...event,
+    description: event.description.replace(FAIL_DIE_DESCRIPTION, ''),
+    snapshot: { ...event.snapshot, nodes: redactNodeStates(event.snapshot.nodes) },
+  }
+  delete redacted.checkpoint
+  delete redacted.hasCheckpoint
+
+  if (event.details) {
+    const details = { ...event.details }
+    delete details.hackModifiers
+    if (details.diceRoll) {
+      const { sequence, expression, modifiers, rolls, total } = details.diceRoll
+      details.diceRoll = { sequence, expression, modifiers, rolls, total }
+    }
+    redacted.details = details
+  }
+
+  return redacted
+}
+
+/**
+ * Strip hack rules from the run state before sending it to spectators
+ * Applied to the page snapshot and to every live update
+ */
+export function redactRunStateForSpectators(state: RunState): RunState {
+  const redacted = redactRunStateForClients(state)
+  return {
+    ...redacted,
+    nodes: redactNodeStates(redacted.nodes),
+    timeline: redacted.timeline.map(redactTimelineEventForSpectators),
+    trace: redacted.trace && { ...redacted.trace, cdIncrease: 0 },
+  }
+}
+
+/**
+ * Live update as sent to spectators
+ */
+export function redactRunUpdateForSpectators(update: RunUpdateEvent): RunUpdateEvent {
+  return {
+    ...update,
+    state: redactRunStateForSpectators(update.state),
+    events: update.events.map(redactTimelineEventForSpectators),
+  }
+}
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "run_participants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "run_participants_runId_fkey" FOREIGN KEY ("runId") REFERENCES "runs" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "run_participants_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "run_participants_userId_idx" ON "run_participants"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "run_participants_runId_userId_key" ON "run_participants"("runId", "userId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "characters" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "runId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "interface" INTEGER NOT NULL DEFAULT 0,
+    "deckBonus" INTEGER NOT NULL DEFAULT 0,
+    "programs" TEXT NOT NULL DEFAULT '[]',
+    "failDieBonus" INTEGER NOT NULL DEFAULT 0,
+    "failDieRerolls" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "characters_runId_fkey" FOREIGN KEY ("runId") REFERENCES "runs" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "characters_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "characters_userId_idx" ON "characters"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "characters_runId_userId_key" ON "characters"("runId", "userId");
@@ -0,0 +1,31 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_runs" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "definitionId" TEXT NOT NULL,
+    "ownerUserId" TEXT NOT NULL,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "state" TEXT NOT NULL DEFAULT '{}',
+    "revision" INTEGER NOT NULL DEFAULT 0,
+    "parentRunId" TEXT,
+    "forkedFromEventId" TEXT,
+    "deletedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "runs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "runs_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "project_definitions" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "runs_ownerUserId_fkey" FOREIGN KEY ("ownerUserId") REFERENCES "users" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "runs_parentRunId_fkey" FOREIGN KEY ("parentRunId") REFERENCES "runs" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_runs" ("createdAt", "definitionId", "deletedAt", "id", "name", "ownerUserId", "projectId", "revision", "state", "status", "updatedAt") SELECT "createdAt", "definitionId", "deletedAt", "id", "name", "ownerUserId", "projectId", "revision", "state", "status", "updatedAt" FROM "runs";
+DROP TABLE "runs";
+ALTER TABLE "new_runs" RENAME TO "runs";
+CREATE INDEX "runs_projectId_idx" ON "runs"("projectId");
+CREATE INDEX "runs_ownerUserId_idx" ON "runs"("ownerUserId");
+CREATE INDEX "runs_definitionId_idx" ON "runs"("definitionId");
+CREATE INDEX "runs_parentRunId_idx" ON "runs"("parentRunId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
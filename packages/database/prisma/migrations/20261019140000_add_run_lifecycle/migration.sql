@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "runs" ADD COLUMN "archivedAt" DATETIME;
+ALTER TABLE "runs" ADD COLUMN "ending" TEXT;
+ALTER TABLE "runs" ADD COLUMN "endedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "runs_status_idx" ON "runs"("status");
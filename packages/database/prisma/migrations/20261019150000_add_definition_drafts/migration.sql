@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "definition_drafts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "baseDefinitionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "definition_drafts_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "definition_drafts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "definition_drafts_userId_idx" ON "definition_drafts"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "definition_drafts_projectId_userId_key" ON "definition_drafts"("projectId", "userId");